@@ -0,0 +1,13 @@
+#!/usr/bin/env node
+
+/**
+ * bugment 命令入口
+ * 通过 tsx 直接运行 src/cli.ts，与 npm run review 使用相同的源码
+ */
+require("tsx/cjs/api").register();
+
+require("../src/cli")
+  .main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  });
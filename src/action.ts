@@ -1,15 +1,56 @@
 import * as core from "@actions/core";
+import * as github from "@actions/github";
+import * as fs from "fs";
+import * as path from "path";
 import { GitHubService } from "./services/GitHubService";
 import { GitService } from "./services/GitService";
 import { AugmentService } from "./services/AugmentService";
 import { ReviewService } from "./services/ReviewService";
+import { ChunkedReviewService } from "./services/ChunkedReviewService";
+import { CheckRunService } from "./services/CheckRunService";
+import { ReviewBackendFactory } from "./services/ReviewBackendFactory";
 import { DiffParser } from "./parsers/DiffParser";
+import { DiffPositionIndex } from "./parsers/DiffPositionIndex";
 import { JsonReviewResultParser } from "./parsers/JsonReviewResultParser";
 import { CommentFormatter } from "./formatters/CommentFormatter";
 import { ReviewFormatter } from "./formatters/ReviewFormatter";
+import { SarifFormatter } from "./formatters/SarifFormatter";
+import { FeedbackFormatter } from "./formatters/FeedbackFormatter";
 import { ReviewWorkflow } from "./core/ReviewWorkflow";
+import { ReviewPolicy } from "./core/ReviewPolicy";
+import { CommandRouter } from "./core/CommandRouter";
+import { IssueSuppressor } from "./core/IssueSuppressor";
+import { FeedbackAnalyzer } from "./core/FeedbackAnalyzer";
+import {
+  BugmentCommand,
+  BugmentConfig,
+  CommandComment,
+  FeedbackReport,
+  IssueFeedback,
+  Messages,
+  PolicyDecision,
+  PullRequestInfo,
+  ReviewComparison,
+  ReviewIssue,
+  ReviewResult,
+  ReviewScope,
+  ReviewThread,
+} from "./core/types";
+import { I18n } from "./i18n/I18n";
 import { ValidationUtils } from "./utils/ValidationUtils";
 import { IgnoreManager } from "./utils/IgnoreManager";
+import { IssueFingerprint } from "./utils/IssueFingerprint";
+import { LineMapper } from "./utils/LineMapper";
+import { ReviewMetadata } from "./utils/ReviewMetadata";
+
+/**
+ * BugmentAction 选项，未提供的配置和 PR 信息从 Actions 上下文读取
+ */
+export interface BugmentActionOptions {
+  config?: BugmentConfig;
+  prInfo?: PullRequestInfo;
+  paths?: string[]; // 只审查匹配这些路径模式的文件
+}
 
 /**
  * 重构后的 Bugment Action 类
@@ -20,19 +61,31 @@ export class BugmentAction {
   private gitService: GitService;
   private augmentService: AugmentService;
   private reviewService: ReviewService;
+  private chunkedReviewService: ChunkedReviewService;
+  private checkRunService?: CheckRunService;
   private diffParser: DiffParser;
   private jsonReviewResultParser: JsonReviewResultParser;
+  private issueSuppressor: IssueSuppressor;
   private commentFormatter: CommentFormatter;
   private reviewFormatter: ReviewFormatter;
   private ignoreManager: IgnoreManager;
+  private reviewPolicy: ReviewPolicy;
+  private config: BugmentConfig;
+  private prInfo: PullRequestInfo;
+  private workspaceDir: string;
+  private reviewPaths?: string[];
+  private suppressedFingerprints: Set<string> = new Set();
+
+  constructor(options: BugmentActionOptions = {}) {
+    // 获取正确的工作空间目录
+    const workspaceDir = process.env.GITHUB_WORKSPACE || process.cwd();
 
-  constructor() {
-    // 解析输入和 PR 信息
-    const inputs = GitHubService.parseInputs();
-    const prInfo = GitHubService.extractPRInfo();
+    // 解析输入、仓库配置和 PR 信息
+    const config = options.config ?? GitHubService.parseInputs(workspaceDir);
+    const prInfo = options.prInfo ?? GitHubService.extractPRInfo();
 
     // 验证输入
-    if (!ValidationUtils.validateActionInputs(inputs)) {
+    if (!ValidationUtils.validateActionInputs(config, config.backend.type)) {
       throw new Error("Invalid action inputs");
     }
 
@@ -40,19 +93,52 @@ export class BugmentAction {
       throw new Error("Invalid pull request info");
     }
 
-    // 获取正确的工作空间目录
-    const workspaceDir = process.env.GITHUB_WORKSPACE || process.cwd();
-
     // 初始化核心组件
-    this.ignoreManager = new IgnoreManager(workspaceDir);
-    this.githubService = new GitHubService(inputs.githubToken, prInfo);
+    this.config = config;
+    this.prInfo = prInfo;
+    this.workspaceDir = workspaceDir;
+    this.reviewPaths = options.paths?.length ? options.paths : undefined;
+    this.ignoreManager = new IgnoreManager(
+      workspaceDir,
+      config.ignore.useDefaults,
+      config.ignore.gitattributes
+    );
+    config.ignore.patterns.forEach((pattern) =>
+      this.ignoreManager.addPattern(pattern)
+    );
+    this.reviewPolicy = new ReviewPolicy(config.policy);
+    this.githubService = new GitHubService(config.githubToken, prInfo);
     this.gitService = new GitService(prInfo, workspaceDir, this.ignoreManager);
-    this.augmentService = new AugmentService(inputs);
-    this.reviewService = new ReviewService(prInfo, workspaceDir);
+    this.augmentService = new AugmentService(config);
+    this.reviewService = new ReviewService(
+      prInfo,
+      workspaceDir,
+      config,
+      ReviewBackendFactory.create(config)
+    );
     this.diffParser = new DiffParser(this.ignoreManager);
-    this.jsonReviewResultParser = new JsonReviewResultParser(prInfo);
-    this.commentFormatter = new CommentFormatter();
-    this.reviewFormatter = new ReviewFormatter();
+    this.issueSuppressor = IssueSuppressor.load(workspaceDir, (filePath) =>
+      this.readWorkspaceFileLines(filePath)
+    );
+    this.jsonReviewResultParser = new JsonReviewResultParser(
+      prInfo,
+      this.issueSuppressor
+    );
+    this.chunkedReviewService = new ChunkedReviewService(
+      this.reviewService,
+      this.jsonReviewResultParser,
+      config.chunking,
+      this.ignoreManager
+    );
+    this.commentFormatter = new CommentFormatter(config.language);
+    this.reviewFormatter = new ReviewFormatter(config.language);
+    if (config.publish.includes("check")) {
+      this.checkRunService = new CheckRunService(
+        config.githubToken,
+        prInfo,
+        config.language
+      );
+    }
   }
 
   /**
@@ -65,27 +151,68 @@ export class BugmentAction {
       // 1. 初始化忽略管理器
       await this.initializeIgnoreManager();
 
-      // 2. 设置 Augment 认证
+      // 加载提示词模板，模板无效时在生成 diff 和调用模型之前失败
+      this.reviewService.loadPromptTemplate();
+
+      // 在耗时的审查之前创建检查运行，让 PR 显示审查正在进行
+      await this.checkRunService?.start();
+
+      // 2. 设置审查后端认证
       await this.setupAuthentication();
 
       // 3. 生成 diff 文件
-      const diffPath = await this.generateDiff();
+      const { diffPath, fullDiffPath, scope } = await this.generateDiff();
 
       // 4. 执行代码审查
-      const reviewResult = await this.performReview(diffPath);
-
-      // 5. 发布审查评论
-      await this.publishReview(reviewResult, diffPath);
-
-      // 6. 设置输出
-      this.setOutputs(reviewResult);
+      const reviewResult = await this.performReview(
+        diffPath,
+        scope,
+        fullDiffPath
+      );
+
+      // 5. 写入 SARIF 报告
+      await this.writeSarifReport(reviewResult);
+
+      // 6. 统计之前的行评论收到的反馈
+      await this.reportFeedback();
+
+      // 7. 发布审查评论
+      const decision = await this.publishReview(
+        reviewResult,
+        fullDiffPath,
+        diffPath,
+        scope
+      );
+
+      // 8. 设置输出
+      this.setOutputs(reviewResult, decision);
+
+      if (decision.shouldFail) {
+        core.setFailed(
+          `❌ Review policy failed the check (${decision.event}): ${decision.reasons.join("; ")}`
+        );
+        return;
+      }
 
       core.info("✅ Code review completed successfully");
     } catch (error) {
+      await this.checkRunService?.fail(
+        error instanceof Error ? error.message : String(error)
+      );
       this.handleError(error);
     }
   }
 
+  /**
+   * 请求模型详细解释之前报告的问题，供 /bugment explain 命令使用
+   */
+  async explainIssue(issue: ReviewIssue, question: string): Promise<string> {
+    await this.setupAuthentication();
+    const diffPath = await this.gitService.generateDiffFile();
+    await this.reviewService.prepareReviewEnvironment();
+    return this.reviewService.explainIssue(issue, question, diffPath);
+  }
+
   /**
    * 初始化忽略管理器
    */
@@ -99,6 +226,13 @@ export class BugmentAction {
    * 设置认证
    */
   private async setupAuthentication(): Promise<void> {
+    if (this.config.backend.type !== "augment") {
+      core.info(
+        `🔐 Skipping Augment authentication for the ${this.config.backend.type} backend`
+      );
+      return;
+    }
+
     core.info("🔐 Setting up authentication...");
     await this.augmentService.setupAuthentication();
 
@@ -113,18 +247,75 @@ export class BugmentAction {
 
   /**
    * 生成 diff
+   * 限定了审查路径时，额外生成只包含匹配文件的 diff
+   * 启用增量审查且为新推送时，额外生成自上次审查以来的增量 diff
    */
-  private async generateDiff(): Promise<string> {
+  private async generateDiff(): Promise<{
+    diffPath: string;
+    fullDiffPath: string;
+    scope: ReviewScope;
+  }> {
     core.info("📄 Generating diff...");
-    const diffPath = await this.gitService.generateDiffFile();
-    core.info(`✅ Diff generated: ${diffPath}`);
-    return diffPath;
+    const fullDiffPath = await this.gitService.generateDiffFile();
+    core.info(`✅ Diff generated: ${fullDiffPath}`);
+
+    const headSha = this.prInfo.headSha;
+    const fullScope: ReviewScope = {
+      mode: "full",
+      baseSha: this.gitService.getResolvedBaseSha(),
+      headSha,
+    };
+
+    if (this.reviewPaths) {
+      const scopedDiffPath = await this.gitService.generatePathScopedDiffFile(
+        this.reviewPaths,
+        fullDiffPath
+      );
+      if (!scopedDiffPath) {
+        throw new Error(
+          `No changed files match the review paths: ${this.reviewPaths.join(", ")}`
+        );
+      }
+      return {
+        diffPath: scopedDiffPath,
+        fullDiffPath,
+        scope: { ...fullScope, paths: this.reviewPaths },
+      };
+    }
+
+    if (!this.config.incremental || !GitHubService.isSynchronizeEvent()) {
+      return { diffPath: fullDiffPath, fullDiffPath, scope: fullScope };
+    }
+
+    const lastReviewedSha = await this.githubService.findLastReviewedSha();
+    if (!lastReviewedSha) {
+      return { diffPath: fullDiffPath, fullDiffPath, scope: fullScope };
+    }
+
+    const incrementalDiffPath =
+      await this.gitService.generateIncrementalDiffFile(
+        lastReviewedSha,
+        fullDiffPath
+      );
+    if (!incrementalDiffPath) {
+      return { diffPath: fullDiffPath, fullDiffPath, scope: fullScope };
+    }
+
+    return {
+      diffPath: incrementalDiffPath,
+      fullDiffPath,
+      scope: { mode: "incremental", baseSha: lastReviewedSha, headSha },
+    };
   }
 
   /**
    * 执行审查
    */
-  private async performReview(diffPath: string): Promise<any> {
+  private async performReview(
+    diffPath: string,
+    scope: ReviewScope,
+    fullDiffPath: string
+  ): Promise<any> {
     core.info("🤖 Performing review...");
 
     // 验证审查选项
@@ -136,41 +327,153 @@ export class BugmentAction {
     // 准备审查环境
     await this.reviewService.prepareReviewEnvironment();
 
-    // 执行审查
-    const reviewResultText = await this.reviewService.performReview(diffPath);
+    // 工作区中读不到的文件从 diff 中查找抑制注释
+    this.issueSuppressor.addDiff(
+      this.diffParser.parseDiffContent(
+        await fs.promises.readFile(fullDiffPath, "utf-8")
+      )
+    );
+
+    // 执行审查并解析结果，大型 diff 会拆分为多个分块审查后合并
+    const parsedResult = await this.chunkedReviewService.review(
+      diffPath,
+      scope,
+      fullDiffPath
+    );
 
-    // 解析审查结果
-    const reviewResult =
-      this.jsonReviewResultParser.parseReviewResult(reviewResultText);
+    // 模型输出无法解析时不能当作没有问题的审查
+    if (parsedResult.parseError) {
+      if (this.config.onParseError === "fail") {
+        throw new Error(
+          `Failed to parse the review result: ${parsedResult.parseError}`
+        );
+      }
+      core.warning(
+        `⚠️ Failed to parse the review result, the review is incomplete: ${parsedResult.parseError}`
+      );
+    }
 
-    core.info("📊 Used JSON parser for review result");
+    // 按配置的阈值过滤问题
+    const reviewResult = ReviewWorkflow.filterIssues(parsedResult, this.config);
 
-    // 记录解析统计信息
-    const stats = this.jsonReviewResultParser.getParsingStats(reviewResultText);
-    core.info(`📈 JSON parsing stats: ${JSON.stringify(stats)}`);
+    // 计算问题指纹，用于后续审查的跨提交匹配
+    reviewResult.issues = IssueFingerprint.annotateIssues(
+      reviewResult.issues,
+      (filePath) => this.readWorkspaceFileLines(filePath)
+    );
+
+    // 移除通过 /bugment ignore 忽略的问题
+    this.suppressedFingerprints =
+      await this.githubService.getSuppressedFingerprints();
+    const reportedResult = ReviewWorkflow.suppressIssues(
+      reviewResult,
+      this.suppressedFingerprints
+    );
 
     // 验证审查结果
-    if (!ValidationUtils.validateReviewResult(reviewResult)) {
+    if (!ValidationUtils.validateReviewResult(reportedResult)) {
       core.warning("Review result validation failed, but continuing...");
     }
 
     core.info(
-      `✅ Review completed with ${reviewResult.totalIssues} issues found`
+      `✅ Review completed with ${reportedResult.totalIssues} issues found`
     );
-    return reviewResult;
+    return reportedResult;
+  }
+
+  /**
+   * 读取工作区文件内容，文件不存在时返回 undefined
+   */
+  private readWorkspaceFileLines(filePath: string): string[] | undefined {
+    const absolutePath = ValidationUtils.resolveWorkspacePath(
+      this.workspaceDir,
+      filePath
+    );
+    if (!absolutePath) {
+      return undefined;
+    }
+
+    try {
+      return fs.readFileSync(absolutePath, "utf-8").split("\n");
+    } catch {
+      return undefined;
+    }
   }
 
   /**
    * 发布审查结果
+   * 按 publish 配置创建 PR 审查和/或完成检查运行
    */
   private async publishReview(
-    reviewResult: any,
-    diffPath: string
-  ): Promise<void> {
+    reviewResult: ReviewResult,
+    diffPath: string,
+    reviewedDiffPath: string,
+    scope: ReviewScope
+  ): Promise<PolicyDecision> {
     core.info("💬 Publishing review...");
 
+    // 在隐藏旧审查之前读取历史审查结果
+    const previousResults = await this.githubService.getPreviousReviewResults();
+
+    // 增量审查和限定路径的审查只覆盖部分文件，沿用其余文件的历史问题
+    if (scope.mode === "incremental" || scope.paths) {
+      reviewResult = ReviewWorkflow.suppressIssues(
+        this.issueSuppressor.apply(
+          ReviewWorkflow.carryOverIssues(
+            reviewResult,
+            previousResults[0],
+            this.gitService.extractDiffFilePaths(
+              await fs.promises.readFile(reviewedDiffPath, "utf-8")
+            )
+          )
+        ),
+        this.suppressedFingerprints
+      );
+    }
+
+    const comparison = ReviewWorkflow.compareReviews(
+      reviewResult,
+      previousResults,
+      await this.createLineMapper(previousResults[0])
+    );
+    ReviewWorkflow.assignCommentKeys(reviewResult, comparison);
+
+    // 根据审查策略确定审查事件类型
+    const decision = this.reviewPolicy.evaluate(reviewResult, comparison);
+    core.info(`⚖️ Review policy decision: ${decision.event}`);
+    decision.reasons.forEach((reason) => core.info(`  - ${reason}`));
+
+    if (this.config.publish.includes("review")) {
+      await this.publishPullRequestReview(
+        reviewResult,
+        diffPath,
+        scope,
+        comparison,
+        previousResults.length > 0,
+        decision
+      );
+    }
+
+    // 检查运行为每个问题添加注释，包括不在 diff 中的问题
+    await this.checkRunService?.complete(reviewResult, decision);
+
+    core.info("✅ Review published successfully");
+    return decision;
+  }
+
+  /**
+   * 创建 PR 审查
+   * 行评论基于完整 PR diff 校验，增量审查的问题同样落在 PR 变更范围内
+   */
+  private async publishPullRequestReview(
+    reviewResult: ReviewResult,
+    diffPath: string,
+    scope: ReviewScope,
+    comparison: ReviewComparison,
+    hasPreviousReview: boolean,
+    decision: PolicyDecision
+  ): Promise<void> {
     // 读取并解析 diff 内容
-    const fs = await import("fs");
     const diffContent = await fs.promises.readFile(diffPath, "utf-8");
 
     if (!this.diffParser.validateDiffContent(diffContent)) {
@@ -179,40 +482,192 @@ export class BugmentAction {
 
     const parsedDiff = this.diffParser.parseDiffContent(diffContent);
 
-    // 隐藏之前的审查结果
-    await this.githubService.getPreviousReviewsAndHideOld();
+    // 解决已修复问题的评论线程，仍存在的问题保留原线程
+    // 审查结果不完整时无法判断问题是否已修复，保留全部未解决线程
+    const openThreads = await this.syncReviewThreads(
+      comparison,
+      !reviewResult.parseError
+    );
 
-    // 创建行评论
-    const { valid: lineComments } = this.reviewFormatter.createLineComments(
-      reviewResult,
-      (filePath: string, lineNumber: number) =>
-        this.diffParser.isLineInDiff(filePath, lineNumber, parsedDiff)
+    // 隐藏之前的审查结果，仍有未解决线程的审查除外
+    await this.githubService.getPreviousReviewsAndHideOld(
+      new Set(
+        openThreads
+          .map((thread) => thread.reviewId)
+          .filter((id): id is string => !!id)
+      )
     );
 
-    // 格式化主评论
-    const commentBody =
-      this.commentFormatter.formatMainReviewComment(reviewResult);
+    // 创建行评论，已有未解决线程的问题不再重复发布
+    const openThreadKeys = new Set(
+      openThreads.map((thread) => thread.issueKey)
+    );
+    const issuesToComment = reviewResult.issues.filter(
+      (issue) => !issue.commentKey || !openThreadKeys.has(issue.commentKey)
+    );
+    if (issuesToComment.length < reviewResult.issues.length) {
+      core.info(
+        `🧵 Skipping ${reviewResult.issues.length - issuesToComment.length} line comments for issues that already have open threads`
+      );
+    }
+    const { valid: lineComments, outsideDiff } =
+      this.reviewFormatter.createLineComments(
+        { ...reviewResult, issues: issuesToComment },
+        DiffPositionIndex.forDiff(parsedDiff),
+        this.config.maxLineComments,
+        this.config.snapDistance
+      );
 
-    // 确定审查事件类型
-    const eventType = ReviewWorkflow.determineReviewEvent(reviewResult);
+    // 格式化主评论
+    const commentBody = this.commentFormatter.formatMainReviewComment(
+      reviewResult,
+      scope,
+      hasPreviousReview && !reviewResult.parseError ? comparison : undefined,
+      outsideDiff,
+      this.gitService.getIgnoredFiles()
+    );
 
     // 创建统一的 PR 审查
     await this.githubService.createUnifiedPullRequestReview(
       commentBody,
       lineComments,
-      eventType
+      decision.event
     );
+  }
 
-    core.info("✅ Review published successfully");
+  /**
+   * 同步评论线程：解决已修复问题的线程，返回仍存在问题的未解决线程
+   * resolveFixed 为 false 时不解决任何线程，返回全部未解决线程
+   */
+  private async syncReviewThreads(
+    comparison: ReviewComparison,
+    resolveFixed: boolean = true
+  ): Promise<ReviewThread[]> {
+    const threads = await this.githubService.getBugmentReviewThreads();
+    if (threads.length === 0) {
+      return [];
+    }
+
+    if (!resolveFixed) {
+      return threads.filter((thread) => !thread.isResolved);
+    }
+
+    const fixedKeys = new Set(
+      comparison.fixedIssues.map((issue) => ReviewMetadata.getIssueKey(issue))
+    );
+    const threadsToResolve = threads.filter(
+      (thread) => !thread.isResolved && fixedKeys.has(thread.issueKey)
+    );
+    if (threadsToResolve.length > 0) {
+      const resolvedCount =
+        await this.githubService.resolveReviewThreads(threadsToResolve);
+      core.info(
+        `🎯 Resolved ${resolvedCount}/${threadsToResolve.length} threads for fixed issues`
+      );
+    }
+
+    const stillPresentKeys = new Set(
+      (comparison.matchedIssues || []).map(({ current }) => current.commentKey)
+    );
+    return threads.filter(
+      (thread) => !thread.isResolved && stillPresentKeys.has(thread.issueKey)
+    );
+  }
+
+  /**
+   * 创建从上次审查提交到当前 head 的行号映射器
+   */
+  private async createLineMapper(
+    previousResult: ReviewResult | undefined
+  ): Promise<LineMapper | undefined> {
+    if (
+      !previousResult?.commitSha ||
+      previousResult.commitSha === this.prInfo.headSha
+    ) {
+      return undefined;
+    }
+
+    const diffContent = await this.gitService.getDiffBetween(
+      previousResult.commitSha,
+      this.prInfo.headSha
+    );
+    return diffContent !== null ? LineMapper.fromDiff(diffContent) : undefined;
+  }
+
+  /**
+   * 配置了 sarifFile 时将审查结果写入 SARIF 报告
+   * sarifFile 可能来自 PR 中的配置文件，只允许写入工作区内
+   */
+  private async writeSarifReport(reviewResult: ReviewResult): Promise<void> {
+    if (!this.config.sarifFile) {
+      return;
+    }
+
+    const sarifPath = ValidationUtils.resolveWorkspacePath(
+      this.workspaceDir,
+      this.config.sarifFile
+    );
+    if (!sarifPath) {
+      throw new Error(
+        `SARIF report path must be inside the workspace: ${this.config.sarifFile}`
+      );
+    }
+    const sarif = new SarifFormatter(this.config.language).format(
+      reviewResult,
+      this.prInfo
+    );
+    await fs.promises.mkdir(path.dirname(sarifPath), { recursive: true });
+    await fs.promises.writeFile(sarifPath, JSON.stringify(sarif, null, 2));
+
+    const resultCount = sarif.runs[0]!.results.length;
+    core.info(
+      `📄 SARIF report with ${resultCount} results written to ${this.config.sarifFile} (${reviewResult.issues.length - resultCount} issues without a file location skipped)`
+    );
+    core.setOutput("sarif_file", sarifPath);
+  }
+
+  /**
+   * 配置了 feedback.file 时统计本 PR 之前的行评论收到的反馈
+   * 反馈统计失败不影响审查
+   */
+  private async reportFeedback(): Promise<void> {
+    if (!this.config.feedback.file) {
+      return;
+    }
+
+    try {
+      const feedback = FeedbackAnalyzer.linkIssues(
+        await this.githubService.getLineCommentFeedback(),
+        await this.githubService.getPreviousReviewResults()
+      );
+      await BugmentFeedbackAction.writeReport(
+        FeedbackAnalyzer.createReport(
+          feedback,
+          `${this.prInfo.owner}/${this.prInfo.repo}`,
+          [this.prInfo.number]
+        ),
+        this.config.feedback.file,
+        this.config.language,
+        this.workspaceDir
+      );
+    } catch (error) {
+      core.warning(`⚠️ Failed to collect line comment feedback: ${error}`);
+    }
   }
 
   /**
    * 设置输出
    */
-  private setOutputs(reviewResult: any): void {
-    core.setOutput("review_result", JSON.stringify(reviewResult));
+  private setOutputs(reviewResult: any, decision: PolicyDecision): void {
+    const { parsingStats, ...result } = reviewResult;
+    core.setOutput("review_result", JSON.stringify(result));
+    if (parsingStats) {
+      core.setOutput("parse_quality", JSON.stringify(parsingStats));
+    }
     core.setOutput("review_status", "success");
+    core.setOutput("review_event", decision.event);
     core.setOutput("total_issues", reviewResult.totalIssues.toString());
+    core.setOutput("issues_found", String(reviewResult.totalIssues > 0));
     core.setOutput("review_id", reviewResult.reviewId);
   }
 
@@ -224,13 +679,283 @@ export class BugmentAction {
     core.setFailed(`❌ Code review failed: ${errorMessage}`);
     core.setOutput("review_status", "failed");
     core.setOutput("total_issues", "0");
+    core.setOutput("issues_found", "false");
+  }
+}
+
+/**
+ * PR 评论命令处理类
+ * 在 issue_comment 和 pull_request_review_comment 事件中执行 /bugment 命令
+ */
+export class BugmentCommandAction {
+  private config: BugmentConfig;
+  private comment: CommandComment;
+  private messages: Messages["command"];
+  private prInfo?: PullRequestInfo;
+  private githubService?: GitHubService;
+
+  constructor() {
+    const workspaceDir = process.env.GITHUB_WORKSPACE || process.cwd();
+    this.config = GitHubService.parseInputs(workspaceDir);
+    this.comment = GitHubService.extractCommandComment();
+    this.messages = I18n.getMessages(this.config.language).command;
+  }
+
+  /**
+   * 解析评论中的命令并执行
+   */
+  async run(): Promise<void> {
+    try {
+      const router = new CommandRouter(this.config.commands, {
+        review: this.acknowledge((command) => this.review(command.args)),
+        explain: this.acknowledge((command) =>
+          this.explain(command.args.join(" "))
+        ),
+        ignore: this.acknowledge(() => this.ignore()),
+        help: this.acknowledge(() => this.reply(this.messages.usage)),
+      });
+
+      const result = await router.route(this.comment);
+      if (result === "none") {
+        core.info("ℹ️ No /bugment command found in the comment");
+        core.setOutput("review_status", "skipped");
+      } else if (result === "unauthorized") {
+        await this.reply(
+          this.messages.unauthorized(
+            this.comment.author,
+            this.comment.authorAssociation
+          )
+        );
+        core.setOutput("review_status", "skipped");
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      core.setFailed(`❌ Command failed: ${errorMessage}`);
+      core.setOutput("review_status", "failed");
+    }
+  }
+
+  /**
+   * 执行命令前为评论添加 👀 回应，表示命令已收到
+   */
+  private acknowledge(
+    handler: (command: BugmentCommand) => Promise<void>
+  ): (command: BugmentCommand) => Promise<void> {
+    return async (command) => {
+      const { githubService } = await this.connect();
+      await githubService.addReaction(this.comment, "eyes");
+      await handler(command);
+    };
+  }
+
+  /**
+   * /bugment review [路径...]：重新审查 PR，指定路径时只审查匹配的文件
+   */
+  private async review(paths: string[]): Promise<void> {
+    const { prInfo } = await this.connect();
+    await new BugmentAction({ config: this.config, prInfo, paths }).run();
+  }
+
+  /**
+   * /bugment explain [问题]：在行评论线程中详细解释对应的问题
+   */
+  private async explain(question: string): Promise<void> {
+    const issue = await this.findThreadIssue("explain");
+    if (!issue) {
+      return;
+    }
+
+    const { prInfo } = await this.connect();
+    const explanation = await new BugmentAction({
+      config: this.config,
+      prInfo,
+    }).explainIssue(issue, question);
+    await this.reply(
+      `### 💡 ${this.messages.explainHeading}: ${issue.title}\n\n${explanation.trim()}`
+    );
+  }
+
+  /**
+   * /bugment ignore：将行评论对应问题的指纹加入忽略列表
+   * 忽略标记写在回复中，后续审查读取回复后移除该问题
+   */
+  private async ignore(): Promise<void> {
+    const issue = await this.findThreadIssue("ignore");
+    if (!issue) {
+      return;
+    }
+
+    if (!issue.fingerprint) {
+      await this.reply(this.messages.noFingerprint);
+      return;
+    }
+
+    await this.reply(
+      `${this.messages.ignored(issue.fingerprint)}\n\n${ReviewMetadata.createSuppressionMarker(issue.fingerprint)}`
+    );
+    core.info(`🔕 Issue ${issue.fingerprint} added to the ignore list`);
+  }
+
+  /**
+   * 查找命令所在行评论线程对应的问题，找不到时回复说明原因
+   */
+  private async findThreadIssue(
+    commandName: string
+  ): Promise<ReviewIssue | undefined> {
+    const { githubService } = await this.connect();
+    const threadBody =
+      this.comment.kind === "review" && this.comment.inReplyToId
+        ? await githubService.getReviewCommentBody(this.comment.inReplyToId)
+        : undefined;
+    const issueKey = threadBody
+      ? ReviewMetadata.extractIssueKey(threadBody)
+      : undefined;
+    if (!issueKey) {
+      await this.reply(this.messages.replyRequired(commandName));
+      return undefined;
+    }
+
+    const issue = ReviewWorkflow.findIssueByKey(
+      await githubService.getPreviousReviewResults(),
+      issueKey
+    );
+    if (!issue) {
+      await this.reply(this.messages.issueNotFound);
+    }
+    return issue;
+  }
+
+  private async reply(body: string): Promise<void> {
+    const { githubService } = await this.connect();
+    await githubService.replyToComment(this.comment, body);
+  }
+
+  /**
+   * 获取评论所在 PR 的信息，评论事件的 payload 不一定包含完整的 PR 信息
+   */
+  private async connect(): Promise<{
+    prInfo: PullRequestInfo;
+    githubService: GitHubService;
+  }> {
+    if (!this.prInfo || !this.githubService) {
+      this.prInfo = await GitHubService.fetchPRInfo(
+        this.config.githubToken,
+        this.comment.pullNumber
+      );
+      this.githubService = new GitHubService(
+        this.config.githubToken,
+        this.prInfo
+      );
+    }
+    return { prInfo: this.prInfo, githubService: this.githubService };
+  }
+}
+
+/**
+ * 反馈统计类
+ * 在定时或手动触发的运行中，统计最近更新的 PR 上 Bugment 行评论收到的反馈
+ */
+export class BugmentFeedbackAction {
+  private config: BugmentConfig;
+  private workspaceDir: string;
+
+  constructor() {
+    this.workspaceDir = process.env.GITHUB_WORKSPACE || process.cwd();
+    this.config = GitHubService.parseInputs(this.workspaceDir);
+  }
+
+  /**
+   * 读取最近更新的 PR 上的反馈并生成报告
+   */
+  async run(): Promise<void> {
+    try {
+      const { githubToken, feedback: feedbackConfig } = this.config;
+      const pullRequests = await GitHubService.listRecentPullRequests(
+        githubToken,
+        feedbackConfig.pullRequests
+      );
+
+      const feedback: IssueFeedback[] = [];
+      for (const prInfo of pullRequests) {
+        const githubService = new GitHubService(githubToken, prInfo);
+        feedback.push(
+          ...FeedbackAnalyzer.linkIssues(
+            await githubService.getLineCommentFeedback(),
+            await githubService.getPreviousReviewResults()
+          )
+        );
+      }
+
+      const { owner, repo } = github.context.repo;
+      await BugmentFeedbackAction.writeReport(
+        FeedbackAnalyzer.createReport(
+          feedback,
+          `${owner}/${repo}`,
+          pullRequests.map((prInfo) => prInfo.number)
+        ),
+        feedbackConfig.file ?? FeedbackAnalyzer.DEFAULT_REPORT_FILE,
+        this.config.language,
+        this.workspaceDir
+      );
+      core.setOutput("review_status", "skipped");
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      core.setFailed(`❌ Feedback report failed: ${errorMessage}`);
+      core.setOutput("review_status", "failed");
+    }
+  }
+
+  /**
+   * 将反馈报告写入 JSON 文件和任务摘要
+   * file 可能来自 PR 中的配置文件，只允许写入工作区内
+   */
+  static async writeReport(
+    report: FeedbackReport,
+    file: string,
+    language: string,
+    workspaceDir: string
+  ): Promise<void> {
+    const reportPath = ValidationUtils.resolveWorkspacePath(workspaceDir, file);
+    if (!reportPath) {
+      throw new Error(
+        `Feedback report path must be inside the workspace: ${file}`
+      );
+    }
+    await fs.promises.mkdir(path.dirname(reportPath), { recursive: true });
+    await fs.promises.writeFile(reportPath, JSON.stringify(report, null, 2));
+    core.setOutput("feedback_file", reportPath);
+
+    // 任务摘要只在 GitHub Actions 中可用
+    if (process.env.GITHUB_STEP_SUMMARY) {
+      await core.summary
+        .addRaw(new FeedbackFormatter(language).format(report))
+        .write();
+    }
+
+    const precision = report.total.precision;
+    core.info(
+      `📊 Feedback on ${report.total.comments} line comments from ${report.pullRequests.length} pull requests written to ${file} (precision ${precision === null ? "n/a" : precision})`
+    );
   }
 }
 
 /**
  * 主入口函数
+ * PR 评论事件执行评论中的 /bugment 命令，定时和手动触发的运行统计反馈，其余事件执行完整审查
  */
 export async function run(): Promise<void> {
+  if (GitHubService.isCommentEvent()) {
+    await new BugmentCommandAction().run();
+    return;
+  }
+
+  if (GitHubService.isScheduledEvent()) {
+    await new BugmentFeedbackAction().run();
+    return;
+  }
+
   const action = new BugmentAction();
   await action.run();
 }
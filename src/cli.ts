@@ -0,0 +1,409 @@
+#!/usr/bin/env node
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { parseArgs } from "util";
+import { GitService } from "./services/GitService";
+import { AugmentService } from "./services/AugmentService";
+import { ReviewService } from "./services/ReviewService";
+import { ReviewBackendFactory } from "./services/ReviewBackendFactory";
+import { ChunkedReviewService } from "./services/ChunkedReviewService";
+import { JsonReviewResultParser } from "./parsers/JsonReviewResultParser";
+import { CommentFormatter } from "./formatters/CommentFormatter";
+import { TerminalFormatter } from "./formatters/TerminalFormatter";
+import { SarifFormatter } from "./formatters/SarifFormatter";
+import { ReviewWorkflow } from "./core/ReviewWorkflow";
+import { ReviewPolicy } from "./core/ReviewPolicy";
+import { IssueSuppressor } from "./core/IssueSuppressor";
+import {
+  ActionInputs,
+  BugmentConfig,
+  RepositoryConfig,
+  ReviewBackendType,
+  ReviewPolicyConfig,
+  ReviewResult,
+  ReviewScope,
+} from "./core/types";
+import { ConfigLoader } from "./utils/ConfigLoader";
+import { ValidationUtils } from "./utils/ValidationUtils";
+import { IgnoreManager } from "./utils/IgnoreManager";
+import { IssueFingerprint } from "./utils/IssueFingerprint";
+
+export type CliOutputFormat = "text" | "markdown" | "json" | "sarif";
+
+export interface CliOptions {
+  base: string;
+  head: string;
+  cwd: string;
+  format: CliOutputFormat;
+  output?: string;
+  configFile?: string;
+  overrides: RepositoryConfig;
+  keepDiff: boolean;
+  updateBaseline: boolean;
+  quiet: boolean;
+}
+
+const USAGE = `Usage: bugment review [options]
+
+Review the commits between two refs of a local git repository.
+
+Options:
+  --base <ref>        Base ref to compare against (default: main)
+  --head <ref>        Head ref to review (default: HEAD)
+  --cwd <dir>         Repository directory (default: current directory)
+  --format <format>   Output format: text, markdown, json or sarif
+                      (default: text)
+  --output <file>     Write the result to a file instead of stdout
+  --config <file>     Repository configuration file (default: .bugment.yml)
+  --backend <type>    Review backend: augment or openai
+  --language <lang>   Output language for review comments
+  --fail-on <when>    Exit with code 1 on: never, request_changes, any_issue
+  --keep-diff         Keep the generated pr_diff.patch file
+  --update-baseline   Accept the reported issues in .bugment/baseline.json
+  --quiet             Do not print progress logs
+  -h, --help          Show this help
+
+Environment:
+  AUGMENT_ACCESS_TOKEN, AUGMENT_TENANT_URL   Augment credentials (optional when
+                                             already signed in to Augment)
+  LLM_API_KEY                                API key for the openai backend`;
+
+/**
+ * 解析命令行参数，--help 或参数错误时返回说明文本
+ */
+export function parseCliArgs(argv: string[]): CliOptions | { usage: string } {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      base: { type: "string", default: "main" },
+      head: { type: "string", default: "HEAD" },
+      cwd: { type: "string", default: process.cwd() },
+      format: { type: "string", default: "text" },
+      output: { type: "string" },
+      config: { type: "string" },
+      backend: { type: "string" },
+      language: { type: "string" },
+      "fail-on": { type: "string" },
+      "keep-diff": { type: "boolean", default: false },
+      "update-baseline": { type: "boolean", default: false },
+      quiet: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help || positionals[0] !== "review" || positionals.length > 1) {
+    return { usage: USAGE };
+  }
+
+  const format = values.format as CliOutputFormat;
+  if (!["text", "markdown", "json", "sarif"].includes(format)) {
+    throw new Error(`Unknown output format: ${values.format}`);
+  }
+
+  // 取值由 validateRepositoryConfig 校验
+  const overrides: RepositoryConfig = {};
+  if (values.language) {
+    overrides.language = values.language;
+  }
+  if (values.backend) {
+    overrides.backend = { type: values.backend as ReviewBackendType };
+  }
+  if (values["fail-on"]) {
+    overrides.policy = {
+      failOn: values["fail-on"] as ReviewPolicyConfig["failOn"],
+    };
+  }
+
+  const errors = ValidationUtils.validateRepositoryConfig(overrides);
+  if (errors.length > 0) {
+    throw new Error(`Invalid options:\n- ${errors.join("\n- ")}`);
+  }
+
+  return {
+    base: values.base!,
+    head: values.head!,
+    cwd: path.resolve(values.cwd!),
+    format,
+    output: values.output,
+    configFile: values.config,
+    overrides,
+    keepDiff: values["keep-diff"]!,
+    updateBaseline: values["update-baseline"]!,
+    quiet: values.quiet!,
+  };
+}
+
+/**
+ * Bugment 本地命令行
+ * 在 GitHub Actions 之外审查本地提交，并将结果输出到终端或文件
+ */
+export class BugmentCli {
+  private options: CliOptions;
+
+  constructor(options: CliOptions) {
+    this.options = options;
+  }
+
+  /**
+   * 执行审查，返回进程退出码：审查策略要求失败时为 1
+   */
+  async run(): Promise<number> {
+    const { result, scope, config } = await this.withLogsOnStderr(() =>
+      this.review()
+    );
+
+    const output = this.formatResult(result, scope, config.language);
+    if (this.options.output) {
+      await fs.promises.writeFile(this.options.output, output);
+      process.stderr.write(`📝 Review written to ${this.options.output}\n`);
+    } else {
+      process.stdout.write(output);
+    }
+
+    if (this.options.updateBaseline) {
+      await this.withLogsOnStderr(() => this.updateBaseline(result));
+    }
+
+    const decision = new ReviewPolicy(config.policy).evaluate(result);
+    return decision.shouldFail ? 1 : 0;
+  }
+
+  /**
+   * 生成 diff、调用审查后端并解析结果
+   */
+  private async review(): Promise<{
+    result: ReviewResult;
+    scope: ReviewScope;
+    config: BugmentConfig;
+  }> {
+    const { cwd: workspaceDir, base, head } = this.options;
+
+    const config = this.loadConfig();
+    const prInfo = await GitService.resolveLocalPullRequestInfo(
+      workspaceDir,
+      base,
+      head
+    );
+
+    const ignoreManager = new IgnoreManager(
+      workspaceDir,
+      config.ignore.useDefaults,
+      config.ignore.gitattributes
+    );
+    config.ignore.patterns.forEach((pattern) =>
+      ignoreManager.addPattern(pattern)
+    );
+
+    const readFileLines = (filePath: string): string[] | undefined => {
+      try {
+        return fs
+          .readFileSync(path.resolve(workspaceDir, filePath), "utf-8")
+          .split("\n");
+      } catch {
+        return undefined;
+      }
+    };
+
+    const gitService = new GitService(prInfo, workspaceDir, ignoreManager);
+    const diffPath = await gitService.generateDiffFile();
+    const scope: ReviewScope = {
+      mode: "full",
+      baseSha: gitService.getResolvedBaseSha(),
+      headSha: prInfo.headSha,
+    };
+
+    let augmentHome: string | undefined;
+    try {
+      if (config.backend.type === "augment") {
+        augmentHome = await this.setupAugmentAuthentication(config);
+      }
+
+      const reviewService = new ReviewService(
+        prInfo,
+        workspaceDir,
+        config,
+        ReviewBackendFactory.create(
+          config,
+          path.join(__dirname, "..", "dist", "server.js"),
+          augmentHome ? { ...process.env, HOME: augmentHome } : undefined
+        )
+      );
+      const parsedResult = await new ChunkedReviewService(
+        reviewService,
+        new JsonReviewResultParser(
+          prInfo,
+          IssueSuppressor.load(workspaceDir, readFileLines)
+        ),
+        config.chunking,
+        ignoreManager
+      ).review(diffPath, scope);
+
+      // 模型输出无法解析时不能当作没有问题的审查
+      if (parsedResult.parseError) {
+        if (config.onParseError === "fail") {
+          throw new Error(
+            `Failed to parse the review result: ${parsedResult.parseError}`
+          );
+        }
+        process.stderr.write(
+          `⚠️ Failed to parse the review result, the review is incomplete: ${parsedResult.parseError}\n`
+        );
+      }
+
+      const result = ReviewWorkflow.filterIssues(parsedResult, config);
+      result.issues = IssueFingerprint.annotateIssues(
+        result.issues,
+        readFileLines
+      );
+
+      return { result, scope, config };
+    } finally {
+      if (!this.options.keepDiff) {
+        await fs.promises.rm(diffPath, { force: true });
+      }
+      if (augmentHome) {
+        await fs.promises.rm(augmentHome, { recursive: true, force: true });
+      }
+    }
+  }
+
+  /**
+   * 将审查报告的问题加入误报基线
+   */
+  private async updateBaseline(result: ReviewResult): Promise<void> {
+    const previous = IssueSuppressor.loadBaseline(this.options.cwd);
+    const baseline = IssueSuppressor.updateBaseline(previous, result.issues);
+    const filePath = path.join(this.options.cwd, IssueSuppressor.BASELINE_FILE);
+
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(
+      filePath,
+      JSON.stringify(baseline, null, 2) + "\n"
+    );
+    process.stderr.write(
+      `📝 Added ${baseline.issues.length - previous.issues.length} issues to ${IssueSuppressor.BASELINE_FILE}\n`
+    );
+  }
+
+  /**
+   * 合并仓库配置、命令行选项和环境变量
+   */
+  private loadConfig(): BugmentConfig {
+    const inputs: ActionInputs = {
+      augmentAccessToken: process.env.AUGMENT_ACCESS_TOKEN || "",
+      augmentTenantUrl: process.env.AUGMENT_TENANT_URL || "",
+      githubToken: "",
+      llmApiKey: process.env.LLM_API_KEY || undefined,
+    };
+    const { config: repoConfig, filePath } = ConfigLoader.loadRepositoryConfig(
+      this.options.cwd,
+      this.options.configFile
+    );
+
+    return ConfigLoader.mergeConfig(
+      inputs,
+      repoConfig,
+      this.options.overrides,
+      filePath
+    );
+  }
+
+  /**
+   * 提供了 Augment 凭据时将认证配置写入临时目录，返回该目录作为语言服务器的 HOME
+   * 不覆盖本机已登录的会话；未提供凭据时沿用本机已登录的会话
+   */
+  private async setupAugmentAuthentication(
+    config: BugmentConfig
+  ): Promise<string | undefined> {
+    if (config.augmentAccessToken && config.augmentTenantUrl) {
+      const homeDir = await fs.promises.mkdtemp(
+        path.join(os.tmpdir(), "bugment-augment-")
+      );
+      await new AugmentService(config, homeDir).setupAuthentication();
+      return homeDir;
+    }
+
+    if (!(await new AugmentService(config).validateAuthentication())) {
+      throw new Error(
+        "Augment is not signed in: set AUGMENT_ACCESS_TOKEN and AUGMENT_TENANT_URL or sign in with the Augment vim plugin"
+      );
+    }
+    return undefined;
+  }
+
+  /**
+   * 按输出格式格式化审查结果
+   */
+  private formatResult(
+    result: ReviewResult,
+    scope: ReviewScope,
+    language: string
+  ): string {
+    switch (this.options.format) {
+      case "json":
+        return JSON.stringify(result, null, 2) + "\n";
+      case "sarif":
+        return (
+          JSON.stringify(new SarifFormatter(language).format(result), null, 2) +
+          "\n"
+        );
+      case "markdown": {
+        const commentFormatter = new CommentFormatter(language);
+        return `## Bugment Code Review\n\n${commentFormatter.formatReviewScope(scope)}\n\n${commentFormatter.formatOriginalReviewContent(result)}`;
+      }
+      default:
+        return new TerminalFormatter(
+          !this.options.output &&
+            !!process.stdout.isTTY &&
+            !process.env.NO_COLOR,
+          language
+        ).format(result, scope);
+    }
+  }
+
+  /**
+   * 审查期间将服务输出的进度日志转到 stderr，保证 stdout 只包含审查结果
+   */
+  private async withLogsOnStderr<T>(fn: () => Promise<T>): Promise<T> {
+    const write = process.stdout.write;
+    process.stdout.write = (
+      this.options.quiet
+        ? () => true
+        : process.stderr.write.bind(process.stderr)
+    ) as typeof process.stdout.write;
+
+    try {
+      return await fn();
+    } finally {
+      process.stdout.write = write;
+    }
+  }
+}
+
+/**
+ * 命令行入口函数，返回进程退出码
+ */
+export async function main(argv: string[]): Promise<number> {
+  try {
+    const options = parseCliArgs(argv);
+    if ("usage" in options) {
+      process.stdout.write(options.usage + "\n");
+      return argv.includes("--help") || argv.includes("-h") ? 0 : 2;
+    }
+
+    return await new BugmentCli(options).run();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    process.stderr.write(`❌ ${errorMessage}\n`);
+    return 2;
+  }
+}
+
+// 如果直接运行此文件，执行主函数
+if (require.main === module) {
+  main(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
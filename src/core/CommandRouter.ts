@@ -0,0 +1,168 @@
+import * as core from "@actions/core";
+import {
+  BugmentCommand,
+  BugmentCommandName,
+  CommandComment,
+  CommandsConfig,
+} from "./types";
+
+const COMMAND_NAMES: BugmentCommandName[] = [
+  "review",
+  "explain",
+  "ignore",
+  "help",
+];
+
+/** GitHub 的全部 author_association 取值 */
+const AUTHOR_ASSOCIATIONS = [
+  "OWNER",
+  "MEMBER",
+  "COLLABORATOR",
+  "CONTRIBUTOR",
+  "FIRST_TIME_CONTRIBUTOR",
+  "FIRST_TIMER",
+  "MANNEQUIN",
+  "NONE",
+];
+
+/**
+ * 命令处理函数
+ */
+export type CommandHandler = (
+  command: BugmentCommand,
+  comment: CommandComment
+) => Promise<void>;
+
+/**
+ * 命令路由结果：none 表示评论中没有命令，unauthorized 表示作者无权使用命令
+ */
+export type CommandRouteResult = "none" | "unauthorized" | "handled";
+
+/**
+ * 命令路由器
+ * 从 PR 评论中解析 /bugment 命令，检查作者权限后交给对应的处理函数
+ */
+export class CommandRouter {
+  static readonly PREFIX = "/bugment";
+
+  /**
+   * 默认只允许仓库所有者、组织成员和协作者使用命令
+   */
+  static readonly DEFAULT_CONFIG: CommandsConfig = {
+    allowedAssociations: ["OWNER", "MEMBER", "COLLABORATOR"],
+  };
+
+  private config: CommandsConfig;
+  private handlers: Record<BugmentCommandName, CommandHandler>;
+
+  constructor(
+    config: Partial<CommandsConfig>,
+    handlers: Record<BugmentCommandName, CommandHandler>
+  ) {
+    this.config = { ...CommandRouter.DEFAULT_CONFIG, ...config };
+    this.handlers = handlers;
+  }
+
+  /**
+   * 解析评论中的命令并执行
+   */
+  async route(comment: CommandComment): Promise<CommandRouteResult> {
+    const command = CommandRouter.parse(comment.body);
+    if (!command) {
+      return "none";
+    }
+
+    if (!this.isAuthorized(comment.authorAssociation)) {
+      core.warning(
+        `🚫 @${comment.author} (${comment.authorAssociation}) is not allowed to run /bugment ${command.name}`
+      );
+      return "unauthorized";
+    }
+
+    core.info(
+      `💬 Running /bugment ${command.name}${command.args.length > 0 ? ` ${command.args.join(" ")}` : ""} from @${comment.author}`
+    );
+    await this.handlers[command.name](command, comment);
+    return "handled";
+  }
+
+  /**
+   * 检查作者关联是否允许使用命令
+   */
+  isAuthorized(authorAssociation: string): boolean {
+    return this.config.allowedAssociations.includes(
+      authorAssociation.toUpperCase()
+    );
+  }
+
+  /**
+   * 从评论正文中解析命令，使用第一行以 /bugment 开头的行
+   * 代码块和引用中的行不视为命令，未知的命令解析为 help
+   */
+  static parse(body: string): BugmentCommand | undefined {
+    let inCodeBlock = false;
+
+    for (const rawLine of body.split("\n")) {
+      const line = rawLine.trim();
+      if (/^(```|~~~)/.test(line)) {
+        inCodeBlock = !inCodeBlock;
+        continue;
+      }
+      if (inCodeBlock) {
+        continue;
+      }
+
+      const [prefix, name = "", ...args] = line.split(/\s+/);
+      if (prefix?.toLowerCase() !== CommandRouter.PREFIX) {
+        continue;
+      }
+
+      const commandName = name.toLowerCase() as BugmentCommandName;
+      return COMMAND_NAMES.includes(commandName)
+        ? { name: commandName, args }
+        : { name: "help", args: [] };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 验证命令配置，返回带路径的错误信息
+   */
+  static validateConfig(raw: unknown, prefix: string): string[] {
+    if (raw === undefined || raw === null) {
+      return [];
+    }
+
+    if (typeof raw !== "object" || Array.isArray(raw)) {
+      return [`${prefix}: expected object`];
+    }
+
+    const config = raw as Record<string, any>;
+    const errors: string[] = [];
+
+    for (const key of Object.keys(config)) {
+      if (key !== "allowedAssociations") {
+        errors.push(`${prefix}.${key}: unknown key`);
+      }
+    }
+
+    if (config.allowedAssociations !== undefined) {
+      if (!Array.isArray(config.allowedAssociations)) {
+        errors.push(`${prefix}.allowedAssociations: expected array`);
+      } else {
+        config.allowedAssociations.forEach(
+          (association: any, index: number) => {
+            if (!AUTHOR_ASSOCIATIONS.includes(association)) {
+              errors.push(
+                `${prefix}.allowedAssociations[${index}]: expected one of ${AUTHOR_ASSOCIATIONS.join(", ")}`
+              );
+            }
+          }
+        );
+      }
+    }
+
+    return errors;
+  }
+}
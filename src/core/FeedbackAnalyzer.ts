@@ -0,0 +1,213 @@
+import {
+  FeedbackConfig,
+  FeedbackReport,
+  FeedbackStats,
+  FeedbackVerdict,
+  IssueFeedback,
+  LineCommentFeedback,
+  ReviewResult,
+} from "./types";
+import { ReviewWorkflow } from "./ReviewWorkflow";
+
+const ISSUE_TYPES = ["bug", "security", "performance", "code_smell"];
+const SEVERITIES = ["critical", "high", "medium", "low"];
+const CONFIDENCE_BUCKETS = Array.from({ length: 10 }, (_, index) => {
+  const lower = 9 - index;
+  return `${(lower / 10).toFixed(1)}-${((lower + 1) / 10).toFixed(1)}`;
+});
+
+/**
+ * 反馈分析器
+ * 将 Bugment 行评论收到的 👍/👎 回应关联到问题，按问题属性统计评论的准确率
+ */
+export class FeedbackAnalyzer {
+  /** 无法确定分组时使用的键 */
+  static readonly UNKNOWN = "unknown";
+
+  /** 定时运行且未配置 feedback.file 时的报告路径 */
+  static readonly DEFAULT_REPORT_FILE = "bugment-feedback.json";
+
+  static readonly DEFAULT_CONFIG: FeedbackConfig = {
+    pullRequests: 30,
+  };
+
+  /**
+   * 按行评论标记键将反馈关联到同一 PR 的历史审查结果中的问题
+   */
+  static linkIssues(
+    comments: LineCommentFeedback[],
+    reviewResults: ReviewResult[]
+  ): IssueFeedback[] {
+    return comments.map((comment) => {
+      const issue = ReviewWorkflow.findIssueByKey(
+        reviewResults,
+        comment.issueKey
+      );
+      return {
+        ...comment,
+        verdict: FeedbackAnalyzer.getVerdict(comment),
+        type: issue?.type,
+        severity: issue?.severity,
+        confidence: issue?.confidence,
+      };
+    });
+  }
+
+  /**
+   * 判断评论是否有用，/bugment ignore 视为无用
+   */
+  static getVerdict(feedback: LineCommentFeedback): FeedbackVerdict {
+    if (feedback.ignored || feedback.negative > feedback.positive) {
+      return "not_useful";
+    }
+    return feedback.positive > feedback.negative ? "useful" : "unrated";
+  }
+
+  /**
+   * 生成反馈报告
+   */
+  static createReport(
+    feedback: IssueFeedback[],
+    repository: string,
+    pullRequests: number[]
+  ): FeedbackReport {
+    return {
+      generatedAt: new Date().toISOString(),
+      repository,
+      pullRequests,
+      total: FeedbackAnalyzer.summarize(feedback),
+      byType: FeedbackAnalyzer.groupBy(
+        feedback,
+        (item) => item.type,
+        ISSUE_TYPES
+      ),
+      bySeverity: FeedbackAnalyzer.groupBy(
+        feedback,
+        (item) => item.severity,
+        SEVERITIES
+      ),
+      byConfidence: FeedbackAnalyzer.groupBy(
+        feedback,
+        (item) => FeedbackAnalyzer.getConfidenceBucket(item.confidence),
+        CONFIDENCE_BUCKETS
+      ),
+      byFilePattern: FeedbackAnalyzer.groupBy(feedback, (item) =>
+        FeedbackAnalyzer.getFilePattern(item.path)
+      ),
+      comments: feedback,
+    };
+  }
+
+  /**
+   * 获取置信度所在的区间，如 0.8-0.9，1.0 归入 0.9-1.0
+   */
+  static getConfidenceBucket(confidence?: number): string | undefined {
+    if (confidence === undefined) {
+      return undefined;
+    }
+    const index = Math.min(9, Math.floor(confidence * 10 + 1e-9));
+    return CONFIDENCE_BUCKETS[9 - index];
+  }
+
+  /**
+   * 获取文件类型模式，如 *.ts；没有扩展名的文件使用文件名
+   */
+  static getFilePattern(filePath: string): string {
+    const fileName = filePath.split("/").pop() || filePath;
+    const extensionIndex = fileName.lastIndexOf(".");
+    return extensionIndex > 0
+      ? `*${fileName.substring(extensionIndex)}`
+      : fileName;
+  }
+
+  /**
+   * 统计一组反馈，准确率只计算收到评价的评论
+   */
+  static summarize(feedback: IssueFeedback[]): FeedbackStats {
+    const count = (verdict: FeedbackVerdict) =>
+      feedback.filter((item) => item.verdict === verdict).length;
+    const useful = count("useful");
+    const notUseful = count("not_useful");
+
+    return {
+      comments: feedback.length,
+      useful,
+      notUseful,
+      unrated: count("unrated"),
+      replies: feedback.reduce((sum, item) => sum + item.replies, 0),
+      precision:
+        useful + notUseful > 0
+          ? Math.round((useful / (useful + notUseful)) * 1000) / 1000
+          : null,
+    };
+  }
+
+  /**
+   * 按键分组统计，提供 order 时按其排序，否则按评论数从多到少排序
+   * 无法确定键的反馈归入 unknown，排在最后
+   */
+  private static groupBy(
+    feedback: IssueFeedback[],
+    getKey: (item: IssueFeedback) => string | undefined,
+    order?: string[]
+  ): Record<string, FeedbackStats> {
+    const groups = new Map<string, IssueFeedback[]>();
+    for (const item of feedback) {
+      const key = getKey(item) ?? FeedbackAnalyzer.UNKNOWN;
+      groups.set(key, [...(groups.get(key) || []), item]);
+    }
+
+    const rank = (key: string) =>
+      key === FeedbackAnalyzer.UNKNOWN
+        ? Number.MAX_SAFE_INTEGER
+        : order
+          ? order.indexOf(key)
+          : -groups.get(key)!.length;
+
+    return Object.fromEntries(
+      [...groups.keys()]
+        .sort((a, b) => rank(a) - rank(b) || a.localeCompare(b))
+        .map((key) => [key, FeedbackAnalyzer.summarize(groups.get(key)!)])
+    );
+  }
+
+  /**
+   * 验证反馈配置，返回带路径的错误信息
+   */
+  static validateConfig(raw: unknown, prefix: string): string[] {
+    if (raw === undefined || raw === null) {
+      return [];
+    }
+
+    if (typeof raw !== "object" || Array.isArray(raw)) {
+      return [`${prefix}: expected object`];
+    }
+
+    const config = raw as Record<string, any>;
+    const errors: string[] = [];
+
+    for (const key of Object.keys(config)) {
+      if (key !== "file" && key !== "pullRequests") {
+        errors.push(`${prefix}.${key}: unknown key`);
+      }
+    }
+
+    if (
+      config.file !== undefined &&
+      (typeof config.file !== "string" || !config.file.trim())
+    ) {
+      errors.push(`${prefix}.file: expected non-empty string`);
+    }
+
+    if (
+      config.pullRequests !== undefined &&
+      (!Number.isInteger(config.pullRequests) ||
+        config.pullRequests < 1 ||
+        config.pullRequests > 100)
+    ) {
+      errors.push(`${prefix}.pullRequests: expected integer from 1 to 100`);
+    }
+
+    return errors;
+  }
+}
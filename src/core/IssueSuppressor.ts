@@ -0,0 +1,331 @@
+import * as core from "@actions/core";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  BaselineEntry,
+  BaselineFile,
+  ParsedDiff,
+  ReviewIssue,
+  ReviewIssueType,
+  ReviewResult,
+  SuppressionDirective,
+} from "./types";
+import { IssueFingerprint } from "../utils/IssueFingerprint";
+
+const ISSUE_TYPES: ReviewIssueType[] = [
+  "bug",
+  "code_smell",
+  "security",
+  "performance",
+];
+const DIRECTIVE_PATTERN =
+  /\bbugment-(ignore-line|ignore-next-line|disable-file)\b(.*)$/;
+
+/**
+ * 问题抑制器
+ * 移除源码中用抑制注释标记的问题，以及误报基线中已接受的问题
+ */
+export class IssueSuppressor {
+  static readonly BASELINE_FILE = ".bugment/baseline.json";
+
+  private readFileLines: (filePath: string) => string[] | undefined;
+  private baseline: Set<string>;
+  private diffLines = new Map<string, string[]>();
+  private fileLines = new Map<string, string[] | undefined>();
+  private directives = new Map<string, SuppressionDirective[]>();
+
+  constructor(
+    readFileLines: (filePath: string) => string[] | undefined,
+    baseline: Iterable<string> = []
+  ) {
+    this.readFileLines = readFileLines;
+    this.baseline = new Set(baseline);
+  }
+
+  /**
+   * 读取工作区中的误报基线，创建问题抑制器
+   */
+  static load(
+    workspaceDir: string,
+    readFileLines: (filePath: string) => string[] | undefined
+  ): IssueSuppressor {
+    const baseline = IssueSuppressor.loadBaseline(workspaceDir);
+    return new IssueSuppressor(
+      readFileLines,
+      baseline.issues.map((entry) => entry.fingerprint)
+    );
+  }
+
+  /**
+   * 记录 diff 中新文件一侧的行，工作区中读不到文件时用于查找抑制注释
+   */
+  addDiff(parsedDiff: ParsedDiff): void {
+    for (const [filePath, hunks] of parsedDiff.files) {
+      const lines = this.diffLines.get(filePath) || [];
+      for (const hunk of hunks) {
+        let newLine = hunk.newStart;
+        for (const line of hunk.lines) {
+          if (!line.startsWith("-")) {
+            lines[newLine++ - 1] = line.substring(1);
+          }
+        }
+      }
+      this.diffLines.set(filePath, lines);
+      this.directives.delete(filePath);
+    }
+  }
+
+  /**
+   * 移除被抑制的问题并累加 suppressedCount，保留的问题补充指纹
+   */
+  apply(reviewResult: ReviewResult): ReviewResult {
+    if (reviewResult.issues.length === 0) {
+      return reviewResult;
+    }
+
+    let inlineCount = 0;
+    let baselineCount = 0;
+    const issues: ReviewIssue[] = [];
+
+    for (const issue of reviewResult.issues) {
+      const filePath = IssueFingerprint.getFilePath(issue);
+      if (
+        filePath &&
+        IssueSuppressor.isSuppressed(issue, this.getDirectives(filePath))
+      ) {
+        inlineCount++;
+        continue;
+      }
+
+      const fingerprint =
+        issue.fingerprint ||
+        IssueFingerprint.compute(
+          issue,
+          filePath ? this.getFileLines(filePath) : undefined
+        );
+      if (fingerprint && this.baseline.has(fingerprint)) {
+        baselineCount++;
+        continue;
+      }
+
+      issues.push(fingerprint ? { ...issue, fingerprint } : issue);
+    }
+
+    if (inlineCount === 0 && baselineCount === 0) {
+      return { ...reviewResult, issues };
+    }
+
+    core.info(
+      `🔕 Suppressed ${inlineCount} issues by bugment-ignore comments and ${baselineCount} issues listed in ${IssueSuppressor.BASELINE_FILE}`
+    );
+    return {
+      ...reviewResult,
+      issues,
+      totalIssues: issues.length,
+      suppressedCount:
+        (reviewResult.suppressedCount || 0) + inlineCount + baselineCount,
+    };
+  }
+
+  /**
+   * 判断问题是否被抑制注释覆盖
+   * 行级注释只作用于新文件一侧的问题，文件级注释作用于整个文件
+   */
+  static isSuppressed(
+    issue: ReviewIssue,
+    directives: SuppressionDirective[]
+  ): boolean {
+    const line = IssueFingerprint.getLineNumber(issue);
+
+    return directives.some((directive) => {
+      if (directive.types.length > 0 && !directive.types.includes(issue.type)) {
+        return false;
+      }
+      if (directive.kind === "disable-file") {
+        return true;
+      }
+      if (issue.side === "LEFT" || line === undefined) {
+        return false;
+      }
+      return directive.kind === "ignore-line"
+        ? directive.line === line
+        : directive.line === line - 1;
+    });
+  }
+
+  /**
+   * 解析文件中的抑制注释，行号从 1 开始
+   * 注释后的问题类型可以用空格或逗号分隔，遇到其他内容时停止（之后可以写原因）
+   */
+  static parseDirectives(lines: string[]): SuppressionDirective[] {
+    const directives: SuppressionDirective[] = [];
+
+    lines.forEach((content, index) => {
+      const match = content.match(DIRECTIVE_PATTERN);
+      if (!match) {
+        return;
+      }
+
+      const types: ReviewIssueType[] = [];
+      for (const token of (match[2] || "").trim().split(/[\s,]+/)) {
+        if (!ISSUE_TYPES.includes(token as ReviewIssueType)) {
+          break;
+        }
+        types.push(token as ReviewIssueType);
+      }
+
+      directives.push({
+        kind: match[1] as SuppressionDirective["kind"],
+        line: index + 1,
+        types,
+      });
+    });
+
+    return directives;
+  }
+
+  /**
+   * 读取误报基线文件，文件不存在时返回空基线
+   */
+  static loadBaseline(workspaceDir: string): BaselineFile {
+    const filePath = path.resolve(workspaceDir, IssueSuppressor.BASELINE_FILE);
+    if (!fs.existsSync(filePath)) {
+      return { version: 1, issues: [] };
+    }
+
+    const baseline = IssueSuppressor.parseBaseline(
+      fs.readFileSync(filePath, "utf-8")
+    );
+    core.info(
+      `📋 Loaded ${baseline.issues.length} accepted issues from ${IssueSuppressor.BASELINE_FILE}`
+    );
+    return baseline;
+  }
+
+  /**
+   * 解析并验证误报基线文件内容
+   */
+  static parseBaseline(
+    content: string,
+    source: string = IssueSuppressor.BASELINE_FILE
+  ): BaselineFile {
+    let document: unknown;
+    try {
+      document = JSON.parse(content);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to parse ${source}: ${message}`);
+    }
+
+    const errors = IssueSuppressor.validateBaseline(document);
+    if (errors.length > 0) {
+      throw new Error(
+        `Invalid baseline in ${source}:\n- ${errors.join("\n- ")}`
+      );
+    }
+
+    return document as BaselineFile;
+  }
+
+  /**
+   * 将问题加入基线，已在基线中的指纹保持不变，没有指纹的问题被跳过
+   */
+  static updateBaseline(
+    baseline: BaselineFile,
+    issues: ReviewIssue[]
+  ): BaselineFile {
+    const fingerprints = new Set(
+      baseline.issues.map((entry) => entry.fingerprint)
+    );
+    const entries: BaselineEntry[] = [...baseline.issues];
+
+    for (const issue of issues) {
+      if (!issue.fingerprint || fingerprints.has(issue.fingerprint)) {
+        continue;
+      }
+      fingerprints.add(issue.fingerprint);
+      entries.push({
+        fingerprint: issue.fingerprint,
+        type: issue.type,
+        title: issue.title,
+        filePath: issue.filePath || undefined,
+      });
+    }
+
+    return { version: 1, issues: entries };
+  }
+
+  /**
+   * 验证误报基线，返回带路径的错误信息
+   */
+  static validateBaseline(raw: unknown): string[] {
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+      return ["baseline: expected object"];
+    }
+
+    const baseline = raw as Record<string, any>;
+    const errors: string[] = [];
+
+    for (const key of Object.keys(baseline)) {
+      if (key !== "version" && key !== "issues") {
+        errors.push(`${key}: unknown key`);
+      }
+    }
+
+    if (baseline.version !== 1) {
+      errors.push("version: expected 1");
+    }
+
+    if (!Array.isArray(baseline.issues)) {
+      errors.push("issues: expected array");
+      return errors;
+    }
+
+    baseline.issues.forEach((entry: any, index: number) => {
+      const prefix = `issues[${index}]`;
+      if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+        errors.push(`${prefix}: expected object`);
+        return;
+      }
+      if (typeof entry.fingerprint !== "string" || !entry.fingerprint) {
+        errors.push(`${prefix}.fingerprint: expected non-empty string`);
+      }
+      if (entry.type !== undefined && !ISSUE_TYPES.includes(entry.type)) {
+        errors.push(
+          `${prefix}.type: expected one of ${ISSUE_TYPES.join(", ")}`
+        );
+      }
+      for (const key of ["title", "filePath"]) {
+        if (entry[key] !== undefined && typeof entry[key] !== "string") {
+          errors.push(`${prefix}.${key}: expected string`);
+        }
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * 读取文件内容，结果按路径缓存
+   */
+  private getFileLines(filePath: string): string[] | undefined {
+    if (!this.fileLines.has(filePath)) {
+      this.fileLines.set(filePath, this.readFileLines(filePath));
+    }
+    return this.fileLines.get(filePath);
+  }
+
+  /**
+   * 获取文件中的抑制注释，读不到文件时使用 diff 中的行
+   */
+  private getDirectives(filePath: string): SuppressionDirective[] {
+    let directives = this.directives.get(filePath);
+    if (!directives) {
+      const lines =
+        this.getFileLines(filePath) || this.diffLines.get(filePath) || [];
+      directives = IssueSuppressor.parseDirectives(lines);
+      this.directives.set(filePath, directives);
+    }
+    return directives;
+  }
+}
@@ -0,0 +1,277 @@
+import * as core from "@actions/core";
+import {
+  IgnoreRule,
+  PathReviewMode,
+  PathRule,
+  ResolvedPathRule,
+  ReviewIssue,
+  ReviewIssueSeverity,
+  ReviewResult,
+} from "./types";
+import { GitignorePattern } from "../utils/GitignorePattern";
+
+const SEVERITY_ORDER: ReviewIssueSeverity[] = [
+  "low",
+  "medium",
+  "high",
+  "critical",
+];
+const ISSUE_TYPES = ["bug", "code_smell", "security", "performance"];
+const REVIEW_MODES: PathReviewMode[] = [
+  "strict",
+  "standard",
+  "lenient",
+  "minimal",
+];
+
+/** 审查模式在提示词中的说明，与提示词模板中的上下文权重对应 */
+const MODE_DESCRIPTIONS: Record<PathReviewMode, string> = {
+  strict: "严格审查（权重1.0）",
+  standard: "适度审查（权重0.7）",
+  lenient: "宽松审查（权重0.5）",
+  minimal: "仅检查明显错误（权重0.3）",
+};
+
+/**
+ * 路径规则
+ * 按文件路径调整审查模式、关注的问题类型、最高严重程度和检查项
+ * 规则既写入提示词，也在解析结果后强制执行
+ */
+export class PathRules {
+  private rules: PathRule[];
+  private patterns: IgnoreRule[][];
+
+  constructor(rules: PathRule[] = []) {
+    this.rules = rules;
+    this.patterns = rules.map((rule) =>
+      rule.paths
+        .map((pattern) => GitignorePattern.compile(pattern, "rules"))
+        .filter((pattern): pattern is IgnoreRule => !!pattern)
+    );
+  }
+
+  /**
+   * 合并文件匹配的所有规则，后面的规则优先，检查项累加
+   * 没有匹配的规则时返回 undefined
+   */
+  resolve(filePath: string): ResolvedPathRule | undefined {
+    const normalizedPath = PathRules.normalizePath(filePath);
+    let resolved: ResolvedPathRule | undefined;
+
+    this.rules.forEach((rule, index) => {
+      if (!this.ruleMatches(index, normalizedPath)) {
+        return;
+      }
+
+      resolved = resolved || { names: [], checklist: [] };
+      resolved.names.push(PathRules.getRuleName(rule));
+      resolved.mode = rule.mode ?? resolved.mode;
+      resolved.focus = rule.focus ?? resolved.focus;
+      resolved.maxSeverity = rule.maxSeverity ?? resolved.maxSeverity;
+      resolved.checklist.push(...(rule.checklist || []));
+    });
+
+    return resolved;
+  }
+
+  /**
+   * 对审查结果强制执行规则：移除不在关注类型内的问题，降级超过最高严重程度的问题
+   * 没有文件路径的问题不受影响
+   */
+  apply(reviewResult: ReviewResult): ReviewResult {
+    if (this.rules.length === 0) {
+      return reviewResult;
+    }
+
+    let droppedCount = 0;
+    let clampedCount = 0;
+    const issues: ReviewIssue[] = [];
+
+    for (const issue of reviewResult.issues) {
+      const rule = issue.filePath ? this.resolve(issue.filePath) : undefined;
+
+      if (rule?.focus && !rule.focus.includes(issue.type)) {
+        droppedCount++;
+        continue;
+      }
+
+      if (
+        rule?.maxSeverity &&
+        SEVERITY_ORDER.indexOf(issue.severity) >
+          SEVERITY_ORDER.indexOf(rule.maxSeverity)
+      ) {
+        clampedCount++;
+        issues.push({ ...issue, severity: rule.maxSeverity });
+        continue;
+      }
+
+      issues.push(issue);
+    }
+
+    if (droppedCount > 0 || clampedCount > 0) {
+      core.info(
+        `📏 Path rules removed ${droppedCount} issues outside the rule focus and lowered the severity of ${clampedCount} issues`
+      );
+    }
+
+    return { ...reviewResult, issues, totalIssues: issues.length };
+  }
+
+  /**
+   * 生成提示词中的路径规则说明
+   * 提供 files 时只包含匹配其中至少一个文件的规则，没有规则时返回空字符串
+   */
+  formatPromptSection(files?: string[]): string {
+    const rules = this.rules.filter(
+      (_, index) =>
+        !files ||
+        files.some((file) =>
+          this.ruleMatches(index, PathRules.normalizePath(file))
+        )
+    );
+    if (rules.length === 0) {
+      return "";
+    }
+
+    const sections = rules.map((rule, index) => {
+      const lines = [
+        `### ${rule.name || `规则 ${index + 1}`}：${rule.paths.map((pattern) => `\`${pattern}\``).join(", ")}`,
+      ];
+      if (rule.mode) {
+        lines.push(`- 审查模式：${MODE_DESCRIPTIONS[rule.mode]}`);
+      }
+      if (rule.focus) {
+        lines.push(
+          `- 仅报告以下类型的问题：${rule.focus.join(", ")}，其他类型的问题会被丢弃`
+        );
+      }
+      if (rule.maxSeverity) {
+        lines.push(
+          `- 严重程度最高为 ${rule.maxSeverity}，更高的严重程度会被降级`
+        );
+      }
+      if (rule.checklist && rule.checklist.length > 0) {
+        lines.push("- 额外检查项：");
+        rule.checklist.forEach((item) => lines.push(`  - ${item}`));
+      }
+      return lines.join("\n");
+    });
+
+    return `\n\n## 路径规则\n\n以下规则由仓库配置，匹配的文件以这些规则为准，覆盖【上下文权重调整】中的默认权重。路径使用 .gitignore 语法；一个文件匹配多条规则时，后面的规则优先，检查项累加。\n\n${sections.join("\n\n")}`;
+  }
+
+  /**
+   * 判断规则是否匹配文件
+   */
+  private ruleMatches(index: number, filePath: string): boolean {
+    return GitignorePattern.matchesPath(this.patterns[index] || [], filePath);
+  }
+
+  private static normalizePath(filePath: string): string {
+    return filePath.replace(/\\/g, "/").replace(/^(\.\/|\/)+/, "");
+  }
+
+  private static getRuleName(rule: PathRule): string {
+    return rule.name || rule.paths.join(", ");
+  }
+
+  /**
+   * 验证路径规则配置，返回带路径的错误信息
+   */
+  static validate(raw: unknown, prefix: string): string[] {
+    if (raw === undefined || raw === null) {
+      return [];
+    }
+
+    if (!Array.isArray(raw)) {
+      return [`${prefix}: expected array`];
+    }
+
+    return raw.flatMap((rule, index) =>
+      PathRules.validateRule(rule, `${prefix}[${index}]`)
+    );
+  }
+
+  /**
+   * 验证单条路径规则
+   */
+  private static validateRule(rule: any, prefix: string): string[] {
+    if (!rule || typeof rule !== "object" || Array.isArray(rule)) {
+      return [`${prefix}: expected object`];
+    }
+
+    const errors: string[] = [];
+    const knownKeys = [
+      "name",
+      "paths",
+      "mode",
+      "focus",
+      "maxSeverity",
+      "checklist",
+    ];
+
+    for (const key of Object.keys(rule)) {
+      if (!knownKeys.includes(key)) {
+        errors.push(`${prefix}.${key}: unknown key`);
+      }
+    }
+
+    if (rule.name !== undefined && typeof rule.name !== "string") {
+      errors.push(`${prefix}.name: expected string`);
+    }
+
+    if (!Array.isArray(rule.paths) || rule.paths.length === 0) {
+      errors.push(`${prefix}.paths: expected non-empty array`);
+    } else {
+      rule.paths.forEach((pattern: any, index: number) => {
+        if (
+          typeof pattern !== "string" ||
+          !GitignorePattern.compile(pattern, "rules")
+        ) {
+          errors.push(`${prefix}.paths[${index}]: expected path pattern`);
+        }
+      });
+    }
+
+    if (rule.mode !== undefined && !REVIEW_MODES.includes(rule.mode)) {
+      errors.push(`${prefix}.mode: expected one of ${REVIEW_MODES.join(", ")}`);
+    }
+
+    if (rule.focus !== undefined) {
+      if (!Array.isArray(rule.focus)) {
+        errors.push(`${prefix}.focus: expected array`);
+      } else {
+        rule.focus.forEach((type: any, index: number) => {
+          if (!ISSUE_TYPES.includes(type)) {
+            errors.push(
+              `${prefix}.focus[${index}]: expected one of ${ISSUE_TYPES.join(", ")}`
+            );
+          }
+        });
+      }
+    }
+
+    if (
+      rule.maxSeverity !== undefined &&
+      !SEVERITY_ORDER.includes(rule.maxSeverity)
+    ) {
+      errors.push(
+        `${prefix}.maxSeverity: expected one of ${SEVERITY_ORDER.join(", ")}`
+      );
+    }
+
+    if (rule.checklist !== undefined) {
+      if (!Array.isArray(rule.checklist)) {
+        errors.push(`${prefix}.checklist: expected array`);
+      } else {
+        rule.checklist.forEach((item: any, index: number) => {
+          if (typeof item !== "string") {
+            errors.push(`${prefix}.checklist[${index}]: expected string`);
+          }
+        });
+      }
+    }
+
+    return errors;
+  }
+}
@@ -0,0 +1,337 @@
+import {
+  PolicyDecision,
+  PolicyRule,
+  ReviewComparison,
+  ReviewEventType,
+  ReviewIssue,
+  ReviewIssueSeverity,
+  ReviewPolicyConfig,
+  ReviewResult,
+} from "./types";
+
+const SEVERITY_ORDER: ReviewIssueSeverity[] = [
+  "low",
+  "medium",
+  "high",
+  "critical",
+];
+const ISSUE_TYPES = ["bug", "code_smell", "security", "performance"];
+const POLICY_ACTIONS = ["block", "allow"];
+const FAIL_ON_VALUES = ["never", "request_changes", "any_issue"];
+
+/**
+ * 审查策略
+ * 根据仓库配置的规则决定审查事件类型以及 Action 是否失败
+ */
+export class ReviewPolicy {
+  /**
+   * 默认策略：高/严重问题阻塞合并，其余仅评论
+   */
+  static readonly DEFAULT_CONFIG: ReviewPolicyConfig = {
+    rules: [],
+    blockOnSeverity: "high",
+    approveWhenClean: false,
+    failOn: "never",
+  };
+
+  private config: ReviewPolicyConfig;
+
+  constructor(config: Partial<ReviewPolicyConfig> = {}) {
+    this.config = { ...ReviewPolicy.DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * 获取当前策略配置
+   */
+  getConfig(): ReviewPolicyConfig {
+    return { ...this.config, rules: [...this.config.rules] };
+  }
+
+  /**
+   * 根据审查结果（以及可选的比较结果）评估策略
+   */
+  evaluate(
+    reviewResult: ReviewResult,
+    comparison?: ReviewComparison
+  ): PolicyDecision {
+    const newIssues = comparison ? new Set(comparison.newIssues) : undefined;
+    const blockingIssues: ReviewIssue[] = [];
+    const reasons: string[] = [];
+
+    for (const issue of reviewResult.issues) {
+      const isNew = newIssues ? newIssues.has(issue) : true;
+      const rule = this.findMatchingRule(issue, isNew);
+
+      if (rule) {
+        if (rule.action === "block") {
+          blockingIssues.push(issue);
+          reasons.push(
+            `${issue.id} blocked by rule "${this.getRuleName(rule)}"`
+          );
+        }
+        continue;
+      }
+
+      if (this.meetsSeverityThreshold(issue)) {
+        blockingIssues.push(issue);
+        reasons.push(
+          `${issue.id} blocked by severity threshold (${issue.severity} >= ${this.config.blockOnSeverity})`
+        );
+      }
+    }
+
+    let event: ReviewEventType = "COMMENT";
+    if (blockingIssues.length > 0) {
+      event = "REQUEST_CHANGES";
+    } else if (reviewResult.parseError) {
+      // 审查结果不完整时不能批准
+      reasons.push("review result could not be parsed completely");
+    } else if (
+      reviewResult.issues.length === 0 &&
+      this.config.approveWhenClean
+    ) {
+      event = "APPROVE";
+      reasons.push("no issues found and approveWhenClean is enabled");
+    }
+
+    const shouldFail =
+      (this.config.failOn === "request_changes" &&
+        event === "REQUEST_CHANGES") ||
+      (this.config.failOn === "any_issue" && reviewResult.issues.length > 0);
+
+    return { event, shouldFail, blockingIssues, reasons };
+  }
+
+  /**
+   * 查找第一条匹配问题的规则
+   */
+  private findMatchingRule(
+    issue: ReviewIssue,
+    isNew: boolean
+  ): PolicyRule | undefined {
+    return this.config.rules.find((rule) =>
+      this.ruleMatches(rule, issue, isNew)
+    );
+  }
+
+  /**
+   * 判断规则是否匹配问题，未设置的条件视为匹配
+   */
+  private ruleMatches(
+    rule: PolicyRule,
+    issue: ReviewIssue,
+    isNew: boolean
+  ): boolean {
+    const { match } = rule;
+
+    if (match.types && !match.types.includes(issue.type)) {
+      return false;
+    }
+
+    if (match.severities && !match.severities.includes(issue.severity)) {
+      return false;
+    }
+
+    if (
+      match.minSeverity &&
+      SEVERITY_ORDER.indexOf(issue.severity) <
+        SEVERITY_ORDER.indexOf(match.minSeverity)
+    ) {
+      return false;
+    }
+
+    if (
+      match.minConfidence !== undefined &&
+      (issue.confidence === undefined || issue.confidence < match.minConfidence)
+    ) {
+      return false;
+    }
+
+    if (match.onlyNew && !isNew) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * 检查问题是否达到默认阻塞阈值
+   */
+  private meetsSeverityThreshold(issue: ReviewIssue): boolean {
+    if (this.config.blockOnSeverity === "none") {
+      return false;
+    }
+
+    return (
+      SEVERITY_ORDER.indexOf(issue.severity) >=
+      SEVERITY_ORDER.indexOf(this.config.blockOnSeverity)
+    );
+  }
+
+  private getRuleName(rule: PolicyRule): string {
+    return rule.name || JSON.stringify(rule.match);
+  }
+
+  /**
+   * 从原始配置对象创建策略，配置无效时抛出错误
+   */
+  static fromObject(raw: unknown): ReviewPolicy {
+    const errors = ReviewPolicy.validate(raw, "policy");
+    if (errors.length > 0) {
+      throw new Error(`Invalid review policy:\n- ${errors.join("\n- ")}`);
+    }
+
+    return new ReviewPolicy((raw || {}) as Partial<ReviewPolicyConfig>);
+  }
+
+  /**
+   * 验证策略配置，返回带路径的错误信息
+   */
+  static validate(raw: unknown, prefix: string): string[] {
+    const errors: string[] = [];
+
+    if (raw === undefined || raw === null) {
+      return errors;
+    }
+
+    if (typeof raw !== "object" || Array.isArray(raw)) {
+      return [`${prefix}: expected object`];
+    }
+
+    const policy = raw as Record<string, any>;
+    const knownKeys = [
+      "rules",
+      "blockOnSeverity",
+      "approveWhenClean",
+      "failOn",
+    ];
+
+    for (const key of Object.keys(policy)) {
+      if (!knownKeys.includes(key)) {
+        errors.push(`${prefix}.${key}: unknown key`);
+      }
+    }
+
+    if (
+      policy.blockOnSeverity !== undefined &&
+      ![...SEVERITY_ORDER, "none"].includes(policy.blockOnSeverity)
+    ) {
+      errors.push(
+        `${prefix}.blockOnSeverity: expected one of ${[...SEVERITY_ORDER, "none"].join(", ")}`
+      );
+    }
+
+    if (
+      policy.approveWhenClean !== undefined &&
+      typeof policy.approveWhenClean !== "boolean"
+    ) {
+      errors.push(`${prefix}.approveWhenClean: expected boolean`);
+    }
+
+    if (
+      policy.failOn !== undefined &&
+      !FAIL_ON_VALUES.includes(policy.failOn)
+    ) {
+      errors.push(
+        `${prefix}.failOn: expected one of ${FAIL_ON_VALUES.join(", ")}`
+      );
+    }
+
+    if (policy.rules !== undefined) {
+      if (!Array.isArray(policy.rules)) {
+        errors.push(`${prefix}.rules: expected array`);
+      } else {
+        policy.rules.forEach((rule: any, index: number) => {
+          errors.push(
+            ...ReviewPolicy.validateRule(rule, `${prefix}.rules[${index}]`)
+          );
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * 验证单条策略规则
+   */
+  private static validateRule(rule: any, prefix: string): string[] {
+    const errors: string[] = [];
+
+    if (!rule || typeof rule !== "object" || Array.isArray(rule)) {
+      return [`${prefix}: expected object`];
+    }
+
+    if (rule.name !== undefined && typeof rule.name !== "string") {
+      errors.push(`${prefix}.name: expected string`);
+    }
+
+    if (!POLICY_ACTIONS.includes(rule.action)) {
+      errors.push(
+        `${prefix}.action: expected one of ${POLICY_ACTIONS.join(", ")}`
+      );
+    }
+
+    const match = rule.match;
+    if (!match || typeof match !== "object" || Array.isArray(match)) {
+      errors.push(`${prefix}.match: expected object`);
+      return errors;
+    }
+
+    const validateEnumList = (key: string, allowed: string[]) => {
+      const value = match[key];
+      if (value === undefined) return;
+      if (!Array.isArray(value)) {
+        errors.push(`${prefix}.match.${key}: expected array`);
+        return;
+      }
+      value.forEach((item: any, index: number) => {
+        if (!allowed.includes(item)) {
+          errors.push(
+            `${prefix}.match.${key}[${index}]: expected one of ${allowed.join(", ")}`
+          );
+        }
+      });
+    };
+
+    validateEnumList("types", ISSUE_TYPES);
+    validateEnumList("severities", SEVERITY_ORDER);
+
+    if (
+      match.minSeverity !== undefined &&
+      !SEVERITY_ORDER.includes(match.minSeverity)
+    ) {
+      errors.push(
+        `${prefix}.match.minSeverity: expected one of ${SEVERITY_ORDER.join(", ")}`
+      );
+    }
+
+    if (
+      match.minConfidence !== undefined &&
+      (typeof match.minConfidence !== "number" ||
+        match.minConfidence < 0 ||
+        match.minConfidence > 1)
+    ) {
+      errors.push(`${prefix}.match.minConfidence: expected number in [0, 1]`);
+    }
+
+    if (match.onlyNew !== undefined && typeof match.onlyNew !== "boolean") {
+      errors.push(`${prefix}.match.onlyNew: expected boolean`);
+    }
+
+    const knownMatchKeys = [
+      "types",
+      "severities",
+      "minSeverity",
+      "minConfidence",
+      "onlyNew",
+    ];
+    for (const key of Object.keys(match)) {
+      if (!knownMatchKeys.includes(key)) {
+        errors.push(`${prefix}.match.${key}: unknown key`);
+      }
+    }
+
+    return errors;
+  }
+}
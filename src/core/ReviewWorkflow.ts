@@ -4,8 +4,22 @@ import {
   ReviewComparison,
   ReviewIssue,
   ReviewEvent,
+  ReviewEventType,
   LineComment,
+  ReviewIssueSeverity,
+  ParsedDiff,
+  DiffSide,
+  JsonParseMethod,
+  ParsingStats,
+  PathRule,
 } from "./types";
+import { ReviewPolicy } from "./ReviewPolicy";
+import { PathRules } from "./PathRules";
+import { ComparisonUtils } from "../utils/ComparisonUtils";
+import { LineMapper } from "../utils/LineMapper";
+import { IssueFingerprint } from "../utils/IssueFingerprint";
+import { ReviewMetadata } from "../utils/ReviewMetadata";
+import { DiffPositionIndex } from "../parsers/DiffPositionIndex";
 
 /**
  * 审查工作流管理类
@@ -14,143 +28,311 @@ import {
 export class ReviewWorkflow {
   /**
    * 比较当前审查与历史审查结果
+   * 提供 lineMapper 时，会先将上次审查的问题位置映射到当前提交
    */
   static compareReviews(
     currentReview: ReviewResult,
-    previousReviews: ReviewResult[]
+    previousReviews: ReviewResult[],
+    lineMapper?: LineMapper
   ): ReviewComparison {
-    if (previousReviews.length === 0) {
-      // 首次审查 - 所有问题都是新的
-      return {
-        newIssues: currentReview.issues,
-        fixedIssues: [],
-        persistentIssues: [],
-        modifiedIssues: [],
-        fixedCount: 0,
-        newCount: currentReview.issues.length,
-        persistentCount: 0,
-      };
+    return ComparisonUtils.compareReviews(
+      currentReview,
+      previousReviews,
+      lineMapper
+    );
+  }
+
+  /**
+   * 为当前审查的问题分配行评论标记键
+   * 与上次审查匹配的问题沿用上次的键，使已有的评论线程保持关联
+   */
+  static assignCommentKeys(
+    reviewResult: ReviewResult,
+    comparison: ReviewComparison
+  ): ReviewResult {
+    const previousByCurrent = new Map(
+      (comparison.matchedIssues || []).map(({ previous, current }) => [
+        current,
+        previous,
+      ])
+    );
+
+    for (const issue of reviewResult.issues) {
+      const previous = previousByCurrent.get(issue);
+      issue.commentKey = previous
+        ? ReviewMetadata.getIssueKey(previous)
+        : ReviewMetadata.getIssueKey(issue, reviewResult.reviewId);
     }
 
-    const latestPreviousReview = previousReviews[0];
-    if (!latestPreviousReview) {
-      // 没有找到之前的审查，视为首次审查
-      return {
-        newIssues: currentReview.issues,
-        fixedIssues: [],
-        persistentIssues: [],
-        modifiedIssues: [],
-        fixedCount: 0,
-        newCount: currentReview.issues.length,
-        persistentCount: 0,
-      };
+    return reviewResult;
+  }
+
+  /**
+   * 增量审查时沿用上次审查中未被重新审查文件的问题
+   * 这些文件本次没有变更，其问题既不应视为已修复也不应视为新问题
+   */
+  static carryOverIssues(
+    currentReview: ReviewResult,
+    previousReview: ReviewResult | undefined,
+    reviewedFiles: string[]
+  ): ReviewResult {
+    if (!previousReview) {
+      return currentReview;
     }
 
-    const newIssues: ReviewIssue[] = [];
-    const fixedIssues: ReviewIssue[] = [];
-    const persistentIssues: ReviewIssue[] = [];
-    const modifiedIssues: { previous: ReviewIssue; current: ReviewIssue }[] =
-      [];
-
-    // 创建映射以便快速查找
-    const currentIssueMap = new Map(
-      currentReview.issues.map((issue) => [
-        this.getIssueSignature(issue),
-        issue,
-      ])
+    const reviewedFileSet = new Set(reviewedFiles);
+    const carriedIssues = previousReview.issues.filter(
+      (issue) => issue.filePath && !reviewedFileSet.has(issue.filePath)
     );
-    const previousIssueMap = new Map(
-      latestPreviousReview.issues.map((issue) => [
-        this.getIssueSignature(issue),
-        issue,
-      ])
+
+    if (carriedIssues.length === 0) {
+      return currentReview;
+    }
+
+    core.info(
+      `♻️ Carried over ${carriedIssues.length} issues from files not changed since the last review`
     );
+    const issues = [...currentReview.issues, ...carriedIssues];
+    return { ...currentReview, issues, totalIssues: issues.length };
+  }
 
-    // 查找新问题和持续存在的问题
-    for (const currentIssue of currentReview.issues) {
-      const signature = this.getIssueSignature(currentIssue);
-      const previousIssue = previousIssueMap.get(signature);
-
-      if (!previousIssue) {
-        newIssues.push(currentIssue);
-      } else if (this.issuesAreSimilar(currentIssue, previousIssue)) {
-        if (currentIssue.description !== previousIssue.description) {
-          modifiedIssues.push({
-            previous: previousIssue,
-            current: currentIssue,
-          });
-        } else {
-          persistentIssues.push(currentIssue);
-        }
-      }
+  /**
+   * 合并分块审查的结果
+   * 去掉多个分块重复报告的问题（保留严重程度更高的一个），并合并各分块的摘要
+   */
+  static mergeResults(results: ReviewResult[]): ReviewResult {
+    const [first, ...rest] = results;
+    if (!first) {
+      throw new Error("No review results to merge");
+    }
+    if (rest.length === 0) {
+      return first;
     }
 
-    // 查找已修复的问题
-    for (const previousIssue of latestPreviousReview.issues) {
-      const signature = this.getIssueSignature(previousIssue);
-      if (!currentIssueMap.has(signature)) {
-        fixedIssues.push(previousIssue);
+    const severityOrder: ReviewIssueSeverity[] = [
+      "low",
+      "medium",
+      "high",
+      "critical",
+    ];
+    const issues: ReviewIssue[] = [];
+    for (const issue of results.flatMap((result) => result.issues)) {
+      const duplicateIndex = issues.findIndex((existing) =>
+        IssueFingerprint.isSameIssue(existing, issue)
+      );
+      if (duplicateIndex === -1) {
+        issues.push(issue);
+      } else if (
+        severityOrder.indexOf(issue.severity) >
+        severityOrder.indexOf(issues[duplicateIndex]!.severity)
+      ) {
+        issues[duplicateIndex] = issue;
       }
     }
 
+    // 各分块的问题 ID 都从 issue_1 开始，重复时追加序号
+    const usedIds = new Set<string>();
+    const allIds = new Set(issues.map((issue) => issue.id));
+    const mergedIssues = issues.map((issue) => {
+      let id = issue.id;
+      let suffix = 1;
+      while (usedIds.has(id) || (id !== issue.id && allIds.has(id))) {
+        id = `${issue.id}_${++suffix}`;
+      }
+      usedIds.add(id);
+      return id === issue.id ? issue : { ...issue, id };
+    });
+
+    const duplicateCount =
+      results.reduce((sum, result) => sum + result.issues.length, 0) -
+      mergedIssues.length;
+    core.info(
+      `🧩 Merged ${results.length} chunk results: ${mergedIssues.length} issues (${duplicateCount} duplicates removed)`
+    );
+
+    const parseErrors = results
+      .map((result) => result.parseError)
+      .filter((error): error is string => !!error);
+    const suppressedCount = results.reduce(
+      (sum, result) => sum + (result.suppressedCount || 0),
+      0
+    );
+
     return {
-      newIssues,
-      fixedIssues,
-      persistentIssues,
-      modifiedIssues,
-      fixedCount: fixedIssues.length,
-      newCount: newIssues.length,
-      persistentCount: persistentIssues.length,
+      ...first,
+      summary: this.mergeSummaries(results.map((result) => result.summary)),
+      issues: mergedIssues,
+      totalIssues: mergedIssues.length,
+      parseError: parseErrors.length > 0 ? parseErrors.join("; ") : undefined,
+      suppressedCount: suppressedCount > 0 ? suppressedCount : undefined,
+      parsingStats: this.mergeParsingStats(
+        results
+          .map((result) => result.parsingStats)
+          .filter((stats): stats is ParsingStats => !!stats)
+      ),
     };
   }
 
   /**
-   * 生成问题签名用于比较
+   * 合并各分块的解析统计信息，解析方式取恢复程度最高的一个
    */
-  private static getIssueSignature(issue: ReviewIssue): string {
-    const locationPart = issue.location || issue.filePath || "";
-    const descriptionPart = issue.description.substring(0, 100);
-    return `${issue.type}_${locationPart}_${descriptionPart}`.replace(
-      /\s+/g,
-      "_"
-    );
+  private static mergeParsingStats(
+    stats: ParsingStats[]
+  ): ParsingStats | undefined {
+    if (stats.length === 0) {
+      return undefined;
+    }
+
+    const methodOrder: JsonParseMethod[] = ["strict", "lenient", "extracted"];
+    const methods = stats
+      .map((item) => item.parseMethod)
+      .filter((method): method is JsonParseMethod => !!method);
+
+    return {
+      isValidJson: stats.every((item) => item.isValidJson),
+      parseMethod:
+        methods.length > 0
+          ? methods.reduce((worst, method) =>
+              methodOrder.indexOf(method) > methodOrder.indexOf(worst)
+                ? method
+                : worst
+            )
+          : undefined,
+      hasIssues: stats.some((item) => item.hasIssues),
+      hasSummary: stats.some((item) => item.hasSummary),
+      estimatedIssueCount: stats.reduce(
+        (sum, item) => sum + item.estimatedIssueCount,
+        0
+      ),
+      schemaErrors: stats.flatMap((item) => item.schemaErrors),
+      droppedIssues: stats.flatMap((item) => item.droppedIssues),
+    };
   }
 
   /**
-   * 判断两个问题是否相似
+   * 合并摘要列表，去掉重复的条目并重新编号
    */
-  private static issuesAreSimilar(
-    issue1: ReviewIssue,
-    issue2: ReviewIssue
-  ): boolean {
-    return (
-      issue1.type === issue2.type &&
-      issue1.location === issue2.location &&
-      issue1.filePath === issue2.filePath &&
-      issue1.lineNumber === issue2.lineNumber
+  private static mergeSummaries(summaries: string[]): string {
+    const comments = Array.from(
+      new Set(
+        summaries
+          .flatMap((summary) => summary.split("\n"))
+          .map((line) => line.replace(/^-\s*\d+️⃣\s*/, "").trim())
+          .filter(Boolean)
+      )
     );
+
+    return comments
+      .map((comment, index) => `- ${index + 1}️⃣ ${comment}`)
+      .join("\n");
   }
 
   /**
    * 确定审查事件类型
+   * 未提供策略时使用默认策略（高/严重问题阻塞合并）
    */
   static determineReviewEvent(
-    reviewResult: ReviewResult
-  ): "REQUEST_CHANGES" | "COMMENT" {
-    if (reviewResult.totalIssues > 0) {
-      const hasCriticalOrHighIssues = reviewResult.issues.some(
-        (issue) => issue.severity === "critical" || issue.severity === "high"
+    reviewResult: ReviewResult,
+    policy: ReviewPolicy = new ReviewPolicy(),
+    comparison?: ReviewComparison
+  ): ReviewEventType {
+    return policy.evaluate(reviewResult, comparison).event;
+  }
+
+  /**
+   * 按路径规则以及严重程度和置信度阈值过滤问题
+   * 路径规则先于阈值执行，被降级的问题可能因此低于阈值
+   * 未提供置信度的问题不受置信度阈值影响
+   */
+  static filterIssues(
+    reviewResult: ReviewResult,
+    thresholds: {
+      severityThreshold: ReviewIssueSeverity;
+      minConfidence: number;
+      rules?: PathRule[];
+    }
+  ): ReviewResult {
+    reviewResult = new PathRules(thresholds.rules).apply(reviewResult);
+
+    const severityOrder: ReviewIssueSeverity[] = [
+      "low",
+      "medium",
+      "high",
+      "critical",
+    ];
+    const minSeverityIndex = severityOrder.indexOf(
+      thresholds.severityThreshold
+    );
+
+    const issues = reviewResult.issues.filter(
+      (issue) =>
+        severityOrder.indexOf(issue.severity) >= minSeverityIndex &&
+        (issue.confidence === undefined ||
+          issue.confidence >= thresholds.minConfidence)
+    );
+
+    const filteredCount = reviewResult.issues.length - issues.length;
+    if (filteredCount > 0) {
+      core.info(
+        `🔽 Filtered ${filteredCount} issues below severity "${thresholds.severityThreshold}" or confidence ${thresholds.minConfidence}`
       );
+    }
 
-      if (hasCriticalOrHighIssues) {
-        return "REQUEST_CHANGES";
+    return { ...reviewResult, issues, totalIssues: issues.length };
+  }
+
+  /**
+   * 移除指纹在忽略列表中的问题
+   */
+  static suppressIssues(
+    reviewResult: ReviewResult,
+    fingerprints: Set<string>
+  ): ReviewResult {
+    if (fingerprints.size === 0) {
+      return reviewResult;
+    }
+
+    const issues = reviewResult.issues.filter(
+      (issue) => !issue.fingerprint || !fingerprints.has(issue.fingerprint)
+    );
+
+    const suppressedCount = reviewResult.issues.length - issues.length;
+    if (suppressedCount === 0) {
+      return reviewResult;
+    }
+
+    core.info(`🔕 Suppressed ${suppressedCount} ignored issues`);
+    return {
+      ...reviewResult,
+      issues,
+      totalIssues: issues.length,
+      suppressedCount: (reviewResult.suppressedCount || 0) + suppressedCount,
+    };
+  }
+
+  /**
+   * 按行评论标记键在历史审查结果中查找问题，优先使用最近的审查
+   */
+  static findIssueByKey(
+    reviewResults: ReviewResult[],
+    issueKey: string
+  ): ReviewIssue | undefined {
+    for (const reviewResult of reviewResults) {
+      const issue = reviewResult.issues.find(
+        (issue) =>
+          ReviewMetadata.getIssueKey(issue, reviewResult.reviewId) ===
+            issueKey || issue.fingerprint === issueKey
+      );
+      if (issue) {
+        return issue;
       }
     }
-    return "COMMENT";
+    return undefined;
   }
 
   /**
    * 验证行评论是否在 diff 范围内
+   * 多行评论要求整个范围位于同一个 hunk 中
    */
   static validateLineComments(
     lineComments: LineComment[],
@@ -160,7 +342,15 @@ export class ReviewWorkflow {
     const invalid: LineComment[] = [];
 
     for (const comment of lineComments) {
-      if (this.isLineInDiff(comment.path, comment.line, diffData)) {
+      if (
+        this.isLineInDiff(
+          comment.path,
+          comment.line,
+          diffData,
+          comment.side,
+          comment.start_line
+        )
+      ) {
         valid.push(comment);
       } else {
         invalid.push(comment);
@@ -174,16 +364,23 @@ export class ReviewWorkflow {
   }
 
   /**
-   * 检查行是否在 diff 范围内
+   * 检查行（或 startLine 到 lineNumber 的范围）是否在 diff 范围内
    */
   private static isLineInDiff(
     filePath: string,
     lineNumber: number,
-    diffData: any
+    diffData: ParsedDiff | DiffPositionIndex,
+    side: DiffSide = "RIGHT",
+    startLine?: number
   ): boolean {
-    // 这里将调用 DiffParser 的验证逻辑
-    // 临时返回 true
-    return true;
+    const index =
+      diffData instanceof DiffPositionIndex
+        ? diffData
+        : DiffPositionIndex.forDiff(diffData);
+
+    return startLine !== undefined && startLine !== lineNumber
+      ? index.isRangeInSingleHunk(filePath, startLine, lineNumber, side)
+      : index.isLineInDiff(filePath, lineNumber, side);
   }
 
   /**
@@ -192,9 +389,14 @@ export class ReviewWorkflow {
   static createReviewEvent(
     reviewResult: ReviewResult,
     comparison: ReviewComparison,
-    lineComments: LineComment[]
+    lineComments: LineComment[],
+    policy?: ReviewPolicy
   ): ReviewEvent {
-    const eventType = this.determineReviewEvent(reviewResult);
+    const eventType = this.determineReviewEvent(
+      reviewResult,
+      policy,
+      comparison
+    );
 
     return {
       type: eventType,
@@ -4,3 +4,8 @@
 
 export * from "./types";
 export * from "./ReviewWorkflow";
+export * from "./ReviewPolicy";
+export * from "./PathRules";
+export * from "./CommandRouter";
+export * from "./IssueSuppressor";
+export * from "./FeedbackAnalyzer";
@@ -7,6 +7,7 @@ export interface ActionInputs {
   augmentAccessToken: string;
   augmentTenantUrl: string;
   githubToken: string;
+  llmApiKey?: string; // OpenAI 兼容后端的 API Key
 }
 
 export interface PullRequestInfo {
@@ -17,8 +18,12 @@ export interface PullRequestInfo {
   headSha: string;
   owner: string;
   repo: string;
+  baseBranch?: string;
+  author?: string;
 }
 
+export type DiffSide = "LEFT" | "RIGHT";
+
 export interface ReviewIssue {
   id: string;
   type: "bug" | "code_smell" | "security" | "performance";
@@ -31,8 +36,12 @@ export interface ReviewIssue {
   lineNumber?: number;
   startLine?: number;
   endLine?: number;
+  side?: DiffSide; // LEFT 表示问题位于被删除的代码（行号为旧文件行号），默认 RIGHT
   fixPrompt?: string;
+  suggestion?: string; // 用于替换 startLine..endLine 的代码，渲染为 GitHub 建议修改
   diffHunk?: string;
+  fingerprint?: string; // 问题所在代码片段的规范化哈希，用于跨提交匹配
+  commentKey?: string; // 行评论中隐藏标记使用的键，匹配到的问题沿用上次的键
 }
 
 export interface DiffHunk {
@@ -55,6 +64,16 @@ export interface ReviewResult {
   summary: string;
   issues: ReviewIssue[];
   totalIssues: number;
+  parseError?: string; // 模型输出无法解析时的错误，此时结果不完整
+  parsingStats?: ParsingStats; // 模型输出的解析质量，不随审查结果持久化
+  suppressedCount?: number; // 被源码抑制注释、基线文件或 /bugment ignore 移除的问题数
+}
+
+export interface ReviewScope {
+  mode: "full" | "incremental";
+  baseSha: string; // 完整审查时为 PR base，增量审查时为上次审查的提交
+  headSha: string;
+  paths?: string[]; // /bugment review 命令限定的路径模式，未设置时审查全部文件
 }
 
 export interface ReviewComparison {
@@ -62,6 +81,7 @@ export interface ReviewComparison {
   fixedIssues: ReviewIssue[];
   persistentIssues: ReviewIssue[];
   modifiedIssues: { previous: ReviewIssue; current: ReviewIssue }[];
+  matchedIssues?: { previous: ReviewIssue; current: ReviewIssue }[]; // 持续存在和已修改问题的配对
   fixedCount: number;
   newCount: number;
   persistentCount: number;
@@ -88,16 +108,27 @@ export interface LineComment {
   line: number;
   body: string;
   start_line?: number;
-  start_side?: "LEFT" | "RIGHT";
-  side?: "LEFT" | "RIGHT";
+  start_side?: DiffSide;
+  side?: DiffSide;
 }
 
+export type ReviewEventType = "APPROVE" | "REQUEST_CHANGES" | "COMMENT";
+
 export interface ReviewEvent {
-  type: "REQUEST_CHANGES" | "COMMENT";
+  type: ReviewEventType;
   body: string;
   lineComments: LineComment[];
 }
 
+export interface ReviewThread {
+  id: string;
+  isResolved: boolean;
+  issueKey: string;
+  reviewId?: string; // 线程所属审查的 node id
+  path?: string;
+  line?: number;
+}
+
 export interface LocationInfo {
   filePath?: string;
   lineNumber?: number;
@@ -115,6 +146,32 @@ export interface SeverityDistribution {
 export type ReviewIssueType = ReviewIssue["type"];
 export type ReviewIssueSeverity = ReviewIssue["severity"];
 
+/**
+ * 源码中的抑制注释，如 // bugment-ignore-next-line security
+ * types 为空时抑制所有类型的问题
+ */
+export interface SuppressionDirective {
+  kind: "ignore-line" | "ignore-next-line" | "disable-file";
+  line: number;
+  types: ReviewIssueType[];
+}
+
+/**
+ * 误报基线文件（.bugment/baseline.json）中已接受的问题
+ * 只有 fingerprint 参与匹配，其余字段便于人工查看
+ */
+export interface BaselineEntry {
+  fingerprint: string;
+  type?: ReviewIssueType;
+  title?: string;
+  filePath?: string;
+}
+
+export interface BaselineFile {
+  version: 1;
+  issues: BaselineEntry[];
+}
+
 // JSON 解析相关接口
 export interface JsonReviewData {
   summary: {
@@ -135,15 +192,147 @@ export interface JsonIssueData {
   lineNumber?: number;
   startLine?: number;
   endLine?: number;
+  side?: DiffSide;
   fixPrompt?: string;
+  suggestion?: string; // 替换 startLine..endLine 的完整代码
 }
 
 // 解析统计信息
+export type JsonParseMethod = "strict" | "lenient" | "extracted";
+
 export interface ParsingStats {
   isValidJson: boolean;
+  parseMethod?: JsonParseMethod; // 解析成功时使用的恢复层级
   hasIssues: boolean;
   hasSummary: boolean;
   estimatedIssueCount: number;
+  schemaErrors: string[]; // JSON Schema 校验错误，如 issues[3].lineNumber: expected integer
+  droppedIssues: DroppedIssue[];
+}
+
+// 因缺少必需字段等原因被丢弃的问题
+export interface DroppedIssue {
+  index: number; // 在模型输出 issues 数组中的序号
+  chunk?: number; // 分块审查时所在的分块序号
+  id?: string;
+  title?: string;
+  reasons: string[];
+}
+
+// 评论和摘要中文案的语言
+export type Locale = "zh-CN" | "en" | "ja";
+
+/**
+ * 面向用户的文案目录，每种语言一份
+ */
+export interface Messages {
+  locale: Locale;
+  outputLanguageInstruction: string; // 追加到提示词中，要求模型使用该语言撰写
+  issueTypes: Record<ReviewIssueType, string>;
+  otherIssueType: string;
+  severities: Record<ReviewIssueSeverity, string>;
+  labels: {
+    severity: string;
+    confidence: string;
+    description: string;
+    location: string;
+    fixPrompt: string;
+    suggestion: string;
+  };
+  comment: {
+    fullScope: (range: string) => string;
+    incrementalScope: (range: string) => string;
+    resultsHeading: string;
+    reviewedChanges: (count: number) => string;
+    suppressedIssues: (count: number) => string;
+    fileColumn: string;
+    issuesFoundColumn: string;
+    issueCount: (count: number) => string;
+    issueKinds: (typeNames: string[]) => string;
+    cleanHeading: string;
+    cleanBody: string;
+    parseErrorTitle: string;
+    parseErrorBody: string;
+    parseErrorLabel: string; // 包含结尾的冒号
+    comparisonHeading: string;
+    fixedIssues: string;
+    newIssues: string;
+    persistentIssues: string;
+    modifiedIssues: string;
+    count: (count: number) => string;
+    outsideDiffHeading: string;
+    outsideDiffIntro: (count: number) => string;
+    skippedFiles: (count: number) => string;
+    moreSkippedFiles: (count: number) => string;
+    bodyTruncated: string;
+    patternColumn: string;
+    sourceColumn: string;
+    defaultRuleSource: string;
+    configSource: string;
+    pathScope: (paths: string) => string;
+    statisticsHeading: string;
+    typeColumn: string;
+    countColumn: string;
+    severityDistributionColumn: string;
+    expandDetails: (typeName: string, count: number) => string;
+  };
+  lineComment: {
+    lineRange: (startLine: number, endLine?: number) => string;
+    relocated: (lineRange: string) => string;
+  };
+  summary: {
+    noIssues: string;
+    issuesFound: (total: number, parts: string[]) => string;
+    typeCount: (count: number, typeName: string) => string;
+    fixed: (count: number) => string;
+    new: (count: number) => string;
+    persistent: (count: number) => string;
+    modified: (count: number) => string;
+    comparison: (parts: string[]) => string;
+    noChanges: string;
+  };
+  checkRun: {
+    inProgressTitle: string;
+    inProgressSummary: string;
+    title: (count: number) => string;
+    decisionHeading: string;
+    unannotated: (count: number) => string;
+    failedTitle: string;
+  };
+  command: {
+    usage: string;
+    unauthorized: (user: string, association: string) => string;
+    replyRequired: (command: string) => string;
+    issueNotFound: string;
+    explainHeading: string;
+    ignored: (fingerprint: string) => string;
+    noFingerprint: string;
+  };
+  feedback: {
+    heading: string;
+    summary: (precision: string, rated: number, comments: number) => string;
+    noFeedback: string;
+    pullRequests: (count: number) => string;
+    byType: string;
+    bySeverity: string;
+    byConfidence: string;
+    byFilePattern: string;
+    commentsColumn: string;
+    usefulColumn: string;
+    notUsefulColumn: string;
+    unratedColumn: string;
+    repliesColumn: string;
+    precisionColumn: string;
+    unknown: string;
+  };
+  terminal: {
+    scope: (range: string) => string;
+    parseError: (error: string) => string;
+    noIssues: string;
+    total: (count: number, distribution: string) => string;
+    suppressed: (count: number) => string;
+    otherLocation: string;
+  };
 }
 
 // 问题统计信息
@@ -152,3 +341,406 @@ export interface IssueStatistics {
   byType: Record<string, number>;
   bySeverity: Record<string, number>;
 }
+
+// 审查策略相关接口
+export type PolicyAction = "block" | "allow";
+
+export interface PolicyMatcher {
+  types?: ReviewIssueType[];
+  severities?: ReviewIssueSeverity[];
+  minSeverity?: ReviewIssueSeverity;
+  minConfidence?: number;
+  onlyNew?: boolean; // 仅匹配相对上次审查新增的问题
+}
+
+export interface PolicyRule {
+  name?: string;
+  match: PolicyMatcher;
+  action: PolicyAction;
+}
+
+export interface ReviewPolicyConfig {
+  rules: PolicyRule[];
+  blockOnSeverity: ReviewIssueSeverity | "none"; // 未命中任何规则时的阻塞阈值
+  approveWhenClean: boolean;
+  failOn: "never" | "request_changes" | "any_issue";
+}
+
+export interface PolicyDecision {
+  event: ReviewEventType;
+  shouldFail: boolean;
+  blockingIssues: ReviewIssue[];
+  reasons: string[];
+}
+
+// 按路径生效的审查规则
+export type PathReviewMode = "strict" | "standard" | "lenient" | "minimal";
+
+export interface PathRule {
+  name?: string;
+  paths: string[]; // gitignore 语法的路径模式，支持 ! 取反
+  mode?: PathReviewMode; // 审查严格程度，对应提示词中的上下文权重
+  focus?: ReviewIssueType[]; // 仅报告这些类型的问题
+  maxSeverity?: ReviewIssueSeverity; // 超过该级别的问题会被降级
+  checklist?: string[]; // 额外的检查项
+}
+
+// 文件最终生效的路径规则（合并所有匹配的规则）
+export interface ResolvedPathRule {
+  names: string[];
+  mode?: PathReviewMode;
+  focus?: ReviewIssueType[];
+  maxSeverity?: ReviewIssueSeverity;
+  checklist: string[];
+}
+
+// 仓库配置相关接口
+export interface IgnoreConfig {
+  useDefaults: boolean;
+  patterns: string[];
+  gitattributes: boolean; // 是否忽略 .gitattributes 中标记为 linguist-generated 或 linguist-vendored 的文件
+}
+
+// 编译后的忽略规则
+export interface IgnoreRule {
+  pattern: string; // 原始模式
+  source: string; // 规则来源，如 default、.bugmentignore、src/.bugmentignore
+  line?: number; // 在来源文件中的行号，从 1 开始
+  baseDir: string; // 规则生效的目录（相对仓库根目录，根目录为空字符串）
+  negated: boolean; // ! 开头的规则重新包含已忽略的路径
+  directoryOnly: boolean; // / 结尾的规则只匹配目录
+  regex: RegExp;
+}
+
+// 被忽略的文件及忽略它的规则
+export interface IgnoreMatch {
+  filePath: string;
+  pattern: string;
+  source: string;
+  line?: number;
+}
+
+export type ReviewBackendType = "augment" | "openai";
+
+export interface ReviewBackendConfig {
+  type: ReviewBackendType;
+  baseUrl?: string; // OpenAI 兼容接口地址，如 http://localhost:8080/v1
+  model?: string;
+  timeoutSeconds: number; // OpenAI 兼容接口的请求总超时
+  idleTimeoutSeconds: number; // Augment 流式回复两次分块之间的最长间隔
+}
+
+/**
+ * 审查后端执行时可用的上下文
+ */
+export interface ReviewBackendContext {
+  projectPath: string;
+  diffPath: string;
+  fullDiffPath?: string; // 增量审查时的完整 PR diff
+  attachDiff?: boolean; // 不能读取工作区的后端是否需要将 diff 附加到提示词，仅审查提示词需要
+}
+
+/**
+ * 提示词配置，路径均相对仓库根目录
+ */
+export interface PromptConfig {
+  template?: string; // 替换内置模板的自定义模板
+  append: string[]; // 追加到模板末尾的文件
+  guidelines: string[]; // 审查规则文件，最后一级路径支持通配符，如 .bugment/rules/*.md
+}
+
+/**
+ * 提示词中引用的审查规则文件
+ */
+export interface PromptGuideline {
+  path: string;
+  content: string;
+  truncated: boolean;
+}
+
+/**
+ * diff 中单个文件的变更行数
+ */
+export interface DiffFileStats {
+  path: string;
+  additions: number;
+  deletions: number;
+}
+
+/**
+ * SARIF 2.1.0 日志中 Bugment 使用的部分
+ * https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html
+ */
+export type SarifLevel = "error" | "warning" | "note";
+
+export interface SarifMessage {
+  text: string;
+  markdown?: string;
+}
+
+export interface SarifRegion {
+  startLine: number;
+  endLine?: number;
+}
+
+export interface SarifPhysicalLocation {
+  artifactLocation: { uri: string; uriBaseId?: string };
+  region?: SarifRegion;
+}
+
+export interface SarifFix {
+  description: SarifMessage;
+  artifactChanges: Array<{
+    artifactLocation: { uri: string; uriBaseId?: string };
+    replacements: Array<{
+      deletedRegion: SarifRegion;
+      insertedContent: { text: string };
+    }>;
+  }>;
+}
+
+export interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: SarifMessage;
+  fullDescription?: SarifMessage;
+  helpUri?: string;
+  defaultConfiguration: { level: SarifLevel };
+  properties: { tags: string[]; precision?: string };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: SarifMessage;
+  locations: Array<{ physicalLocation: SarifPhysicalLocation }>;
+  partialFingerprints?: Record<string, string>;
+  rank?: number; // 0-100，由置信度换算
+  fixes?: SarifFix[];
+  properties: {
+    severity: ReviewIssueSeverity;
+    confidence?: number;
+    fixPrompt?: string;
+  };
+}
+
+export interface SarifRun {
+  tool: {
+    driver: {
+      name: string;
+      informationUri: string;
+      semanticVersion?: string;
+      rules: SarifRule[];
+    };
+  };
+  automationDetails?: { id: string };
+  versionControlProvenance?: Array<{
+    repositoryUri: string;
+    revisionId: string;
+    branch?: string;
+  }>;
+  invocations: Array<{
+    executionSuccessful: boolean;
+    toolExecutionNotifications?: Array<{
+      level: SarifLevel;
+      message: SarifMessage;
+    }>;
+  }>;
+  results: SarifResult[];
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: "2.1.0";
+  runs: SarifRun[];
+}
+
+/**
+ * 审查结果的发布方式：review 为 PR 审查，check 为 Checks API 检查运行
+ */
+export type PublishTarget = "review" | "check";
+
+export type CheckRunConclusion = "success" | "neutral" | "failure";
+
+/**
+ * 检查运行的注释，字段名与 Checks API 一致
+ */
+export interface CheckRunAnnotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: "notice" | "warning" | "failure";
+  title: string;
+  message: string;
+  raw_details?: string;
+}
+
+/**
+ * PR 评论中的 /bugment 命令
+ */
+export type BugmentCommandName = "review" | "explain" | "ignore" | "help";
+
+export interface BugmentCommand {
+  name: BugmentCommandName;
+  args: string[]; // 命令之后的参数，如 review 的路径模式
+}
+
+/**
+ * 包含命令的 PR 评论
+ */
+export interface CommandComment {
+  id: number;
+  kind: "issue" | "review"; // issue 为 PR 对话中的评论，review 为行评论
+  body: string;
+  author: string;
+  authorAssociation: string; // GitHub 的 author_association，如 OWNER、MEMBER
+  pullNumber: number;
+  inReplyToId?: number; // 行评论回复所在线程的首条评论
+}
+
+/**
+ * 命令配置
+ */
+export interface CommandsConfig {
+  allowedAssociations: string[]; // 可以使用命令的作者关联
+}
+
+/**
+ * 反馈报告配置
+ */
+export interface FeedbackConfig {
+  file?: string; // 反馈报告的输出路径（相对工作区），PR 审查中未设置时不收集反馈
+  pullRequests: number; // 定时运行时统计最近更新的 PR 数量
+}
+
+/**
+ * Bugment 行评论收到的反馈：👍/👎 回应和人工回复
+ */
+export interface LineCommentFeedback {
+  pullNumber: number;
+  commentId: number;
+  issueKey: string;
+  path: string;
+  positive: number; // 👍 数量
+  negative: number; // 👎 数量
+  replies: number; // 非机器人的回复数量
+  ignored: boolean; // 回复中使用了 /bugment ignore
+}
+
+/**
+ * 评论是否有用：👍 多于 👎 为 useful，👎 多于 👍 或被 /bugment ignore 为 not_useful
+ */
+export type FeedbackVerdict = "useful" | "not_useful" | "unrated";
+
+/**
+ * 关联到问题的行评论反馈，找不到问题时只有评论信息
+ */
+export interface IssueFeedback extends LineCommentFeedback {
+  verdict: FeedbackVerdict;
+  type?: ReviewIssueType;
+  severity?: ReviewIssueSeverity;
+  confidence?: number;
+}
+
+export interface FeedbackStats {
+  comments: number;
+  useful: number;
+  notUseful: number;
+  unrated: number;
+  replies: number;
+  precision: number | null; // useful / (useful + notUseful)，没有评价时为 null
+}
+
+/**
+ * 反馈报告：按问题类型、严重程度、置信度区间和文件类型统计评论的准确率
+ */
+export interface FeedbackReport {
+  generatedAt: string;
+  repository: string;
+  pullRequests: number[];
+  total: FeedbackStats;
+  byType: Record<string, FeedbackStats>;
+  bySeverity: Record<string, FeedbackStats>;
+  byConfidence: Record<string, FeedbackStats>;
+  byFilePattern: Record<string, FeedbackStats>;
+  comments: IssueFeedback[];
+}
+
+/**
+ * 模型输出无法解析时的处理方式：fail 使 Action 失败，warn 发布带有醒目警告的审查
+ */
+export type ParseErrorAction = "fail" | "warn";
+
+/**
+ * 大型 diff 的分块审查配置
+ */
+export interface ChunkingConfig {
+  maxTokens: number; // 单个分块的 token 预算，0 表示不分块
+  concurrency: number; // 同时审查的分块数量
+}
+
+/**
+ * 按 token 预算拆分出的 diff 分块
+ */
+export interface DiffChunk {
+  index: number; // 从 1 开始
+  files: string[];
+  content: string;
+  estimatedTokens: number;
+}
+
+/**
+ * LLM 审查后端：接收完整提示词，返回模型的原始输出
+ */
+export interface ReviewBackend {
+  readonly name: ReviewBackendType;
+  review(prompt: string, context: ReviewBackendContext): Promise<string>;
+}
+
+/**
+ * .bugment.yml 文件中的配置（所有字段可选）
+ */
+export interface RepositoryConfig {
+  language?: string;
+  severityThreshold?: ReviewIssueSeverity;
+  minConfidence?: number;
+  maxLineComments?: number;
+  snapDistance?: number;
+  incremental?: boolean;
+  ignore?: Partial<IgnoreConfig>;
+  policy?: Partial<ReviewPolicyConfig>;
+  backend?: Partial<ReviewBackendConfig>;
+  chunking?: Partial<ChunkingConfig>;
+  onParseError?: ParseErrorAction;
+  rules?: PathRule[];
+  prompt?: Partial<PromptConfig>;
+  sarifFile?: string;
+  publish?: PublishTarget[];
+  commands?: Partial<CommandsConfig>;
+  feedback?: Partial<FeedbackConfig>;
+}
+
+/**
+ * 合并仓库配置与 Action 输入后的完整配置
+ */
+export interface BugmentConfig extends ActionInputs {
+  configFile?: string; // 实际加载的配置文件路径
+  language: string;
+  severityThreshold: ReviewIssueSeverity; // 低于该级别的问题不会被报告
+  minConfidence: number; // 低于该置信度的问题不会被报告
+  maxLineComments: number; // 0 表示不限制
+  snapDistance: number; // 不在 diff 中的问题最多移动的行数，0 表示不移动
+  incremental: boolean; // synchronize 事件时仅审查上次审查之后的提交
+  ignore: IgnoreConfig;
+  policy: ReviewPolicyConfig;
+  backend: ReviewBackendConfig;
+  chunking: ChunkingConfig;
+  onParseError: ParseErrorAction;
+  rules: PathRule[]; // 按路径生效的审查规则，后面的规则优先
+  prompt: PromptConfig;
+  sarifFile?: string; // SARIF 报告的输出路径（相对工作区），未设置时不生成
+  publish: PublishTarget[];
+  commands: CommandsConfig;
+  feedback: FeedbackConfig;
+}
@@ -1,25 +1,67 @@
-import { FileWithIssues, ReviewIssue, ReviewResult } from "../core/types";
+import {
+  FileWithIssues,
+  IgnoreMatch,
+  Messages,
+  ReviewComparison,
+  ReviewIssue,
+  ReviewResult,
+  ReviewScope,
+} from "../core/types";
+import { I18n } from "../i18n/I18n";
 import { FormatUtils } from "../utils/FormatUtils";
+import { IgnoreManager } from "../utils/IgnoreManager";
+import { ReviewMetadata } from "../utils/ReviewMetadata";
 
 /**
  * 评论格式化器类
- * 负责格式化 GitHub 评论内容
+ * 负责格式化 GitHub 评论内容，文案语言由 language 决定
  */
 export class CommentFormatter {
+  /** 主评论中最多列出的跳过文件数，完整列表在 Action 日志中 */
+  static readonly MAX_SKIPPED_FILES = 100;
+
+  private messages: Messages;
+
+  constructor(private language: string = I18n.DEFAULT_LANGUAGE) {
+    this.messages = I18n.getMessages(language);
+  }
+
   /**
    * 格式化主要审查评论
+   * outsideDiffIssues 为无法发布为行评论的问题，会单独列出
+   * skippedFiles 为因忽略规则未参与审查的文件，会列出匹配的规则
    */
-  formatMainReviewComment(reviewResult: ReviewResult): string {
+  formatMainReviewComment(
+    reviewResult: ReviewResult,
+    scope?: ReviewScope,
+    comparison?: ReviewComparison,
+    outsideDiffIssues: ReviewIssue[] = [],
+    skippedFiles: IgnoreMatch[] = []
+  ): string {
     let content = `## Bugment Code Review\n\n`;
 
+    // 标明本次审查覆盖的提交范围
+    if (scope) {
+      content += `${this.formatReviewScope(scope)}\n\n`;
+    }
+
     // 基于原始审查添加 PR 摘要
     if (reviewResult.summary && reviewResult.summary.trim()) {
       content += `${reviewResult.summary}\n\n`;
     }
 
     // 添加审查变更部分
-    content += `### 审查结果\n\n`;
-    content += `Bugment 审查了代码变更并生成了 ${reviewResult.totalIssues} 条评论。\n\n`;
+    const text = this.messages.comment;
+    content += `### ${text.resultsHeading}\n\n`;
+    content += `${text.reviewedChanges(reviewResult.totalIssues)}\n\n`;
+    if (reviewResult.suppressedCount) {
+      content += `${text.suppressedIssues(reviewResult.suppressedCount)}\n\n`;
+    }
+
+    // 审查结果不完整时在最前面显示醒目警告
+    if (reviewResult.parseError) {
+      content += this.formatParseErrorSection(reviewResult.parseError);
+    }
 
     // 检查这是否是一个干净的 PR（未发现问题）
     const hasAnyIssues = reviewResult.totalIssues > 0;
@@ -27,37 +69,201 @@ export class CommentFormatter {
     // 如果有文件位置的问题，创建文件摘要表
     const filesWithIssues = this.getFilesWithIssues(reviewResult.issues);
     if (filesWithIssues.length > 0) {
-      content += `| 文件 | 发现的问题 |\n`;
+      content += `| ${text.fileColumn} | ${text.issuesFoundColumn} |\n`;
       content += `| ---- | ---------- |\n`;
 
       filesWithIssues.forEach(({ filePath, issues, description }) => {
         const issueCount = issues.length;
         const severityDistribution =
           FormatUtils.getSeverityDistribution(issues);
-        content += `| ${filePath} | ${issueCount} 个问题 (${severityDistribution}) - ${description} |\n`;
+        content += `| ${filePath} | ${text.issueCount(issueCount)} (${severityDistribution}) - ${description} |\n`;
       });
       content += `\n`;
     }
 
-    // 移除变更摘要功能
+    // 无法定位到 diff 中的问题在此完整展示，避免丢失
+    if (outsideDiffIssues.length > 0) {
+      content += this.formatOutsideDiffSection(outsideDiffIssues);
+    }
 
-    // 为干净的 PR 显示成功消息
-    if (!hasAnyIssues) {
-      content += `### 🎉 优秀的工作！\n\n`;
-      content += `此 Pull Request 未发现任何问题，代码符合质量标准。\n\n`;
+    // 与上次审查的对比（首次审查时不提供）
+    if (comparison) {
+      content += this.formatComparisonSection(comparison);
+    }
+
+    // 为干净的 PR 显示成功消息，审查结果不完整时除外
+    if (!hasAnyIssues && !reviewResult.parseError) {
+      content += `### ${text.cleanHeading}\n\n`;
+      content += `${text.cleanBody}\n\n`;
+    }
+
+    // 列出未参与审查的文件，便于排查文件缺失的原因
+    if (skippedFiles.length > 0) {
+      content += this.formatSkippedFilesSection(skippedFiles);
     }
 
     // 添加带有操作源的页脚
-    content += `\n---\n*🤖 Powered by [Bugment AI Code Review](https://github.com/J3n5en/Bugment)*\n\n`;
+    const footer = `\n---\n*🤖 Powered by [Bugment AI Code Review](https://github.com/J3n5en/Bugment)*\n\n`;
+
+    // 记录已审查的提交，供后续增量审查使用，只审查部分路径的审查除外
+    // 审查结果不完整时不作为后续增量审查和对比的基准
+    let marker = "";
+    if (!reviewResult.parseError && scope?.paths) {
+      marker = `${ReviewMetadata.createPathScopeMarker()}\n`;
+    } else if (!reviewResult.parseError && scope) {
+      marker = `${ReviewMetadata.createReviewedShaMarker(scope.headSha)}\n`;
+    }
+
+    // 正文超过 GitHub 的长度限制时截断，页脚和标记始终完整保留
+    content =
+      this.truncateContent(
+        content,
+        ReviewMetadata.MAX_BODY_LENGTH - footer.length - marker.length - 1
+      ) +
+      footer +
+      marker;
+
+    if (reviewResult.parseError) {
+      return content;
+    }
+
+    // 保存机器可读的审查结果，供下一次审查进行对比
+    const resultBlock = ReviewMetadata.createReviewResultBlock(
+      reviewResult,
+      Math.max(0, ReviewMetadata.MAX_BODY_LENGTH - content.length - 1)
+    );
+    if (resultBlock) {
+      content += `${resultBlock}\n`;
+    }
+
+    return content;
+  }
+
+  /**
+   * 将内容截断到 maxLength 以内，并注明内容已被截断
+   */
+  private truncateContent(content: string, maxLength: number): string {
+    if (content.length <= maxLength) {
+      return content;
+    }
+
+    const note = `\n\n> [!NOTE]\n> ${this.messages.comment.bodyTruncated}\n`;
+    let end = Math.max(0, maxLength - note.length);
+    // 避免截断在代理对中间
+    if (/[\uD800-\uDBFF]/.test(content.charAt(end - 1))) {
+      end--;
+    }
+    return content.substring(0, end) + note;
+  }
+
+  /**
+   * 格式化审查结果解析失败的警告
+   */
+  formatParseErrorSection(parseError: string): string {
+    const text = this.messages.comment;
+    let content = `> [!WARNING]\n`;
+    content += `> **${text.parseErrorTitle}**\n>\n`;
+    content += `> ${text.parseErrorBody}\n>\n`;
+    content += `> ${text.parseErrorLabel}\`${parseError.replace(/`/g, "'").replace(/\s+/g, " ")}\`\n\n`;
+    return content;
+  }
+
+  /**
+   * 格式化与上次审查的对比部分
+   */
+  formatComparisonSection(comparison: ReviewComparison): string {
+    const text = this.messages.comment;
+    const sections: Array<{ heading: string; issues: ReviewIssue[] }> = [
+      { heading: text.fixedIssues, issues: comparison.fixedIssues },
+      { heading: text.newIssues, issues: comparison.newIssues },
+      { heading: text.persistentIssues, issues: comparison.persistentIssues },
+      {
+        heading: text.modifiedIssues,
+        issues: comparison.modifiedIssues.map(({ current }) => current),
+      },
+    ];
+
+    let content = `### ${text.comparisonHeading}\n\n`;
+    for (const { heading, issues } of sections) {
+      if (issues.length === 0) {
+        continue;
+      }
+
+      content += `<details>\n`;
+      content += `<summary>${heading} (${text.count(issues.length)})</summary>\n\n`;
+      issues.forEach((issue) => {
+        const location = issue.location ? ` - \`${issue.location}\`` : "";
+        content += `- ${FormatUtils.getSeverityEmoji(issue.severity)} ${issue.title}${location}\n`;
+      });
+      content += `\n</details>\n\n`;
+    }
 
     return content;
   }
 
+  /**
+   * 格式化 diff 范围外的问题部分
+   */
+  formatOutsideDiffSection(issues: ReviewIssue[]): string {
+    const text = this.messages.comment;
+    let content = `### ${text.outsideDiffHeading}\n\n`;
+    content += `${text.outsideDiffIntro(issues.length)}\n\n`;
+    issues.forEach((issue, index) => {
+      content += this.formatIssueForGitHub(issue, index + 1);
+    });
+    return content;
+  }
+
+  /**
+   * 格式化因忽略规则跳过的文件部分
+   */
+  formatSkippedFilesSection(skippedFiles: IgnoreMatch[]): string {
+    const text = this.messages.comment;
+    let content = `<details>\n`;
+    content += `<summary>${text.skippedFiles(skippedFiles.length)}</summary>\n\n`;
+    content += `| ${text.fileColumn} | ${text.patternColumn} | ${text.sourceColumn} |\n`;
+    content += `| ---- | -------- | ---- |\n`;
+    skippedFiles
+      .slice(0, CommentFormatter.MAX_SKIPPED_FILES)
+      .forEach((match) => {
+        const source =
+          match.source === "default"
+            ? text.defaultRuleSource
+            : match.source === "config"
+              ? text.configSource
+              : `\`${IgnoreManager.formatSource(match)}\``;
+        content += `| \`${match.filePath}\` | \`${match.pattern.replace(/\|/g, "\\|")}\` | ${source} |\n`;
+      });
+    if (skippedFiles.length > CommentFormatter.MAX_SKIPPED_FILES) {
+      content += `\n${text.moreSkippedFiles(skippedFiles.length - CommentFormatter.MAX_SKIPPED_FILES)}\n`;
+    }
+    content += `\n</details>\n\n`;
+    return content;
+  }
+
+  /**
+   * 格式化审查范围说明
+   */
+  formatReviewScope(scope: ReviewScope): string {
+    const range = `\`${scope.baseSha.substring(0, 7)}..${scope.headSha.substring(0, 7)}\``;
+    const text = this.messages.comment;
+    const content =
+      scope.mode === "incremental"
+        ? `> ${text.incrementalScope(range)}`
+        : `> ${text.fullScope(range)}`;
+    if (!scope.paths) {
+      return content;
+    }
+
+    const paths = scope.paths.map((pattern) => `\`${pattern}\``).join(", ");
+    return `${content}\n>\n> ${text.pathScope(paths)}`;
+  }
+
   /**
    * 格式化行评论
    */
   formatLineComment(issue: ReviewIssue): string {
-    return FormatUtils.formatBasicLineComment(issue);
+    return FormatUtils.formatBasicLineComment(issue, false, this.language);
   }
 
   /**
@@ -72,23 +278,24 @@ export class CommentFormatter {
         ? "WARNING"
         : "NOTE";
     formatted += `> [!${alertType}]\n`;
-    formatted += `> **严重程度:** ${FormatUtils.getSeverityEmoji(issue.severity)} ${FormatUtils.getSeverityText(issue.severity)}`;
+    const { labels } = this.messages;
+    formatted += `> **${labels.severity}:** ${FormatUtils.getSeverityEmoji(issue.severity)} ${FormatUtils.getSeverityText(issue.severity, this.language)}`;
 
     if (issue.confidence) {
-      formatted += ` | **置信度:** ${FormatUtils.getConfidenceDisplay(issue.confidence)}`;
+      formatted += ` | **${labels.confidence}:** ${FormatUtils.getConfidenceDisplay(issue.confidence)}`;
     }
     formatted += `\n\n`;
 
-    formatted += `**📝 问题描述:**\n`;
+    formatted += `**📝 ${labels.description}:**\n`;
     formatted += `${issue.description}\n\n`;
 
     if (issue.location) {
-      formatted += `**📍 问题位置:**\n`;
+      formatted += `**📍 ${labels.location}:**\n`;
       formatted += `\`${issue.location}\`\n\n`;
     }
 
     if (issue.fixPrompt) {
-      formatted += `**🔧 修复建议:**\n`;
+      formatted += `**🔧 ${labels.fixPrompt}:**\n`;
       formatted += `\`\`\`\n${issue.fixPrompt}\n\`\`\`\n\n`;
     }
 
@@ -119,8 +326,9 @@ export class CommentFormatter {
       };
 
       // 首先创建摘要表
-      content += `### 📋 问题统计\n\n`;
-      content += `| 类型 | 数量 | 严重程度分布 |\n`;
+      const text = this.messages.comment;
+      content += `### ${text.statisticsHeading}\n\n`;
+      content += `| ${text.typeColumn} | ${text.countColumn} | ${text.severityDistributionColumn} |\n`;
       content += `|------|------|-------------|\n`;
 
       Object.entries(issuesByType).forEach(([type, issues]) => {
@@ -128,7 +336,10 @@ export class CommentFormatter {
           const typeEmoji = FormatUtils.getTypeEmoji(
             type as ReviewIssue["type"]
           );
-          const typeName = FormatUtils.getTypeName(type as ReviewIssue["type"]);
+          const typeName = FormatUtils.getTypeName(
+            type as ReviewIssue["type"],
+            this.language
+          );
           const severityCount = FormatUtils.getSeverityDistribution(issues);
           content += `| ${typeEmoji} ${typeName} | ${issues.length} | ${severityCount} |\n`;
         }
@@ -136,41 +347,22 @@ export class CommentFormatter {
       content += `\n`;
 
       // 在可折叠部分中按类型显示问题
-      if (issuesByType.bug.length > 0) {
-        content += `<details>\n`;
-        content += `<summary>🐛 潜在 Bug (${issuesByType.bug.length} 个) - 点击展开详情</summary>\n\n`;
-        issuesByType.bug.forEach((issue, index) => {
-          content += this.formatIssueForGitHub(issue, index + 1);
-        });
-        content += `</details>\n\n`;
-      }
-
-      if (issuesByType.security.length > 0) {
-        content += `<details>\n`;
-        content += `<summary>🔒 安全问题 (${issuesByType.security.length} 个) - 点击展开详情</summary>\n\n`;
-        issuesByType.security.forEach((issue, index) => {
-          content += this.formatIssueForGitHub(issue, index + 1);
-        });
-        content += `</details>\n\n`;
-      }
-
-      if (issuesByType.performance.length > 0) {
-        content += `<details>\n`;
-        content += `<summary>⚡ 性能问题 (${issuesByType.performance.length} 个) - 点击展开详情</summary>\n\n`;
-        issuesByType.performance.forEach((issue, index) => {
-          content += this.formatIssueForGitHub(issue, index + 1);
-        });
-        content += `</details>\n\n`;
-      }
+      Object.entries(issuesByType).forEach(([type, issues]) => {
+        if (issues.length === 0) {
+          return;
+        }
 
-      if (issuesByType.code_smell.length > 0) {
+        const typeName = FormatUtils.getTypeName(
+          type as ReviewIssue["type"],
+          this.language
+        );
         content += `<details>\n`;
-        content += `<summary>🔍 代码异味 (${issuesByType.code_smell.length} 个) - 点击展开详情</summary>\n\n`;
-        issuesByType.code_smell.forEach((issue, index) => {
+        content += `<summary>${FormatUtils.getTypeEmoji(type as ReviewIssue["type"])} ${text.expandDetails(typeName, issues.length)}</summary>\n\n`;
+        issues.forEach((issue, index) => {
           content += this.formatIssueForGitHub(issue, index + 1);
         });
         content += `</details>\n\n`;
-      }
+      });
     }
 
     return content;
@@ -197,13 +389,12 @@ export class CommentFormatter {
       .map(([filePath, fileIssues]) => {
         const issueTypes = [
           ...new Set(
-            fileIssues.map((issue) => FormatUtils.getTypeName(issue.type))
+            fileIssues.map((issue) =>
+              FormatUtils.getTypeName(issue.type, this.language)
+            )
           ),
         ];
-        const description =
-          issueTypes.length > 1
-            ? `${issueTypes.slice(0, -1).join(", ")}和${issueTypes.slice(-1)[0]}问题`
-            : `${issueTypes[0]}问题`;
+        const description = this.messages.comment.issueKinds(issueTypes);
 
         return {
           filePath,
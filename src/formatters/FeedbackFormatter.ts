@@ -0,0 +1,93 @@
+import {
+  FeedbackReport,
+  FeedbackStats,
+  Messages,
+  ReviewIssueSeverity,
+  ReviewIssueType,
+} from "../core/types";
+import { FeedbackAnalyzer } from "../core/FeedbackAnalyzer";
+import { I18n } from "../i18n/I18n";
+import { FormatUtils } from "../utils/FormatUtils";
+
+/**
+ * 反馈报告格式化器类
+ * 将反馈报告格式化为 Markdown，用于 GitHub Actions 的任务摘要
+ */
+export class FeedbackFormatter {
+  private messages: Messages;
+
+  constructor(private language: string = I18n.DEFAULT_LANGUAGE) {
+    this.messages = I18n.getMessages(language);
+  }
+
+  /**
+   * 格式化反馈报告
+   */
+  format(report: FeedbackReport): string {
+    const text = this.messages.feedback;
+    let content = `## ${text.heading}\n\n`;
+    content += `${text.pullRequests(report.pullRequests.length)}\n\n`;
+
+    if (report.total.precision === null) {
+      content += `${text.noFeedback}\n`;
+      return content;
+    }
+
+    content += `${text.summary(
+      this.formatPrecision(report.total.precision),
+      report.total.useful + report.total.notUseful,
+      report.total.comments
+    )}\n\n`;
+
+    content += this.formatTable(
+      text.byType,
+      report.byType,
+      (type) =>
+        `${FormatUtils.getTypeEmoji(type as ReviewIssueType)} ${FormatUtils.getTypeName(type as ReviewIssueType, this.language)}`
+    );
+    content += this.formatTable(
+      text.bySeverity,
+      report.bySeverity,
+      (severity) =>
+        `${FormatUtils.getSeverityEmoji(severity as ReviewIssueSeverity)} ${FormatUtils.getSeverityText(severity as ReviewIssueSeverity, this.language)}`
+    );
+    content += this.formatTable(
+      text.byConfidence,
+      report.byConfidence,
+      (bucket) => bucket
+    );
+    content += this.formatTable(
+      text.byFilePattern,
+      report.byFilePattern,
+      (pattern) => `\`${pattern}\``
+    );
+
+    return content;
+  }
+
+  /**
+   * 格式化一个维度的统计表，unknown 分组显示为本地化的“未知”
+   */
+  private formatTable(
+    heading: string,
+    groups: Record<string, FeedbackStats>,
+    formatKey: (key: string) => string
+  ): string {
+    const text = this.messages.feedback;
+    let content = `### ${heading}\n\n`;
+    content += `| | ${text.commentsColumn} | ${text.usefulColumn} | ${text.notUsefulColumn} | ${text.unratedColumn} | ${text.repliesColumn} | ${text.precisionColumn} |\n`;
+    content += `| ---- | ---- | ---- | ---- | ---- | ---- | ---- |\n`;
+
+    Object.entries(groups).forEach(([key, stats]) => {
+      const label =
+        key === FeedbackAnalyzer.UNKNOWN ? text.unknown : formatKey(key);
+      content += `| ${label} | ${stats.comments} | ${stats.useful} | ${stats.notUseful} | ${stats.unrated} | ${stats.replies} | ${this.formatPrecision(stats.precision)} |\n`;
+    });
+
+    return `${content}\n`;
+  }
+
+  private formatPrecision(precision: number | null): string {
+    return precision === null ? "-" : `${Math.round(precision * 100)}%`;
+  }
+}
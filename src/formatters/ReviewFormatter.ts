@@ -4,25 +4,44 @@ import {
   ReviewComparison,
   ReviewIssue,
   LineComment,
+  Messages,
   ParsedDiff,
+  DiffSide,
 } from "../core/types";
+import { I18n } from "../i18n/I18n";
+import { DiffPositionIndex } from "../parsers/DiffPositionIndex";
 import { FormatUtils } from "../utils/FormatUtils";
+import { ReviewMetadata } from "../utils/ReviewMetadata";
+import { ValidationUtils } from "../utils/ValidationUtils";
 
 /**
  * 审查格式化器类
- * 负责格式化审查结果和创建行评论
+ * 负责格式化审查结果和创建行评论，文案语言由 language 决定
  */
 export class ReviewFormatter {
+  private messages: Messages;
+
+  constructor(private language: string = I18n.DEFAULT_LANGUAGE) {
+    this.messages = I18n.getMessages(language);
+  }
+
   /**
    * 创建行评论
+   * 行范围完整位于同一 hunk 时创建多行评论，否则退回到单行评论
+   * 不在 diff 中的问题在 snapDistance 行内移动到最近的变更行，无法评论的问题通过 outsideDiff 返回
+   * maxLineComments 为 0 时不限制行评论数量，超出数量的问题同样通过 outsideDiff 返回
    */
   createLineComments(
     reviewResult: ReviewResult,
-    isLineInDiffFn: (filePath: string, lineNumber: number) => boolean
-  ): { valid: LineComment[]; invalid: number } {
+    positionIndex: DiffPositionIndex,
+    maxLineComments: number = 0,
+    snapDistance: number = 0
+  ): { valid: LineComment[]; invalid: number; outsideDiff: ReviewIssue[] } {
     const lineComments: LineComment[] = [];
+    const commentedIssues: ReviewIssue[] = [];
+    const outsideDiff: ReviewIssue[] = [];
     let validLineComments = 0;
-    let invalidLineComments = 0;
+    let snappedLineComments = 0;
 
     core.info(
       `📝 Creating line comments for ${reviewResult.issues.length} issues...`
@@ -30,58 +49,240 @@ export class ReviewFormatter {
 
     // 为每个问题创建行级评论
     for (const issue of reviewResult.issues) {
-      if (issue.filePath && issue.lineNumber) {
-        // 验证行是否在 diff 内
-        if (!isLineInDiffFn(issue.filePath, issue.lineNumber)) {
-          core.warning(
-            `⚠️ Skipping line comment for ${issue.filePath}:${issue.lineNumber} - not in diff range`
-          );
-          invalidLineComments++;
-          continue;
-        }
-
-        const lineCommentBody = this.formatLineComment(issue);
-
-        const lineComment: LineComment = {
-          path: issue.filePath,
-          line: issue.lineNumber,
-          body: lineCommentBody,
-          side: "RIGHT",
-        };
+      if (!issue.filePath || !issue.lineNumber) {
+        outsideDiff.push(issue);
+        continue;
+      }
 
-        // 禁用多行评论以避免 GitHub API 错误
-        // 多行评论需要 start_line 和 line 在同一个 hunk 中
-        // 这很难验证，所以我们只使用单行评论
-        if (
-          issue.startLine &&
-          issue.endLine &&
-          issue.startLine !== issue.endLine
-        ) {
-          core.info(
-            `📝 Converting multi-line comment (${issue.startLine}-${issue.endLine}) to single-line comment at line ${issue.lineNumber}`
-          );
+      const side = issue.side || "RIGHT";
+      let lineComment = this.createLineComment(issue, side, positionIndex);
+      if (!lineComment) {
+        lineComment = this.createSnappedLineComment(
+          issue,
+          side,
+          positionIndex,
+          snapDistance
+        );
+        if (lineComment) {
+          snappedLineComments++;
         }
+      }
 
-        lineComments.push(lineComment);
-        validLineComments++;
+      if (!lineComment) {
+        core.warning(
+          `⚠️ ${issue.filePath}:${issue.lineNumber} (${side}) is not in diff range, listing it in the main comment`
+        );
+        outsideDiff.push(issue);
+        continue;
       }
+
+      lineComments.push(lineComment);
+      commentedIssues.push(issue);
+      validLineComments++;
     }
 
     core.info(
-      `📊 Line comments: ${validLineComments} valid, ${invalidLineComments} skipped (not in diff)`
+      `📊 Line comments: ${validLineComments} valid (${snappedLineComments} relocated), ${outsideDiff.length} outside the diff`
     );
 
+    if (maxLineComments > 0 && lineComments.length > maxLineComments) {
+      core.info(
+        `✂️ Limiting line comments to ${maxLineComments} (listing ${lineComments.length - maxLineComments} more in the main comment)`
+      );
+      lineComments.splice(maxLineComments);
+      outsideDiff.push(...commentedIssues.splice(maxLineComments));
+    }
+
     return {
       valid: lineComments,
-      invalid: invalidLineComments,
+      invalid: outsideDiff.length,
+      outsideDiff,
+    };
+  }
+
+  /**
+   * 将不在 diff 中的问题移动到 snapDistance 行内最近的变更行，并注明原始行号
+   */
+  private createSnappedLineComment(
+    issue: ReviewIssue,
+    side: DiffSide,
+    positionIndex: DiffPositionIndex,
+    snapDistance: number
+  ): LineComment | null {
+    const filePath = positionIndex.resolveFilePath(issue.filePath!);
+    if (!filePath) {
+      return null;
+    }
+
+    const line = positionIndex.findNearestChangedLine(
+      filePath,
+      issue.lineNumber!,
+      snapDistance,
+      side
+    );
+    if (!line) {
+      return null;
+    }
+
+    core.info(
+      `📌 Relocated comment for ${filePath}:${issue.lineNumber} to nearest changed line ${line}`
+    );
+
+    const { lineComment } = this.messages;
+    const originalLines =
+      issue.startLine && issue.endLine && issue.startLine < issue.endLine
+        ? lineComment.lineRange(issue.startLine, issue.endLine)
+        : lineComment.lineRange(issue.lineNumber!);
+    return {
+      path: filePath,
+      line,
+      side,
+      body: this.formatLineComment(issue, {
+        note: `> ${lineComment.relocated(originalLines)}`,
+      }),
+    };
+  }
+
+  /**
+   * 为单个问题创建行评论，位置不在 diff 中时返回 null
+   */
+  private createLineComment(
+    issue: ReviewIssue,
+    side: DiffSide,
+    positionIndex: DiffPositionIndex
+  ): LineComment | null {
+    const filePath = positionIndex.resolveFilePath(issue.filePath!);
+    if (!filePath) {
+      return null;
+    }
+
+    const { startLine, endLine } = issue;
+
+    if (startLine && endLine && startLine < endLine) {
+      if (
+        positionIndex.isRangeInSingleHunk(filePath, startLine, endLine, side)
+      ) {
+        return {
+          path: filePath,
+          start_line: startLine,
+          start_side: side,
+          line: endLine,
+          side,
+          body: this.formatLineComment(issue, {
+            includeSuggestion: this.canSuggest(
+              issue,
+              filePath,
+              startLine,
+              endLine,
+              side,
+              positionIndex
+            ),
+          }),
+        };
+      }
+
+      core.info(
+        `📝 Range ${filePath}:${startLine}-${endLine} spans multiple hunks, using single-line comment at line ${issue.lineNumber}`
+      );
+    }
+
+    const line = issue.lineNumber!;
+    if (!positionIndex.isLineInDiff(filePath, line, side)) {
+      return null;
+    }
+
+    return {
+      path: filePath,
+      line,
+      side,
+      body: this.formatLineComment(issue, {
+        includeSuggestion: this.canSuggest(
+          issue,
+          filePath,
+          line,
+          line,
+          side,
+          positionIndex
+        ),
+      }),
     };
   }
 
+  /**
+   * 判断问题的建议修改能否附加到覆盖 startLine..endLine 的评论上
+   * 建议替换的范围必须与评论范围一致、完整位于同一 hunk，且不改动无关行
+   */
+  private canSuggest(
+    issue: ReviewIssue,
+    filePath: string,
+    startLine: number,
+    endLine: number,
+    side: DiffSide,
+    positionIndex: DiffPositionIndex
+  ): boolean {
+    if (!issue.suggestion || side !== "RIGHT") {
+      return false;
+    }
+
+    const suggestionStart = issue.startLine ?? issue.lineNumber;
+    const suggestionEnd = issue.endLine ?? suggestionStart;
+    if (suggestionStart !== startLine || suggestionEnd !== endLine) {
+      return false;
+    }
+
+    const originalLines = positionIndex.isRangeInSingleHunk(
+      filePath,
+      startLine,
+      endLine
+    )
+      ? positionIndex.getLines(filePath, startLine, endLine)
+      : undefined;
+    if (!originalLines) {
+      return false;
+    }
+
+    const errors = ValidationUtils.validateSuggestion(
+      issue.suggestion,
+      originalLines,
+      {
+        before: positionIndex.getLines(
+          filePath,
+          startLine - 1,
+          startLine - 1
+        )?.[0],
+        after: positionIndex.getLines(filePath, endLine + 1, endLine + 1)?.[0],
+      }
+    );
+    if (errors.length > 0) {
+      core.info(
+        `💡 Dropping suggestion for ${filePath}:${startLine}-${endLine}: ${errors.join("; ")}`
+      );
+      return false;
+    }
+
+    return true;
+  }
+
   /**
    * 格式化行评论
    */
-  private formatLineComment(issue: ReviewIssue): string {
-    return FormatUtils.formatBasicLineComment(issue);
+  private formatLineComment(
+    issue: ReviewIssue,
+    options: { note?: string; includeSuggestion?: boolean } = {}
+  ): string {
+    let comment = FormatUtils.formatBasicLineComment(
+      issue,
+      options.includeSuggestion,
+      this.language
+    );
+    if (options.note) {
+      comment += `\n\n${options.note}`;
+    }
+
+    // 附加问题键，后续审查据此找到对应的评论线程
+    return issue.commentKey
+      ? `${comment}\n\n${ReviewMetadata.createIssueMarker(issue.commentKey)}`
+      : comment;
   }
 
   /**
@@ -113,46 +314,46 @@ export class ReviewFormatter {
    * 格式化审查摘要
    */
   formatReviewSummary(reviewResult: ReviewResult): string {
+    const { summary } = this.messages;
     if (reviewResult.totalIssues === 0) {
-      return "🎉 代码审查完成，未发现任何问题！";
+      return summary.noIssues;
     }
 
     const issuesByType = FormatUtils.groupIssuesByType(reviewResult.issues);
     const parts: string[] = [];
 
-    if (issuesByType.bug.length > 0) {
-      parts.push(`${issuesByType.bug.length} 个潜在 Bug`);
-    }
-    if (issuesByType.security.length > 0) {
-      parts.push(`${issuesByType.security.length} 个安全问题`);
-    }
-    if (issuesByType.performance.length > 0) {
-      parts.push(`${issuesByType.performance.length} 个性能问题`);
-    }
-    if (issuesByType.code_smell.length > 0) {
-      parts.push(`${issuesByType.code_smell.length} 个代码异味`);
-    }
+    Object.entries(issuesByType).forEach(([type, issues]) => {
+      if (issues.length > 0) {
+        parts.push(
+          summary.typeCount(
+            issues.length,
+            FormatUtils.getTypeName(type as ReviewIssue["type"], this.language)
+          )
+        );
+      }
+    });
 
-    return `🤖 代码审查完成，发现 ${reviewResult.totalIssues} 个问题：${parts.join("、")}`;
+    return summary.issuesFound(reviewResult.totalIssues, parts);
   }
 
   /**
    * 格式化比较结果
    */
   formatComparisonSummary(comparison: ReviewComparison): string {
+    const { summary } = this.messages;
     const parts: string[] = [];
 
     if (comparison.fixedCount > 0) {
-      parts.push(`✅ ${comparison.fixedCount} 个问题已修复`);
+      parts.push(summary.fixed(comparison.fixedCount));
     }
     if (comparison.newCount > 0) {
-      parts.push(`🆕 ${comparison.newCount} 个新问题`);
+      parts.push(summary.new(comparison.newCount));
     }
     if (comparison.persistentCount > 0) {
-      parts.push(`⚠️ ${comparison.persistentCount} 个问题仍需关注`);
+      parts.push(summary.persistent(comparison.persistentCount));
     }
 
-    return parts.length > 0 ? parts.join("，") : "无变更";
+    return parts.length > 0 ? summary.comparison(parts) : summary.noChanges;
   }
 
   /**
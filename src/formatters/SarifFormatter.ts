@@ -0,0 +1,225 @@
+import {
+  Messages,
+  PullRequestInfo,
+  ReviewIssue,
+  ReviewIssueSeverity,
+  ReviewIssueType,
+  ReviewResult,
+  SarifFix,
+  SarifLevel,
+  SarifLog,
+  SarifPhysicalLocation,
+  SarifResult,
+  SarifRule,
+} from "../core/types";
+import { I18n } from "../i18n/I18n";
+
+/**
+ * SARIF 格式化器类
+ * 将审查结果转换为 SARIF 2.1.0 日志，可上传到 GitHub 代码扫描等工具
+ */
+export class SarifFormatter {
+  static readonly SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+  static readonly TOOL_NAME = "Bugment";
+  static readonly INFORMATION_URI = "https://github.com/J3n5en/Bugment";
+  static readonly FINGERPRINT_KEY = "bugmentFingerprint/v1";
+
+  /** 每种问题类型对应一条规则，顺序决定 ruleIndex */
+  private static readonly RULES: Array<{
+    type: ReviewIssueType;
+    name: string;
+    tags: string[];
+  }> = [
+    { type: "bug", name: "PotentialBug", tags: ["correctness"] },
+    { type: "security", name: "SecurityIssue", tags: ["security"] },
+    { type: "performance", name: "PerformanceIssue", tags: ["performance"] },
+    { type: "code_smell", name: "CodeSmell", tags: ["maintainability"] },
+  ];
+
+  private static readonly LEVELS: Record<ReviewIssueSeverity, SarifLevel> = {
+    critical: "error",
+    high: "error",
+    medium: "warning",
+    low: "note",
+  };
+
+  private messages: Messages;
+
+  constructor(private language: string = I18n.DEFAULT_LANGUAGE) {
+    this.messages = I18n.getMessages(language);
+  }
+
+  /**
+   * 格式化审查结果
+   * 没有文件位置的问题无法在代码扫描中展示，不会写入结果
+   * 审查结果不完整时将本次执行标记为失败
+   */
+  format(reviewResult: ReviewResult, prInfo?: PullRequestInfo): SarifLog {
+    const results = reviewResult.issues
+      .map((issue) => this.formatResult(issue))
+      .filter((result): result is SarifResult => !!result);
+
+    return {
+      $schema: SarifFormatter.SCHEMA,
+      version: "2.1.0",
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: SarifFormatter.TOOL_NAME,
+              informationUri: SarifFormatter.INFORMATION_URI,
+              rules: this.formatRules(),
+            },
+          },
+          automationDetails: { id: "bugment/" },
+          ...(prInfo && {
+            versionControlProvenance: [
+              {
+                repositoryUri: `https://github.com/${prInfo.owner}/${prInfo.repo}`,
+                revisionId: reviewResult.commitSha || prInfo.headSha,
+              },
+            ],
+          }),
+          invocations: [
+            {
+              executionSuccessful: !reviewResult.parseError,
+              ...(reviewResult.parseError && {
+                toolExecutionNotifications: [
+                  {
+                    level: "error" as const,
+                    message: {
+                      text: this.messages.terminal.parseError(
+                        reviewResult.parseError
+                      ),
+                    },
+                  },
+                ],
+              }),
+            },
+          ],
+          results,
+        },
+      ],
+    };
+  }
+
+  /**
+   * 生成问题类型对应的规则
+   */
+  private formatRules(): SarifRule[] {
+    return SarifFormatter.RULES.map(({ type, name, tags }) => ({
+      id: type,
+      name,
+      shortDescription: { text: this.messages.issueTypes[type] },
+      helpUri: SarifFormatter.INFORMATION_URI,
+      defaultConfiguration: { level: "warning" },
+      properties: { tags: ["bugment", ...tags] },
+    }));
+  }
+
+  /**
+   * 将单个问题转换为 SARIF 结果，没有文件位置时返回 undefined
+   */
+  private formatResult(issue: ReviewIssue): SarifResult | undefined {
+    const location = SarifFormatter.formatLocation(issue);
+    if (!location) {
+      return undefined;
+    }
+
+    const fix = this.formatFix(issue, location);
+    return {
+      ruleId: issue.type,
+      ruleIndex: SarifFormatter.RULES.findIndex(
+        (rule) => rule.type === issue.type
+      ),
+      level: SarifFormatter.LEVELS[issue.severity] ?? "warning",
+      message: this.formatMessage(issue),
+      locations: [{ physicalLocation: location }],
+      ...(issue.fingerprint && {
+        partialFingerprints: {
+          [SarifFormatter.FINGERPRINT_KEY]: issue.fingerprint,
+        },
+      }),
+      ...(issue.confidence !== undefined && {
+        rank: Math.round(issue.confidence * 100),
+      }),
+      ...(fix && { fixes: [fix] }),
+      properties: {
+        severity: issue.severity,
+        ...(issue.confidence !== undefined && {
+          confidence: issue.confidence,
+        }),
+        ...(issue.fixPrompt && { fixPrompt: issue.fixPrompt }),
+      },
+    };
+  }
+
+  /**
+   * 格式化结果消息，Markdown 版本附带修复建议
+   */
+  private formatMessage(issue: ReviewIssue): SarifResult["message"] {
+    const text = `${issue.title}\n\n${issue.description}`;
+    let markdown = `**${issue.title}**\n\n${issue.description}`;
+    if (issue.fixPrompt) {
+      markdown += `\n\n**🔧 ${this.messages.labels.fixPrompt}:**\n\n\`\`\`\n${issue.fixPrompt}\n\`\`\``;
+    }
+    return { text, markdown };
+  }
+
+  /**
+   * 将建议修改转换为 SARIF 修复，替换问题所在的整行范围
+   */
+  private formatFix(
+    issue: ReviewIssue,
+    location: SarifPhysicalLocation
+  ): SarifFix | undefined {
+    if (issue.suggestion === undefined || !location.region) {
+      return undefined;
+    }
+
+    return {
+      description: { text: issue.fixPrompt || issue.title },
+      artifactChanges: [
+        {
+          artifactLocation: location.artifactLocation,
+          replacements: [
+            {
+              deletedRegion: {
+                startLine: location.region.startLine,
+                endLine: location.region.endLine ?? location.region.startLine,
+              },
+              insertedContent: { text: issue.suggestion },
+            },
+          ],
+        },
+      ],
+    };
+  }
+
+  /**
+   * 生成问题的物理位置
+   * 位于被删除代码（LEFT）的问题行号属于旧文件，只保留文件位置
+   */
+  static formatLocation(issue: ReviewIssue): SarifPhysicalLocation | undefined {
+    if (!issue.filePath) {
+      return undefined;
+    }
+
+    const location: SarifPhysicalLocation = {
+      artifactLocation: {
+        uri: issue.filePath.replace(/\\/g, "/").replace(/^(\.\/|\/)+/, ""),
+        uriBaseId: "%SRCROOT%",
+      },
+    };
+
+    const startLine = issue.startLine ?? issue.lineNumber;
+    if (issue.side !== "LEFT" && startLine && startLine > 0) {
+      location.region =
+        issue.endLine && issue.endLine > startLine
+          ? { startLine, endLine: issue.endLine }
+          : { startLine };
+    }
+
+    return location;
+  }
+}
@@ -0,0 +1,179 @@
+import {
+  Messages,
+  ReviewIssue,
+  ReviewResult,
+  ReviewScope,
+} from "../core/types";
+import { I18n } from "../i18n/I18n";
+import { FormatUtils } from "../utils/FormatUtils";
+
+/**
+ * 终端格式化器类
+ * 负责将审查结果格式化为适合在终端中阅读的纯文本
+ */
+export class TerminalFormatter {
+  private static readonly COLORS = {
+    reset: "\x1b[0m",
+    bold: "\x1b[1m",
+    dim: "\x1b[2m",
+    red: "\x1b[31m",
+    yellow: "\x1b[33m",
+    blue: "\x1b[34m",
+    cyan: "\x1b[36m",
+  } as const;
+
+  private static readonly SEVERITY_COLORS: Record<
+    ReviewIssue["severity"],
+    keyof typeof TerminalFormatter.COLORS
+  > = {
+    critical: "red",
+    high: "red",
+    medium: "yellow",
+    low: "blue",
+  };
+
+  private messages: Messages;
+
+  constructor(
+    private color: boolean = false,
+    private language: string = I18n.DEFAULT_LANGUAGE
+  ) {
+    this.messages = I18n.getMessages(language);
+  }
+
+  /**
+   * 格式化审查结果
+   */
+  format(reviewResult: ReviewResult, scope?: ReviewScope): string {
+    const text = this.messages.terminal;
+    const lines: string[] = [];
+
+    lines.push(this.paint("bold", "Bugment Code Review"));
+    if (scope) {
+      lines.push(
+        this.paint(
+          "dim",
+          text.scope(
+            `${scope.baseSha.substring(0, 7)}..${scope.headSha.substring(0, 7)}`
+          )
+        )
+      );
+    }
+    lines.push("");
+
+    if (reviewResult.summary && reviewResult.summary.trim()) {
+      lines.push(reviewResult.summary.trim(), "");
+    }
+
+    // 审查结果不完整时不能显示成功消息
+    if (reviewResult.parseError) {
+      lines.push(
+        this.paint("yellow", text.parseError(reviewResult.parseError)),
+        ""
+      );
+    }
+
+    const suppressed = reviewResult.suppressedCount
+      ? [this.paint("dim", text.suppressed(reviewResult.suppressedCount))]
+      : [];
+
+    if (reviewResult.issues.length === 0) {
+      if (!reviewResult.parseError) {
+        lines.push(text.noIssues);
+      }
+      lines.push(...suppressed);
+      return lines.join("\n") + "\n";
+    }
+
+    for (const [filePath, issues] of this.groupByFile(reviewResult.issues)) {
+      lines.push(this.paint("cyan", filePath));
+      issues.forEach((issue) => lines.push(...this.formatIssue(issue), ""));
+    }
+
+    lines.push(
+      this.paint(
+        "bold",
+        text.total(
+          reviewResult.issues.length,
+          FormatUtils.getSeverityDistribution(reviewResult.issues)
+        )
+      ),
+      ...suppressed
+    );
+
+    return lines.join("\n") + "\n";
+  }
+
+  /**
+   * 格式化单个问题
+   */
+  private formatIssue(issue: ReviewIssue): string[] {
+    const severity = this.paint(
+      TerminalFormatter.SEVERITY_COLORS[issue.severity],
+      `${FormatUtils.getSeverityEmoji(issue.severity)} ${FormatUtils.getSeverityText(issue.severity, this.language)}`
+    );
+    const lines = [
+      `  ${this.formatLineRange(issue)} ${severity} ${FormatUtils.getTypeEmoji(issue.type)} ${FormatUtils.getTypeName(issue.type, this.language)} - ${this.paint("bold", issue.title)}`,
+    ];
+
+    issue.description
+      .trim()
+      .split("\n")
+      .forEach((line) => lines.push(`      ${line}`));
+
+    const { labels } = this.messages;
+    if (issue.suggestion) {
+      lines.push(`      ${this.paint("dim", `${labels.suggestion}:`)}`);
+      issue.suggestion
+        .split("\n")
+        .forEach((line) => lines.push(`        ${line}`));
+    } else if (issue.fixPrompt) {
+      lines.push(
+        `      ${this.paint("dim", `${labels.fixPrompt}: ${issue.fixPrompt}`)}`
+      );
+    }
+
+    return lines;
+  }
+
+  /**
+   * 格式化问题的行号范围，如 L12 或 L12-18
+   */
+  private formatLineRange(issue: ReviewIssue): string {
+    const { startLine, endLine, lineNumber } = issue;
+    const range =
+      startLine && endLine && startLine < endLine
+        ? `L${startLine}-${endLine}`
+        : lineNumber
+          ? `L${lineNumber}`
+          : "-";
+    return this.paint("dim", range.padEnd(8));
+  }
+
+  /**
+   * 按文件分组问题，没有文件位置的问题归入 location 或“其他”
+   */
+  private groupByFile(issues: ReviewIssue[]): Map<string, ReviewIssue[]> {
+    const groups = new Map<string, ReviewIssue[]>();
+    for (const issue of issues) {
+      const key =
+        issue.filePath ||
+        issue.location ||
+        this.messages.terminal.otherLocation;
+      if (!groups.has(key)) {
+        groups.set(key, []);
+      }
+      groups.get(key)!.push(issue);
+    }
+    return groups;
+  }
+
+  private paint(
+    color: keyof typeof TerminalFormatter.COLORS,
+    text: string
+  ): string {
+    return this.color
+      ? `${TerminalFormatter.COLORS[color]}${text}${TerminalFormatter.COLORS.reset}`
+      : text;
+  }
+}
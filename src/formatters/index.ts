@@ -4,3 +4,6 @@
 
 export * from "./CommentFormatter";
 export * from "./ReviewFormatter";
+export * from "./TerminalFormatter";
+export * from "./SarifFormatter";
+export * from "./FeedbackFormatter";
@@ -0,0 +1,52 @@
+import { Locale, Messages } from "../core/types";
+import { en } from "./locales/en";
+import { ja } from "./locales/ja";
+import { zhCN } from "./locales/zh-CN";
+
+/**
+ * 本地化工具类
+ * 根据配置的 language 选择评论、行评论和摘要使用的文案
+ */
+export class I18n {
+  static readonly DEFAULT_LANGUAGE = "zh-CN";
+
+  /** 没有对应文案的语言使用英文 */
+  static readonly FALLBACK_LOCALE: Locale = "en";
+
+  static readonly MESSAGES: Record<Locale, Messages> = {
+    "zh-CN": zhCN,
+    en,
+    ja,
+  };
+
+  /**
+   * 将语言标签映射到支持的文案语言，如 en-US 使用 en，zh-TW 使用 zh-CN
+   */
+  static resolveLocale(language: string = I18n.DEFAULT_LANGUAGE): Locale {
+    const primary = language.toLowerCase().split("-")[0];
+    switch (primary) {
+      case "zh":
+        return "zh-CN";
+      case "ja":
+        return "ja";
+      case "en":
+        return "en";
+      default:
+        return I18n.FALLBACK_LOCALE;
+    }
+  }
+
+  /**
+   * 判断语言是否有对应的文案
+   */
+  static isSupported(language: string): boolean {
+    return ["zh", "ja", "en"].includes(language.toLowerCase().split("-")[0]!);
+  }
+
+  /**
+   * 获取语言对应的文案
+   */
+  static getMessages(language?: string): Messages {
+    return I18n.MESSAGES[I18n.resolveLocale(language)];
+  }
+}
@@ -0,0 +1,5 @@
+/**
+ * 本地化模块导出
+ */
+
+export * from "./I18n";
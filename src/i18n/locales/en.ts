@@ -0,0 +1,151 @@
+import { Messages } from "../../core/types";
+
+const plural = (count: number, singular: string, pluralForm = `${singular}s`) =>
+  `${count} ${count === 1 ? singular : pluralForm}`;
+
+/**
+ * 英文文案
+ */
+export const en: Messages = {
+  locale: "en",
+  outputLanguageInstruction:
+    "- Write the summary.overallComments, title, description and fixPrompt fields in English.",
+  issueTypes: {
+    bug: "Potential bug",
+    security: "Security issue",
+    performance: "Performance issue",
+    code_smell: "Code smell",
+  },
+  otherIssueType: "Other issue",
+  severities: {
+    critical: "Critical",
+    high: "High",
+    medium: "Medium",
+    low: "Low",
+  },
+  labels: {
+    severity: "Severity",
+    confidence: "Confidence",
+    description: "Description",
+    location: "Location",
+    fixPrompt: "Suggested fix",
+    suggestion: "Suggested change",
+  },
+  comment: {
+    fullScope: (range) => `**Review scope:** full review ${range}`,
+    incrementalScope: (range) =>
+      `**Review scope:** incremental review ${range} (only commits pushed since the last review)`,
+    resultsHeading: "Review results",
+    reviewedChanges: (count) =>
+      `Bugment reviewed the changes and generated ${plural(count, "comment")}.`,
+    suppressedIssues: (count) =>
+      `🔕 ${plural(count, "issue")} suppressed by bugment-ignore comments, the baseline or /bugment ignore.`,
+    fileColumn: "File",
+    issuesFoundColumn: "Issues found",
+    issueCount: (count) => plural(count, "issue"),
+    issueKinds: (typeNames) => typeNames.join(", "),
+    cleanHeading: "🎉 Great work!",
+    cleanBody:
+      "No issues were found in this pull request. The code meets the quality bar.",
+    parseErrorTitle: "⚠️ Failed to parse the review result",
+    parseErrorBody:
+      "The model output could not be parsed as valid JSON. This review is incomplete, so the absence of issues does not mean the code has none.",
+    parseErrorLabel: "Error: ",
+    comparisonHeading: "Compared with the previous review",
+    fixedIssues: "✅ Fixed",
+    newIssues: "🆕 New",
+    persistentIssues: "♻️ Still present",
+    modifiedIssues: "✏️ Description updated",
+    count: (count) => `${count}`,
+    outsideDiffHeading: "📍 Issues outside the diff",
+    outsideDiffIntro: (count) =>
+      `The following ${plural(count, "issue")} could not be mapped to changed lines or exceeded the line comment limit, so ${count === 1 ? "it was" : "they were"} not posted as line comments:`,
+    skippedFiles: (count) => `🚫 ${plural(count, "file")} skipped`,
+    moreSkippedFiles: (count) =>
+      `…and ${plural(count, "more file")}, see the action log for the full list`,
+    bodyTruncated:
+      "The review comment was truncated to fit GitHub's size limit. See the line comments and the action log for the rest.",
+    patternColumn: "Matched pattern",
+    sourceColumn: "Source",
+    defaultRuleSource: "Built-in default",
+    configSource: "Configuration",
+    pathScope: (paths) =>
+      `**Reviewed paths:** ${paths} (set by the /bugment review command, other files keep the results of the previous review)`,
+    statisticsHeading: "📋 Issue statistics",
+    typeColumn: "Type",
+    countColumn: "Count",
+    severityDistributionColumn: "Severity distribution",
+    expandDetails: (typeName, count) =>
+      `${typeName} (${count}) - click to expand`,
+  },
+  lineComment: {
+    lineRange: (startLine, endLine) =>
+      endLine ? `lines ${startLine}-${endLine}` : `line ${startLine}`,
+    relocated: (lineRange) =>
+      `📌 This issue was reported at ${lineRange}, which is outside this change, and has been moved to the nearest changed line.`,
+  },
+  summary: {
+    noIssues: "🎉 Code review complete, no issues found!",
+    issuesFound: (total, parts) =>
+      `🤖 Code review complete, found ${plural(total, "issue")}: ${parts.join(", ")}`,
+    typeCount: (count, typeName) => `${typeName} × ${count}`,
+    fixed: (count) => `✅ ${plural(count, "issue")} fixed`,
+    new: (count) => `🆕 ${plural(count, "new issue")}`,
+    persistent: (count) =>
+      `⚠️ ${plural(count, "issue")} still ${count === 1 ? "needs" : "need"} attention`,
+    modified: (count) => `🔄 ${plural(count, "issue")} modified`,
+    comparison: (parts) => parts.join(", "),
+    noChanges: "No changes",
+  },
+  checkRun: {
+    inProgressTitle: "Review in progress",
+    inProgressSummary: "Bugment is reviewing the changes in this pull request.",
+    title: (count) =>
+      count > 0 ? `${plural(count, "issue")} found` : "No issues found",
+    decisionHeading: "Review decision",
+    unannotated: (count) =>
+      `${count === 1 ? "This issue has" : `These ${count} issues have`} no line that can be annotated:`,
+    failedTitle: "Review failed",
+  },
+  command: {
+    usage:
+      "Available commands:\n\n- `/bugment review [paths...]`: review this pull request again, only the matching files when paths are given\n- `/bugment explain [question]`: reply to a Bugment line comment to get a detailed explanation of the issue\n- `/bugment ignore`: reply to a Bugment line comment to stop reporting the issue in later reviews",
+    unauthorized: (user, association) =>
+      `@${user} is not allowed to use Bugment commands (author association: ${association}).`,
+    replyRequired: (command) =>
+      `\`/bugment ${command}\` must be used in a reply to a Bugment line comment.`,
+    issueNotFound:
+      "The issue for this comment was not found in the previous review results.",
+    explainHeading: "Issue explained",
+    ignored: (fingerprint) =>
+      `Issue ignored (fingerprint \`${fingerprint}\`), later reviews will not report it.`,
+    noFingerprint: "This issue has no code fingerprint and cannot be ignored.",
+  },
+  feedback: {
+    heading: "Bugment feedback report",
+    summary: (precision, rated, comments) =>
+      `Precision **${precision}** (${rated} of ${plural(comments, "line comment")} rated)`,
+    noFeedback: "No line comment has received a 👍/👎 reaction yet.",
+    pullRequests: (count) => `Covers ${plural(count, "pull request")}.`,
+    byType: "By issue type",
+    bySeverity: "By severity",
+    byConfidence: "By confidence",
+    byFilePattern: "By file type",
+    commentsColumn: "Comments",
+    usefulColumn: "👍 Useful",
+    notUsefulColumn: "👎 Not useful",
+    unratedColumn: "Unrated",
+    repliesColumn: "Replies",
+    precisionColumn: "Precision",
+    unknown: "Unknown",
+  },
+  terminal: {
+    scope: (range) => `Review scope: ${range}`,
+    parseError: (error) => `⚠️ Failed to parse the review result: ${error}`,
+    noIssues: "🎉 No issues found!",
+    total: (count, distribution) =>
+      `${plural(count, "issue")} in total (${distribution})`,
+    suppressed: (count) => `🔕 ${plural(count, "issue")} suppressed`,
+    otherLocation: "Other",
+  },
+};
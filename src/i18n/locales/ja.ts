@@ -0,0 +1,150 @@
+import { Messages } from "../../core/types";
+
+/**
+ * 日文文案
+ */
+export const ja: Messages = {
+  locale: "ja",
+  outputLanguageInstruction:
+    "- summary.overallComments、title、description、fixPrompt フィールドは日本語で記述してください。",
+  issueTypes: {
+    bug: "潜在的なバグ",
+    security: "セキュリティの問題",
+    performance: "パフォーマンスの問題",
+    code_smell: "コードの臭い",
+  },
+  otherIssueType: "その他の問題",
+  severities: {
+    critical: "重大",
+    high: "高",
+    medium: "中",
+    low: "低",
+  },
+  labels: {
+    severity: "重大度",
+    confidence: "信頼度",
+    description: "問題の説明",
+    location: "問題の場所",
+    fixPrompt: "修正方針",
+    suggestion: "修正案",
+  },
+  comment: {
+    fullScope: (range) => `**レビュー範囲:** フルレビュー ${range}`,
+    incrementalScope: (range) =>
+      `**レビュー範囲:** 差分レビュー ${range}（前回のレビュー以降にプッシュされたコミットのみ）`,
+    resultsHeading: "レビュー結果",
+    reviewedChanges: (count) =>
+      `Bugment がコードの変更をレビューし、${count} 件のコメントを作成しました。`,
+    suppressedIssues: (count) =>
+      `🔕 ${count} 件の問題を抑制しました（bugment-ignore コメント、ベースライン、または /bugment ignore）。`,
+    fileColumn: "ファイル",
+    issuesFoundColumn: "検出された問題",
+    issueCount: (count) => `${count} 件の問題`,
+    issueKinds: (typeNames) => typeNames.join("、"),
+    cleanHeading: "🎉 素晴らしい仕事です！",
+    cleanBody:
+      "この Pull Request では問題は見つかりませんでした。コードは品質基準を満たしています。",
+    parseErrorTitle: "⚠️ レビュー結果の解析に失敗しました",
+    parseErrorBody:
+      "モデルの出力を有効な JSON として解析できなかったため、このレビューは不完全です。問題が報告されていなくても、コードに問題がないとは限りません。",
+    parseErrorLabel: "エラー：",
+    comparisonHeading: "前回のレビューとの比較",
+    fixedIssues: "✅ 修正済み",
+    newIssues: "🆕 新しい問題",
+    persistentIssues: "♻️ 未解決",
+    modifiedIssues: "✏️ 説明が更新された問題",
+    count: (count) => `${count} 件`,
+    outsideDiffHeading: "📍 差分の範囲外の問題",
+    outsideDiffIntro: (count) =>
+      `次の ${count} 件の問題は今回変更された行に対応付けられなかったか、行コメントの上限を超えたため、行コメントとして投稿されていません：`,
+    skippedFiles: (count) => `🚫 ${count} 件のファイルをスキップしました`,
+    moreSkippedFiles: (count) =>
+      `…ほか ${count} 件のファイル。全一覧は Action のログを確認してください`,
+    bodyTruncated:
+      "レビューコメントが GitHub の文字数制限を超えたため、切り詰められました。残りは行コメントと Action のログを確認してください。",
+    patternColumn: "一致したパターン",
+    sourceColumn: "定義元",
+    defaultRuleSource: "デフォルトのルール",
+    configSource: "設定",
+    pathScope: (paths) =>
+      `**レビュー対象パス:** ${paths}（/bugment review コマンドで指定、他のファイルは前回のレビュー結果を引き継ぎます）`,
+    statisticsHeading: "📋 問題の統計",
+    typeColumn: "種類",
+    countColumn: "件数",
+    severityDistributionColumn: "重大度の分布",
+    expandDetails: (typeName, count) =>
+      `${typeName} (${count} 件) - クリックして詳細を表示`,
+  },
+  lineComment: {
+    lineRange: (startLine, endLine) =>
+      endLine ? `${startLine}-${endLine} 行目` : `${startLine} 行目`,
+    relocated: (lineRange) =>
+      `📌 この問題は元々 ${lineRange}で報告されましたが、今回の変更範囲外のため、最も近い変更行に移動しました。`,
+  },
+  summary: {
+    noIssues: "🎉 コードレビューが完了しました。問題は見つかりませんでした！",
+    issuesFound: (total, parts) =>
+      `🤖 コードレビューが完了し、${total} 件の問題が見つかりました：${parts.join("、")}`,
+    typeCount: (count, typeName) => `${typeName} ${count} 件`,
+    fixed: (count) => `✅ ${count} 件の問題が修正されました`,
+    new: (count) => `🆕 新しい問題 ${count} 件`,
+    persistent: (count) => `⚠️ ${count} 件の問題が引き続き対応待ちです`,
+    modified: (count) => `🔄 ${count} 件の問題が変更されました`,
+    comparison: (parts) => parts.join("、"),
+    noChanges: "変更なし",
+  },
+  checkRun: {
+    inProgressTitle: "レビュー中",
+    inProgressSummary:
+      "Bugment がこの Pull Request の変更をレビューしています。",
+    title: (count) =>
+      count > 0
+        ? `${count} 件の問題が見つかりました`
+        : "問題は見つかりませんでした",
+    decisionHeading: "レビューの結論",
+    unannotated: (count) =>
+      `次の ${count} 件の問題には注釈を付けられる行がありません：`,
+    failedTitle: "レビューに失敗しました",
+  },
+  command: {
+    usage:
+      "使用できるコマンド:\n\n- `/bugment review [パス...]`: この PR を再レビューします。パスを指定すると一致するファイルのみをレビューします\n- `/bugment explain [質問]`: Bugment の行コメントへの返信で使い、問題を詳しく説明します\n- `/bugment ignore`: Bugment の行コメントへの返信で使い、以降のレビューでこの問題を報告しません",
+    unauthorized: (user, association) =>
+      `@${user} には Bugment コマンドを使用する権限がありません（作成者の関連付け: ${association}）。`,
+    replyRequired: (command) =>
+      `\`/bugment ${command}\` は Bugment の行コメントへの返信で使用してください。`,
+    issueNotFound:
+      "以前のレビュー結果にこのコメントに対応する問題が見つかりません。",
+    explainHeading: "問題の詳細",
+    ignored: (fingerprint) =>
+      `この問題を無視しました（フィンガープリント \`${fingerprint}\`）。以降のレビューでは報告されません。`,
+    noFingerprint:
+      "この問題にはコードのフィンガープリントがないため、無視できません。",
+  },
+  feedback: {
+    heading: "Bugment フィードバックレポート",
+    summary: (precision, rated, comments) =>
+      `適合率 **${precision}**（${comments} 件の行コメントのうち ${rated} 件が評価済み）`,
+    noFeedback: "👍/👎 のリアクションが付いた行コメントはまだありません。",
+    pullRequests: (count) => `${count} 件の Pull Request を集計しました。`,
+    byType: "問題の種類別",
+    bySeverity: "重要度別",
+    byConfidence: "信頼度別",
+    byFilePattern: "ファイルの種類別",
+    commentsColumn: "コメント",
+    usefulColumn: "👍 有用",
+    notUsefulColumn: "👎 有用でない",
+    unratedColumn: "未評価",
+    repliesColumn: "返信",
+    precisionColumn: "適合率",
+    unknown: "不明",
+  },
+  terminal: {
+    scope: (range) => `レビュー範囲: ${range}`,
+    parseError: (error) => `⚠️ レビュー結果の解析に失敗しました: ${error}`,
+    noIssues: "🎉 問題は見つかりませんでした！",
+    total: (count, distribution) => `合計 ${count} 件の問題 (${distribution})`,
+    suppressed: (count) => `🔕 ${count} 件の問題を抑制しました`,
+    otherLocation: "その他",
+  },
+};
@@ -0,0 +1,145 @@
+import { Messages } from "../../core/types";
+
+/**
+ * 简体中文文案
+ */
+export const zhCN: Messages = {
+  locale: "zh-CN",
+  outputLanguageInstruction:
+    "- 请使用简体中文撰写 summary.overallComments、title、description 和 fixPrompt 字段的内容。",
+  issueTypes: {
+    bug: "潜在 Bug",
+    security: "安全问题",
+    performance: "性能问题",
+    code_smell: "代码异味",
+  },
+  otherIssueType: "其他问题",
+  severities: {
+    critical: "严重",
+    high: "高",
+    medium: "中等",
+    low: "轻微",
+  },
+  labels: {
+    severity: "严重程度",
+    confidence: "置信度",
+    description: "问题描述",
+    location: "问题位置",
+    fixPrompt: "修复建议",
+    suggestion: "建议修改",
+  },
+  comment: {
+    fullScope: (range) => `**审查范围:** 完整审查 ${range}`,
+    incrementalScope: (range) =>
+      `**审查范围:** 增量审查 ${range}（仅包含上次审查后推送的提交）`,
+    resultsHeading: "审查结果",
+    reviewedChanges: (count) =>
+      `Bugment 审查了代码变更并生成了 ${count} 条评论。`,
+    suppressedIssues: (count) =>
+      `🔕 已抑制 ${count} 个问题（源码中的 bugment-ignore 注释、误报基线或 /bugment ignore）。`,
+    fileColumn: "文件",
+    issuesFoundColumn: "发现的问题",
+    issueCount: (count) => `${count} 个问题`,
+    issueKinds: (typeNames) =>
+      typeNames.length > 1
+        ? `${typeNames.slice(0, -1).join(", ")}和${typeNames[typeNames.length - 1]}问题`
+        : `${typeNames[0]}问题`,
+    cleanHeading: "🎉 优秀的工作！",
+    cleanBody: "此 Pull Request 未发现任何问题，代码符合质量标准。",
+    parseErrorTitle: "⚠️ 审查结果解析失败",
+    parseErrorBody:
+      "模型输出无法解析为有效的 JSON，本次审查结果不完整，未报告问题并不代表代码没有问题。",
+    parseErrorLabel: "错误：",
+    comparisonHeading: "与上次审查对比",
+    fixedIssues: "✅ 已修复",
+    newIssues: "🆕 新问题",
+    persistentIssues: "♻️ 仍存在",
+    modifiedIssues: "✏️ 描述已更新",
+    count: (count) => `${count} 个`,
+    outsideDiffHeading: "📍 Diff 范围外的问题",
+    outsideDiffIntro: (count) =>
+      `以下 ${count} 个问题无法定位到本次变更的代码行或超出了行评论数量上限，因此未作为行评论发布：`,
+    skippedFiles: (count) => `🚫 已跳过 ${count} 个文件`,
+    moreSkippedFiles: (count) =>
+      `……以及另外 ${count} 个文件，完整列表请查看 Action 日志`,
+    bodyTruncated:
+      "审查评论超出 GitHub 的长度限制，已被截断。其余内容请查看行评论和 Action 日志。",
+    patternColumn: "匹配规则",
+    sourceColumn: "来源",
+    defaultRuleSource: "默认规则",
+    configSource: "配置",
+    pathScope: (paths) =>
+      `**审查路径:** ${paths}（由 /bugment review 命令指定，其他文件沿用上次审查的结果）`,
+    statisticsHeading: "📋 问题统计",
+    typeColumn: "类型",
+    countColumn: "数量",
+    severityDistributionColumn: "严重程度分布",
+    expandDetails: (typeName, count) =>
+      `${typeName} (${count} 个) - 点击展开详情`,
+  },
+  lineComment: {
+    lineRange: (startLine, endLine) =>
+      endLine ? `第 ${startLine}-${endLine} 行` : `第 ${startLine} 行`,
+    relocated: (lineRange) =>
+      `📌 该问题原始位置为${lineRange}，不在本次变更范围内，已移至最近的变更行。`,
+  },
+  summary: {
+    noIssues: "🎉 代码审查完成，未发现任何问题！",
+    issuesFound: (total, parts) =>
+      `🤖 代码审查完成，发现 ${total} 个问题：${parts.join("、")}`,
+    typeCount: (count, typeName) => `${count} 个${typeName}`,
+    fixed: (count) => `✅ ${count} 个问题已修复`,
+    new: (count) => `🆕 ${count} 个新问题`,
+    persistent: (count) => `⚠️ ${count} 个问题仍需关注`,
+    modified: (count) => `🔄 ${count} 个问题已修改`,
+    comparison: (parts) => parts.join("，"),
+    noChanges: "无变更",
+  },
+  checkRun: {
+    inProgressTitle: "审查进行中",
+    inProgressSummary: "Bugment 正在审查此 Pull Request 的代码变更。",
+    title: (count) => (count > 0 ? `发现 ${count} 个问题` : "未发现问题"),
+    decisionHeading: "审查结论",
+    unannotated: (count) => `以下 ${count} 个问题没有可以标注的代码行：`,
+    failedTitle: "审查失败",
+  },
+  command: {
+    usage:
+      "可用的命令：\n\n- `/bugment review [路径...]`：重新审查此 PR，指定路径时只审查匹配的文件\n- `/bugment explain [问题]`：在 Bugment 行评论下回复，详细解释该问题\n- `/bugment ignore`：在 Bugment 行评论下回复，后续审查不再报告该问题",
+    unauthorized: (user, association) =>
+      `@${user} 没有使用 Bugment 命令的权限（作者关联：${association}）。`,
+    replyRequired: (command) =>
+      `\`/bugment ${command}\` 需要在 Bugment 行评论下回复使用。`,
+    issueNotFound: "在之前的审查结果中找不到这条评论对应的问题。",
+    explainHeading: "问题详解",
+    ignored: (fingerprint) =>
+      `已忽略该问题（指纹 \`${fingerprint}\`），后续审查不再报告。`,
+    noFingerprint: "该问题没有代码指纹，无法忽略。",
+  },
+  feedback: {
+    heading: "Bugment 反馈报告",
+    summary: (precision, rated, comments) =>
+      `准确率 **${precision}**（${comments} 条行评论中 ${rated} 条收到了评价）`,
+    noFeedback: "还没有行评论收到 👍/👎 回应。",
+    pullRequests: (count) => `统计了 ${count} 个 PR。`,
+    byType: "按问题类型",
+    bySeverity: "按严重程度",
+    byConfidence: "按置信度",
+    byFilePattern: "按文件类型",
+    commentsColumn: "评论",
+    usefulColumn: "👍 有用",
+    notUsefulColumn: "👎 无用",
+    unratedColumn: "未评价",
+    repliesColumn: "回复",
+    precisionColumn: "准确率",
+    unknown: "未知",
+  },
+  terminal: {
+    scope: (range) => `审查范围: ${range}`,
+    parseError: (error) => `⚠️ 审查结果解析失败: ${error}`,
+    noIssues: "🎉 未发现任何问题！",
+    total: (count, distribution) => `共 ${count} 个问题 (${distribution})`,
+    suppressed: (count) => `🔕 已抑制 ${count} 个问题`,
+    otherLocation: "其他",
+  },
+};
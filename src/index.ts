@@ -4,20 +4,35 @@
  */
 
 // 主入口
-export { BugmentAction, run } from "./action";
+export {
+  BugmentAction,
+  BugmentActionOptions,
+  BugmentCommandAction,
+  BugmentFeedbackAction,
+  run,
+} from "./action";
 
 // 核心模块
 export * from "./core";
 
-// 服务模块 (排除冲突的 ReviewOptions)
+// 服务模块
 export {
   GitHubService,
   GitService,
   AugmentService,
   ReviewService,
+  PromptBuilder,
+  ReviewPromptOptions,
+  ReviewChunkInfo,
+  ChunkedReviewService,
+  CheckRunService,
   AugmentIPCClient,
-  performCodeReview,
-  AugmentReviewOptions,
+  ChatStreamError,
+  ChatStreamOptions,
+  AugmentBackend,
+  OpenAICompatibleBackend,
+  OpenAICompatibleBackendOptions,
+  ReviewBackendFactory,
 } from "./services";
 
 // 解析器模块
@@ -31,3 +46,6 @@ export * from "./utils";
 
 // 模板模块
 export * from "./templates";
+
+// 本地化模块
+export * from "./i18n";
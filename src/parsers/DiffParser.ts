@@ -1,6 +1,7 @@
 import * as core from "@actions/core";
-import { DiffHunk, ParsedDiff } from "../core/types";
+import { DiffHunk, DiffSide, ParsedDiff } from "../core/types";
 import { IgnoreManager } from "../utils/IgnoreManager";
+import { DiffPositionIndex } from "./DiffPositionIndex";
 
 /**
  * Diff 解析器类
@@ -134,88 +135,35 @@ export class DiffParser {
 
   /**
    * 检查行是否在 diff 范围内
+   * side 为 LEFT 时 lineNumber 表示旧文件中的行号
    */
   isLineInDiff(
     filePath: string,
     lineNumber: number,
-    parsedDiff: ParsedDiff
+    parsedDiff: ParsedDiff,
+    side: DiffSide = "RIGHT"
   ): boolean {
-    core.info(
-      `🔍 Checking line ${filePath}:${lineNumber} - validation enabled for PR commit range`
-    );
-
     if (!parsedDiff || !filePath || !lineNumber) {
       core.info(`❌ Missing diff data or invalid parameters`);
       return false;
     }
 
-    // 调试：记录解析的 diff 中所有可用文件
-    const availableFiles = Array.from(parsedDiff.files.keys());
-    core.info(`📁 Available files in diff: ${availableFiles.join(", ")}`);
-
-    // 首先尝试精确匹配
-    let hunks = parsedDiff.files.get(filePath);
-
-    // 如果精确匹配失败，尝试查找具有不同路径格式的匹配文件
-    if (!hunks || hunks.length === 0) {
-      core.info(`❌ No exact match for file: ${filePath}`);
-
-      // 尝试查找以相同路径结尾的文件
-      const normalizedPath = filePath.replace(/^\/+/, ""); // 移除前导斜杠
-      const matchingFile = availableFiles.find((file) => {
-        const normalizedFile = file.replace(/^\/+/, "");
-        return (
-          normalizedFile === normalizedPath ||
-          file.endsWith("/" + normalizedPath) ||
-          normalizedFile.endsWith("/" + filePath) ||
-          file === normalizedPath
-        );
-      });
-
-      if (matchingFile) {
-        core.info(`✅ Found matching file: ${matchingFile} for ${filePath}`);
-        hunks = parsedDiff.files.get(matchingFile);
-      } else {
-        core.info(`❌ No matching file found for: ${filePath}`);
-        core.info(`📝 Tried to match against: ${availableFiles.join(", ")}`);
-        return false;
-      }
-    }
-
-    if (!hunks || hunks.length === 0) {
-      core.info(`❌ No hunks found for file: ${filePath}`);
-      return false;
-    }
-
-    core.info(`📊 Found ${hunks.length} hunks for file: ${filePath}`);
-
-    // 检查行号是否在任何 hunk 的新行范围内
-    for (const hunk of hunks) {
-      const hunkEndLine = hunk.newStart + hunk.newLines - 1;
+    const index = DiffPositionIndex.forDiff(parsedDiff);
+    if (!index.resolveFilePath(filePath)) {
+      core.info(`❌ No matching file found for: ${filePath}`);
       core.info(
-        `🔍 Checking hunk range: ${hunk.newStart}-${hunkEndLine} for line ${lineNumber}`
+        `📝 Tried to match against: ${index.getFilePaths().join(", ")}`
       );
-
-      if (lineNumber >= hunk.newStart && lineNumber <= hunkEndLine) {
-        // 对于 PR 审查，我们希望允许在 diff 范围内的任何行上进行评论
-        // 这包括添加的行 (+)、删除的行 (-) 和上下文行 ( )
-        let currentNewLine = hunk.newStart;
-        for (const hunkLine of hunk.lines) {
-          if (hunkLine.startsWith("+") || hunkLine.startsWith(" ")) {
-            if (currentNewLine === lineNumber) {
-              core.info(`✅ Line ${lineNumber} found in diff range`);
-              return true; // 允许在 PR diff 中的任何行上进行评论
-            }
-            currentNewLine++;
-          }
-        }
-      }
+      return false;
     }
 
+    const isInDiff = index.isLineInDiff(filePath, lineNumber, side);
     core.info(
-      `❌ Line ${lineNumber} not found in any diff hunk for ${filePath}`
+      isInDiff
+        ? `✅ Line ${lineNumber} (${side}) found in diff range`
+        : `❌ Line ${lineNumber} (${side}) not found in any diff hunk for ${filePath}`
     );
-    return false;
+    return isInDiff;
   }
 
   /**
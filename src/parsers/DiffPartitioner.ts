@@ -0,0 +1,250 @@
+import * as core from "@actions/core";
+import * as path from "path";
+import { DiffChunk } from "../core/types";
+import { IgnoreManager } from "../utils/IgnoreManager";
+import { DiffParser } from "./DiffParser";
+
+/**
+ * Diff 分块器类
+ * 按 token 预算将大型 diff 拆分为多个分块，相关文件尽量放在同一个分块中
+ */
+export class DiffPartitioner {
+  /** 估算 token 数时每个 token 对应的字符数 */
+  static readonly CHARS_PER_TOKEN = 4;
+
+  private maxTokens: number;
+  private diffParser: DiffParser;
+
+  constructor(maxTokens: number, ignoreManager?: IgnoreManager) {
+    this.maxTokens = maxTokens;
+    this.diffParser = new DiffParser(ignoreManager);
+  }
+
+  /**
+   * 估算文本的 token 数
+   */
+  static estimateTokens(text: string): number {
+    return Math.ceil(text.length / DiffPartitioner.CHARS_PER_TOKEN);
+  }
+
+  /**
+   * 将 diff 拆分为分块
+   * 未超出预算或 maxTokens 为 0 时返回包含全部内容的单个分块
+   */
+  partition(diffContent: string): DiffChunk[] {
+    const parsedDiff = this.diffParser.parseDiffContent(diffContent);
+    const sections = this.splitFileSections(diffContent);
+    const files = Array.from(parsedDiff.files.keys()).filter((filePath) =>
+      sections.has(filePath)
+    );
+
+    const content = files.map((filePath) => sections.get(filePath)!).join("");
+    const totalTokens = DiffPartitioner.estimateTokens(content);
+    if (this.maxTokens <= 0 || totalTokens <= this.maxTokens) {
+      return [{ index: 1, files, content, estimatedTokens: totalTokens }];
+    }
+
+    const pieces: Array<{ filePath: string; content: string }> = [];
+    const chunks: Array<typeof pieces> = [];
+    let currentTokens = 0;
+
+    const flush = () => {
+      if (pieces.length > 0) {
+        chunks.push(pieces.splice(0));
+        currentTokens = 0;
+      }
+    };
+    const add = (piece: { filePath: string; content: string }) => {
+      const tokens = DiffPartitioner.estimateTokens(piece.content);
+      if (currentTokens + tokens > this.maxTokens) {
+        flush();
+      }
+      pieces.push(piece);
+      currentTokens += tokens;
+    };
+
+    for (const group of this.groupRelatedFiles(files)) {
+      const groupContent = group.map((filePath) => sections.get(filePath)!);
+      const groupTokens = DiffPartitioner.estimateTokens(groupContent.join(""));
+
+      // 整组放不进当前分块时另起一个分块，单个分块也放不下时才拆开
+      if (
+        currentTokens + groupTokens > this.maxTokens &&
+        groupTokens <= this.maxTokens
+      ) {
+        flush();
+      }
+
+      group.forEach((filePath, index) => {
+        const section = groupContent[index]!;
+        if (DiffPartitioner.estimateTokens(section) <= this.maxTokens) {
+          add({ filePath, content: section });
+        } else {
+          this.splitLargeFile(section).forEach((part) =>
+            add({ filePath, content: part })
+          );
+        }
+      });
+    }
+    flush();
+
+    const result = chunks.map((chunkPieces, index) => {
+      const chunkContent = chunkPieces.map((piece) => piece.content).join("");
+      return {
+        index: index + 1,
+        files: Array.from(new Set(chunkPieces.map((piece) => piece.filePath))),
+        content: chunkContent,
+        estimatedTokens: DiffPartitioner.estimateTokens(chunkContent),
+      };
+    });
+
+    core.info(
+      `✂️ Split diff of ~${totalTokens} tokens into ${result.length} chunks (budget ${this.maxTokens} tokens per chunk)`
+    );
+    return result;
+  }
+
+  /**
+   * 按文件拆分原始 diff 内容，保留文件头（新建、删除、重命名等信息）
+   */
+  private splitFileSections(diffContent: string): Map<string, string> {
+    const sections = new Map<string, string>();
+    const lines = diffContent.split("\n");
+    let currentFile = "";
+    let currentLines: string[] = [];
+
+    const flush = () => {
+      if (currentFile) {
+        sections.set(currentFile, currentLines.join("\n") + "\n");
+      }
+    };
+
+    for (const line of lines) {
+      if (line.startsWith("diff --git")) {
+        flush();
+        const match = line.match(/diff --git a\/(.+) b\/(.+)/);
+        currentFile = match && match[2] ? match[2] : "";
+        currentLines = [];
+      }
+      if (currentFile) {
+        currentLines.push(line);
+      }
+    }
+    flush();
+
+    // 最后一个文件末尾的空行来自 diff 结尾的换行符
+    for (const [filePath, section] of sections) {
+      sections.set(filePath, section.replace(/\n+$/, "\n"));
+    }
+
+    return sections;
+  }
+
+  /**
+   * 将超出预算的单个文件按 hunk 拆分，每部分都带有文件头
+   */
+  private splitLargeFile(section: string): string[] {
+    const lines = section.replace(/\n$/, "").split("\n");
+    const firstHunk = lines.findIndex((line) => line.startsWith("@@"));
+    if (firstHunk === -1) {
+      return [section];
+    }
+
+    const header = lines.slice(0, firstHunk).join("\n") + "\n";
+    const headerTokens = DiffPartitioner.estimateTokens(header);
+    const hunks: string[] = [];
+    lines.slice(firstHunk).forEach((line) => {
+      if (line.startsWith("@@") || hunks.length === 0) {
+        hunks.push("");
+      }
+      hunks[hunks.length - 1] += line + "\n";
+    });
+
+    // 单个 hunk 超出预算时保持完整，不再继续拆分
+    const parts: string[] = [];
+    let current = "";
+    for (const hunk of hunks) {
+      if (
+        current &&
+        headerTokens + DiffPartitioner.estimateTokens(current + hunk) >
+          this.maxTokens
+      ) {
+        parts.push(header + current);
+        current = "";
+      }
+      current += hunk;
+    }
+    if (current) {
+      parts.push(header + current);
+    }
+
+    return parts;
+  }
+
+  /**
+   * 将相关文件分为一组：同一目录下的文件，以及测试文件与其对应的源文件
+   * 分组按目录排序，使相邻目录的文件也尽量落在同一个分块中
+   */
+  private groupRelatedFiles(files: string[]): string[][] {
+    const parent = new Map<string, string>(files.map((file) => [file, file]));
+    const find = (file: string): string => {
+      let root = file;
+      while (parent.get(root) !== root) {
+        root = parent.get(root)!;
+      }
+      parent.set(file, root);
+      return root;
+    };
+    const union = (a: string, b: string) => parent.set(find(a), find(b));
+
+    const byDirectory = new Map<string, string>();
+    const sourcesByStem = new Map<string, string[]>();
+    for (const file of files) {
+      const directory = path.posix.dirname(file);
+      const sibling = byDirectory.get(directory);
+      if (sibling) {
+        union(file, sibling);
+      } else {
+        byDirectory.set(directory, file);
+      }
+
+      if (!DiffPartitioner.isTestFile(file)) {
+        const stem = DiffPartitioner.getStem(file);
+        sourcesByStem.set(stem, [...(sourcesByStem.get(stem) || []), file]);
+      }
+    }
+
+    // 测试文件只与唯一同名的源文件关联，避免 index.test.ts 之类的文件把无关目录合并
+    for (const file of files.filter(DiffPartitioner.isTestFile)) {
+      const sources = sourcesByStem.get(DiffPartitioner.getStem(file)) || [];
+      if (sources.length === 1) {
+        union(file, sources[0]!);
+      }
+    }
+
+    const groups = new Map<string, string[]>();
+    for (const file of [...files].sort()) {
+      const root = find(file);
+      groups.set(root, [...(groups.get(root) || []), file]);
+    }
+
+    return Array.from(groups.values()).sort((a, b) =>
+      a[0]!.localeCompare(b[0]!)
+    );
+  }
+
+  private static isTestFile(file: string): boolean {
+    return /(^|[/._-])(test|tests|spec|__tests__)([/._-]|$)/.test(file);
+  }
+
+  /**
+   * 去掉扩展名和 test/spec 后缀后的文件名
+   */
+  private static getStem(file: string): string {
+    return path.posix
+      .basename(file)
+      .replace(/\.[^.]+$/, "")
+      .replace(/([._-](test|spec))$/, "")
+      .replace(/^test_/, "");
+  }
+}
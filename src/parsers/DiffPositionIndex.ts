@@ -0,0 +1,224 @@
+import { DiffHunk, DiffSide, ParsedDiff } from "../core/types";
+
+/**
+ * 单个 hunk 在新旧两侧覆盖的行
+ */
+interface HunkPositions {
+  /** RIGHT 侧可评论的行（新增行和上下文行）及其内容 */
+  right: Map<number, string>;
+  /** LEFT 侧可评论的行（删除行和上下文行）及其内容 */
+  left: Map<number, string>;
+  /** 新增行 */
+  added: Set<number>;
+  /** 删除行 */
+  deleted: Set<number>;
+}
+
+/**
+ * Diff 位置索引
+ * 基于 ParsedDiff 回答某一侧的行或行范围是否位于同一个 hunk 中
+ */
+export class DiffPositionIndex {
+  private static cache = new WeakMap<ParsedDiff, DiffPositionIndex>();
+
+  private hunksByFile = new Map<string, HunkPositions[]>();
+
+  constructor(parsedDiff: ParsedDiff) {
+    for (const [filePath, hunks] of parsedDiff.files.entries()) {
+      this.hunksByFile.set(
+        filePath,
+        hunks.map((hunk) => DiffPositionIndex.indexHunk(hunk))
+      );
+    }
+  }
+
+  /**
+   * 获取（并缓存）ParsedDiff 对应的索引
+   */
+  static forDiff(parsedDiff: ParsedDiff): DiffPositionIndex {
+    let index = this.cache.get(parsedDiff);
+    if (!index) {
+      index = new DiffPositionIndex(parsedDiff);
+      this.cache.set(parsedDiff, index);
+    }
+    return index;
+  }
+
+  /**
+   * 将问题中的文件路径解析为 diff 中的文件路径
+   * 兼容 ./path、/path 以及只给出路径后缀的情况
+   */
+  resolveFilePath(filePath: string): string | undefined {
+    if (this.hunksByFile.has(filePath)) {
+      return filePath;
+    }
+
+    const normalizedPath = filePath.replace(/^\.?\/+/, "");
+    return Array.from(this.hunksByFile.keys()).find((file) => {
+      const normalizedFile = file.replace(/^\/+/, "");
+      return (
+        normalizedFile === normalizedPath ||
+        normalizedFile.endsWith("/" + normalizedPath)
+      );
+    });
+  }
+
+  /**
+   * 获取 diff 中的所有文件路径
+   */
+  getFilePaths(): string[] {
+    return Array.from(this.hunksByFile.keys());
+  }
+
+  /**
+   * 检查某一侧的单行是否可评论
+   */
+  isLineInDiff(
+    filePath: string,
+    lineNumber: number,
+    side: DiffSide = "RIGHT"
+  ): boolean {
+    return this.findHunkIndex(filePath, lineNumber, side) !== -1;
+  }
+
+  /**
+   * 检查某一侧的行范围是否完整位于同一个 hunk 中
+   * GitHub 要求多行评论的 start_line 与 line 位于同一 hunk
+   */
+  isRangeInSingleHunk(
+    filePath: string,
+    startLine: number,
+    endLine: number,
+    side: DiffSide = "RIGHT"
+  ): boolean {
+    if (startLine > endLine) {
+      return false;
+    }
+
+    const hunkIndex = this.findHunkIndex(filePath, startLine, side);
+    if (hunkIndex === -1) {
+      return false;
+    }
+
+    const resolvedPath = this.resolveFilePath(filePath)!;
+    const hunk = this.hunksByFile.get(resolvedPath)![hunkIndex]!;
+    const lines = side === "RIGHT" ? hunk.right : hunk.left;
+    for (let line = startLine; line <= endLine; line++) {
+      if (!lines.has(line)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * 获取某一侧指定行在 diff 中的代码内容（不含 diff 标记）
+   * 任一行不在 diff 中时返回 undefined
+   */
+  getLines(
+    filePath: string,
+    startLine: number,
+    endLine: number,
+    side: DiffSide = "RIGHT"
+  ): string[] | undefined {
+    const resolvedPath = this.resolveFilePath(filePath);
+    if (!resolvedPath || startLine > endLine) {
+      return undefined;
+    }
+
+    const hunks = this.hunksByFile.get(resolvedPath)!;
+    const lines: string[] = [];
+    for (let line = startLine; line <= endLine; line++) {
+      const hunk = hunks.find((hunk) =>
+        (side === "RIGHT" ? hunk.right : hunk.left).has(line)
+      );
+      if (!hunk) {
+        return undefined;
+      }
+      lines.push((side === "RIGHT" ? hunk.right : hunk.left).get(line)!);
+    }
+
+    return lines;
+  }
+
+  /**
+   * 查找距离指定行最近的变更行（RIGHT 侧为新增行，LEFT 侧为删除行）
+   * 超过 maxDistance 时返回 undefined，距离相同时取前面的行
+   */
+  findNearestChangedLine(
+    filePath: string,
+    lineNumber: number,
+    maxDistance: number,
+    side: DiffSide = "RIGHT"
+  ): number | undefined {
+    const resolvedPath = this.resolveFilePath(filePath);
+    if (!resolvedPath || !lineNumber || maxDistance <= 0) {
+      return undefined;
+    }
+
+    const hunks = this.hunksByFile.get(resolvedPath)!;
+    const isChanged = (line: number) =>
+      hunks.some((hunk) =>
+        (side === "RIGHT" ? hunk.added : hunk.deleted).has(line)
+      );
+
+    for (let distance = 1; distance <= maxDistance; distance++) {
+      if (lineNumber - distance > 0 && isChanged(lineNumber - distance)) {
+        return lineNumber - distance;
+      }
+      if (isChanged(lineNumber + distance)) {
+        return lineNumber + distance;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 查找包含指定行的 hunk 序号，不存在时返回 -1
+   */
+  private findHunkIndex(
+    filePath: string,
+    lineNumber: number,
+    side: DiffSide
+  ): number {
+    const resolvedPath = this.resolveFilePath(filePath);
+    if (!resolvedPath || !lineNumber) {
+      return -1;
+    }
+
+    return this.hunksByFile
+      .get(resolvedPath)!
+      .findIndex((hunk) =>
+        (side === "RIGHT" ? hunk.right : hunk.left).has(lineNumber)
+      );
+  }
+
+  private static indexHunk(hunk: DiffHunk): HunkPositions {
+    const positions: HunkPositions = {
+      right: new Map(),
+      left: new Map(),
+      added: new Set(),
+      deleted: new Set(),
+    };
+    let oldLine = hunk.oldStart;
+    let newLine = hunk.newStart;
+
+    for (const line of hunk.lines) {
+      const content = line.substring(1);
+      if (line.startsWith("+")) {
+        positions.added.add(newLine);
+        positions.right.set(newLine++, content);
+      } else if (line.startsWith("-")) {
+        positions.deleted.add(oldLine);
+        positions.left.set(oldLine++, content);
+      } else {
+        positions.right.set(newLine++, content);
+        positions.left.set(oldLine++, content);
+      }
+    }
+
+    return positions;
+  }
+}
@@ -5,7 +5,15 @@ import {
   PullRequestInfo,
   ParsingStats,
   IssueStatistics,
+  JsonParseMethod,
+  DroppedIssue,
 } from "../core/types";
+import { IssueSuppressor } from "../core/IssueSuppressor";
+import { JsonRepair } from "../utils/JsonRepair";
+import {
+  ReviewOutputError,
+  ReviewOutputValidator,
+} from "./ReviewOutputValidator";
 
 /**
  * JSON 格式审查结果解析器
@@ -13,9 +21,11 @@ import {
  */
 export class JsonReviewResultParser {
   private prInfo: PullRequestInfo;
+  private issueSuppressor?: IssueSuppressor;
 
-  constructor(prInfo: PullRequestInfo) {
+  constructor(prInfo: PullRequestInfo, issueSuppressor?: IssueSuppressor) {
     this.prInfo = prInfo;
+    this.issueSuppressor = issueSuppressor;
   }
 
   /**
@@ -39,39 +49,51 @@ export class JsonReviewResultParser {
     const timestamp = new Date().toISOString();
 
     try {
-      // 清理可能的 JSON 包装（如果 LLM 输出包含 ```json 标记）
-      const cleanedResult = this.cleanJsonString(reviewResult);
-
-      // 调试：打印清理后的内容
-      core.info("🧹 Cleaned result (first 500 chars):");
-      core.info(cleanedResult.substring(0, 500));
-      core.info("🧹 Cleaned result (last 500 chars):");
-      core.info(
-        cleanedResult.substring(Math.max(0, cleanedResult.length - 500))
-      );
-      core.info(`📏 Cleaned length: ${cleanedResult.length} characters`);
-
-      // 解析 JSON
-      const parsedData = JSON.parse(cleanedResult);
+      // 解析 JSON，失败时依次尝试宽松修复和提取最大的有效对象
+      const { data: parsedData, method } = this.parseJson(reviewResult);
+      if (method !== "strict") {
+        core.warning(
+          `⚠️ Review result is not valid JSON, recovered with ${method} parsing`
+        );
+      }
 
-      // 验证 JSON 结构
+      // 按 JSON Schema 校验，缺少 issues 数组时无法确定审查结果
       this.validateJsonStructure(parsedData);
+      const schemaErrors = ReviewOutputValidator.validate(parsedData);
+      schemaErrors.forEach((error) =>
+        core.warning(`⚠️ Invalid review output: ${this.formatError(error)}`)
+      );
 
       // 提取摘要
       const summary = this.extractSummary(parsedData);
 
-      // 处理问题列表
-      const issues = this.processIssues(parsedData.issues || []);
+      // 处理问题列表，丢弃缺少必需字段的问题
+      const droppedIssues = this.findDroppedIssues(
+        parsedData.issues,
+        schemaErrors
+      );
+      const issues = this.processIssues(parsedData.issues, droppedIssues);
 
-      const result: ReviewResult = {
+      const parsedResult: ReviewResult = {
         reviewId,
         timestamp,
         commitSha: this.prInfo.headSha,
         summary,
         issues,
         totalIssues: issues.length,
+        parsingStats: this.buildParsingStats(
+          parsedData,
+          method,
+          schemaErrors,
+          droppedIssues
+        ),
       };
 
+      // 移除源码中用抑制注释标记的问题和误报基线中已接受的问题
+      const result = this.issueSuppressor
+        ? this.issueSuppressor.apply(parsedResult)
+        : parsedResult;
+
       core.info(
         `✅ JSON parsing complete. Found ${result.totalIssues} total issues`
       );
@@ -96,18 +118,56 @@ export class JsonReviewResultParser {
         }
       }
 
-      // 回退到空结果
+      // 回退到空结果，并标记解析失败，避免被当作没有问题的审查
+      // 失败说明由格式化器按配置的语言输出，摘要留空
       return {
         reviewId,
         timestamp,
         commitSha: this.prInfo.headSha,
-        summary: "解析审查结果时发生错误",
+        summary: "",
         issues: [],
         totalIssues: 0,
+        parseError: error instanceof Error ? error.message : String(error),
+        parsingStats: this.getParsingStats(reviewResult),
       };
     }
   }
 
+  /**
+   * 分层解析 JSON：严格解析 → 宽松修复 → 提取最大的有效对象
+   * 全部失败时抛出严格解析的错误
+   */
+  private parseJson(reviewResult: string): {
+    data: any;
+    method: JsonParseMethod;
+  } {
+    // 清理可能的 JSON 包装（如果 LLM 输出包含 ```json 标记）
+    const cleanedResult = this.cleanJsonString(reviewResult);
+    core.info(`📏 Cleaned length: ${cleanedResult.length} characters`);
+
+    try {
+      return { data: JSON.parse(cleanedResult), method: "strict" };
+    } catch (strictError) {
+      // 恢复出的对象必须包含 issues 数组，否则可能只是截断前的片段或单个问题
+      const isReview = (data: any) => Array.isArray(data?.issues);
+
+      try {
+        const repaired = JSON.parse(JsonRepair.repair(cleanedResult));
+        if (isReview(repaired)) {
+          return { data: repaired, method: "lenient" };
+        }
+      } catch {
+        // 继续尝试提取
+      }
+
+      const extracted = JsonRepair.extractLargestObject(reviewResult);
+      if (extracted && isReview(JSON.parse(extracted))) {
+        return { data: JSON.parse(extracted), method: "extracted" };
+      }
+      throw strictError;
+    }
+  }
+
   /**
    * 清理 JSON 字符串，移除可能的 Markdown 包装
    */
@@ -115,19 +175,42 @@ export class JsonReviewResultParser {
     let cleaned = jsonString.trim();
 
     // 移除 markdown 代码块包装 - 支持多行
-    cleaned = cleaned.replace(/^[\s\S]*?```(?:json)?\s*\n?/m, "");
-    cleaned = cleaned.replace(/\n?\s*```[\s\S]*$/m, "");
+    // 只处理 JSON 之外的代码块标记，字符串中的代码（如 suggestion）可能包含 ```
+    const openingFence = cleaned.indexOf("```");
+    const openingBrace = cleaned.indexOf("{");
+    if (
+      openingFence !== -1 &&
+      (openingBrace === -1 || openingFence < openingBrace)
+    ) {
+      cleaned = cleaned.replace(/^[\s\S]*?```(?:json)?\s*\n?/m, "");
+    }
+    const closingFence = cleaned.indexOf(
+      "```",
+      Math.max(cleaned.lastIndexOf("}"), 0)
+    );
+    if (closingFence !== -1) {
+      cleaned = cleaned.substring(0, closingFence).trimEnd();
+    }
 
     // 尝试提取有效的 JSON 部分
-    // 查找第一个 { 和最后一个匹配的 }
+    // 查找第一个 { 和最后一个匹配的 }，忽略字符串中的括号
     const firstBrace = cleaned.indexOf("{");
     if (firstBrace === -1) return cleaned;
 
     let braceCount = 0;
     let lastValidIndex = firstBrace;
+    let inString = false;
 
     for (let i = firstBrace; i < cleaned.length; i++) {
-      if (cleaned[i] === "{") {
+      if (inString) {
+        if (cleaned[i] === "\\") {
+          i++;
+        } else if (cleaned[i] === '"') {
+          inString = false;
+        }
+      } else if (cleaned[i] === '"') {
+        inString = true;
+      } else if (cleaned[i] === "{") {
         braceCount++;
       } else if (cleaned[i] === "}") {
         braceCount--;
@@ -138,6 +221,11 @@ export class JsonReviewResultParser {
       }
     }
 
+    // 括号未闭合说明输出被截断，保留剩余全部内容供宽松修复使用
+    if (braceCount > 0) {
+      return cleaned.substring(firstBrace);
+    }
+
     return cleaned.substring(firstBrace, lastValidIndex + 1);
   }
 
@@ -145,13 +233,73 @@ export class JsonReviewResultParser {
    * 验证 JSON 结构
    */
   private validateJsonStructure(data: any): void {
-    if (!data || typeof data !== "object") {
+    if (!data || typeof data !== "object" || Array.isArray(data)) {
       throw new Error("Invalid JSON: root must be an object");
     }
+    if (!Array.isArray(data.issues)) {
+      throw new Error("Invalid review output: issues must be an array");
+    }
 
-    // 确保必要字段存在，使用默认值
+    // 确保摘要存在，使用默认值
     data.summary = data.summary || {};
-    data.issues = Array.isArray(data.issues) ? data.issues : [];
+  }
+
+  /**
+   * 找出存在致命校验错误（问题本身无效或缺少标题）的问题
+   */
+  private findDroppedIssues(
+    issuesData: any[],
+    schemaErrors: ReviewOutputError[]
+  ): DroppedIssue[] {
+    const droppedIssues: DroppedIssue[] = [];
+
+    for (const [index, errors] of ReviewOutputValidator.groupByIssue(
+      schemaErrors
+    )) {
+      const fatalErrors = errors.filter((error) =>
+        ReviewOutputValidator.isFatalIssueError(error)
+      );
+      if (index === -1 || fatalErrors.length === 0) {
+        continue;
+      }
+
+      const data = issuesData[index];
+      droppedIssues.push({
+        index,
+        id: typeof data?.id === "string" ? data.id : undefined,
+        title: typeof data?.title === "string" ? data.title : undefined,
+        reasons: fatalErrors.map((error) => this.formatError(error)),
+      });
+    }
+
+    return droppedIssues.sort((a, b) => a.index - b.index);
+  }
+
+  private formatError(error: ReviewOutputError): string {
+    return `${error.path}: ${error.message}`;
+  }
+
+  /**
+   * 汇总解析统计信息
+   */
+  private buildParsingStats(
+    parsedData: any,
+    method: JsonParseMethod,
+    schemaErrors: ReviewOutputError[],
+    droppedIssues: DroppedIssue[]
+  ): ParsingStats {
+    return {
+      isValidJson: true,
+      parseMethod: method,
+      hasIssues:
+        Array.isArray(parsedData.issues) && parsedData.issues.length > 0,
+      hasSummary: !!(parsedData.summary && parsedData.summary.overallComments),
+      estimatedIssueCount: Array.isArray(parsedData.issues)
+        ? parsedData.issues.length
+        : 0,
+      schemaErrors: schemaErrors.map((error) => this.formatError(error)),
+      droppedIssues,
+    };
   }
 
   /**
@@ -176,10 +324,22 @@ export class JsonReviewResultParser {
   /**
    * 处理问题列表
    */
-  private processIssues(issuesData: any[]): ReviewIssue[] {
+  private processIssues(
+    issuesData: any[],
+    droppedIssues: DroppedIssue[]
+  ): ReviewIssue[] {
     const issues: ReviewIssue[] = [];
+    const dropped = new Map(droppedIssues.map((issue) => [issue.index, issue]));
 
     issuesData.forEach((issueData, index) => {
+      const droppedIssue = dropped.get(index);
+      if (droppedIssue) {
+        core.warning(
+          `⚠️ Dropped issue at index ${index}: ${droppedIssue.reasons.join("; ")}`
+        );
+        return;
+      }
+
       try {
         const issue = this.parseIssueFromJson(issueData, index);
         if (issue && this.validateIssue(issue)) {
@@ -225,7 +385,9 @@ export class JsonReviewResultParser {
       lineNumber: this.parseNumber(data.lineNumber),
       startLine: this.parseNumber(data.startLine),
       endLine: this.parseNumber(data.endLine),
+      side: this.validateSide(data.side),
       fixPrompt: data.fixPrompt || "",
+      suggestion: this.parseSuggestion(data.suggestion),
     };
   }
 
@@ -256,6 +418,30 @@ export class JsonReviewResultParser {
     return "medium";
   }
 
+  /**
+   * 验证 diff 侧，未提供时默认为 RIGHT（新代码）
+   */
+  private validateSide(side: any): ReviewIssue["side"] {
+    if (side === undefined || side === null || side === "") return undefined;
+
+    const normalized = String(side).toUpperCase();
+    if (normalized === "LEFT" || normalized === "RIGHT") return normalized;
+
+    core.warning(`Invalid side: ${side}, defaulting to 'RIGHT'`);
+    return undefined;
+  }
+
+  /**
+   * 解析建议修改代码，去掉模型可能添加的代码块标记
+   */
+  private parseSuggestion(suggestion: any): string | undefined {
+    if (typeof suggestion !== "string") return undefined;
+
+    const fenced = suggestion.match(/^\s*```[^\n]*\n([\s\S]*?)\n?```\s*$/);
+    const code = (fenced ? fenced[1]! : suggestion).replace(/\r?\n$/, "");
+    return code.trim() ? code : undefined;
+  }
+
   /**
    * 验证置信度
    */
@@ -309,26 +495,25 @@ export class JsonReviewResultParser {
    */
   getParsingStats(reviewResult: string): ParsingStats {
     try {
-      const cleanedResult = this.cleanJsonString(reviewResult);
-      const parsedData = JSON.parse(cleanedResult);
-
-      return {
-        isValidJson: true,
-        hasIssues:
-          Array.isArray(parsedData.issues) && parsedData.issues.length > 0,
-        hasSummary: !!(
-          parsedData.summary && parsedData.summary.overallComments
-        ),
-        estimatedIssueCount: Array.isArray(parsedData.issues)
-          ? parsedData.issues.length
-          : 0,
-      };
+      const { data: parsedData, method } = this.parseJson(reviewResult);
+      const schemaErrors = ReviewOutputValidator.validate(parsedData);
+
+      return this.buildParsingStats(
+        parsedData,
+        method,
+        schemaErrors,
+        Array.isArray(parsedData?.issues)
+          ? this.findDroppedIssues(parsedData.issues, schemaErrors)
+          : []
+      );
     } catch (error) {
       return {
         isValidJson: false,
         hasIssues: false,
         hasSummary: false,
         estimatedIssueCount: 0,
+        schemaErrors: [],
+        droppedIssues: [],
       };
     }
   }
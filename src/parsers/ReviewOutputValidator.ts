@@ -0,0 +1,164 @@
+import Ajv, { ErrorObject, ValidateFunction } from "ajv";
+
+/**
+ * 审查输出的校验错误
+ */
+export interface ReviewOutputError {
+  path: string; // 出错字段的路径，如 issues[3].lineNumber
+  message: string;
+}
+
+/**
+ * 审查输出校验器类
+ * 使用 JSON Schema（格式说明见 docs/JSON_SCHEMA.md）校验模型输出的审查结果
+ */
+export class ReviewOutputValidator {
+  static readonly ISSUE_TYPES = [
+    "bug",
+    "code_smell",
+    "security",
+    "performance",
+  ] as const;
+  static readonly SEVERITIES = ["low", "medium", "high", "critical"] as const;
+
+  /** 问题应包含的字段，缺少时记录为校验错误 */
+  static readonly REQUIRED_ISSUE_FIELDS = [
+    "title",
+    "description",
+    "filePath",
+  ] as const;
+
+  /** 问题缺少这些字段或字段无效时无法使用，会被丢弃；id、type、severity 缺失时使用默认值 */
+  static readonly FATAL_ISSUE_FIELDS = ["title"] as const;
+
+  static readonly SCHEMA = {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    title: "Bugment review output",
+    type: "object",
+    required: ["issues"],
+    properties: {
+      summary: {
+        type: "object",
+        properties: {
+          overallComments: { type: "array", items: { type: "string" } },
+        },
+      },
+      issues: {
+        type: "array",
+        items: {
+          type: "object",
+          required: [...ReviewOutputValidator.REQUIRED_ISSUE_FIELDS],
+          properties: {
+            id: { type: "string", minLength: 1 },
+            type: { enum: [...ReviewOutputValidator.ISSUE_TYPES] },
+            severity: { enum: [...ReviewOutputValidator.SEVERITIES] },
+            confidence: { type: "number", minimum: 0, maximum: 1 },
+            title: { type: "string", minLength: 1 },
+            description: { type: "string", minLength: 1 },
+            location: { type: "string" },
+            filePath: { type: "string", minLength: 1 },
+            lineNumber: { type: "integer", minimum: 1 },
+            startLine: { type: "integer", minimum: 1 },
+            endLine: { type: "integer", minimum: 1 },
+            side: { enum: ["LEFT", "RIGHT"] },
+            fixPrompt: { type: "string" },
+            suggestion: { type: "string" },
+          },
+        },
+      },
+    },
+  };
+
+  private static validateFn?: ValidateFunction;
+
+  /**
+   * 校验审查输出，返回全部错误
+   */
+  static validate(data: unknown): ReviewOutputError[] {
+    if (!this.validateFn) {
+      this.validateFn = new Ajv({ allErrors: true }).compile(this.SCHEMA);
+    }
+
+    if (this.validateFn(data)) {
+      return [];
+    }
+    return (this.validateFn.errors || []).map((error) =>
+      this.formatError(error)
+    );
+  }
+
+  /**
+   * 将错误按问题序号分组，根级别的错误使用 -1
+   */
+  static groupByIssue(
+    errors: ReviewOutputError[]
+  ): Map<number, ReviewOutputError[]> {
+    const groups = new Map<number, ReviewOutputError[]>();
+    for (const error of errors) {
+      const match = error.path.match(/^issues\[(\d+)\]/);
+      const index = match ? parseInt(match[1]!, 10) : -1;
+      groups.set(index, [...(groups.get(index) || []), error]);
+    }
+    return groups;
+  }
+
+  /**
+   * 错误是否使问题无法使用（问题本身无效或缺少标题）
+   * 缺少 description 或 filePath 的问题仍会保留，没有位置的问题在主评论中列出
+   */
+  static isFatalIssueError(error: ReviewOutputError): boolean {
+    const match = error.path.match(/^issues\[\d+\](?:\.(\w+))?$/);
+    if (!match) {
+      return false;
+    }
+    const field = match[1];
+    return (
+      !field || (this.FATAL_ISSUE_FIELDS as readonly string[]).includes(field)
+    );
+  }
+
+  /**
+   * 将 ajv 错误转换为 issues[3].lineNumber: expected integer 形式
+   */
+  private static formatError(error: ErrorObject): ReviewOutputError {
+    const segments = error.instancePath
+      .split("/")
+      .slice(1)
+      .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"));
+    if (error.keyword === "required") {
+      segments.push(error.params.missingProperty);
+    }
+
+    const path =
+      segments.reduce(
+        (result, segment) =>
+          /^\d+$/.test(segment)
+            ? `${result}[${segment}]`
+            : result
+              ? `${result}.${segment}`
+              : segment,
+        ""
+      ) || "<root>";
+
+    return { path, message: this.formatMessage(error) };
+  }
+
+  private static formatMessage(error: ErrorObject): string {
+    switch (error.keyword) {
+      case "required":
+        return "missing required field";
+      case "type":
+        return `expected ${error.params.type}`;
+      case "enum":
+        return `expected one of ${error.params.allowedValues.join(", ")}`;
+      case "minLength":
+        return "expected non-empty string";
+      case "minimum":
+        return `expected number >= ${error.params.limit}`;
+      case "maximum":
+        return `expected number <= ${error.params.limit}`;
+      default:
+        return error.message || error.keyword;
+    }
+  }
+}
@@ -4,3 +4,6 @@
 
 export * from "./DiffParser";
 export * from "./JsonReviewResultParser";
+export * from "./DiffPositionIndex";
+export * from "./DiffPartitioner";
+export * from "./ReviewOutputValidator";
@@ -0,0 +1,114 @@
+import * as core from "@actions/core";
+import { AugmentIPCClient, ChatStreamError } from "./AugmentClient";
+import { ReviewBackend, ReviewBackendContext } from "../core/types";
+
+/**
+ * Augment 审查后端
+ * 通过 vim 插件的语言服务器（dist/server.js）调用 Augment，模型可直接读取工作区文件
+ */
+export class AugmentBackend implements ReviewBackend {
+  readonly name = "augment" as const;
+
+  /** 等待工作区同步完成的最大检查次数（每秒一次） */
+  private static readonly MAX_SYNC_ATTEMPTS = 300;
+  /** 接收回复时输出进度日志的最小间隔 */
+  private static readonly PROGRESS_INTERVAL_MS = 10000;
+
+  constructor(
+    private serverPath?: string,
+    private idleTimeoutSeconds: number = 120,
+    private serverEnv?: NodeJS.ProcessEnv
+  ) {}
+
+  async review(prompt: string, context: ReviewBackendContext): Promise<string> {
+    const client = new AugmentIPCClient(this.serverPath, this.serverEnv);
+
+    try {
+      await client.startServer(context.projectPath);
+      await this.waitForSync(client);
+
+      return await this.receiveReply(
+        client,
+        prompt,
+        context.diffPath || context.projectPath
+      );
+    } catch (error) {
+      core.error(`❌ Augment review failed: ${error}`);
+      throw error;
+    } finally {
+      client.stopServer();
+    }
+  }
+
+  /**
+   * 流式接收回复并输出进度
+   * 连接中断时若已收到部分内容则返回部分内容，由解析器尽量恢复其中的结果
+   */
+  private async receiveReply(
+    client: AugmentIPCClient,
+    prompt: string,
+    filePath: string
+  ): Promise<string> {
+    const startTime = Date.now();
+    let lastProgressTime = startTime;
+    let text = "";
+
+    const elapsedSeconds = () => Math.round((Date.now() - startTime) / 1000);
+
+    try {
+      const stream = client.sendMessage(prompt, filePath, {
+        stream: true,
+        idleTimeout: this.idleTimeoutSeconds * 1000,
+      });
+      for await (const chunk of stream) {
+        text += chunk;
+        if (
+          Date.now() - lastProgressTime >=
+          AugmentBackend.PROGRESS_INTERVAL_MS
+        ) {
+          lastProgressTime = Date.now();
+          core.info(
+            `📡 Receiving review: ${text.length} chars in ${elapsedSeconds()}s`
+          );
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof ChatStreamError) || !error.partialText.trim()) {
+        throw error;
+      }
+
+      core.warning(
+        `⚠️ ${error.message}, keeping ${error.partialText.length} chars received in ${elapsedSeconds()}s`
+      );
+      return error.partialText;
+    }
+
+    core.info(
+      `📡 Received review: ${text.length} chars in ${elapsedSeconds()}s`
+    );
+    return text;
+  }
+
+  /**
+   * 等待 Augment 完成工作区索引同步
+   */
+  private async waitForSync(client: AugmentIPCClient): Promise<void> {
+    for (
+      let attempt = 0;
+      attempt < AugmentBackend.MAX_SYNC_ATTEMPTS;
+      attempt++
+    ) {
+      const status = await client.getStatus();
+      if (status.syncPercentage === 100) {
+        return;
+      }
+
+      // 等待1秒后重试
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    }
+
+    throw new Error(
+      `Server synchronization timeout after ${AugmentBackend.MAX_SYNC_ATTEMPTS} attempts`
+    );
+  }
+}
@@ -1,18 +1,8 @@
-import * as fs from "fs";
 import { spawn, ChildProcess } from "child_process";
 import { EventEmitter } from "events";
 import * as path from "path";
 import pRetry from "p-retry";
 import pTimeout from "p-timeout";
-export interface AugmentReviewOptions {
-  projectPath: string;
-  prTitle: string;
-  prDescription: string;
-  diffPath?: string;
-  repoOwner?: string;
-  repoName?: string;
-  commitSha?: string;
-}
 
 interface StatusResponse {
   loggedIn: boolean;
@@ -32,6 +22,28 @@ interface LSPMessage {
   };
 }
 
+/**
+ * 流式聊天选项
+ * idleTimeout 为两次收到分块之间允许的最长间隔（毫秒），每收到一个分块就重新计时
+ */
+export interface ChatStreamOptions {
+  stream: true;
+  idleTimeout?: number;
+}
+
+/**
+ * 流式聊天中断时抛出的错误，partialText 保留中断前已收到的内容
+ */
+export class ChatStreamError extends Error {
+  readonly partialText: string;
+
+  constructor(message: string, partialText: string) {
+    super(message);
+    this.name = "ChatStreamError";
+    this.partialText = partialText;
+  }
+}
+
 interface InitializeParams {
   processId: number;
   capabilities: object;
@@ -62,7 +74,13 @@ export class AugmentIPCClient extends EventEmitter {
   private connectionTimeout = 60000;
   private requestTimeout = 120000;
 
-  constructor(serverPath: string = "./dist/server.js") {
+  /**
+   * env 为语言服务器进程的环境变量，其中的 HOME 决定读取哪个认证配置
+   */
+  constructor(
+    serverPath: string = "./dist/server.js",
+    private env: NodeJS.ProcessEnv = process.env
+  ) {
     super();
     this.serverPath = path.resolve(serverPath);
   }
@@ -108,7 +126,7 @@ export class AugmentIPCClient extends EventEmitter {
       // 使用 node-ipc 模式启动服务器
       this.serverProcess = spawn("node", [this.serverPath, "--node-ipc"], {
         stdio: ["pipe", "pipe", "pipe", "ipc"],
-        env: process.env,
+        env: this.env,
       });
 
       // 错误处理
@@ -207,7 +225,14 @@ export class AugmentIPCClient extends EventEmitter {
   // IPC Communication
   // ========================================================================
 
-  private async _sendRequest(method: string, params?: any): Promise<any> {
+  /**
+   * 发送请求，timeout 为 0 时不限制等待时间
+   */
+  private async _sendRequest(
+    method: string,
+    params?: any,
+    timeout: number = this.requestTimeout
+  ): Promise<any> {
     if (!this.serverProcess) {
       throw new Error("Server is not running");
     }
@@ -220,27 +245,30 @@ export class AugmentIPCClient extends EventEmitter {
       params,
     };
 
-    return pTimeout(
-      new Promise((resolve, reject) => {
-        this.pendingRequests.set(id, {
-          resolve,
-          reject,
-          timestamp: Date.now(),
-        });
+    const request = new Promise((resolve, reject) => {
+      this.pendingRequests.set(id, {
+        resolve,
+        reject,
+        timestamp: Date.now(),
+      });
 
-        // 发送 IPC 消息
-        this.serverProcess!.send(message, (error) => {
-          if (error) {
-            this.pendingRequests.delete(id);
-            reject(new Error(`IPC send failed: ${error.message}`));
-          }
-        });
-      }),
-      {
-        milliseconds: this.requestTimeout,
-        message: `Request timeout: ${method}`,
-      }
-    );
+      // 发送 IPC 消息
+      this.serverProcess!.send(message, (error) => {
+        if (error) {
+          this.pendingRequests.delete(id);
+          reject(new Error(`IPC send failed: ${error.message}`));
+        }
+      });
+    });
+
+    if (timeout === 0) {
+      return request;
+    }
+
+    return pTimeout(request, {
+      milliseconds: timeout,
+      message: `Request timeout: ${method}`,
+    });
   }
 
   private _handleMessage(message: LSPMessage): void {
@@ -302,21 +330,42 @@ export class AugmentIPCClient extends EventEmitter {
     }
   }
 
-  async sendMessage(message: string, filePath: string): Promise<any> {
+  /**
+   * 发送聊天消息
+   * 指定 { stream: true } 时返回分块的异步迭代器，迭代结束时的返回值为完整文本
+   */
+  sendMessage(message: string, filePath: string): Promise<any>;
+  sendMessage(
+    message: string,
+    filePath: string,
+    options: ChatStreamOptions
+  ): AsyncGenerator<string, string>;
+  sendMessage(
+    message: string,
+    filePath: string,
+    options?: ChatStreamOptions
+  ): Promise<any> | AsyncGenerator<string, string> {
+    if (options?.stream) {
+      return this._streamMessage(
+        message,
+        filePath,
+        options.idleTimeout ?? this.requestTimeout
+      );
+    }
+
+    return this._sendMessage(message, filePath);
+  }
+
+  private async _sendMessage(message: string, filePath: string): Promise<any> {
     if (!this.isInitialized) {
       throw new Error("Server is not initialized. Call startServer() first.");
     }
 
     try {
-      const result = await this._sendRequest("augment/chat", {
-        textDocumentPosition: {
-          textDocument: {
-            uri: `file:///${filePath}`,
-          },
-          position: { line: 0, character: 0 },
-        },
-        message,
-      });
+      const result = await this._sendRequest(
+        "augment/chat",
+        this._chatParams(message, filePath)
+      );
 
       // Message sent successfully
       return result;
@@ -326,84 +375,124 @@ export class AugmentIPCClient extends EventEmitter {
     }
   }
 
-  // ========================================================================
-  // Utility Methods
-  // ========================================================================
-
-  isRunning(): boolean {
-    return this.serverProcess !== null && !this.serverProcess.killed;
-  }
+  /**
+   * 以 augment/chatChunk 通知流式接收回复
+   * 请求本身不设总超时，超过 idleTimeout 未收到新分块时中断
+   */
+  private async *_streamMessage(
+    message: string,
+    filePath: string,
+    idleTimeout: number
+  ): AsyncGenerator<string, string> {
+    if (!this.isInitialized) {
+      throw new Error("Server is not initialized. Call startServer() first.");
+    }
 
-  isReady(): boolean {
-    return this.isRunning() && this.isInitialized;
-  }
-}
+    const queue: string[] = [];
+    let finished = false;
+    let failure: Error | undefined;
+    let finalText: string | undefined;
+    let wake: (() => void) | undefined;
 
-async function loadPromptTemplate(): Promise<string> {
-  const promptPath = path.join(__dirname, "..", "templates", "prompt.md");
-  return fs.readFileSync(promptPath, "utf-8");
-}
+    const notify = () => {
+      wake?.();
+      wake = undefined;
+    };
+    const onChunk = (params: any) => {
+      if (typeof params?.text === "string" && params.text) {
+        queue.push(params.text);
+        notify();
+      }
+    };
 
-function formatPrompt(template: string, options: AugmentReviewOptions): string {
-  // 构建 GitHub 仓库链接信息
-  const githubInfo =
-    options.repoOwner && options.repoName && options.commitSha
-      ? `\n\n## GitHub 仓库信息\n- 仓库: ${options.repoOwner}/${options.repoName}\n- 提交: ${options.commitSha}\n- 基础链接: https://github.com/${options.repoOwner}/${options.repoName}/blob/${options.commitSha}/`
-      : "";
-
-  return (
-    template
-      .replace("{PR_TITLE}", options.prTitle || "No title provided")
-      .replace(
-        "{PR_DESCRIPTION}",
-        options.prDescription || "No description provided"
-      )
-      .replace(
-        "{DIFF_FILE_PATH}",
-        options.diffPath || "No diff path provided"
-      ) + githubInfo
-  );
-}
+    this.on("chatChunk", onChunk);
+    this._sendRequest("augment/chat", this._chatParams(message, filePath), 0)
+      .then((result) => {
+        finalText = result?.text;
+        finished = true;
+        notify();
+      })
+      .catch((error) => {
+        failure = error instanceof Error ? error : new Error(String(error));
+        notify();
+      });
 
-async function performCodeReview(
-  options: AugmentReviewOptions
-): Promise<string> {
-  const client = new AugmentIPCClient();
+    let text = "";
+    try {
+      while (true) {
+        if (queue.length > 0) {
+          const chunk = queue.shift()!;
+          text += chunk;
+          yield chunk;
+          continue;
+        }
 
-  try {
-    await client.startServer(options.projectPath);
+        if (failure) {
+          throw new ChatStreamError(
+            `Chat stream failed: ${failure.message}`,
+            text
+          );
+        }
 
-    // 等待同步完成
-    for (let attempt = 0; attempt < 300; attempt++) {
-      const status = await client.getStatus();
+        if (finished) {
+          break;
+        }
 
-      if (status.syncPercentage === 100) {
-        break;
+        // 等待下一个分块或请求结束，每次等待都重新计算空闲超时
+        const timedOut = await new Promise<boolean>((resolve) => {
+          const timer = setTimeout(() => resolve(true), idleTimeout);
+          wake = () => {
+            clearTimeout(timer);
+            resolve(false);
+          };
+        });
+        if (timedOut) {
+          throw new ChatStreamError(
+            `Chat stream idle for ${Math.round(idleTimeout / 1000)}s`,
+            text
+          );
+        }
       }
 
-      if (attempt === 299) {
-        throw new Error("Server synchronization timeout after 300 attempts");
+      // 最终结果中可能包含未通过分块发送的内容
+      if (
+        finalText &&
+        finalText.length > text.length &&
+        finalText.startsWith(text)
+      ) {
+        const rest = finalText.substring(text.length);
+        text = finalText;
+        yield rest;
       }
 
-      // 等待1秒后重试
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+      return text;
+    } finally {
+      wake = undefined;
+      this.off("chatChunk", onChunk);
     }
+  }
 
-    const promptTemplate = await loadPromptTemplate();
-    const reviewPrompt = formatPrompt(promptTemplate, options);
+  private _chatParams(message: string, filePath: string) {
+    return {
+      textDocumentPosition: {
+        textDocument: {
+          uri: `file:///${filePath}`,
+        },
+        position: { line: 0, character: 0 },
+      },
+      message,
+    };
+  }
 
-    const reviewResult = await client.sendMessage(
-      reviewPrompt,
-      options.diffPath || options.projectPath
-    );
+  // ========================================================================
+  // Utility Methods
+  // ========================================================================
 
-    return reviewResult.text;
-  } catch (error) {
-    console.error("❌ Code review failed:", error);
-    throw error;
-  } finally {
-    client.stopServer();
+  isRunning(): boolean {
+    return this.serverProcess !== null && !this.serverProcess.killed;
   }
-}
 
-export { performCodeReview, AugmentReviewOptions as ReviewOptions };
+  isReady(): boolean {
+    return this.isRunning() && this.isInitialized;
+  }
+}
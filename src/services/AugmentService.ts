@@ -9,9 +9,14 @@ import { ActionInputs } from "../core/types";
  */
 export class AugmentService {
   private inputs: ActionInputs;
+  private homeDir: string;
 
-  constructor(inputs: ActionInputs) {
+  /**
+   * homeDir 为认证配置所在的用户目录，默认使用 HOME
+   */
+  constructor(inputs: ActionInputs, homeDir?: string) {
     this.inputs = inputs;
+    this.homeDir = homeDir || process.env.HOME || "~";
   }
 
   /**
@@ -20,10 +25,7 @@ export class AugmentService {
   async setupAuthentication(): Promise<void> {
     core.info("🔐 Setting up Augment authentication...");
 
-    const configDir = path.join(
-      process.env.HOME || "~",
-      ".local/share/vim-augment"
-    );
+    const configDir = path.join(this.homeDir, ".local/share/vim-augment");
     const configFile = path.join(configDir, "secrets.json");
 
     // 创建配置目录
@@ -50,10 +52,7 @@ export class AugmentService {
    */
   async validateAuthentication(): Promise<boolean> {
     try {
-      const configDir = path.join(
-        process.env.HOME || "~",
-        ".local/share/vim-augment"
-      );
+      const configDir = path.join(this.homeDir, ".local/share/vim-augment");
       const configFile = path.join(configDir, "secrets.json");
 
       // 检查配置文件是否存在
@@ -90,10 +89,7 @@ export class AugmentService {
    */
   async cleanupAuthentication(): Promise<void> {
     try {
-      const configDir = path.join(
-        process.env.HOME || "~",
-        ".local/share/vim-augment"
-      );
+      const configDir = path.join(this.homeDir, ".local/share/vim-augment");
       const configFile = path.join(configDir, "secrets.json");
 
       if (fs.existsSync(configFile)) {
@@ -113,10 +109,7 @@ export class AugmentService {
     hasAccessToken: boolean;
     configPath: string;
   } {
-    const configDir = path.join(
-      process.env.HOME || "~",
-      ".local/share/vim-augment"
-    );
+    const configDir = path.join(this.homeDir, ".local/share/vim-augment");
     const configFile = path.join(configDir, "secrets.json");
 
     return {
@@ -0,0 +1,286 @@
+import * as core from "@actions/core";
+import * as github from "@actions/github";
+import {
+  CheckRunAnnotation,
+  CheckRunConclusion,
+  Messages,
+  PolicyDecision,
+  PullRequestInfo,
+  ReviewIssue,
+  ReviewResult,
+} from "../core/types";
+import { I18n } from "../i18n/I18n";
+import { FormatUtils } from "../utils/FormatUtils";
+
+/**
+ * 检查运行服务类
+ * 通过 Checks API 发布名为 Bugment 的检查运行，为每个问题添加注释
+ * 检查运行发布失败（如缺少 checks: write 权限）时只记录警告，不影响审查
+ */
+export class CheckRunService {
+  static readonly NAME = "Bugment";
+
+  /** Checks API 每次请求最多接受的注释数量 */
+  static readonly MAX_ANNOTATIONS_PER_REQUEST = 50;
+
+  private static readonly ANNOTATION_LEVELS: Record<
+    ReviewIssue["severity"],
+    CheckRunAnnotation["annotation_level"]
+  > = {
+    critical: "failure",
+    high: "failure",
+    medium: "warning",
+    low: "notice",
+  };
+
+  private octokit: ReturnType<typeof github.getOctokit>;
+  private prInfo: PullRequestInfo;
+  private language: string;
+  private messages: Messages;
+  private checkRunId?: number;
+
+  constructor(
+    githubToken: string,
+    prInfo: PullRequestInfo,
+    language: string = I18n.DEFAULT_LANGUAGE
+  ) {
+    this.octokit = github.getOctokit(githubToken);
+    this.prInfo = prInfo;
+    this.language = language;
+    this.messages = I18n.getMessages(language);
+  }
+
+  /**
+   * 创建状态为 in_progress 的检查运行，让 PR 显示审查正在进行
+   */
+  async start(): Promise<void> {
+    try {
+      const { data } = await this.octokit.rest.checks.create({
+        owner: this.prInfo.owner,
+        repo: this.prInfo.repo,
+        name: CheckRunService.NAME,
+        head_sha: this.prInfo.headSha,
+        status: "in_progress",
+        started_at: new Date().toISOString(),
+        output: {
+          title: this.messages.checkRun.inProgressTitle,
+          summary: this.messages.checkRun.inProgressSummary,
+        },
+      });
+      this.checkRunId = data.id;
+      core.info(`🏁 Started check run ${data.id}`);
+    } catch (error) {
+      core.warning(`⚠️ Failed to start the check run: ${error}`);
+    }
+  }
+
+  /**
+   * 完成检查运行：按批次上传注释，最后一次请求设置结论
+   */
+  async complete(
+    reviewResult: ReviewResult,
+    decision: PolicyDecision
+  ): Promise<void> {
+    const annotations = CheckRunService.createAnnotations(
+      reviewResult.issues,
+      this.language
+    );
+    const output = {
+      title: reviewResult.parseError
+        ? this.messages.comment.parseErrorTitle
+        : this.messages.checkRun.title(reviewResult.totalIssues),
+      summary: this.formatSummary(reviewResult, decision),
+    };
+
+    const batches: CheckRunAnnotation[][] = [];
+    for (
+      let i = 0;
+      i < annotations.length;
+      i += CheckRunService.MAX_ANNOTATIONS_PER_REQUEST
+    ) {
+      batches.push(
+        annotations.slice(i, i + CheckRunService.MAX_ANNOTATIONS_PER_REQUEST)
+      );
+    }
+
+    try {
+      for (const batch of batches.slice(0, -1)) {
+        await this.upsert({ output: { ...output, annotations: batch } });
+      }
+      await this.upsert({
+        status: "completed",
+        conclusion: CheckRunService.getConclusion(reviewResult, decision),
+        completed_at: new Date().toISOString(),
+        output: { ...output, annotations: batches[batches.length - 1] || [] },
+      });
+      core.info(
+        `🏁 Completed check run with ${annotations.length} annotations`
+      );
+    } catch (error) {
+      core.warning(`⚠️ Failed to complete the check run: ${error}`);
+    }
+  }
+
+  /**
+   * 审查出错时以 failure 结束检查运行，未创建检查运行时不做任何操作
+   */
+  async fail(errorMessage: string): Promise<void> {
+    if (!this.checkRunId) {
+      return;
+    }
+
+    try {
+      await this.upsert({
+        status: "completed",
+        conclusion: "failure",
+        completed_at: new Date().toISOString(),
+        output: {
+          title: this.messages.checkRun.failedTitle,
+          summary: `\`\`\`\n${errorMessage}\n\`\`\``,
+        },
+      });
+    } catch (error) {
+      core.warning(`⚠️ Failed to complete the check run: ${error}`);
+    }
+  }
+
+  /**
+   * 更新检查运行，start 失败时改为创建新的检查运行
+   */
+  private async upsert(params: Record<string, any>): Promise<void> {
+    if (this.checkRunId) {
+      await this.octokit.rest.checks.update({
+        owner: this.prInfo.owner,
+        repo: this.prInfo.repo,
+        check_run_id: this.checkRunId,
+        ...params,
+      });
+      return;
+    }
+
+    const { data } = await this.octokit.rest.checks.create({
+      owner: this.prInfo.owner,
+      repo: this.prInfo.repo,
+      name: CheckRunService.NAME,
+      head_sha: this.prInfo.headSha,
+      ...params,
+    });
+    this.checkRunId = data.id;
+  }
+
+  /**
+   * 格式化检查运行摘要：严重程度分布、审查结论以及无法添加注释的问题
+   */
+  formatSummary(reviewResult: ReviewResult, decision: PolicyDecision): string {
+    const { comment, labels, checkRun } = this.messages;
+    let summary = "";
+
+    if (reviewResult.parseError) {
+      summary += `> [!WARNING]\n> ${comment.parseErrorBody}\n\n`;
+    }
+
+    if (reviewResult.issues.length > 0) {
+      summary += `### ${comment.severityDistributionColumn}\n\n`;
+      summary += `| ${labels.severity} | ${comment.countColumn} |\n`;
+      summary += `| ---- | ---- |\n`;
+      (["critical", "high", "medium", "low"] as const).forEach((severity) => {
+        const count = reviewResult.issues.filter(
+          (issue) => issue.severity === severity
+        ).length;
+        if (count > 0) {
+          summary += `| ${FormatUtils.getSeverityEmoji(severity)} ${FormatUtils.getSeverityText(severity, this.language)} | ${count} |\n`;
+        }
+      });
+      summary += `\n`;
+    } else if (!reviewResult.parseError) {
+      summary += `${comment.cleanBody}\n\n`;
+    }
+
+    if (reviewResult.suppressedCount) {
+      summary += `${comment.suppressedIssues(reviewResult.suppressedCount)}\n\n`;
+    }
+
+    summary += `### ${checkRun.decisionHeading}\n\n`;
+    summary += `**${decision.event}**\n\n`;
+    decision.reasons.forEach((reason) => {
+      summary += `- ${reason}\n`;
+    });
+
+    const unannotated = reviewResult.issues.filter(
+      (issue) => !CheckRunService.getAnnotationRange(issue)
+    );
+    if (unannotated.length > 0) {
+      summary += `\n${checkRun.unannotated(unannotated.length)}\n\n`;
+      unannotated.forEach((issue) => {
+        const location = issue.location ? ` - \`${issue.location}\`` : "";
+        summary += `- ${FormatUtils.getSeverityEmoji(issue.severity)} ${issue.title}${location}\n`;
+      });
+    }
+
+    return summary;
+  }
+
+  /**
+   * 为问题创建注释，包括不在 diff 中的问题
+   * 没有文件位置或位于被删除代码（LEFT）的问题无法在 head 提交上标注
+   */
+  static createAnnotations(
+    issues: ReviewIssue[],
+    language: string = I18n.DEFAULT_LANGUAGE
+  ): CheckRunAnnotation[] {
+    const { labels } = I18n.getMessages(language);
+
+    return issues.flatMap((issue) => {
+      const range = CheckRunService.getAnnotationRange(issue);
+      if (!range) {
+        return [];
+      }
+
+      const annotation: CheckRunAnnotation = {
+        path: issue.filePath!.replace(/\\/g, "/").replace(/^(\.\/|\/)+/, ""),
+        start_line: range.startLine,
+        end_line: range.endLine,
+        annotation_level: CheckRunService.ANNOTATION_LEVELS[issue.severity],
+        title: `${FormatUtils.getTypeName(issue.type, language)}: ${issue.title}`,
+        message: issue.fixPrompt
+          ? `${issue.description}\n\n${labels.fixPrompt}: ${issue.fixPrompt}`
+          : issue.description,
+      };
+      if (issue.suggestion) {
+        annotation.raw_details = issue.suggestion;
+      }
+      return [annotation];
+    });
+  }
+
+  /**
+   * 审查结论：需要修改时为 failure，有问题或结果不完整时为 neutral，否则为 success
+   */
+  static getConclusion(
+    reviewResult: ReviewResult,
+    decision: PolicyDecision
+  ): CheckRunConclusion {
+    if (decision.event === "REQUEST_CHANGES" || decision.shouldFail) {
+      return "failure";
+    }
+    if (reviewResult.parseError || reviewResult.issues.length > 0) {
+      return "neutral";
+    }
+    return "success";
+  }
+
+  private static getAnnotationRange(
+    issue: ReviewIssue
+  ): { startLine: number; endLine: number } | undefined {
+    const startLine = issue.startLine ?? issue.lineNumber;
+    if (!issue.filePath || issue.side === "LEFT" || !startLine) {
+      return undefined;
+    }
+
+    return {
+      startLine,
+      endLine:
+        issue.endLine && issue.endLine > startLine ? issue.endLine : startLine,
+    };
+  }
+}
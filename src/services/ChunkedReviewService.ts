@@ -0,0 +1,213 @@
+import * as core from "@actions/core";
+import * as fs from "fs";
+import {
+  ChunkingConfig,
+  DiffChunk,
+  ReviewResult,
+  ReviewScope,
+} from "../core/types";
+import { ReviewWorkflow } from "../core/ReviewWorkflow";
+import { DiffPartitioner } from "../parsers/DiffPartitioner";
+import { JsonReviewResultParser } from "../parsers/JsonReviewResultParser";
+import { IgnoreManager } from "../utils/IgnoreManager";
+import { ReviewService } from "./ReviewService";
+
+/**
+ * 分块审查服务类
+ * 大型 diff 超出 token 预算时拆分为多个分块，以有限并发分别审查后合并结果
+ */
+export class ChunkedReviewService {
+  private reviewService: ReviewService;
+  private parser: JsonReviewResultParser;
+  private config: ChunkingConfig;
+  private ignoreManager?: IgnoreManager;
+
+  constructor(
+    reviewService: ReviewService,
+    parser: JsonReviewResultParser,
+    config: ChunkingConfig,
+    ignoreManager?: IgnoreManager
+  ) {
+    this.reviewService = reviewService;
+    this.parser = parser;
+    this.config = config;
+    this.ignoreManager = ignoreManager;
+  }
+
+  /**
+   * 审查 diff 并返回解析后的结果
+   * 任一分块审查失败时整体失败，避免以不完整的审查结果批准 PR
+   */
+  async review(
+    diffPath: string,
+    scope?: ReviewScope,
+    fullDiffPath?: string
+  ): Promise<ReviewResult> {
+    const diffContent = await fs.promises.readFile(diffPath, "utf-8");
+    const chunks = new DiffPartitioner(
+      this.config.maxTokens,
+      this.ignoreManager
+    ).partition(diffContent);
+
+    if (chunks.length <= 1) {
+      return this.parse(
+        await this.reviewService.performReview(diffPath, scope, fullDiffPath),
+        diffPath
+      );
+    }
+
+    const chunkPaths = chunks.map((chunk) =>
+      diffPath.replace(/(\.patch)?$/, `.chunk-${chunk.index}.patch`)
+    );
+
+    try {
+      const results = await ChunkedReviewService.mapWithConcurrency(
+        chunks,
+        this.config.concurrency,
+        (chunk, index) =>
+          this.reviewChunk(
+            chunk,
+            chunks.length,
+            chunkPaths[index]!,
+            scope,
+            fullDiffPath
+          )
+      );
+      return ReviewWorkflow.mergeResults(results);
+    } finally {
+      await Promise.all(
+        chunkPaths.map((chunkPath) =>
+          fs.promises.rm(chunkPath, { force: true })
+        )
+      );
+    }
+  }
+
+  /**
+   * 将分块写入文件并审查
+   */
+  private async reviewChunk(
+    chunk: DiffChunk,
+    total: number,
+    chunkPath: string,
+    scope?: ReviewScope,
+    fullDiffPath?: string
+  ): Promise<ReviewResult> {
+    core.info(
+      `🧩 Reviewing chunk ${chunk.index}/${total}: ${chunk.files.length} files, ~${chunk.estimatedTokens} tokens`
+    );
+    await fs.promises.writeFile(chunkPath, chunk.content);
+
+    try {
+      const resultText = await this.reviewService.performReview(
+        chunkPath,
+        scope,
+        fullDiffPath,
+        { index: chunk.index, total, files: chunk.files }
+      );
+      const result = await this.parse(resultText, chunkPath);
+      if (result.parseError) {
+        result.parseError = `chunk ${chunk.index}/${total}: ${result.parseError}`;
+      }
+      if (result.parsingStats) {
+        result.parsingStats.schemaErrors = result.parsingStats.schemaErrors.map(
+          (error) => `chunk ${chunk.index}/${total}: ${error}`
+        );
+        result.parsingStats.droppedIssues.forEach((issue) => {
+          issue.chunk = chunk.index;
+        });
+      }
+      return result;
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `Review of chunk ${chunk.index}/${total} failed: ${errorMessage}`
+      );
+    }
+  }
+
+  /**
+   * 解析审查结果，本地修复失败时请求模型修复一次
+   */
+  private async parse(
+    resultText: string,
+    diffPath: string
+  ): Promise<ReviewResult> {
+    const result = this.parser.parseReviewResult(resultText);
+    ChunkedReviewService.logParsingStats(result);
+    if (!result.parseError) {
+      return result;
+    }
+
+    core.warning(
+      `⚠️ Failed to parse the review result (${result.parseError}), requesting a repaired output`
+    );
+    try {
+      const repaired = this.parser.parseReviewResult(
+        await this.reviewService.requestJsonRepair(
+          resultText,
+          result.parseError,
+          diffPath
+        )
+      );
+      ChunkedReviewService.logParsingStats(repaired);
+      if (!repaired.parseError) {
+        core.info("✅ Model repaired its JSON output");
+        return repaired;
+      }
+    } catch (error) {
+      core.warning(`⚠️ JSON repair request failed: ${error}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * 输出解析质量摘要，完整报告仅在调试模式下输出
+   */
+  private static logParsingStats(result: ReviewResult): void {
+    const stats = result.parsingStats;
+    if (!stats) {
+      return;
+    }
+
+    core.info(
+      `📈 Parse quality: ${stats.parseMethod || "failed"}, ${result.issues.length}/${stats.estimatedIssueCount} issues accepted, ${stats.schemaErrors.length} schema errors`
+    );
+    core.debug(`📈 Parse quality report: ${JSON.stringify(stats)}`);
+  }
+
+  /**
+   * 以有限并发执行异步任务，结果顺序与输入一致
+   */
+  static async mapWithConcurrency<T, R>(
+    items: T[],
+    concurrency: number,
+    fn: (item: T, index: number) => Promise<R>
+  ): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < items.length) {
+        const index = next++;
+        try {
+          results[index] = await fn(items[index]!, index);
+        } catch (error) {
+          // 出错后不再启动新的任务
+          next = items.length;
+          throw error;
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from(
+        { length: Math.max(1, Math.min(concurrency, items.length)) },
+        worker
+      )
+    );
+    return results;
+  }
+}
@@ -5,7 +5,42 @@ import {
   ReviewResult,
   LineComment,
   ActionInputs,
+  BugmentConfig,
+  CommandComment,
+  LineCommentFeedback,
+  RepositoryConfig,
+  ReviewEventType,
+  ReviewThread,
 } from "../core/types";
+import { ConfigLoader } from "../utils/ConfigLoader";
+import { ValidationUtils } from "../utils/ValidationUtils";
+import { ReviewMetadata } from "../utils/ReviewMetadata";
+import { CommandRouter } from "../core/CommandRouter";
+
+/**
+ * 可覆盖仓库配置的 Action 输入与配置键的对应关系
+ */
+const CONFIG_OVERRIDE_INPUTS: Record<string, string> = {
+  language: "language",
+  severityThreshold: "severity_threshold",
+  minConfidence: "min_confidence",
+  maxLineComments: "max_line_comments",
+  snapDistance: "snap_distance",
+  incremental: "incremental_review",
+  ignore: "ignore_patterns",
+  policy: "fail_on",
+  "backend.type": "backend",
+  "backend.baseUrl": "llm_base_url",
+  "backend.model": "llm_model",
+  "chunking.maxTokens": "chunk_max_tokens",
+  "chunking.concurrency": "chunk_concurrency",
+  onParseError: "on_parse_error",
+  sarifFile: "sarif_file",
+  publish: "publish",
+  "commands.allowedAssociations": "command_allowed_associations",
+  "feedback.file": "feedback_file",
+  "feedback.pullRequests": "feedback_pull_requests",
+};
 
 /**
  * GitHub API 服务类
@@ -27,33 +62,537 @@ export class GitHubService {
     const context = github.context;
 
     if (!context.payload.pull_request) {
-      throw new Error("This action can only be run on pull request events");
+      throw new Error(
+        "This action can only be run on pull request events or /bugment commands in pull request comments"
+      );
     }
 
-    const pr = context.payload.pull_request;
+    return GitHubService.toPRInfo(context.payload.pull_request);
+  }
 
+  /**
+   * 通过 API 获取 PR 信息，用于评论事件中不包含 PR 详情的情况
+   */
+  static async fetchPRInfo(
+    githubToken: string,
+    pullNumber: number
+  ): Promise<PullRequestInfo> {
+    const { data } = await github.getOctokit(githubToken).rest.pulls.get({
+      ...github.context.repo,
+      pull_number: pullNumber,
+    });
+    return GitHubService.toPRInfo(data);
+  }
+
+  private static toPRInfo(pr: any): PullRequestInfo {
     return {
       number: pr.number,
       title: pr.title || "",
       body: pr.body || "",
       baseSha: pr.base.sha,
       headSha: pr.head.sha,
-      owner: context.repo.owner,
-      repo: context.repo.repo,
+      owner: github.context.repo.owner,
+      repo: github.context.repo.repo,
+      baseBranch: pr.base.ref,
+      author: pr.user?.login,
     };
   }
 
   /**
-   * 解析 GitHub Actions 输入
+   * 获取最近更新的 PR（包括已关闭的），用于定时统计反馈
+   */
+  static async listRecentPullRequests(
+    githubToken: string,
+    count: number
+  ): Promise<PullRequestInfo[]> {
+    const { data } = await github.getOctokit(githubToken).rest.pulls.list({
+      ...github.context.repo,
+      state: "all",
+      sort: "updated",
+      direction: "desc",
+      per_page: count,
+    });
+    return data.map((pr) => GitHubService.toPRInfo(pr));
+  }
+
+  /**
+   * 检查当前事件是否为定时或手动触发的运行，此时统计反馈而不审查
    */
-  static parseInputs(): ActionInputs {
+  static isScheduledEvent(): boolean {
+    return ["schedule", "workflow_dispatch"].includes(github.context.eventName);
+  }
+
+  /**
+   * 检查当前事件是否为 PR 上新建的评论，可能包含 /bugment 命令
+   */
+  static isCommentEvent(): boolean {
+    const { eventName, payload } = github.context;
+    if (payload.action !== "created" || !payload.comment) {
+      return false;
+    }
+
+    return (
+      eventName === "pull_request_review_comment" ||
+      (eventName === "issue_comment" && !!payload.issue?.pull_request)
+    );
+  }
+
+  /**
+   * 从评论事件中提取评论信息
+   */
+  static extractCommandComment(): CommandComment {
+    const { eventName, payload } = github.context;
+    const comment = payload.comment;
+    const pullNumber =
+      eventName === "issue_comment"
+        ? payload.issue?.number
+        : payload.pull_request?.number;
+    if (!comment || !pullNumber) {
+      throw new Error("This event does not contain a pull request comment");
+    }
+
     return {
-      augmentAccessToken: core.getInput("augment_access_token", {
-        required: true,
-      }),
-      augmentTenantUrl: core.getInput("augment_tenant_url", { required: true }),
+      id: comment.id,
+      kind: eventName === "issue_comment" ? "issue" : "review",
+      body: comment.body || "",
+      author: comment.user?.login || "",
+      authorAssociation: comment.author_association || "NONE",
+      pullNumber,
+      inReplyToId: comment.in_reply_to_id ?? undefined,
+    };
+  }
+
+  /**
+   * 解析 GitHub Actions 输入并与仓库配置文件合并
+   */
+  static parseInputs(
+    workspaceDir: string = process.env.GITHUB_WORKSPACE || process.cwd()
+  ): BugmentConfig {
+    const inputs: ActionInputs = {
+      augmentAccessToken: core.getInput("augment_access_token"),
+      augmentTenantUrl: core.getInput("augment_tenant_url"),
       githubToken: core.getInput("github_token", { required: true }),
+      llmApiKey: core.getInput("llm_api_key") || undefined,
     };
+
+    const configFile = core.getInput("config_file") || undefined;
+    const { config: repoConfig, filePath } = ConfigLoader.loadRepositoryConfig(
+      workspaceDir,
+      configFile
+    );
+    const overrides = GitHubService.parseConfigOverrides();
+
+    // 配置文件来自 PR 的 head，PR 作者不能借此放宽命令权限，commands 只能由 Action 输入设置
+    if (repoConfig.commands) {
+      core.warning(
+        `⚠️ commands in ${filePath} is ignored, set the command_allowed_associations input instead`
+      );
+    }
+
+    const config = ConfigLoader.mergeConfig(
+      inputs,
+      { ...repoConfig, commands: undefined },
+      overrides,
+      filePath
+    );
+
+    // 配置文件来自 PR 的 head，不能由它决定 API Key 发送到哪里
+    if (
+      config.llmApiKey &&
+      config.backend.type === "openai" &&
+      repoConfig.backend?.baseUrl &&
+      !overrides.backend?.baseUrl
+    ) {
+      throw new Error(
+        `backend.baseUrl in ${filePath} cannot be used with llm_api_key, set the llm_base_url input instead`
+      );
+    }
+
+    // Augment 凭据只在使用 Augment 后端时必需
+    if (!ValidationUtils.validateActionInputs(config, config.backend.type)) {
+      throw new Error(
+        `Invalid action inputs for the ${config.backend.type} backend`
+      );
+    }
+
+    return config;
+  }
+
+  /**
+   * 解析可覆盖仓库配置的 Action 输入，未设置的输入不参与覆盖
+   */
+  private static parseConfigOverrides(): RepositoryConfig {
+    const overrides: Record<string, any> = {};
+
+    const language = core.getInput("language");
+    if (language) {
+      overrides.language = language;
+    }
+
+    const severityThreshold = core.getInput("severity_threshold");
+    if (severityThreshold) {
+      overrides.severityThreshold = severityThreshold;
+    }
+
+    const minConfidence = core.getInput("min_confidence");
+    if (minConfidence) {
+      overrides.minConfidence = Number(minConfidence);
+    }
+
+    const maxLineComments = core.getInput("max_line_comments");
+    if (maxLineComments) {
+      overrides.maxLineComments = Number(maxLineComments);
+    }
+
+    const snapDistance = core.getInput("snap_distance");
+    if (snapDistance) {
+      overrides.snapDistance = Number(snapDistance);
+    }
+
+    const incremental = core.getInput("incremental_review");
+    if (incremental) {
+      overrides.incremental =
+        incremental === "true"
+          ? true
+          : incremental === "false"
+            ? false
+            : incremental;
+    }
+
+    const ignorePatterns = core
+      .getInput("ignore_patterns")
+      .split("\n")
+      .map((pattern) => pattern.trim())
+      .filter((pattern) => pattern && !pattern.startsWith("#"));
+    if (ignorePatterns.length > 0) {
+      overrides.ignore = { patterns: ignorePatterns };
+    }
+
+    const onParseError = core.getInput("on_parse_error");
+    if (onParseError) {
+      overrides.onParseError = onParseError;
+    }
+
+    const sarifFile = core.getInput("sarif_file");
+    if (sarifFile) {
+      overrides.sarifFile = sarifFile;
+    }
+
+    const allowedAssociations = core
+      .getInput("command_allowed_associations")
+      .split(/[,\s]+/)
+      .filter((association) => association)
+      .map((association) => association.toUpperCase());
+    if (allowedAssociations.length > 0) {
+      overrides.commands = { allowedAssociations };
+    }
+
+    const feedback: Record<string, string | number> = {};
+    const feedbackFile = core.getInput("feedback_file");
+    if (feedbackFile) {
+      feedback.file = feedbackFile;
+    }
+    const feedbackPullRequests = core.getInput("feedback_pull_requests");
+    if (feedbackPullRequests) {
+      feedback.pullRequests = Number(feedbackPullRequests);
+    }
+    if (Object.keys(feedback).length > 0) {
+      overrides.feedback = feedback;
+    }
+
+    const publish = core
+      .getInput("publish")
+      .split(/[,\s]+/)
+      .filter((target) => target);
+    if (publish.length > 0) {
+      overrides.publish = publish;
+    }
+
+    const failOn = core.getInput("fail_on");
+    if (failOn) {
+      overrides.policy = { failOn };
+    }
+
+    const backend: Record<string, string> = {};
+    const backendType = core.getInput("backend");
+    if (backendType) {
+      backend.type = backendType;
+    }
+    const baseUrl = core.getInput("llm_base_url");
+    if (baseUrl) {
+      backend.baseUrl = baseUrl;
+    }
+    const model = core.getInput("llm_model");
+    if (model) {
+      backend.model = model;
+    }
+    if (Object.keys(backend).length > 0) {
+      overrides.backend = backend;
+    }
+
+    const chunking: Record<string, number> = {};
+    const chunkMaxTokens = core.getInput("chunk_max_tokens");
+    if (chunkMaxTokens) {
+      chunking.maxTokens = Number(chunkMaxTokens);
+    }
+    const chunkConcurrency = core.getInput("chunk_concurrency");
+    if (chunkConcurrency) {
+      chunking.concurrency = Number(chunkConcurrency);
+    }
+    if (Object.keys(chunking).length > 0) {
+      overrides.chunking = chunking;
+    }
+
+    // 将错误路径中的配置键替换为对应的输入名称
+    const errors = ValidationUtils.validateRepositoryConfig(overrides).map(
+      (error) => {
+        const path = error.split(":")[0] || "";
+        const key = error.split(/[.:[]/)[0] || "";
+        const inputName =
+          CONFIG_OVERRIDE_INPUTS[path] ?? CONFIG_OVERRIDE_INPUTS[key];
+        return inputName ? `input ${inputName} (${error})` : error;
+      }
+    );
+    if (errors.length > 0) {
+      throw new Error(`Invalid action inputs:\n- ${errors.join("\n- ")}`);
+    }
+
+    return overrides as RepositoryConfig;
+  }
+
+  /**
+   * 检查当前事件是否为 PR 的新推送（synchronize）
+   */
+  static isSynchronizeEvent(): boolean {
+    return (
+      !!github.context.payload.pull_request &&
+      github.context.payload.action === "synchronize"
+    );
+  }
+
+  /**
+   * 获取行评论的正文，评论不存在时返回 undefined
+   */
+  async getReviewCommentBody(commentId: number): Promise<string | undefined> {
+    try {
+      const { data } = await this.octokit.rest.pulls.getReviewComment({
+        owner: this.prInfo.owner,
+        repo: this.prInfo.repo,
+        comment_id: commentId,
+      });
+      return data.body;
+    } catch (error) {
+      core.warning(`Failed to load review comment ${commentId}: ${error}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * 回复命令评论：行评论在同一线程中回复，PR 对话中的评论以新评论回复
+   */
+  async replyToComment(comment: CommandComment, body: string): Promise<void> {
+    if (comment.kind === "review") {
+      await this.octokit.rest.pulls.createReplyForReviewComment({
+        owner: this.prInfo.owner,
+        repo: this.prInfo.repo,
+        pull_number: this.prInfo.number,
+        comment_id: comment.inReplyToId ?? comment.id,
+        body,
+      });
+      return;
+    }
+
+    await this.octokit.rest.issues.createComment({
+      owner: this.prInfo.owner,
+      repo: this.prInfo.repo,
+      issue_number: this.prInfo.number,
+      body,
+    });
+  }
+
+  /**
+   * 为命令评论添加表情回应，表示命令已收到
+   */
+  async addReaction(
+    comment: CommandComment,
+    content: "eyes" | "+1" | "confused"
+  ): Promise<void> {
+    try {
+      const params = {
+        owner: this.prInfo.owner,
+        repo: this.prInfo.repo,
+        comment_id: comment.id,
+        content,
+      };
+      if (comment.kind === "review") {
+        await this.octokit.rest.reactions.createForPullRequestReviewComment(
+          params
+        );
+      } else {
+        await this.octokit.rest.reactions.createForIssueComment(params);
+      }
+    } catch (error) {
+      core.warning(`Failed to add reaction to comment ${comment.id}: ${error}`);
+    }
+  }
+
+  /**
+   * 获取通过 /bugment ignore 忽略的问题指纹
+   * 只读取机器人发布的行评论，避免其他人手动写入标记
+   */
+  async getSuppressedFingerprints(): Promise<Set<string>> {
+    const fingerprints = new Set<string>();
+    try {
+      const comments = await this.octokit.paginate(
+        this.octokit.rest.pulls.listReviewComments,
+        {
+          owner: this.prInfo.owner,
+          repo: this.prInfo.repo,
+          pull_number: this.prInfo.number,
+          per_page: 100,
+        }
+      );
+
+      for (const comment of comments) {
+        if (comment.user?.type !== "Bot") {
+          continue;
+        }
+        ReviewMetadata.extractSuppressedFingerprints(comment.body).forEach(
+          (fingerprint) => fingerprints.add(fingerprint)
+        );
+      }
+
+      if (fingerprints.size > 0) {
+        core.info(`🔕 Found ${fingerprints.size} ignored issue fingerprints`);
+      }
+    } catch (error) {
+      core.warning(`Failed to load ignored issues: ${error}`);
+    }
+
+    return fingerprints;
+  }
+
+  /**
+   * 读取 Bugment 行评论收到的 👍/👎 回应和回复
+   * 只统计机器人发布的带问题标记的评论，回复只统计非机器人的回复
+   */
+  async getLineCommentFeedback(): Promise<LineCommentFeedback[]> {
+    const comments = await this.octokit.paginate(
+      this.octokit.rest.pulls.listReviewComments,
+      {
+        owner: this.prInfo.owner,
+        repo: this.prInfo.repo,
+        pull_number: this.prInfo.number,
+        per_page: 100,
+      }
+    );
+
+    const feedback = new Map<number, LineCommentFeedback>();
+    for (const comment of comments) {
+      const issueKey = ReviewMetadata.extractIssueKey(comment.body);
+      if (comment.user?.type !== "Bot" || !issueKey) {
+        continue;
+      }
+      feedback.set(comment.id, {
+        pullNumber: this.prInfo.number,
+        commentId: comment.id,
+        issueKey,
+        path: comment.path,
+        positive: comment.reactions?.["+1"] || 0,
+        negative: comment.reactions?.["-1"] || 0,
+        replies: 0,
+        ignored: false,
+      });
+    }
+
+    for (const comment of comments) {
+      const parent = comment.in_reply_to_id
+        ? feedback.get(comment.in_reply_to_id)
+        : undefined;
+      if (!parent || comment.user?.type === "Bot") {
+        continue;
+      }
+      parent.replies++;
+      if (CommandRouter.parse(comment.body)?.name === "ignore") {
+        parent.ignored = true;
+      }
+    }
+
+    return [...feedback.values()];
+  }
+
+  /**
+   * 获取未被驳回的 Bugment 审查，按提交时间从新到旧排序
+   * 只信任机器人发布的审查，避免其他人伪造审查标记和审查结果
+   */
+  private async listBugmentReviews() {
+    const reviews = await this.octokit.paginate(
+      this.octokit.rest.pulls.listReviews,
+      {
+        owner: this.prInfo.owner,
+        repo: this.prInfo.repo,
+        pull_number: this.prInfo.number,
+        per_page: 100,
+      }
+    );
+
+    return reviews
+      .filter(
+        (review) =>
+          review.user?.type === "Bot" &&
+          this.isBugmentReview(review.body || "") &&
+          review.state !== "DISMISSED"
+      )
+      .sort(
+        (a, b) =>
+          new Date(b.submitted_at || 0).getTime() -
+          new Date(a.submitted_at || 0).getTime()
+      );
+  }
+
+  /**
+   * 查找上一次 Bugment 审查所针对的 head SHA
+   * 优先使用审查正文中的隐藏标记，其次使用审查的 commit_id
+   */
+  async findLastReviewedSha(): Promise<string | undefined> {
+    try {
+      // 只审查部分路径的审查不能作为增量审查的基准
+      const latestReview = (await this.listBugmentReviews()).find(
+        (review) => !ReviewMetadata.isPathScoped(review.body || "")
+      );
+      if (!latestReview) {
+        core.info("ℹ️ No previous Bugment review found");
+        return undefined;
+      }
+
+      const reviewedSha =
+        ReviewMetadata.extractReviewedSha(latestReview.body || "") ||
+        latestReview.commit_id ||
+        undefined;
+      core.info(`🔍 Last Bugment review was for commit ${reviewedSha}`);
+      return reviewedSha;
+    } catch (error) {
+      core.warning(`Failed to find last reviewed commit: ${error}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * 从之前的 Bugment 审查正文中恢复审查结果，按时间从新到旧排序
+   * 必须在隐藏旧审查之前调用
+   */
+  async getPreviousReviewResults(): Promise<ReviewResult[]> {
+    try {
+      const results = (await this.listBugmentReviews())
+        .map((review) => ReviewMetadata.extractReviewResult(review.body || ""))
+        .filter((result): result is ReviewResult => result !== undefined);
+
+      core.info(`📚 Found ${results.length} previous review results`);
+      return results;
+    } catch (error) {
+      core.warning(`Failed to load previous review results: ${error}`);
+      return [];
+    }
   }
 
   /**
@@ -75,13 +614,129 @@ export class GitHubService {
     return diffResponse.data as unknown as string;
   }
 
+  /**
+   * 获取 PR 上由 Bugment 创建的行评论线程
+   * 通过线程首条评论中的隐藏标记关联到问题，只读取机器人创建的线程
+   */
+  async getBugmentReviewThreads(): Promise<ReviewThread[]> {
+    const query = `
+      query reviewThreads($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+        repository(owner: $owner, name: $repo) {
+          pullRequest(number: $number) {
+            reviewThreads(first: 100, after: $cursor) {
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
+              nodes {
+                id
+                isResolved
+                comments(first: 1) {
+                  nodes {
+                    body
+                    path
+                    line
+                    author {
+                      __typename
+                    }
+                    pullRequestReview {
+                      id
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    `;
+
+    const threads: ReviewThread[] = [];
+    try {
+      let cursor: string | null = null;
+      do {
+        const response: any = await this.octokit.graphql(query, {
+          owner: this.prInfo.owner,
+          repo: this.prInfo.repo,
+          number: this.prInfo.number,
+          cursor,
+        });
+        const connection = response.repository.pullRequest.reviewThreads;
+
+        for (const thread of connection.nodes) {
+          const comment = thread.comments.nodes[0];
+          const issueKey =
+            comment?.author?.__typename === "Bot"
+              ? ReviewMetadata.extractIssueKey(comment.body || "")
+              : undefined;
+          if (!issueKey) {
+            continue;
+          }
+
+          threads.push({
+            id: thread.id,
+            isResolved: thread.isResolved,
+            issueKey,
+            reviewId: comment.pullRequestReview?.id,
+            path: comment.path,
+            line: comment.line ?? undefined,
+          });
+        }
+
+        cursor = connection.pageInfo.hasNextPage
+          ? connection.pageInfo.endCursor
+          : null;
+      } while (cursor);
+
+      core.info(`🧵 Found ${threads.length} Bugment review threads`);
+    } catch (error) {
+      core.warning(`Failed to load review threads: ${error}`);
+    }
+
+    return threads;
+  }
+
+  /**
+   * 解决已修复问题对应的评论线程
+   * 返回成功解决的线程数量
+   */
+  async resolveReviewThreads(threads: ReviewThread[]): Promise<number> {
+    const mutation = `
+      mutation resolveReviewThread($threadId: ID!) {
+        resolveReviewThread(input: { threadId: $threadId }) {
+          thread {
+            id
+          }
+        }
+      }
+    `;
+
+    let resolvedCount = 0;
+    for (const thread of threads) {
+      try {
+        await this.octokit.graphql(mutation, { threadId: thread.id });
+        resolvedCount++;
+        core.info(
+          `✅ Resolved thread for fixed issue at ${thread.path}:${thread.line}`
+        );
+      } catch (error) {
+        core.warning(`⚠️ Failed to resolve thread ${thread.id}: ${error}`);
+      }
+    }
+
+    return resolvedCount;
+  }
+
   /**
    * 隐藏之前的 Bugment 评论
+   * keepReviewIds 中的审查仍有未解决的问题线程，不会被隐藏
    */
-  async getPreviousReviewsAndHideOld(): Promise<void> {
+  async getPreviousReviewsAndHideOld(
+    keepReviewIds: Set<string> = new Set()
+  ): Promise<void> {
     try {
       core.info("🔍 Hiding previous Bugment comments...");
-      await this.hidePreviousBugmentComments();
+      await this.hidePreviousBugmentComments(keepReviewIds);
       core.info("✅ Previous comments hidden");
     } catch (error) {
       core.warning(`Failed to hide previous comments: ${error}`);
@@ -91,7 +746,9 @@ export class GitHubService {
   /**
    * 隐藏之前的 Bugment 评论
    */
-  private async hidePreviousBugmentComments(): Promise<void> {
+  private async hidePreviousBugmentComments(
+    keepReviewIds: Set<string>
+  ): Promise<void> {
     try {
       core.info("🔍 Looking for previous Bugment reviews to hide...");
 
@@ -121,7 +778,8 @@ export class GitHubService {
         if (
           this.isBugmentReview(review.body || "") &&
           reviewDate < cutoffTime &&
-          review.state !== "DISMISSED"
+          review.state !== "DISMISSED" &&
+          !keepReviewIds.has(review.node_id)
         ) {
           reviewsToHide.push({
             id: review.id.toString(),
@@ -202,7 +860,7 @@ export class GitHubService {
   async createUnifiedPullRequestReview(
     commentBody: string,
     lineComments: LineComment[],
-    event: "REQUEST_CHANGES" | "COMMENT"
+    event: ReviewEventType
   ): Promise<void> {
     const reviewParams: any = {
       owner: this.prInfo.owner,
@@ -223,6 +881,20 @@ export class GitHubService {
       core.info(`📝 Creating review with overview only (no line comments)`);
     }
 
-    await this.octokit.rest.pulls.createReview(reviewParams);
+    try {
+      await this.octokit.rest.pulls.createReview(reviewParams);
+    } catch (error) {
+      // GITHUB_TOKEN 默认不允许批准 PR，此时退回为普通评论
+      if (event !== "APPROVE") {
+        throw error;
+      }
+      core.warning(
+        `Failed to approve pull request, falling back to COMMENT: ${error}`
+      );
+      await this.octokit.rest.pulls.createReview({
+        ...reviewParams,
+        event: "COMMENT",
+      });
+    }
   }
 }
@@ -2,8 +2,9 @@ import * as core from "@actions/core";
 import * as fs from "fs";
 import * as path from "path";
 import { spawn } from "child_process";
-import { PullRequestInfo } from "../core/types";
+import { IgnoreMatch, IgnoreRule, PullRequestInfo } from "../core/types";
 import { IgnoreManager } from "../utils/IgnoreManager";
+import { GitignorePattern } from "../utils/GitignorePattern";
 
 /**
  * Git 操作服务类
@@ -13,6 +14,8 @@ export class GitService {
   private prInfo: PullRequestInfo;
   private workspaceDir: string;
   private ignoreManager?: IgnoreManager;
+  private resolvedBaseSha?: string;
+  private ignoredFiles: IgnoreMatch[] = [];
 
   constructor(
     prInfo: PullRequestInfo,
@@ -24,6 +27,80 @@ export class GitService {
     this.ignoreManager = ignoreManager;
   }
 
+  /**
+   * 根据本地 git 仓库构建 PR 信息，用于在 GitHub Actions 之外运行审查
+   * baseSha 取 baseRef 与 headRef 的合并基准，标题和描述来自其间的提交
+   */
+  static async resolveLocalPullRequestInfo(
+    workspaceDir: string,
+    baseRef: string,
+    headRef: string
+  ): Promise<PullRequestInfo> {
+    const git = new GitService(
+      {
+        number: 0,
+        title: "",
+        body: "",
+        baseSha: "",
+        headSha: "",
+        owner: "",
+        repo: "",
+      },
+      workspaceDir
+    );
+
+    const headSha = await git.executeGitCommand([
+      "rev-parse",
+      "--verify",
+      `${headRef}^{commit}`,
+    ]);
+    const baseSha = await git.executeGitCommand([
+      "merge-base",
+      baseRef,
+      headSha,
+    ]);
+
+    const subjects = (
+      await git.executeGitCommand([
+        "log",
+        "--reverse",
+        "--pretty=format:%s",
+        `${baseSha}..${headSha}`,
+      ])
+    )
+      .split("\n")
+      .filter((subject) => subject.trim());
+    if (subjects.length === 0) {
+      throw new Error(`No commits between ${baseRef} and ${headRef}`);
+    }
+
+    const branch = await git
+      .executeGitCommand(["rev-parse", "--abbrev-ref", headRef])
+      .catch(() => headRef);
+    const remoteUrl = await git
+      .executeGitCommand(["remote", "get-url", "origin"])
+      .catch(() => "");
+    const remote = remoteUrl.match(/[:/]([^/:]+)\/([^/]+?)(?:\.git)?$/);
+    const author = await git
+      .executeGitCommand(["log", "-1", "--pretty=format:%an", headSha])
+      .catch(() => "");
+
+    return {
+      number: 0,
+      title:
+        subjects.length === 1
+          ? subjects[0]!
+          : `${branch} (${subjects.length} commits)`,
+      body: subjects.map((subject) => `- ${subject}`).join("\n"),
+      baseSha,
+      headSha,
+      owner: remote?.[1] || "local",
+      repo: remote?.[2] || path.basename(workspaceDir),
+      baseBranch: baseRef,
+      author: author || undefined,
+    };
+  }
+
   /**
    * 获取工作空间目录
    */
@@ -44,6 +121,7 @@ export class GitService {
 
     // 获取正确的 base SHA
     const actualBaseSha = await this.getActualBaseSha();
+    this.resolvedBaseSha = actualBaseSha;
     core.info(`🔍 Comparing ${actualBaseSha}...${this.prInfo.headSha}`);
     core.info(
       `📝 Original base SHA: ${this.prInfo.baseSha} (PR creation time)`
@@ -65,7 +143,8 @@ export class GitService {
 
     // 过滤 diff 内容，移除被忽略的文件
     if (this.ignoreManager) {
-      diffContent = this.filterDiffContent(diffContent);
+      this.ignoredFiles = [];
+      diffContent = this.filterDiffContent(diffContent, this.ignoredFiles);
       await fs.promises.writeFile(diffPath, diffContent);
       core.info(`🔧 Diff content filtered to remove ignored files`);
     }
@@ -76,6 +155,176 @@ export class GitService {
     return diffPath;
   }
 
+  /**
+   * 获取最近一次生成完整 diff 时被忽略的文件及原因
+   */
+  getIgnoredFiles(): IgnoreMatch[] {
+    return [...this.ignoredFiles];
+  }
+
+  /**
+   * 获取最近一次生成完整 diff 时使用的 base SHA
+   */
+  getResolvedBaseSha(): string {
+    return this.resolvedBaseSha || this.prInfo.baseSha;
+  }
+
+  /**
+   * 生成增量 diff 文件，仅包含 sinceSha..headSha 之间的变更
+   * 无法进行增量审查时返回 null，调用方应回退到完整审查
+   */
+  async generateIncrementalDiffFile(
+    sinceSha: string,
+    fullDiffPath: string
+  ): Promise<string | null> {
+    const headSha = this.prInfo.headSha;
+
+    if (sinceSha === headSha) {
+      core.info("📝 Head commit was already reviewed, using full diff");
+      return null;
+    }
+
+    // 强制推送或 rebase 后，上次审查的提交不再是 head 的祖先
+    if (!(await this.isAncestor(sinceSha, headSha))) {
+      core.info(
+        `📝 ${sinceSha} is not an ancestor of ${headSha} (force push?), using full diff`
+      );
+      return null;
+    }
+
+    let diffContent: string;
+    try {
+      diffContent = await this.executeGitCommand(["diff", sinceSha, headSha]);
+    } catch (error) {
+      core.warning(`Incremental git diff failed: ${error}`);
+      return null;
+    }
+
+    if (this.ignoreManager) {
+      diffContent = this.filterDiffContent(diffContent);
+    }
+
+    // 只保留属于 PR 的文件，排除从 base 分支合并进来的变更
+    const fullDiffContent = await fs.promises.readFile(fullDiffPath, "utf-8");
+    const prFiles = new Set(this.extractDiffFilePaths(fullDiffContent));
+    diffContent = this.restrictDiffToFiles(diffContent, prFiles);
+
+    if (!diffContent.trim()) {
+      core.info("📝 No PR changes since the last review, using full diff");
+      return null;
+    }
+
+    const diffPath = path.join(this.workspaceDir, "pr_incremental_diff.patch");
+    await fs.promises.writeFile(diffPath, diffContent);
+    core.info(
+      `✅ Incremental diff generated for ${sinceSha.substring(0, 7)}..${headSha.substring(0, 7)}: ${diffPath}`
+    );
+
+    return diffPath;
+  }
+
+  /**
+   * 生成只包含匹配路径模式的文件的 diff，用于 /bugment review <路径>
+   * 模式语法与 .gitignore 相同，没有匹配的文件时返回 null
+   */
+  async generatePathScopedDiffFile(
+    patterns: string[],
+    fullDiffPath: string
+  ): Promise<string | null> {
+    const rules = patterns
+      .map((pattern) => GitignorePattern.compile(pattern, "command"))
+      .filter((rule): rule is IgnoreRule => !!rule);
+
+    const fullDiffContent = await fs.promises.readFile(fullDiffPath, "utf-8");
+    const files = this.extractDiffFilePaths(fullDiffContent).filter((file) =>
+      GitignorePattern.matchesPath(rules, file)
+    );
+    if (files.length === 0) {
+      return null;
+    }
+
+    const diffPath = path.join(this.workspaceDir, "pr_scoped_diff.patch");
+    await fs.promises.writeFile(
+      diffPath,
+      this.restrictDiffToFiles(fullDiffContent, new Set(files))
+    );
+    core.info(
+      `✅ Diff limited to ${files.length} files matching ${patterns.join(", ")}: ${diffPath}`
+    );
+
+    return diffPath;
+  }
+
+  /**
+   * 获取两个提交之间未经过滤的 diff，用于跨提交映射问题位置
+   * 提交不可用时返回 null
+   */
+  async getDiffBetween(fromSha: string, toSha: string): Promise<string | null> {
+    try {
+      return await this.executeGitCommand(["diff", "-M", fromSha, toSha]);
+    } catch (error) {
+      core.warning(`Failed to diff ${fromSha}..${toSha}: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * 检查 ancestorSha 是否为 sha 的祖先提交
+   */
+  private async isAncestor(ancestorSha: string, sha: string): Promise<boolean> {
+    try {
+      await this.executeGitCommand([
+        "merge-base",
+        "--is-ancestor",
+        ancestorSha,
+        sha,
+      ]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 提取 diff 中的所有文件路径（使用新文件路径）
+   */
+  extractDiffFilePaths(diffContent: string): string[] {
+    const filePaths: string[] = [];
+
+    for (const line of diffContent.split("\n")) {
+      const match = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+      if (match && match[2]) {
+        filePaths.push(match[2]);
+      }
+    }
+
+    return filePaths;
+  }
+
+  /**
+   * 仅保留指定文件的 diff 内容
+   */
+  private restrictDiffToFiles(diffContent: string, files: Set<string>): string {
+    const keptLines: string[] = [];
+    let isKeepingFile = false;
+
+    for (const line of diffContent.split("\n")) {
+      const match = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+      if (match && match[2]) {
+        isKeepingFile = files.has(match[2]);
+        if (!isKeepingFile) {
+          core.info(`🚫 Skipping file not changed by the PR: ${match[2]}`);
+        }
+      }
+
+      if (isKeepingFile) {
+        keptLines.push(line);
+      }
+    }
+
+    return keptLines.join("\n");
+  }
+
   /**
    * 获取实际的 base SHA
    */
@@ -215,8 +464,12 @@ export class GitService {
 
   /**
    * 过滤 diff 内容，移除被忽略的文件
+   * 被忽略的文件及匹配的规则追加到 ignoredFiles 中
    */
-  private filterDiffContent(diffContent: string): string {
+  private filterDiffContent(
+    diffContent: string,
+    ignoredFiles: IgnoreMatch[] = []
+  ): string {
     if (!this.ignoreManager) {
       return diffContent;
     }
@@ -247,11 +500,12 @@ export class GitService {
           const filePath = match[2]; // 使用新文件路径
 
           // 检查文件是否应该被忽略
-          if (this.ignoreManager.shouldIgnore(filePath)) {
+          const ignoreMatch = this.ignoreManager.explain(filePath);
+          if (ignoreMatch) {
             // 标记此文件为忽略并跳过所有内容
             isIgnoringFile = true;
             currentFile = filePath;
-            core.info(`🚫 Filtering out ignored file from diff: ${filePath}`);
+            ignoredFiles.push(ignoreMatch);
             i++;
             continue;
           } else {
@@ -276,6 +530,10 @@ export class GitService {
       i++;
     }
 
+    if (ignoredFiles.length > 0) {
+      core.info(this.formatIgnoredFilesTable(ignoredFiles));
+    }
+
     const originalLineCount = lines.length;
     const filteredLineCount = filteredLines.length;
     core.info(
@@ -285,6 +543,31 @@ export class GitService {
     return filteredLines.join("\n");
   }
 
+  /**
+   * 将被忽略的文件及原因格式化为日志表格
+   */
+  private formatIgnoredFilesTable(ignoredFiles: IgnoreMatch[]): string {
+    const rows = ignoredFiles.map((match) => [
+      match.filePath,
+      match.pattern,
+      IgnoreManager.formatSource(match),
+    ]);
+    const widths = [0, 1, 2].map((column) =>
+      Math.max(
+        ["File", "Pattern", "Source"][column]!.length,
+        ...rows.map((row) => row[column]!.length)
+      )
+    );
+    const formatRow = (row: string[]) =>
+      `  ${row.map((cell, column) => cell.padEnd(widths[column]!)).join("  ")}`.trimEnd();
+
+    return [
+      `🚫 Filtered out ${ignoredFiles.length} ignored files from diff:`,
+      formatRow(["File", "Pattern", "Source"]),
+      ...rows.map(formatRow),
+    ].join("\n");
+  }
+
   /**
    * 执行 Git 命令
    */
@@ -0,0 +1,104 @@
+import * as core from "@actions/core";
+import * as fs from "fs";
+import { ReviewBackend, ReviewBackendContext } from "../core/types";
+
+export interface OpenAICompatibleBackendOptions {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  timeoutSeconds: number;
+}
+
+/**
+ * OpenAI 兼容审查后端
+ * 调用 /chat/completions 接口（如 llama.cpp、vLLM、Ollama 等自托管服务）
+ * 模型无法访问工作区，审查请求会将 diff 内容直接附加到提示词中
+ */
+export class OpenAICompatibleBackend implements ReviewBackend {
+  readonly name = "openai" as const;
+
+  constructor(private options: OpenAICompatibleBackendOptions) {
+    if (!options.baseUrl || !options.model) {
+      throw new Error(
+        "The openai backend requires backend.baseUrl and backend.model"
+      );
+    }
+  }
+
+  async review(prompt: string, context: ReviewBackendContext): Promise<string> {
+    const url = `${this.options.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+    core.info(
+      `🌐 Requesting review from ${url} (model: ${this.options.model})`
+    );
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.options.apiKey && {
+          Authorization: `Bearer ${this.options.apiKey}`,
+        }),
+      },
+      body: JSON.stringify({
+        model: this.options.model,
+        messages: [
+          {
+            role: "user",
+            content: await this.buildMessage(prompt, context),
+          },
+        ],
+        temperature: 0,
+        stream: false,
+      }),
+      signal: AbortSignal.timeout(this.options.timeoutSeconds * 1000),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new Error(
+        `Chat completion request failed: ${response.status} ${response.statusText} ${body.substring(0, 500)}`.trim()
+      );
+    }
+
+    const data: any = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== "string" || !content.trim()) {
+      throw new Error("Chat completion response contains no message content");
+    }
+
+    if (data.usage) {
+      core.info(
+        `📊 Token usage: ${data.usage.prompt_tokens} prompt, ${data.usage.completion_tokens} completion`
+      );
+    }
+
+    return content;
+  }
+
+  /**
+   * 将 diff 文件内容附加到审查提示词中，修复和解释请求只发送提示词
+   */
+  private async buildMessage(
+    prompt: string,
+    context: ReviewBackendContext
+  ): Promise<string> {
+    if (!context.attachDiff) {
+      return prompt;
+    }
+
+    let message = prompt;
+
+    const diff = await fs.promises.readFile(context.diffPath, "utf-8");
+    message += `\n\n## Diff 内容（${context.diffPath}）\n\n\`\`\`diff\n${diff}\n\`\`\``;
+
+    if (context.fullDiffPath && context.fullDiffPath !== context.diffPath) {
+      const fullDiff = await fs.promises.readFile(
+        context.fullDiffPath,
+        "utf-8"
+      );
+      message += `\n\n## 完整 PR Diff（${context.fullDiffPath}，仅供参考）\n\n\`\`\`diff\n${fullDiff}\n\`\`\``;
+    }
+
+    return message;
+  }
+}
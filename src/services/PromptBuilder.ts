@@ -0,0 +1,551 @@
+import * as core from "@actions/core";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  DiffFileStats,
+  PathRule,
+  ReviewIssue,
+  PromptConfig,
+  PromptGuideline,
+} from "../core/types";
+import { PathRules } from "../core/PathRules";
+import { I18n } from "../i18n/I18n";
+import { getReviewPromptTemplate } from "../templates";
+import { GitignorePattern } from "../utils/GitignorePattern";
+import { ValidationUtils } from "../utils/ValidationUtils";
+
+/**
+ * 审查提示词选项
+ */
+export interface ReviewPromptOptions {
+  prTitle: string;
+  prDescription: string;
+  diffPath?: string;
+  repoOwner?: string;
+  repoName?: string;
+  commitSha?: string;
+  language?: string;
+  fullDiffPath?: string;
+  incrementalBaseSha?: string;
+  chunk?: ReviewChunkInfo;
+  pathRules?: PathRule[];
+  baseBranch?: string;
+  author?: string;
+  changedFiles?: DiffFileStats[];
+}
+
+/**
+ * 分块审查时当前分块的信息
+ */
+export interface ReviewChunkInfo {
+  index: number;
+  total: number;
+  files: string[];
+}
+
+/**
+ * 提示词构建器
+ * 负责加载内置或仓库自定义的模板、读取审查规则文件并填充模板变量
+ */
+export class PromptBuilder {
+  /** 模板中可以使用的变量，写作 {PR_TITLE} */
+  static readonly VARIABLES = [
+    "PR_TITLE",
+    "PR_DESCRIPTION",
+    "DIFF_FILE_PATH",
+    "CHANGED_FILES",
+    "DIFF_STATS",
+    "LINKED_ISSUES",
+    "BASE_BRANCH",
+    "AUTHOR",
+    "GUIDELINES",
+  ] as const;
+
+  /** 模板缺少这些变量时模型无法找到待审查的变更 */
+  static readonly REQUIRED_VARIABLES = ["DIFF_FILE_PATH"] as const;
+
+  /** 单个规则文件写入提示词的最大字符数 */
+  static readonly MAX_GUIDELINE_LENGTH = 20000;
+
+  private static readonly PLACEHOLDER_PATTERN = /\{([A-Z][A-Z0-9_]*)\}/g;
+
+  private workspaceDir: string;
+  private config: PromptConfig;
+  private template?: string;
+  private guidelines?: PromptGuideline[];
+
+  constructor(workspaceDir: string, config: Partial<PromptConfig> = {}) {
+    this.workspaceDir = workspaceDir;
+    this.config = { append: [], guidelines: [], ...config };
+  }
+
+  /**
+   * 加载审查提示词模板，配置了自定义模板时替换内置模板，并追加配置的文件
+   * 模板包含未知变量或缺少必需变量时抛出错误
+   */
+  loadTemplate(): string {
+    if (this.template !== undefined) {
+      return this.template;
+    }
+
+    const source = this.config.template || "<bundled>/prompt.md";
+    let template = this.config.template
+      ? this.readRepositoryFile(this.config.template, "Prompt template")
+      : getReviewPromptTemplate();
+    const errors = PromptBuilder.validateTemplate(template, source);
+
+    for (const appendPath of this.config.append) {
+      const section = this.readRepositoryFile(appendPath, "Prompt section");
+      errors.push(
+        ...PromptBuilder.validateTemplate(section, appendPath, false)
+      );
+      template += `\n\n${section.trim()}\n`;
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid prompt template:\n- ${errors.join("\n- ")}`);
+    }
+
+    if (this.config.template || this.config.append.length > 0) {
+      core.info(
+        `📝 Using prompt template ${source}${this.config.append.length > 0 ? ` with ${this.config.append.length} appended sections` : ""}`
+      );
+    }
+
+    this.template = template;
+    return template;
+  }
+
+  /**
+   * 读取配置的审查规则文件，结果会被缓存
+   */
+  loadGuidelines(): PromptGuideline[] {
+    if (this.guidelines) {
+      return this.guidelines;
+    }
+
+    const files = new Set<string>();
+    for (const pattern of this.config.guidelines) {
+      this.resolveGuidelineFiles(pattern).forEach((file) => files.add(file));
+    }
+
+    this.guidelines = [...files].map((file) => {
+      const content = fs.readFileSync(
+        path.join(this.workspaceDir, file),
+        "utf-8"
+      );
+      const truncated = content.length > PromptBuilder.MAX_GUIDELINE_LENGTH;
+      return {
+        path: file,
+        content: truncated
+          ? content.substring(0, PromptBuilder.MAX_GUIDELINE_LENGTH)
+          : content,
+        truncated,
+      };
+    });
+
+    if (this.guidelines.length > 0) {
+      core.info(
+        `📚 Loaded ${this.guidelines.length} review guideline files: ${this.guidelines.map((guideline) => guideline.path).join(", ")}`
+      );
+    }
+    return this.guidelines;
+  }
+
+  /**
+   * 填充提示词模板并附加仓库、语言、增量审查、分块和路径规则信息
+   */
+  formatPrompt(template: string, options: ReviewPromptOptions): string {
+    const guidelines = this.loadGuidelines();
+    const variables = this.buildVariables(options, guidelines);
+
+    // 构建 GitHub 仓库链接信息
+    const githubInfo =
+      options.repoOwner && options.repoName && options.commitSha
+        ? `\n\n## GitHub 仓库信息\n- 仓库: ${options.repoOwner}/${options.repoName}\n- 提交: ${options.commitSha}\n- 基础链接: https://github.com/${options.repoOwner}/${options.repoName}/blob/${options.commitSha}/`
+        : "";
+
+    // 指定模型输出语言，有对应文案的语言再用该语言重复一遍要求
+    const languageInfo = options.language
+      ? `\n\n## 输出语言\n- 请使用 ${options.language} 语言撰写 summary.overallComments、title、description 和 fixPrompt 字段的内容，JSON 字段名与枚举值保持不变。${
+          I18n.isSupported(options.language)
+            ? `\n${I18n.getMessages(options.language).outputLanguageInstruction}`
+            : ""
+        }`
+      : "";
+
+    // 增量审查时说明审查范围，完整 diff 仅作为上下文
+    const incrementalInfo =
+      options.incrementalBaseSha && options.fullDiffPath
+        ? `\n\n## 增量审查\n- 本次仅审查自上次审查提交 ${options.incrementalBaseSha} 以来推送的变更（${options.diffPath}）。\n- 完整的 PR diff 位于 ${options.fullDiffPath}，仅用于理解上下文，请不要针对其中未在增量 diff 中出现的代码报告问题。`
+        : "";
+
+    // 分块审查时说明当前分块只包含部分文件
+    const chunkInfo = options.chunk
+      ? `\n\n## 分块审查\n- 由于 PR 较大，diff 被拆分为 ${options.chunk.total} 个分块分别审查，当前为第 ${options.chunk.index} 个分块。\n- 本分块包含的文件：${options.chunk.files.join(", ")}\n- 请只针对这些文件的变更报告问题，其他文件由其他分块审查。`
+      : "";
+
+    // 仓库配置的路径规则，分块审查时只包含与当前分块文件相关的规则
+    const pathRulesInfo = new PathRules(options.pathRules).formatPromptSection(
+      options.chunk?.files
+    );
+
+    // 模板未引用 {GUIDELINES} 时，将规则文件追加到末尾
+    const guidelinesInfo =
+      guidelines.length > 0 && !template.includes("{GUIDELINES}")
+        ? `\n\n## 项目规则文件\n\n以下是仓库中的审查规则文件，请优先检查代码是否违反这些规则，并在问题描述中引用具体的文件和规则内容。\n\n${variables.GUIDELINES}`
+        : "";
+
+    return (
+      template.replace(
+        PromptBuilder.PLACEHOLDER_PATTERN,
+        (placeholder, name: string) => variables[name] ?? placeholder
+      ) +
+      githubInfo +
+      languageInfo +
+      incrementalInfo +
+      chunkInfo +
+      pathRulesInfo +
+      guidelinesInfo
+    );
+  }
+
+  /**
+   * 构建 JSON 修复提示词，输出格式要求取自审查提示词模板
+   * 自定义模板没有输出格式要求时使用内置模板中的要求
+   */
+  formatRepairPrompt(
+    template: string,
+    invalidOutput: string,
+    parseError: string
+  ): string {
+    const formatSection =
+      PromptBuilder.extractOutputFormat(template) ||
+      PromptBuilder.extractOutputFormat(getReviewPromptTemplate());
+
+    return `# 修复 JSON 输出
+
+你上一次输出的代码审查结果不是有效的 JSON，解析错误：${parseError}
+
+请将下面的原始输出整理为符合格式要求的 **完整且有效** 的 JSON 对象：
+- 保留原始输出中的全部总体评语和问题，不要重新审查代码，也不要添加新的问题
+- 原始输出被截断时，丢弃不完整的最后一个问题
+- 直接以 \`{\` 开始并以 \`}\` 结束，不要包含任何其他内容
+
+${formatSection}
+
+## 原始输出
+
+<output>
+${invalidOutput}
+</output>`;
+  }
+
+  /**
+   * 构建解释问题的提示词，用于 /bugment explain 命令
+   * question 为评论者在命令后附加的问题，可以为空
+   */
+  formatExplainPrompt(
+    issue: ReviewIssue,
+    question: string,
+    language?: string
+  ): string {
+    const details = [
+      `- 标题：${issue.title}`,
+      `- 类型：${issue.type}`,
+      `- 严重程度：${issue.severity}`,
+      issue.location && `- 位置：${issue.location}`,
+      `- 描述：${issue.description}`,
+      issue.fixPrompt && `- 修复建议：${issue.fixPrompt}`,
+    ].filter((line): line is string => !!line);
+
+    const languageInfo = language ? `\n请使用 ${language} 语言回答。` : "";
+
+    return `# 解释代码审查问题
+
+你在之前的代码审查中报告了下面的问题，PR 的评论者希望了解更多细节。请结合仓库代码和 diff 详细解释：
+- 问题的成因，以及它在什么输入或场景下会出现
+- 可能造成的影响
+- 推荐的修复方式，必要时给出示例代码
+- 如果重新检查后认为这是误报，请直接说明原因
+
+请使用 Markdown 直接输出解释内容，不要输出 JSON。${languageInfo}
+
+## 问题
+
+${details.join("\n")}${question ? `\n\n## 评论者的问题\n\n${question}` : ""}`;
+  }
+
+  /**
+   * 构建模板变量的值
+   */
+  private buildVariables(
+    options: ReviewPromptOptions,
+    guidelines: PromptGuideline[]
+  ): Record<string, string> {
+    const changedFiles = options.changedFiles || [];
+    const additions = changedFiles.reduce(
+      (sum, file) => sum + file.additions,
+      0
+    );
+    const deletions = changedFiles.reduce(
+      (sum, file) => sum + file.deletions,
+      0
+    );
+    const linkedIssues = PromptBuilder.extractLinkedIssues(
+      options.prDescription || ""
+    );
+
+    return {
+      PR_TITLE: options.prTitle || "No title provided",
+      PR_DESCRIPTION: options.prDescription || "No description provided",
+      DIFF_FILE_PATH: options.diffPath || "No diff path provided",
+      CHANGED_FILES:
+        changedFiles.length > 0
+          ? changedFiles
+              .map(
+                (file) =>
+                  `  - ${file.path} (+${file.additions}/-${file.deletions})`
+              )
+              .join("\n")
+          : "No changed files",
+      DIFF_STATS: `${changedFiles.length} files changed, +${additions}/-${deletions} lines`,
+      LINKED_ISSUES: linkedIssues.length > 0 ? linkedIssues.join(", ") : "None",
+      BASE_BRANCH: options.baseBranch || "Unknown",
+      AUTHOR: options.author || "Unknown",
+      GUIDELINES:
+        guidelines.length > 0
+          ? guidelines
+              .map(
+                (guideline) =>
+                  `### ${guideline.path}\n\n${guideline.content.trim()}${guideline.truncated ? "\n\n（内容过长，已截断）" : ""}`
+              )
+              .join("\n\n")
+          : "None",
+    };
+  }
+
+  /**
+   * 展开规则文件路径，最后一级路径支持通配符
+   * 明确指定的文件不存在时给出警告，通配符没有匹配时静默跳过
+   */
+  private resolveGuidelineFiles(pattern: string): string[] {
+    const normalized = pattern.replace(/\\/g, "/").replace(/^\.\//, "");
+    const directory = path.posix.dirname(normalized);
+    const name = path.posix.basename(normalized);
+
+    if (!/[*?[]/.test(name)) {
+      if (!fs.existsSync(path.join(this.workspaceDir, normalized))) {
+        core.warning(`⚠️ Review guideline file not found: ${normalized}`);
+        return [];
+      }
+      if (!this.isRepositoryFile(normalized)) {
+        core.warning(
+          `⚠️ Review guideline must be a regular file inside the workspace: ${normalized}`
+        );
+        return [];
+      }
+      return [normalized];
+    }
+
+    const directoryPath = path.join(this.workspaceDir, directory);
+    if (!fs.existsSync(directoryPath)) {
+      return [];
+    }
+    // 目录可能是指向工作区外的符号链接
+    if (!ValidationUtils.resolveWorkspacePath(this.workspaceDir, directory)) {
+      core.warning(
+        `⚠️ Review guideline directory is outside the workspace: ${directory}`
+      );
+      return [];
+    }
+
+    const regex = new RegExp(`^${GitignorePattern.globToRegex(name)}$`);
+    return fs
+      .readdirSync(directoryPath, { withFileTypes: true })
+      .filter((entry) => entry.isFile() && regex.test(entry.name))
+      .map((entry) =>
+        directory === "." ? entry.name : `${directory}/${entry.name}`
+      )
+      .sort();
+  }
+
+  /**
+   * 读取仓库中的文件，不存在时抛出错误
+   */
+  private readRepositoryFile(filePath: string, description: string): string {
+    const fullPath = path.join(this.workspaceDir, filePath);
+    if (!fs.existsSync(fullPath)) {
+      throw new Error(`${description} not found: ${filePath}`);
+    }
+    if (!this.isRepositoryFile(filePath)) {
+      throw new Error(
+        `${description} must be a regular file inside the workspace: ${filePath}`
+      );
+    }
+    return fs.readFileSync(fullPath, "utf-8");
+  }
+
+  /**
+   * 判断路径是否为工作区内的普通文件，符号链接、目录和逃出工作区的路径均不算
+   */
+  private isRepositoryFile(filePath: string): boolean {
+    const fullPath = ValidationUtils.resolveWorkspacePath(
+      this.workspaceDir,
+      filePath
+    );
+    return (
+      fullPath !== undefined &&
+      fs.lstatSync(fullPath, { throwIfNoEntry: false })?.isFile() === true
+    );
+  }
+
+  /**
+   * 验证模板中的变量，返回形如 "prompt.md: unknown placeholder {FOO}" 的错误列表
+   * requireAll 为 false 时不检查必需变量（用于追加的片段）
+   */
+  static validateTemplate(
+    template: string,
+    source: string,
+    requireAll: boolean = true
+  ): string[] {
+    const errors: string[] = [];
+    const known: readonly string[] = PromptBuilder.VARIABLES;
+    const found = new Set(
+      [...template.matchAll(PromptBuilder.PLACEHOLDER_PATTERN)].map(
+        (match) => match[1]!
+      )
+    );
+
+    for (const name of found) {
+      if (!known.includes(name)) {
+        errors.push(
+          `${source}: unknown placeholder {${name}} (expected one of ${known.map((variable) => `{${variable}}`).join(", ")})`
+        );
+      }
+    }
+
+    if (requireAll) {
+      for (const name of PromptBuilder.REQUIRED_VARIABLES) {
+        if (!found.has(name)) {
+          errors.push(`${source}: missing required placeholder {${name}}`);
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * 验证提示词配置，返回带路径的错误信息
+   */
+  static validateConfig(raw: unknown, prefix: string): string[] {
+    if (raw === undefined || raw === null) {
+      return [];
+    }
+
+    if (typeof raw !== "object" || Array.isArray(raw)) {
+      return [`${prefix}: expected object`];
+    }
+
+    const config = raw as Record<string, any>;
+    const errors: string[] = [];
+    const knownKeys = ["template", "append", "guidelines"];
+
+    for (const key of Object.keys(config)) {
+      if (!knownKeys.includes(key)) {
+        errors.push(`${prefix}.${key}: unknown key`);
+      }
+    }
+
+    if (
+      config.template !== undefined &&
+      !PromptBuilder.isRepositoryPath(config.template)
+    ) {
+      errors.push(`${prefix}.template: expected relative path in repository`);
+    }
+
+    for (const key of ["append", "guidelines"]) {
+      const value = config[key];
+      if (value === undefined) continue;
+      if (!Array.isArray(value)) {
+        errors.push(`${prefix}.${key}: expected array`);
+        continue;
+      }
+      value.forEach((item: any, index: number) => {
+        if (!PromptBuilder.isRepositoryPath(item)) {
+          errors.push(
+            `${prefix}.${key}[${index}]: expected relative path in repository`
+          );
+        } else if (
+          key === "guidelines" &&
+          /[*?[]/.test(path.posix.dirname(item))
+        ) {
+          errors.push(
+            `${prefix}.${key}[${index}]: wildcards are only supported in the file name`
+          );
+        }
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * 从 PR 描述中提取通过关键字关联的 issue，如 "Fixes #12"、"closes owner/repo#3"
+   */
+  static extractLinkedIssues(body: string): string[] {
+    const pattern =
+      /\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?)\s*:?\s+((?:[\w.-]+\/[\w.-]+)?#\d+)/gi;
+    return [...new Set([...body.matchAll(pattern)].map((match) => match[1]!))];
+  }
+
+  /**
+   * 统计 diff 中每个文件的新增和删除行数
+   */
+  static summarizeDiff(diffContent: string): DiffFileStats[] {
+    const files: DiffFileStats[] = [];
+    let current: DiffFileStats | undefined;
+    let inHunk = false;
+
+    for (const line of diffContent.split("\n")) {
+      const header = line.match(/^diff --git a\/(.+?) b\/(.+)$/);
+      if (header) {
+        current = { path: header[2]!, additions: 0, deletions: 0 };
+        files.push(current);
+        inHunk = false;
+      } else if (line.startsWith("@@")) {
+        inHunk = true;
+      } else if (current && inHunk && line.startsWith("+")) {
+        current.additions++;
+      } else if (current && inHunk && line.startsWith("-")) {
+        current.deletions++;
+      }
+    }
+
+    return files;
+  }
+
+  private static extractOutputFormat(template: string): string {
+    const formatStart = template.indexOf("## 【输出格式要求】");
+    if (formatStart === -1) {
+      return "";
+    }
+    const formatEnd = template.indexOf("\n## ", formatStart + 1);
+    return template
+      .substring(formatStart, formatEnd === -1 ? undefined : formatEnd)
+      .trim();
+  }
+
+  private static isRepositoryPath(value: unknown): boolean {
+    if (typeof value !== "string" || !value.trim()) {
+      return false;
+    }
+    const normalized = path.posix.normalize(value.replace(/\\/g, "/"));
+    return (
+      !path.posix.isAbsolute(normalized) &&
+      normalized !== ".." &&
+      !normalized.startsWith("../")
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import * as core from "@actions/core";
+import { BugmentConfig, ReviewBackend } from "../core/types";
+import { AugmentBackend } from "./AugmentBackend";
+import { OpenAICompatibleBackend } from "./OpenAICompatibleBackend";
+
+/**
+ * 审查后端工厂
+ * 根据配置中的 backend.type 创建对应的后端实现
+ */
+export class ReviewBackendFactory {
+  /**
+   * 创建审查后端
+   * augmentServerPath 为 Augment 语言服务器路径，默认使用当前目录下的 dist/server.js
+   * augmentServerEnv 为语言服务器进程的环境变量，默认继承当前进程
+   */
+  static create(
+    config: Pick<BugmentConfig, "backend" | "llmApiKey">,
+    augmentServerPath?: string,
+    augmentServerEnv?: NodeJS.ProcessEnv
+  ): ReviewBackend {
+    const { backend } = config;
+    core.info(`🧠 Using ${backend.type} review backend`);
+
+    switch (backend.type) {
+      case "openai":
+        return new OpenAICompatibleBackend({
+          baseUrl: backend.baseUrl || "",
+          model: backend.model || "",
+          apiKey: config.llmApiKey,
+          timeoutSeconds: backend.timeoutSeconds,
+        });
+      case "augment":
+        return new AugmentBackend(
+          augmentServerPath,
+          backend.idleTimeoutSeconds,
+          augmentServerEnv
+        );
+      default:
+        throw new Error(`Unknown review backend: ${backend.type}`);
+    }
+  }
+}
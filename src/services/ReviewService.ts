@@ -1,43 +1,150 @@
 import * as core from "@actions/core";
-import { performCodeReview, ReviewOptions } from "./AugmentClient";
-import { PullRequestInfo } from "../core/types";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  BugmentConfig,
+  PullRequestInfo,
+  ReviewBackend,
+  ReviewIssue,
+  ReviewScope,
+} from "../core/types";
+import { ConfigLoader } from "../utils/ConfigLoader";
+import { ReviewBackendFactory } from "./ReviewBackendFactory";
+import {
+  PromptBuilder,
+  ReviewChunkInfo,
+  ReviewPromptOptions,
+} from "./PromptBuilder";
 
 /**
  * 代码审查服务类
- * 负责执行实际的代码审查
+ * 通过 PromptBuilder 构建审查提示词并交给配置的审查后端执行
  */
 export class ReviewService {
   private prInfo: PullRequestInfo;
   private workspaceDir: string;
+  private config: Partial<BugmentConfig>;
+  private backend: ReviewBackend;
+  private promptBuilder: PromptBuilder;
 
-  constructor(prInfo: PullRequestInfo, workspaceDir: string) {
+  constructor(
+    prInfo: PullRequestInfo,
+    workspaceDir: string,
+    config: Partial<BugmentConfig> = {},
+    backend?: ReviewBackend
+  ) {
     this.prInfo = prInfo;
     this.workspaceDir = workspaceDir;
+    this.config = config;
+    this.backend =
+      backend ||
+      ReviewBackendFactory.create({
+        backend: config.backend || ConfigLoader.DEFAULTS.backend,
+        llmApiKey: config.llmApiKey,
+      });
+    this.promptBuilder = new PromptBuilder(workspaceDir, config.prompt);
   }
 
   /**
    * 执行代码审查
+   * 增量审查时 fullDiffPath 指向完整 PR diff，作为模型的上下文
+   * 分块审查时 chunk 描述 diffPath 对应的分块
    */
-  async performReview(diffPath: string): Promise<string> {
+  async performReview(
+    diffPath: string,
+    scope?: ReviewScope,
+    fullDiffPath?: string,
+    chunk?: ReviewChunkInfo
+  ): Promise<string> {
     core.info("🤖 Performing AI code review...");
 
-    const reviewOptions: ReviewOptions = {
-      projectPath: this.workspaceDir,
+    const promptOptions: ReviewPromptOptions = {
       prTitle: this.prInfo.title,
       prDescription: this.prInfo.body,
       diffPath: diffPath,
       repoOwner: this.prInfo.owner,
       repoName: this.prInfo.repo,
       commitSha: this.prInfo.headSha,
+      language: this.config.language,
+      ...(scope?.mode === "incremental" && {
+        fullDiffPath,
+        incrementalBaseSha: scope.baseSha,
+      }),
+      chunk,
+      pathRules: this.config.rules,
+      baseBranch: this.prInfo.baseBranch,
+      author: this.prInfo.author,
+      changedFiles: PromptBuilder.summarizeDiff(
+        await fs.promises.readFile(diffPath, "utf-8")
+      ),
     };
 
     core.info(`🔍 Analyzing project at: ${this.workspaceDir}`);
-    const result = await performCodeReview(reviewOptions);
+    const result = await this.backend.review(
+      this.promptBuilder.formatPrompt(
+        this.promptBuilder.loadTemplate(),
+        promptOptions
+      ),
+      {
+        projectPath: this.workspaceDir,
+        diffPath,
+        fullDiffPath: promptOptions.fullDiffPath,
+        attachDiff: true,
+      }
+    );
     core.info("✅ Code review completed");
 
     return result;
   }
 
+  /**
+   * 请求模型修复无法解析的输出
+   * 只要求按输出格式重新生成 JSON，不重新审查代码
+   */
+  async requestJsonRepair(
+    invalidOutput: string,
+    parseError: string,
+    diffPath: string
+  ): Promise<string> {
+    core.info("🔧 Asking the model to repair its JSON output...");
+    return this.backend.review(
+      this.promptBuilder.formatRepairPrompt(
+        this.promptBuilder.loadTemplate(),
+        invalidOutput,
+        parseError
+      ),
+      { projectPath: this.workspaceDir, diffPath }
+    );
+  }
+
+  /**
+   * 请求模型详细解释之前报告的问题，返回 Markdown 文本
+   */
+  async explainIssue(
+    issue: ReviewIssue,
+    question: string,
+    diffPath: string
+  ): Promise<string> {
+    core.info(`💡 Asking the model to explain "${issue.title}"...`);
+    return this.backend.review(
+      this.promptBuilder.formatExplainPrompt(
+        issue,
+        question,
+        this.config.language
+      ),
+      { projectPath: this.workspaceDir, diffPath }
+    );
+  }
+
+  /**
+   * 加载提示词模板和审查规则文件，模板无效时抛出错误
+   */
+  loadPromptTemplate(): string {
+    const template = this.promptBuilder.loadTemplate();
+    this.promptBuilder.loadGuidelines();
+    return template;
+  }
+
   /**
    * 验证审查选项
    */
@@ -99,14 +206,12 @@ Review Options Summary:
       core.info("🔧 Preparing review environment...");
 
       // 检查工作空间目录是否存在
-      const fs = await import("fs");
       if (!fs.existsSync(this.workspaceDir)) {
         core.error(`Workspace directory does not exist: ${this.workspaceDir}`);
         return false;
       }
 
       // 检查是否为 Git 仓库
-      const path = await import("path");
       const gitDir = path.join(this.workspaceDir, ".git");
       if (!fs.existsSync(gitDir)) {
         core.warning("Workspace is not a Git repository");
@@ -6,4 +6,10 @@ export * from "./GitHubService";
 export * from "./GitService";
 export * from "./AugmentService";
 export * from "./ReviewService";
+export * from "./PromptBuilder";
 export * from "./AugmentClient";
+export * from "./AugmentBackend";
+export * from "./OpenAICompatibleBackend";
+export * from "./ReviewBackendFactory";
+export * from "./ChunkedReviewService";
+export * from "./CheckRunService";
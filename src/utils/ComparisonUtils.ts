@@ -1,6 +1,8 @@
 import * as core from "@actions/core";
 import { ReviewResult, ReviewComparison, ReviewIssue } from "../core/types";
-import { IssueUtils } from "./IssueUtils";
+import { I18n } from "../i18n/I18n";
+import { IssueFingerprint } from "./IssueFingerprint";
+import { LineMapper } from "./LineMapper";
 
 /**
  * 比较工具类
@@ -9,10 +11,12 @@ import { IssueUtils } from "./IssueUtils";
 export class ComparisonUtils {
   /**
    * 比较当前审查与历史审查结果
+   * 提供 lineMapper 时，会先将上次审查的问题位置映射到当前提交
    */
   static compareReviews(
     currentReview: ReviewResult,
-    previousReviews: ReviewResult[]
+    previousReviews: ReviewResult[],
+    lineMapper?: LineMapper
   ): ReviewComparison {
     if (previousReviews.length === 0) {
       // 首次审查 - 所有问题都是新的
@@ -41,50 +45,40 @@ export class ComparisonUtils {
       };
     }
 
-    const newIssues: ReviewIssue[] = [];
-    const fixedIssues: ReviewIssue[] = [];
+    const matches = IssueFingerprint.matchIssues(
+      latestPreviousReview.issues,
+      currentReview.issues,
+      lineMapper
+    );
+    const matchedPrevious = new Set(matches.map((match) => match.previous));
+    const matchedCurrent = new Set(matches.map((match) => match.current));
+
+    const newIssues = currentReview.issues.filter(
+      (issue) => !matchedCurrent.has(issue)
+    );
+    const fixedIssues = latestPreviousReview.issues.filter(
+      (issue) => !matchedPrevious.has(issue)
+    );
     const persistentIssues: ReviewIssue[] = [];
     const modifiedIssues: { previous: ReviewIssue; current: ReviewIssue }[] =
       [];
 
-    // 创建映射以便快速查找
-    const currentIssueMap = new Map(
-      currentReview.issues.map((issue) => [
-        IssueUtils.createIssueSignature(issue),
-        issue,
-      ])
+    // 匹配到的问题按当前审查中的顺序归类为持续存在或已修改
+    const matchByCurrent = new Map(
+      matches.map((match) => [match.current, match.previous])
     );
-    const previousIssueMap = new Map(
-      latestPreviousReview.issues.map((issue) => [
-        IssueUtils.createIssueSignature(issue),
-        issue,
-      ])
-    );
-
-    // 查找新问题和持续存在的问题
     for (const currentIssue of currentReview.issues) {
-      const signature = IssueUtils.createIssueSignature(currentIssue);
-      const previousIssue = previousIssueMap.get(signature);
-
+      const previousIssue = matchByCurrent.get(currentIssue);
       if (!previousIssue) {
-        newIssues.push(currentIssue);
-      } else if (IssueUtils.areIssuesSimilar(currentIssue, previousIssue)) {
-        if (currentIssue.description !== previousIssue.description) {
-          modifiedIssues.push({
-            previous: previousIssue,
-            current: currentIssue,
-          });
-        } else {
-          persistentIssues.push(currentIssue);
-        }
+        continue;
       }
-    }
 
-    // 查找已修复的问题
-    for (const previousIssue of latestPreviousReview.issues) {
-      const signature = IssueUtils.createIssueSignature(previousIssue);
-      if (!currentIssueMap.has(signature)) {
-        fixedIssues.push(previousIssue);
+      if (
+        currentIssue.description.trim() !== previousIssue.description.trim()
+      ) {
+        modifiedIssues.push({ previous: previousIssue, current: currentIssue });
+      } else {
+        persistentIssues.push(currentIssue);
       }
     }
 
@@ -93,6 +87,10 @@ export class ComparisonUtils {
       fixedIssues,
       persistentIssues,
       modifiedIssues,
+      matchedIssues: matches.map(({ previous, current }) => ({
+        previous,
+        current,
+      })),
       fixedCount: fixedIssues.length,
       newCount: newIssues.length,
       persistentCount: persistentIssues.length,
@@ -143,23 +141,27 @@ export class ComparisonUtils {
   /**
    * 获取比较摘要
    */
-  static getComparisonSummary(comparison: ReviewComparison): string {
+  static getComparisonSummary(
+    comparison: ReviewComparison,
+    language: string = I18n.DEFAULT_LANGUAGE
+  ): string {
+    const { summary } = I18n.getMessages(language);
     const parts: string[] = [];
 
     if (comparison.fixedCount > 0) {
-      parts.push(`✅ ${comparison.fixedCount} 个问题已修复`);
+      parts.push(summary.fixed(comparison.fixedCount));
     }
     if (comparison.newCount > 0) {
-      parts.push(`🆕 ${comparison.newCount} 个新问题`);
+      parts.push(summary.new(comparison.newCount));
     }
     if (comparison.persistentCount > 0) {
-      parts.push(`⚠️ ${comparison.persistentCount} 个问题仍需关注`);
+      parts.push(summary.persistent(comparison.persistentCount));
     }
     if (comparison.modifiedIssues.length > 0) {
-      parts.push(`🔄 ${comparison.modifiedIssues.length} 个问题已修改`);
+      parts.push(summary.modified(comparison.modifiedIssues.length));
     }
 
-    return parts.length > 0 ? parts.join("，") : "无变更";
+    return parts.length > 0 ? summary.comparison(parts) : summary.noChanges;
   }
 
   /**
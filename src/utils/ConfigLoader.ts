@@ -0,0 +1,195 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as core from "@actions/core";
+import { parse as parseYaml } from "yaml";
+import { ActionInputs, BugmentConfig, RepositoryConfig } from "../core/types";
+import { ReviewPolicy } from "../core/ReviewPolicy";
+import { CommandRouter } from "../core/CommandRouter";
+import { FeedbackAnalyzer } from "../core/FeedbackAnalyzer";
+import { ValidationUtils } from "./ValidationUtils";
+
+/**
+ * 配置加载器
+ * 负责读取 .bugment.yml 并与 Action 输入合并为完整配置
+ */
+export class ConfigLoader {
+  static readonly DEFAULT_CONFIG_FILES = [".bugment.yml", ".bugment.yaml"];
+
+  static readonly DEFAULTS: Omit<BugmentConfig, keyof ActionInputs> = {
+    language: "zh-CN",
+    severityThreshold: "low",
+    minConfidence: 0,
+    maxLineComments: 0,
+    snapDistance: 3,
+    incremental: false,
+    ignore: {
+      useDefaults: true,
+      patterns: [],
+      gitattributes: false,
+    },
+    policy: ReviewPolicy.DEFAULT_CONFIG,
+    backend: {
+      type: "augment",
+      timeoutSeconds: 600,
+      idleTimeoutSeconds: 120,
+    },
+    chunking: {
+      maxTokens: 30000,
+      concurrency: 3,
+    },
+    onParseError: "fail",
+    rules: [],
+    prompt: {
+      append: [],
+      guidelines: [".bugment/rules/*.md"],
+    },
+    publish: ["review"],
+    commands: CommandRouter.DEFAULT_CONFIG,
+    feedback: FeedbackAnalyzer.DEFAULT_CONFIG,
+  };
+
+  /**
+   * 从项目目录加载仓库配置
+   * 显式指定的配置文件不存在时抛出错误，默认配置文件不存在时返回空配置
+   */
+  static loadRepositoryConfig(
+    projectPath: string,
+    configFile?: string
+  ): { config: RepositoryConfig; filePath?: string } {
+    const candidates = configFile
+      ? [configFile]
+      : ConfigLoader.DEFAULT_CONFIG_FILES;
+
+    for (const candidate of candidates) {
+      const filePath = path.resolve(projectPath, candidate);
+      if (!fs.existsSync(filePath)) {
+        continue;
+      }
+
+      const content = fs.readFileSync(filePath, "utf-8");
+      const config = ConfigLoader.parseRepositoryConfig(content, candidate);
+      core.info(`📋 Loaded repository config from ${candidate}`);
+      return { config, filePath };
+    }
+
+    if (configFile) {
+      throw new Error(`Config file not found: ${configFile}`);
+    }
+
+    core.info("📋 No .bugment.yml found, using default configuration");
+    return { config: {} };
+  }
+
+  /**
+   * 解析并验证配置文件内容
+   */
+  static parseRepositoryConfig(
+    content: string,
+    source: string = ".bugment.yml"
+  ): RepositoryConfig {
+    let document: unknown;
+    try {
+      document = parseYaml(content);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to parse ${source}: ${message}`);
+    }
+
+    const errors = ValidationUtils.validateRepositoryConfig(document);
+    if (errors.length > 0) {
+      throw new Error(
+        `Invalid configuration in ${source}:\n- ${errors.join("\n- ")}`
+      );
+    }
+
+    return (document || {}) as RepositoryConfig;
+  }
+
+  /**
+   * 合并默认值、仓库配置与 Action 输入覆盖项
+   * 优先级：Action 输入 > 配置文件 > 默认值
+   */
+  static mergeConfig(
+    inputs: ActionInputs,
+    repoConfig: RepositoryConfig,
+    overrides: RepositoryConfig = {},
+    configFile?: string
+  ): BugmentConfig {
+    const defaults = ConfigLoader.DEFAULTS;
+
+    return {
+      ...inputs,
+      configFile,
+      language: overrides.language ?? repoConfig.language ?? defaults.language,
+      severityThreshold:
+        overrides.severityThreshold ??
+        repoConfig.severityThreshold ??
+        defaults.severityThreshold,
+      minConfidence:
+        overrides.minConfidence ??
+        repoConfig.minConfidence ??
+        defaults.minConfidence,
+      maxLineComments:
+        overrides.maxLineComments ??
+        repoConfig.maxLineComments ??
+        defaults.maxLineComments,
+      snapDistance:
+        overrides.snapDistance ??
+        repoConfig.snapDistance ??
+        defaults.snapDistance,
+      incremental:
+        overrides.incremental ?? repoConfig.incremental ?? defaults.incremental,
+      ignore: {
+        useDefaults:
+          overrides.ignore?.useDefaults ??
+          repoConfig.ignore?.useDefaults ??
+          defaults.ignore.useDefaults,
+        patterns: [
+          ...(repoConfig.ignore?.patterns || []),
+          ...(overrides.ignore?.patterns || []),
+        ],
+        gitattributes:
+          overrides.ignore?.gitattributes ??
+          repoConfig.ignore?.gitattributes ??
+          defaults.ignore.gitattributes,
+      },
+      policy: {
+        ...defaults.policy,
+        ...repoConfig.policy,
+        ...overrides.policy,
+      },
+      backend: {
+        ...defaults.backend,
+        ...repoConfig.backend,
+        ...overrides.backend,
+      },
+      chunking: {
+        ...defaults.chunking,
+        ...repoConfig.chunking,
+        ...overrides.chunking,
+      },
+      onParseError:
+        overrides.onParseError ??
+        repoConfig.onParseError ??
+        defaults.onParseError,
+      rules: overrides.rules ?? repoConfig.rules ?? defaults.rules,
+      prompt: {
+        ...defaults.prompt,
+        ...repoConfig.prompt,
+        ...overrides.prompt,
+      },
+      sarifFile: overrides.sarifFile ?? repoConfig.sarifFile,
+      publish: overrides.publish ?? repoConfig.publish ?? defaults.publish,
+      commands: {
+        ...defaults.commands,
+        ...repoConfig.commands,
+        ...overrides.commands,
+      },
+      feedback: {
+        ...defaults.feedback,
+        ...repoConfig.feedback,
+        ...overrides.feedback,
+      },
+    };
+  }
+}
@@ -1,4 +1,5 @@
 import { ReviewIssue } from "../core/types";
+import { I18n } from "../i18n/I18n";
 
 /**
  * 格式化工具类
@@ -44,46 +45,35 @@ export class FormatUtils {
   /**
    * 获取类型名称
    */
-  static getTypeName(type: ReviewIssue["type"]): string {
-    switch (type) {
-      case "bug":
-        return "潜在 Bug";
-      case "security":
-        return "安全问题";
-      case "performance":
-        return "性能问题";
-      case "code_smell":
-        return "代码异味";
-      default:
-        return "其他问题";
-    }
+  static getTypeName(
+    type: ReviewIssue["type"],
+    language: string = I18n.DEFAULT_LANGUAGE
+  ): string {
+    const messages = I18n.getMessages(language);
+    return messages.issueTypes[type] ?? messages.otherIssueType;
   }
 
   /**
    * 获取严重程度文本
    */
-  static getSeverityText(severity: ReviewIssue["severity"]): string {
-    switch (severity) {
-      case "critical":
-        return "严重";
-      case "high":
-        return "高";
-      case "medium":
-        return "中等";
-      case "low":
-        return "轻微";
-      default:
-        return "中等";
-    }
+  static getSeverityText(
+    severity: ReviewIssue["severity"],
+    language: string = I18n.DEFAULT_LANGUAGE
+  ): string {
+    const messages = I18n.getMessages(language);
+    return messages.severities[severity] ?? messages.severities.medium;
   }
 
   /**
    * 格式化时间戳
    */
-  static formatTimestamp(timestamp: string): string {
+  static formatTimestamp(
+    timestamp: string,
+    language: string = I18n.DEFAULT_LANGUAGE
+  ): string {
     try {
       const date = new Date(timestamp);
-      return date.toLocaleString("zh-CN", {
+      return date.toLocaleString(I18n.resolveLocale(language), {
         year: "numeric",
         month: "2-digit",
         day: "2-digit",
@@ -262,8 +252,11 @@ export class FormatUtils {
   /**
    * 格式化数字
    */
-  static formatNumber(num: number): string {
-    return num.toLocaleString("zh-CN");
+  static formatNumber(
+    num: number,
+    language: string = I18n.DEFAULT_LANGUAGE
+  ): string {
+    return num.toLocaleString(I18n.resolveLocale(language));
   }
 
   /**
@@ -423,20 +416,43 @@ export class FormatUtils {
     };
   }
 
+  /**
+   * 格式化 GitHub 建议修改代码块
+   * 代码中包含反引号时使用更长的围栏，避免提前结束代码块
+   */
+  static formatSuggestionBlock(suggestion: string): string {
+    const longestRun = Math.max(
+      2,
+      ...(suggestion.match(/`+/g) || []).map((run) => run.length)
+    );
+    const fence = "`".repeat(longestRun + 1);
+    return `${fence}suggestion\n${suggestion}\n${fence}`;
+  }
+
   /**
    * 格式化基础行评论内容
+   * includeSuggestion 为 true 时附带建议修改代码块
    */
-  static formatBasicLineComment(issue: ReviewIssue): string {
-    const severityText = FormatUtils.getSeverityText(issue.severity);
+  static formatBasicLineComment(
+    issue: ReviewIssue,
+    includeSuggestion: boolean = false,
+    language: string = I18n.DEFAULT_LANGUAGE
+  ): string {
+    const { labels } = I18n.getMessages(language);
+    const severityText = FormatUtils.getSeverityText(issue.severity, language);
     const confidenceText = issue.confidence
-      ? ` (置信度: ${FormatUtils.getConfidenceDisplay(issue.confidence)})`
+      ? ` (${labels.confidence}: ${FormatUtils.getConfidenceDisplay(issue.confidence)})`
       : "";
-    let comment = `**${FormatUtils.getTypeEmoji(issue.type)} ${FormatUtils.getTypeName(issue.type)}** - ${FormatUtils.getSeverityEmoji(issue.severity)} ${severityText}${confidenceText}\n\n`;
+    let comment = `**${FormatUtils.getTypeEmoji(issue.type)} ${FormatUtils.getTypeName(issue.type, language)}** - ${FormatUtils.getSeverityEmoji(issue.severity)} ${severityText}${confidenceText}\n\n`;
 
     comment += `${issue.description}\n\n`;
 
+    if (includeSuggestion && issue.suggestion) {
+      comment += `**💡 ${labels.suggestion}:**\n${FormatUtils.formatSuggestionBlock(issue.suggestion)}\n\n`;
+    }
+
     if (issue.fixPrompt) {
-      comment += `**🔧 修复建议:**\n\`\`\`\n${issue.fixPrompt}\n\`\`\``;
+      comment += `**🔧 ${labels.fixPrompt}:**\n\`\`\`\n${issue.fixPrompt}\n\`\`\``;
     }
 
     return comment;
@@ -0,0 +1,221 @@
+import { IgnoreRule } from "../core/types";
+
+/**
+ * gitignore 模式编译器
+ * 按 gitignore 的语义将单行模式编译为匹配规则
+ */
+export class GitignorePattern {
+  /** POSIX 字符类与正则字符类的对应关系 */
+  private static readonly POSIX_CLASSES: Record<string, string> = {
+    alnum: "a-zA-Z0-9",
+    alpha: "a-zA-Z",
+    blank: " \\t",
+    cntrl: "\\x00-\\x1f\\x7f",
+    digit: "0-9",
+    graph: "\\x21-\\x7e",
+    lower: "a-z",
+    print: "\\x20-\\x7e",
+    punct: "!-\\/:-@\\[-`{-~",
+    space: " \\t\\n\\r\\f\\v",
+    upper: "A-Z",
+    xdigit: "0-9a-fA-F",
+  };
+
+  /**
+   * 编译单行模式，空行和注释返回 undefined
+   * baseDir 为模式所在忽略文件的目录（相对仓库根目录，根目录为空字符串），lineNumber 为模式所在行
+   */
+  static compile(
+    line: string,
+    source: string,
+    baseDir: string = "",
+    lineNumber?: number
+  ): IgnoreRule | undefined {
+    // 行尾空格除非用反斜杠转义，否则忽略
+    let pattern = line.replace(/\r$/, "").replace(/(?<!\\)\s+$/, "");
+    if (!pattern || pattern.startsWith("#")) {
+      return undefined;
+    }
+
+    const negated = pattern.startsWith("!");
+    if (negated) {
+      pattern = pattern.substring(1);
+    } else if (pattern.startsWith("\\!") || pattern.startsWith("\\#")) {
+      pattern = pattern.substring(1);
+    }
+
+    const directoryOnly = pattern.endsWith("/");
+    if (directoryOnly) {
+      pattern = pattern.replace(/\/+$/, "");
+    }
+    if (!pattern) {
+      return undefined;
+    }
+
+    // 开头或中间包含 / 的模式相对忽略文件所在目录，否则匹配任意层级
+    const anchored = pattern.includes("/");
+    pattern = pattern.replace(/^\/+/, "");
+
+    return {
+      pattern: line.trim(),
+      source,
+      line: lineNumber,
+      baseDir: baseDir.replace(/^\/+|\/+$/g, ""),
+      negated,
+      directoryOnly,
+      regex: new RegExp(
+        `^${anchored ? "" : "(?:.*/)?"}${this.globToRegex(pattern)}$`
+      ),
+    };
+  }
+
+  /**
+   * 判断规则是否匹配路径（相对仓库根目录）
+   */
+  static matches(rule: IgnoreRule, filePath: string, isDir: boolean): boolean {
+    if (rule.directoryOnly && !isDir) {
+      return false;
+    }
+
+    if (!rule.baseDir) {
+      return rule.regex.test(filePath);
+    }
+    if (!filePath.startsWith(`${rule.baseDir}/`)) {
+      return false;
+    }
+    return rule.regex.test(filePath.substring(rule.baseDir.length + 1));
+  }
+
+  /**
+   * 判断一组规则是否包含路径，与 gitignore 相同，最后一个匹配的规则决定结果
+   * 匹配父目录的规则同样匹配目录中的文件
+   */
+  static matchesPath(rules: IgnoreRule[], filePath: string): boolean {
+    const segments = filePath.split("/");
+    const candidates = segments.map((_, i) => ({
+      path: segments.slice(0, i + 1).join("/"),
+      isDir: i < segments.length - 1,
+    }));
+
+    let matched = false;
+    for (const rule of rules) {
+      if (
+        candidates.some((candidate) =>
+          this.matches(rule, candidate.path, candidate.isDir)
+        )
+      ) {
+        matched = !rule.negated;
+      }
+    }
+    return matched;
+  }
+
+  /**
+   * 将 glob 转换为正则表达式（不含首尾锚点）
+   * 支持 *、?、**、字符类（含 ! 取反和 POSIX 字符类）以及反斜杠转义
+   */
+  static globToRegex(glob: string): string {
+    let regex = "";
+
+    for (let i = 0; i < glob.length; i++) {
+      const char = glob[i]!;
+
+      if (char === "*") {
+        let end = i;
+        while (glob[end + 1] === "*") {
+          end++;
+        }
+        const isDoubleStar =
+          end > i &&
+          (i === 0 || glob[i - 1] === "/") &&
+          (end === glob.length - 1 || glob[end + 1] === "/");
+
+        if (!isDoubleStar) {
+          regex += "[^/]*";
+        } else if (end === glob.length - 1) {
+          // 结尾的 /** 匹配目录中的全部内容，单独的 ** 匹配任意路径
+          regex += ".*";
+        } else {
+          // 开头的 **/ 和中间的 /**/ 匹配零个或多个目录
+          regex += "(?:.*/)?";
+          end++;
+        }
+        i = end;
+      } else if (char === "?") {
+        regex += "[^/]";
+      } else if (char === "[") {
+        const charClass = this.parseCharClass(glob, i);
+        if (charClass) {
+          regex += charClass.regex;
+          i = charClass.end;
+        } else {
+          regex += "\\[";
+        }
+      } else if (char === "\\" && i + 1 < glob.length) {
+        regex += this.escapeRegex(glob[++i]!);
+      } else {
+        regex += this.escapeRegex(char);
+      }
+    }
+
+    return regex;
+  }
+
+  /**
+   * 解析从 start 处 [ 开始的字符类，未闭合时返回 undefined
+   */
+  private static parseCharClass(
+    glob: string,
+    start: number
+  ): { regex: string; end: number } | undefined {
+    let i = start + 1;
+    let negated = false;
+    if (glob[i] === "!" || glob[i] === "^") {
+      negated = true;
+      i++;
+    }
+
+    let body = "";
+    // 紧跟在 [ 或 [! 之后的 ] 是普通字符
+    for (let first = true; i < glob.length; i++, first = false) {
+      const char = glob[i]!;
+
+      if (char === "]" && !first) {
+        // 字符类不能匹配路径分隔符
+        return {
+          regex: negated ? `[^/${body}]` : `(?!/)[${body}]`,
+          end: i,
+        };
+      }
+
+      if (char === "[" && glob[i + 1] === ":") {
+        const close = glob.indexOf(":]", i + 2);
+        const name = close === -1 ? "" : glob.substring(i + 2, close);
+        const posixClass = this.POSIX_CLASSES[name];
+        if (posixClass !== undefined) {
+          body += posixClass;
+          i = close + 1;
+          continue;
+        }
+      }
+
+      if (char === "\\" && i + 1 < glob.length) {
+        body += this.escapeClassChar(glob[++i]!);
+      } else if (char === "-" && !first && glob[i + 1] !== "]") {
+        body += "-";
+      } else {
+        body += this.escapeClassChar(char);
+      }
+    }
+
+    return undefined;
+  }
+
+  private static escapeRegex(char: string): string {
+    return char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+  }
+
+  private static escapeClassChar(char: string): string {
+    return char.replace(/[\]\\^\-[]/g, "\\$&");
+  }
+}
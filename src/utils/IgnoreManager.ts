@@ -1,13 +1,14 @@
 import * as fs from "fs";
 import * as path from "path";
 import * as core from "@actions/core";
+import { IgnoreMatch, IgnoreRule } from "../core/types";
+import { GitignorePattern } from "./GitignorePattern";
 
 /**
  * 文件忽略管理器
- * 支持类似 .gitignore 的模式匹配
+ * 按 .gitignore 的语义匹配默认模式、各级 .bugmentignore 和配置中的模式
  */
 export class IgnoreManager {
-  private patterns: string[] = [];
   private defaultPatterns: string[] = [
     // 依赖锁定文件
     "package-lock.json",
@@ -75,12 +76,32 @@ export class IgnoreManager {
     ".stylelintcache",
   ];
 
-  constructor(projectPath: string, useDefaults: boolean = true) {
+  private rules: IgnoreRule[] = [];
+  private attributeRules: Array<{
+    rule: IgnoreRule;
+    attribute: string;
+    value: boolean;
+  }> = [];
+
+  /** .gitattributes 中表示文件无需审查的属性 */
+  private static readonly SKIP_ATTRIBUTES = [
+    "linguist-generated",
+    "linguist-vendored",
+  ];
+
+  constructor(
+    projectPath: string,
+    useDefaults: boolean = true,
+    useGitattributes: boolean = false
+  ) {
     if (useDefaults) {
-      this.patterns = [...this.defaultPatterns];
+      this.defaultPatterns.forEach((pattern) =>
+        this.addPattern(pattern, "default")
+      );
     }
 
     this.loadIgnoreFile(projectPath);
+    this.loadNestedFiles(projectPath, useGitattributes);
   }
 
   /**
@@ -91,12 +112,12 @@ export class IgnoreManager {
 
     try {
       if (fs.existsSync(ignoreFilePath)) {
-        const content = fs.readFileSync(ignoreFilePath, "utf-8");
-        const filePatterns = this.parseIgnoreFile(content);
-        this.patterns.push(...filePatterns);
-        core.info(
-          `📋 Loaded ${filePatterns.length} patterns from .bugmentignore`
+        const count = this.addRules(
+          fs.readFileSync(ignoreFilePath, "utf-8"),
+          ".bugmentignore",
+          ""
         );
+        core.info(`📋 Loaded ${count} patterns from .bugmentignore`);
       } else {
         core.info(
           "📋 No .bugmentignore file found, using default patterns only"
@@ -108,87 +129,236 @@ export class IgnoreManager {
   }
 
   /**
-   * 解析忽略文件内容
+   * 加载子目录中的 .bugmentignore 以及各级 .gitattributes
+   * 按层级逐层扫描，与 git 一样不进入已被忽略的目录
+   */
+  private loadNestedFiles(
+    projectPath: string,
+    useGitattributes: boolean
+  ): void {
+    let directories = [""];
+
+    try {
+      while (directories.length > 0) {
+        const next: string[] = [];
+
+        for (const directory of directories) {
+          const entries = fs.readdirSync(path.join(projectPath, directory), {
+            withFileTypes: true,
+          });
+
+          for (const entry of entries) {
+            const relativePath = directory
+              ? `${directory}/${entry.name}`
+              : entry.name;
+
+            if (entry.isDirectory()) {
+              if (entry.name !== ".git" && !this.findRule(relativePath, true)) {
+                next.push(relativePath);
+              }
+            } else if (entry.name === ".bugmentignore" && directory) {
+              const count = this.addRules(
+                fs.readFileSync(path.join(projectPath, relativePath), "utf-8"),
+                relativePath,
+                directory
+              );
+              core.info(`📋 Loaded ${count} patterns from ${relativePath}`);
+            } else if (entry.name === ".gitattributes" && useGitattributes) {
+              const count = this.addAttributeRules(
+                fs.readFileSync(path.join(projectPath, relativePath), "utf-8"),
+                relativePath,
+                directory
+              );
+              core.info(
+                `📋 Loaded ${count} generated/vendored patterns from ${relativePath}`
+              );
+            }
+          }
+        }
+
+        directories = next.sort();
+      }
+    } catch (error) {
+      core.warning(`⚠️ Failed to load nested ignore files: ${error}`);
+    }
+  }
+
+  /**
+   * 解析忽略文件内容并添加规则，返回添加的规则数
    */
-  private parseIgnoreFile(content: string): string[] {
-    return content
+  private addRules(content: string, source: string, baseDir: string): number {
+    const rules = content
       .split("\n")
-      .map((line) => line.trim())
-      .filter((line) => line && !line.startsWith("#")) // 过滤空行和注释
-      .map((line) => line.replace(/\r$/, "")); // 移除Windows换行符
+      .map((line, index) =>
+        GitignorePattern.compile(line, source, baseDir, index + 1)
+      )
+      .filter((rule): rule is IgnoreRule => !!rule);
+    this.rules.push(...rules);
+    return rules.length;
+  }
+
+  /**
+   * 解析 .gitattributes 中的 linguist-generated 和 linguist-vendored 属性
+   */
+  private addAttributeRules(
+    content: string,
+    source: string,
+    baseDir: string
+  ): number {
+    let count = 0;
+
+    for (const [index, line] of content.split("\n").entries()) {
+      const [pattern, ...attributes] = line.trim().split(/\s+/);
+      // 跳过注释、宏定义和 gitattributes 不支持的取反模式
+      if (
+        !pattern ||
+        pattern.startsWith("#") ||
+        pattern.startsWith("[attr]") ||
+        pattern.startsWith("!")
+      ) {
+        continue;
+      }
+
+      const rule = GitignorePattern.compile(
+        pattern,
+        source,
+        baseDir,
+        index + 1
+      );
+      // gitattributes 中以 / 结尾的模式不匹配任何文件
+      if (!rule || rule.directoryOnly) {
+        continue;
+      }
+      rule.pattern = line.trim();
+
+      for (const attribute of attributes) {
+        const match = attribute.match(/^([-!]?)([\w-]+)(?:=(.*))?$/);
+        if (!match || !IgnoreManager.SKIP_ATTRIBUTES.includes(match[2]!)) {
+          continue;
+        }
+        const value = !match[1] && match[3] !== "false" && match[3] !== "0";
+        this.attributeRules.push({ rule, attribute: match[2]!, value });
+        count++;
+      }
+    }
+
+    return count;
   }
 
   /**
    * 检查文件是否应该被忽略
    */
   public shouldIgnore(filePath: string): boolean {
+    const match = this.explain(filePath);
+    if (match) {
+      core.info(
+        `🚫 Ignoring file: ${filePath} (matched pattern: ${match.pattern} from ${IgnoreManager.formatSource(match)})`
+      );
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * 说明文件被忽略的原因：匹配的模式、来源文件和行号
+   * 文件未被忽略时返回 undefined
+   */
+  public explain(filePath: string): IgnoreMatch | undefined {
     // 标准化文件路径（移除开头的 ./ 或 /）
     const normalizedPath = filePath.replace(/^\.?\/+/, "");
 
-    for (const pattern of this.patterns) {
-      if (this.matchPattern(normalizedPath, pattern)) {
-        core.info(
-          `🚫 Ignoring file: ${filePath} (matched pattern: ${pattern})`
-        );
-        return true;
-      }
+    const rule =
+      this.findRule(normalizedPath, false) ||
+      this.findAttributeRule(normalizedPath);
+    if (!rule) {
+      return undefined;
     }
 
-    return false;
+    return {
+      filePath,
+      pattern: rule.pattern,
+      source: rule.source,
+      line: rule.line,
+    };
   }
 
   /**
-   * 模式匹配逻辑
-   * 支持基本的 glob 模式：*, **, ?
+   * 格式化规则来源，如 src/.bugmentignore:3
    */
-  private matchPattern(filePath: string, pattern: string): boolean {
-    // 标准化模式（移除开头的 ./ 或 /）
-    const normalizedPattern = pattern.replace(/^\.?\/+/, "");
+  static formatSource(match: Pick<IgnoreMatch, "source" | "line">): string {
+    return match.line ? `${match.source}:${match.line}` : match.source;
+  }
 
-    // 转换 glob 模式为正则表达式
-    const regexPattern = this.globToRegex(normalizedPattern);
-    const regex = new RegExp(regexPattern);
+  /**
+   * 查找忽略路径的规则
+   * 与 git 相同：父目录被忽略时其中的文件无法被 ! 规则重新包含
+   */
+  private findRule(filePath: string, isDir: boolean): IgnoreRule | undefined {
+    const segments = filePath.split("/");
+    for (let i = 1; i < segments.length; i++) {
+      const rule = this.findLastMatch(segments.slice(0, i).join("/"), true);
+      if (rule && !rule.negated) {
+        return rule;
+      }
+    }
 
-    return regex.test(filePath);
+    const rule = this.findLastMatch(filePath, isDir);
+    return rule && !rule.negated ? rule : undefined;
   }
 
   /**
-   * 将 glob 模式转换为正则表达式
+   * 最后一条匹配的规则生效
    */
-  private globToRegex(pattern: string): string {
-    let regex = pattern
-      // 转义特殊字符（但保留 * 和 ?）
-      .replace(/[.+^${}()|[\]\\]/g, "\\$&")
-      // 先处理 ** 匹配任意深度的目录（使用占位符避免与单个 * 冲突）
-      .replace(/\*\*/g, "__DOUBLE_STAR__")
-      // * 匹配除路径分隔符外的任意字符
-      .replace(/\*/g, "[^/]*")
-      // 恢复 ** 为正确的正则表达式
-      .replace(/__DOUBLE_STAR__/g, ".*")
-      // ? 匹配单个字符（除路径分隔符）
-      .replace(/\?/g, "[^/]");
-
-    // 如果模式以 / 结尾，匹配目录及其所有内容
-    if (pattern.endsWith("/")) {
-      regex += ".*";
+  private findLastMatch(
+    filePath: string,
+    isDir: boolean
+  ): IgnoreRule | undefined {
+    for (let i = this.rules.length - 1; i >= 0; i--) {
+      if (GitignorePattern.matches(this.rules[i]!, filePath, isDir)) {
+        return this.rules[i];
+      }
     }
+    return undefined;
+  }
 
-    // 完整匹配
-    return `^${regex}$`;
+  /**
+   * 查找将文件标记为生成或第三方代码的 .gitattributes 规则
+   * 每个属性由最后一条匹配的规则决定
+   */
+  private findAttributeRule(filePath: string): IgnoreRule | undefined {
+    for (const attribute of IgnoreManager.SKIP_ATTRIBUTES) {
+      for (let i = this.attributeRules.length - 1; i >= 0; i--) {
+        const attributeRule = this.attributeRules[i]!;
+        if (
+          attributeRule.attribute === attribute &&
+          GitignorePattern.matches(attributeRule.rule, filePath, false)
+        ) {
+          if (attributeRule.value) {
+            return attributeRule.rule;
+          }
+          break;
+        }
+      }
+    }
+    return undefined;
   }
 
   /**
    * 获取所有忽略模式（用于调试）
    */
   public getPatterns(): string[] {
-    return [...this.patterns];
+    return this.rules.map((rule) => rule.pattern);
   }
 
   /**
-   * 添加自定义忽略模式
+   * 添加自定义忽略模式，语法与 .gitignore 相同
    */
-  public addPattern(pattern: string): void {
-    this.patterns.push(pattern);
+  public addPattern(pattern: string, source: string = "config"): void {
+    const rule = GitignorePattern.compile(pattern, source);
+    if (rule) {
+      this.rules.push(rule);
+    }
   }
 
   /**
@@ -0,0 +1,291 @@
+import { createHash } from "crypto";
+import { ReviewIssue } from "../core/types";
+import { LineMapper } from "./LineMapper";
+
+/**
+ * 问题匹配结果
+ */
+export interface IssueMatch {
+  previous: ReviewIssue;
+  current: ReviewIssue;
+  score: number;
+}
+
+/**
+ * 问题指纹
+ * 基于代码片段哈希、行号映射和文本相似度判断两次审查中的问题是否为同一问题
+ */
+export class IssueFingerprint {
+  /** 指纹代码片段取问题行上下各几行 */
+  static readonly SNIPPET_CONTEXT_LINES = 1;
+  /** 文本相似度达到该值时视为同一问题描述 */
+  static readonly TEXT_SIMILARITY_THRESHOLD = 0.6;
+  /** 依靠文本相似度匹配时允许的最大行距 */
+  static readonly MAX_LINE_DISTANCE = 20;
+
+  /**
+   * 规范化代码片段：去掉 diff 标记、空行和多余空白
+   */
+  static normalizeCode(code: string): string {
+    return code
+      .split("\n")
+      .map((line) =>
+        line
+          .replace(/^[+\- ]/, "")
+          .replace(/\s+/g, " ")
+          .trim()
+      )
+      .filter((line) => line.length > 0)
+      .join("\n");
+  }
+
+  /**
+   * 从文件内容中截取问题所在位置的代码片段
+   */
+  static extractSnippet(
+    issue: ReviewIssue,
+    fileLines: string[]
+  ): string | undefined {
+    const startLine = issue.startLine ?? issue.lineNumber;
+    const endLine = issue.endLine ?? issue.lineNumber ?? startLine;
+    if (!startLine || !endLine) {
+      return undefined;
+    }
+
+    const from = Math.max(1, startLine - this.SNIPPET_CONTEXT_LINES);
+    const to = Math.min(fileLines.length, endLine + this.SNIPPET_CONTEXT_LINES);
+    return from <= to ? fileLines.slice(from - 1, to).join("\n") : undefined;
+  }
+
+  /**
+   * 计算问题指纹（规范化代码片段的哈希）
+   * 优先使用文件内容，其次使用问题自带的 diff hunk
+   */
+  static compute(issue: ReviewIssue, fileLines?: string[]): string | undefined {
+    const snippet =
+      (fileLines && this.extractSnippet(issue, fileLines)) || issue.diffHunk;
+    if (!snippet) {
+      return undefined;
+    }
+
+    const normalized = this.normalizeCode(snippet);
+    if (!normalized) {
+      return undefined;
+    }
+
+    return createHash("sha1")
+      .update(`${issue.type}\n${normalized}`)
+      .digest("hex")
+      .substring(0, 16);
+  }
+
+  /**
+   * 为问题补充指纹，已有指纹的问题保持不变
+   */
+  static annotateIssues(
+    issues: ReviewIssue[],
+    readFileLines: (filePath: string) => string[] | undefined
+  ): ReviewIssue[] {
+    return issues.map((issue) => {
+      if (issue.fingerprint) {
+        return issue;
+      }
+
+      const filePath = this.getFilePath(issue);
+      const fingerprint = this.compute(
+        issue,
+        filePath ? readFileLines(filePath) : undefined
+      );
+      return fingerprint ? { ...issue, fingerprint } : issue;
+    });
+  }
+
+  /**
+   * 计算两段文本的相似度（字符三元组的 Dice 系数，兼容中英文）
+   */
+  static textSimilarity(text1: string, text2: string): number {
+    const normalize = (text: string) =>
+      text.toLowerCase().replace(/\s+/g, " ").trim();
+    const a = normalize(text1);
+    const b = normalize(text2);
+
+    if (a === b) {
+      return 1;
+    }
+    if (a.length < 3 || b.length < 3) {
+      return 0;
+    }
+
+    const trigrams = (text: string) => {
+      const counts = new Map<string, number>();
+      for (let i = 0; i <= text.length - 3; i++) {
+        const gram = text.substring(i, i + 3);
+        counts.set(gram, (counts.get(gram) || 0) + 1);
+      }
+      return counts;
+    };
+
+    const gramsA = trigrams(a);
+    const gramsB = trigrams(b);
+    let overlap = 0;
+    for (const [gram, count] of gramsA) {
+      overlap += Math.min(count, gramsB.get(gram) || 0);
+    }
+
+    return (2 * overlap) / (a.length - 2 + (b.length - 2));
+  }
+
+  /**
+   * 获取问题的文件路径，缺失时从 location 中解析
+   */
+  static getFilePath(issue: ReviewIssue): string | undefined {
+    if (issue.filePath) {
+      return issue.filePath;
+    }
+
+    const match = issue.location?.match(/^([^#:\s]+)(?:#L?|:)\d+/);
+    return match ? match[1] : undefined;
+  }
+
+  /**
+   * 获取问题的起始行号，缺失时从 location 中解析
+   */
+  static getLineNumber(issue: ReviewIssue): number | undefined {
+    const line = issue.lineNumber ?? issue.startLine;
+    if (line) {
+      return line;
+    }
+
+    const match = issue.location?.match(/(?:#L?|:)(\d+)/);
+    return match && match[1] ? parseInt(match[1], 10) : undefined;
+  }
+
+  /**
+   * 计算之前的问题与当前问题的匹配分数，0 表示不是同一问题
+   * 之前问题的位置会先通过 lineMapper 映射到当前提交
+   */
+  static matchScore(
+    previous: ReviewIssue,
+    current: ReviewIssue,
+    lineMapper?: LineMapper
+  ): number {
+    if (previous.type !== current.type) {
+      return 0;
+    }
+
+    const previousPath = this.getFilePath(previous);
+    const currentPath = this.getFilePath(current);
+    const mappedPath =
+      previousPath && lineMapper
+        ? lineMapper.mapPath(previousPath)
+        : previousPath;
+
+    if (!mappedPath && !currentPath) {
+      // 没有可解析的文件位置，只能比较 location 原文和文本
+      return previous.location === current.location
+        ? 2 + this.describeSimilarity(previous, current)
+        : 0;
+    }
+
+    if (mappedPath !== currentPath) {
+      return 0;
+    }
+
+    const textScore = this.describeSimilarity(previous, current);
+
+    if (previous.fingerprint && previous.fingerprint === current.fingerprint) {
+      return 3 + textScore;
+    }
+
+    const previousLine = this.getLineNumber(previous);
+    const currentLine = this.getLineNumber(current);
+    if (previousLine === undefined || currentLine === undefined) {
+      return textScore >= this.TEXT_SIMILARITY_THRESHOLD ? textScore : 0;
+    }
+
+    const mappedLine =
+      lineMapper && previousPath
+        ? lineMapper.mapLine(previousPath, previousLine)
+        : previousLine;
+    if (mappedLine === undefined) {
+      // 问题所在的行已被删除
+      return 0;
+    }
+
+    const distance = Math.abs(mappedLine - currentLine);
+    if (distance === 0) {
+      return 2 + textScore;
+    }
+
+    if (
+      distance <= this.MAX_LINE_DISTANCE &&
+      textScore >= this.TEXT_SIMILARITY_THRESHOLD
+    ) {
+      return 1 + textScore - distance / (this.MAX_LINE_DISTANCE + 1);
+    }
+
+    return 0;
+  }
+
+  /**
+   * 判断两个问题是否为同一问题
+   */
+  static isSameIssue(
+    previous: ReviewIssue,
+    current: ReviewIssue,
+    lineMapper?: LineMapper
+  ): boolean {
+    return this.matchScore(previous, current, lineMapper) > 0;
+  }
+
+  /**
+   * 在两组问题之间进行一对一匹配，分数高的配对优先
+   */
+  static matchIssues(
+    previousIssues: ReviewIssue[],
+    currentIssues: ReviewIssue[],
+    lineMapper?: LineMapper
+  ): IssueMatch[] {
+    const candidates: IssueMatch[] = [];
+    for (const previous of previousIssues) {
+      for (const current of currentIssues) {
+        const score = this.matchScore(previous, current, lineMapper);
+        if (score > 0) {
+          candidates.push({ previous, current, score });
+        }
+      }
+    }
+
+    candidates.sort((a, b) => b.score - a.score);
+
+    const matchedPrevious = new Set<ReviewIssue>();
+    const matchedCurrent = new Set<ReviewIssue>();
+    const matches: IssueMatch[] = [];
+    for (const candidate of candidates) {
+      if (
+        matchedPrevious.has(candidate.previous) ||
+        matchedCurrent.has(candidate.current)
+      ) {
+        continue;
+      }
+      matchedPrevious.add(candidate.previous);
+      matchedCurrent.add(candidate.current);
+      matches.push(candidate);
+    }
+
+    return matches;
+  }
+
+  /**
+   * 标题和描述中较高的文本相似度
+   */
+  private static describeSimilarity(
+    issue1: ReviewIssue,
+    issue2: ReviewIssue
+  ): number {
+    return Math.max(
+      this.textSimilarity(issue1.title, issue2.title),
+      this.textSimilarity(issue1.description, issue2.description)
+    );
+  }
+}
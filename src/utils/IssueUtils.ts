@@ -1,5 +1,7 @@
 import * as core from "@actions/core";
 import { ReviewIssue } from "../core/types";
+import { I18n } from "../i18n/I18n";
+import { IssueFingerprint } from "./IssueFingerprint";
 
 /**
  * 问题工具类
@@ -87,37 +89,23 @@ export class IssueUtils {
   /**
    * 获取类型名称
    */
-  static getTypeName(type: ReviewIssue["type"]): string {
-    switch (type) {
-      case "bug":
-        return "潜在 Bug";
-      case "security":
-        return "安全问题";
-      case "performance":
-        return "性能问题";
-      case "code_smell":
-        return "代码异味";
-      default:
-        return "其他问题";
-    }
+  static getTypeName(
+    type: ReviewIssue["type"],
+    language: string = I18n.DEFAULT_LANGUAGE
+  ): string {
+    const messages = I18n.getMessages(language);
+    return messages.issueTypes[type] ?? messages.otherIssueType;
   }
 
   /**
    * 获取严重程度文本
    */
-  static getSeverityText(severity: ReviewIssue["severity"]): string {
-    switch (severity) {
-      case "critical":
-        return "严重";
-      case "high":
-        return "高";
-      case "medium":
-        return "中等";
-      case "low":
-        return "轻微";
-      default:
-        return "中等";
-    }
+  static getSeverityText(
+    severity: ReviewIssue["severity"],
+    language: string = I18n.DEFAULT_LANGUAGE
+  ): string {
+    const messages = I18n.getMessages(language);
+    return messages.severities[severity] ?? messages.severities.medium;
   }
 
   /**
@@ -147,12 +135,7 @@ export class IssueUtils {
    * 检查两个问题是否相似
    */
   static areIssuesSimilar(issue1: ReviewIssue, issue2: ReviewIssue): boolean {
-    return (
-      issue1.type === issue2.type &&
-      issue1.location === issue2.location &&
-      issue1.filePath === issue2.filePath &&
-      issue1.lineNumber === issue2.lineNumber
-    );
+    return IssueFingerprint.isSameIssue(issue1, issue2);
   }
 
   /**
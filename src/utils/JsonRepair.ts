@@ -0,0 +1,156 @@
+/**
+ * JSON 修复工具类
+ * 用于恢复模型输出中常见的 JSON 格式错误
+ */
+export class JsonRepair {
+  /**
+   * 宽松修复 JSON 文本
+   * 处理尾随逗号、字符串中未转义的换行和制表符，以及被截断的输出：
+   * 截断时丢弃数组中不完整的最后一个元素并补全括号
+   */
+  static repair(text: string): string {
+    let output = "";
+    let inString = false;
+    const stack: string[] = [];
+    // 各层未闭合数组中最后一个完整元素结束的位置
+    const safePoints = new Map<number, number>();
+
+    const markSafePoint = () => {
+      if (stack[stack.length - 1] === "[") {
+        safePoints.set(stack.length, output.length);
+      }
+    };
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]!;
+
+      if (inString) {
+        if (char === "\\" && i + 1 < text.length) {
+          output += char + text[++i];
+        } else if (char === '"') {
+          output += char;
+          inString = false;
+          markSafePoint();
+        } else if (char === "\n") {
+          output += "\\n";
+        } else if (char === "\r") {
+          output += "\\r";
+        } else if (char === "\t") {
+          output += "\\t";
+        } else {
+          output += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+        output += char;
+      } else if (char === "{" || char === "[") {
+        stack.push(char);
+        output += char;
+        markSafePoint();
+      } else if (char === "}" || char === "]") {
+        output = output.replace(/,\s*$/, "");
+        safePoints.delete(stack.length);
+        stack.pop();
+        output += char;
+        markSafePoint();
+      } else if (char === "," && stack[stack.length - 1] === "[") {
+        markSafePoint();
+        output += char;
+      } else {
+        output += char;
+      }
+    }
+
+    if (stack.length === 0 && !inString) {
+      return output;
+    }
+
+    // 输出被截断：在最外层未闭合的数组中回退到最后一个完整元素，
+    // 丢弃不完整的问题而不是保留缺少字段的问题；没有未闭合数组时补全当前字符串
+    if (safePoints.size > 0) {
+      const depth = Math.min(...safePoints.keys());
+      output = output.substring(0, safePoints.get(depth));
+      stack.length = depth;
+    } else {
+      if (inString) {
+        output += '"';
+      }
+      output = output
+        .replace(/,?\s*"(?:[^"\\]|\\.)*"\s*:\s*$/, "")
+        .replace(/([{,])\s*"(?:[^"\\]|\\.)*"$/, "$1");
+    }
+
+    output = output.replace(/[,\s]*$/, "");
+    while (stack.length > 0) {
+      output += stack.pop() === "{" ? "}" : "]";
+    }
+
+    return output;
+  }
+
+  /**
+   * 从文本中提取可以解析的最大 JSON 对象
+   */
+  static extractLargestObject(text: string): string | undefined {
+    let largest: string | undefined;
+
+    for (let start = text.indexOf("{"); start !== -1; ) {
+      const end = this.findObjectEnd(text, start);
+      const candidate = end !== -1 ? text.substring(start, end + 1) : undefined;
+
+      if (candidate && this.isObject(candidate)) {
+        if (!largest || candidate.length > largest.length) {
+          largest = candidate;
+        }
+        // 嵌套在已找到对象中的对象只会更小，直接跳过
+        start = text.indexOf("{", end + 1);
+      } else {
+        start = text.indexOf("{", start + 1);
+      }
+    }
+
+    return largest;
+  }
+
+  /**
+   * 查找从 start 处的 { 开始、括号匹配的 } 位置，忽略字符串中的括号
+   */
+  private static findObjectEnd(text: string, start: number): number {
+    let depth = 0;
+    let inString = false;
+
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+      if (inString) {
+        if (char === "\\") {
+          i++;
+        } else if (char === '"') {
+          inString = false;
+        }
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === "{") {
+        depth++;
+      } else if (char === "}") {
+        depth--;
+        if (depth === 0) {
+          return i;
+        }
+      }
+    }
+
+    return -1;
+  }
+
+  private static isObject(text: string): boolean {
+    try {
+      const value = JSON.parse(text);
+      return !!value && typeof value === "object" && !Array.isArray(value);
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * 单个 hunk 的行映射信息
+ */
+interface LineMappingHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** hunk 内旧行号到新行号的映射，被删除的行映射为 undefined */
+  oldToNew: Map<number, number | undefined>;
+}
+
+/**
+ * 行号映射器
+ * 根据两个提交之间的 diff，将旧提交中的文件行号映射到新提交
+ */
+export class LineMapper {
+  private hunksByFile = new Map<string, LineMappingHunk[]>();
+  private renamedFiles = new Map<string, string>();
+
+  /**
+   * 从统一 diff 内容创建映射器
+   */
+  static fromDiff(diffContent: string): LineMapper {
+    const mapper = new LineMapper();
+    mapper.parse(diffContent);
+    return mapper;
+  }
+
+  /**
+   * 将旧文件路径映射为新文件路径（处理重命名）
+   */
+  mapPath(filePath: string): string {
+    return this.renamedFiles.get(filePath) || filePath;
+  }
+
+  /**
+   * 将旧行号映射为新行号
+   * 行被删除时返回 undefined，未出现在 diff 中的文件行号保持不变
+   */
+  mapLine(filePath: string, oldLine: number): number | undefined {
+    const hunks = this.hunksByFile.get(filePath);
+    if (!hunks) {
+      return oldLine;
+    }
+
+    let offset = 0;
+    for (const hunk of hunks) {
+      if (oldLine < hunk.oldStart) {
+        break;
+      }
+
+      if (oldLine < hunk.oldStart + hunk.oldLines) {
+        return hunk.oldToNew.get(oldLine);
+      }
+
+      offset += hunk.newLines - hunk.oldLines;
+    }
+
+    return oldLine + offset;
+  }
+
+  private parse(diffContent: string): void {
+    let oldPath: string | undefined;
+    let newPath: string | undefined;
+    let currentHunk: LineMappingHunk | undefined;
+    let oldLine = 0;
+    let newLine = 0;
+
+    for (const line of diffContent.split("\n")) {
+      const fileMatch = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+      if (fileMatch && fileMatch[1] && fileMatch[2]) {
+        oldPath = fileMatch[1];
+        newPath = fileMatch[2];
+        currentHunk = undefined;
+        if (oldPath !== newPath) {
+          this.renamedFiles.set(oldPath, newPath);
+        }
+        continue;
+      }
+
+      const hunkMatch = line.match(
+        /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/
+      );
+      if (hunkMatch && oldPath) {
+        currentHunk = {
+          oldStart: parseInt(hunkMatch[1] || "0", 10),
+          oldLines: parseInt(hunkMatch[2] ?? "1", 10),
+          newStart: parseInt(hunkMatch[3] || "0", 10),
+          newLines: parseInt(hunkMatch[4] ?? "1", 10),
+          oldToNew: new Map(),
+        };
+        // 纯新增的 hunk 中 oldStart 指向插入位置之前的行
+        if (currentHunk.oldLines === 0) {
+          currentHunk.oldStart += 1;
+        }
+        if (!this.hunksByFile.has(oldPath)) {
+          this.hunksByFile.set(oldPath, []);
+        }
+        this.hunksByFile.get(oldPath)!.push(currentHunk);
+        oldLine = currentHunk.oldStart;
+        newLine = currentHunk.newStart;
+        continue;
+      }
+
+      if (!currentHunk) {
+        continue;
+      }
+
+      // 文件头（--- / +++）出现在第一个 hunk 之前，此处无需排除
+      if (line.startsWith("-")) {
+        currentHunk.oldToNew.set(oldLine, undefined);
+        oldLine++;
+      } else if (line.startsWith("+")) {
+        newLine++;
+      } else if (line.startsWith(" ")) {
+        currentHunk.oldToNew.set(oldLine, newLine);
+        oldLine++;
+        newLine++;
+      }
+    }
+  }
+}
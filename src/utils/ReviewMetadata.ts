@@ -0,0 +1,162 @@
+import * as core from "@actions/core";
+import { createHash } from "crypto";
+import { deflateRawSync, inflateRawSync } from "zlib";
+import { ReviewIssue, ReviewResult } from "../core/types";
+
+/**
+ * 审查元数据工具类
+ * 负责在审查评论中写入和读取隐藏的机器可读标记
+ */
+export class ReviewMetadata {
+  /** GitHub 审查正文的最大长度 */
+  static readonly MAX_BODY_LENGTH = 65536;
+
+  private static readonly REVIEWED_SHA_PATTERN =
+    /<!--\s*bugment:reviewed-sha=([0-9a-f]{7,40})\s*-->/i;
+  private static readonly REVIEW_RESULT_PATTERN =
+    /<!--\s*bugment:review-result=([A-Za-z0-9+/=]+)\s*-->/;
+  private static readonly ISSUE_KEY_PATTERN =
+    /<!--\s*bugment:issue=([0-9a-z]+)\s*-->/i;
+  private static readonly SUPPRESSION_PATTERN =
+    /<!--\s*bugment:suppress=([0-9a-z]+)\s*-->/gi;
+  private static readonly PATH_SCOPE_PATTERN =
+    /<!--\s*bugment:path-scoped\s*-->/;
+
+  /**
+   * 创建记录已审查提交的隐藏标记
+   */
+  static createReviewedShaMarker(sha: string): string {
+    return `<!-- bugment:reviewed-sha=${sha} -->`;
+  }
+
+  /**
+   * 从评论正文中提取已审查的提交 SHA
+   */
+  static extractReviewedSha(body: string): string | undefined {
+    const match = body.match(this.REVIEWED_SHA_PATTERN);
+    return match ? match[1] : undefined;
+  }
+
+  /**
+   * 获取问题在行评论标记中使用的键
+   * 依次使用沿用的键、代码指纹，最后退回到审查内唯一的哈希
+   */
+  static getIssueKey(issue: ReviewIssue, reviewId: string = ""): string {
+    return (
+      issue.commentKey ||
+      issue.fingerprint ||
+      createHash("sha1")
+        .update(`${reviewId}\n${issue.id}\n${issue.location}`)
+        .digest("hex")
+        .substring(0, 16)
+    );
+  }
+
+  /**
+   * 创建标识行评论对应问题的隐藏标记
+   */
+  static createIssueMarker(issueKey: string): string {
+    return `<!-- bugment:issue=${issueKey} -->`;
+  }
+
+  /**
+   * 从行评论正文中提取问题键
+   */
+  static extractIssueKey(body: string): string | undefined {
+    const match = body.match(this.ISSUE_KEY_PATTERN);
+    return match ? match[1] : undefined;
+  }
+
+  /**
+   * 创建将问题指纹加入忽略列表的隐藏标记
+   */
+  static createSuppressionMarker(fingerprint: string): string {
+    return `<!-- bugment:suppress=${fingerprint} -->`;
+  }
+
+  /**
+   * 从评论正文中提取被忽略的问题指纹
+   */
+  static extractSuppressedFingerprints(body: string): string[] {
+    return Array.from(
+      body.matchAll(this.SUPPRESSION_PATTERN),
+      (match) => match[1]!
+    );
+  }
+
+  /**
+   * 创建标识只审查了部分路径的隐藏标记
+   */
+  static createPathScopeMarker(): string {
+    return "<!-- bugment:path-scoped -->";
+  }
+
+  /**
+   * 检查审查是否只覆盖了部分路径
+   */
+  static isPathScoped(body: string): boolean {
+    return this.PATH_SCOPE_PATTERN.test(body);
+  }
+
+  /**
+   * 创建包含压缩审查结果的隐藏块
+   * 超出长度限制时先去掉修复建议、建议代码等大字段，仍然超出则返回空字符串
+   */
+  static createReviewResultBlock(
+    reviewResult: ReviewResult,
+    maxLength: number
+  ): string {
+    const fullBlock = this.encodeReviewResult(reviewResult);
+    if (fullBlock.length <= maxLength) {
+      return fullBlock;
+    }
+
+    const compactBlock = this.encodeReviewResult({
+      ...reviewResult,
+      summary: "",
+      issues: reviewResult.issues.map(
+        ({ fixPrompt, diffHunk, suggestion, ...issue }) => issue
+      ),
+    });
+    if (compactBlock.length <= maxLength) {
+      core.info("📦 Review result block compacted to fit the review body");
+      return compactBlock;
+    }
+
+    core.warning(
+      `Review result is too large to persist (${compactBlock.length} > ${maxLength} chars), the next review will not be compared with it`
+    );
+    return "";
+  }
+
+  /**
+   * 从评论正文中恢复审查结果
+   */
+  static extractReviewResult(body: string): ReviewResult | undefined {
+    const match = body.match(this.REVIEW_RESULT_PATTERN);
+    if (!match || !match[1]) {
+      return undefined;
+    }
+
+    try {
+      const json = inflateRawSync(Buffer.from(match[1], "base64")).toString(
+        "utf-8"
+      );
+      const result = JSON.parse(json) as ReviewResult;
+      return Array.isArray(result.issues) ? result : undefined;
+    } catch (error) {
+      core.warning(`Failed to decode previous review result: ${error}`);
+      return undefined;
+    }
+  }
+
+  private static encodeReviewResult({
+    parsingStats,
+    ...reviewResult
+  }: ReviewResult): string {
+    const encoded = deflateRawSync(
+      Buffer.from(JSON.stringify(reviewResult), "utf-8")
+    ).toString("base64");
+    return `<!-- bugment:review-result=${encoded} -->`;
+  }
+}
@@ -1,11 +1,19 @@
 import * as core from "@actions/core";
+import * as fs from "fs";
+import * as path from "path";
 import {
   ReviewIssue,
   ReviewResult,
   ActionInputs,
   PullRequestInfo,
   LocationInfo,
+  ReviewBackendType,
 } from "../core/types";
+import { ReviewPolicy } from "../core/ReviewPolicy";
+import { PathRules } from "../core/PathRules";
+import { CommandRouter } from "../core/CommandRouter";
+import { FeedbackAnalyzer } from "../core/FeedbackAnalyzer";
+import { PromptBuilder } from "../services/PromptBuilder";
 
 /**
  * 验证工具类
@@ -15,10 +23,17 @@ export class ValidationUtils {
   /**
    * 验证 Action 输入
    */
-  static validateActionInputs(inputs: ActionInputs): boolean {
+  static validateActionInputs(
+    inputs: ActionInputs,
+    backend: ReviewBackendType = "augment"
+  ): boolean {
     const requiredFields = [
-      { field: inputs.augmentAccessToken, name: "Augment access token" },
-      { field: inputs.augmentTenantUrl, name: "Augment tenant URL" },
+      ...(backend === "augment"
+        ? [
+            { field: inputs.augmentAccessToken, name: "Augment access token" },
+            { field: inputs.augmentTenantUrl, name: "Augment tenant URL" },
+          ]
+        : []),
       { field: inputs.githubToken, name: "GitHub token" },
     ];
 
@@ -31,11 +46,13 @@ export class ValidationUtils {
     }
 
     // 验证 URL 格式
-    try {
-      new URL(inputs.augmentTenantUrl);
-    } catch {
-      core.error(`Invalid Augment tenant URL: ${inputs.augmentTenantUrl}`);
-      return false;
+    if (backend === "augment") {
+      try {
+        new URL(inputs.augmentTenantUrl);
+      } catch {
+        core.error(`Invalid Augment tenant URL: ${inputs.augmentTenantUrl}`);
+        return false;
+      }
     }
 
     core.info("✅ Action inputs validation passed");
@@ -259,6 +276,65 @@ export class ValidationUtils {
     return true;
   }
 
+  /**
+   * 将相对路径解析到工作区内，路径逃出工作区时返回 undefined
+   * 同时按真实路径检查，防止通过符号链接指向工作区外的文件
+   */
+  static resolveWorkspacePath(
+    workspaceDir: string,
+    filePath: string
+  ): string | undefined {
+    const absolutePath = path.resolve(workspaceDir, filePath);
+    if (!ValidationUtils.isInsideDirectory(workspaceDir, absolutePath)) {
+      return undefined;
+    }
+
+    const realWorkspaceDir = ValidationUtils.realpath(workspaceDir);
+    const realPath = ValidationUtils.realpath(absolutePath);
+    if (
+      !realWorkspaceDir ||
+      !realPath ||
+      !ValidationUtils.isInsideDirectory(realWorkspaceDir, realPath)
+    ) {
+      return undefined;
+    }
+    return absolutePath;
+  }
+
+  /**
+   * 判断 target 是否为 directory 本身或位于其中
+   */
+  private static isInsideDirectory(directory: string, target: string): boolean {
+    const relativePath = path.relative(directory, target);
+    return !(
+      relativePath === ".." ||
+      relativePath.startsWith(`..${path.sep}`) ||
+      path.isAbsolute(relativePath)
+    );
+  }
+
+  /**
+   * 解析路径的真实路径，尚不存在的部分按原样拼接到最近的已存在上级目录后
+   * 路径无法解析（如符号链接失效或指向不存在的位置）时返回 undefined
+   */
+  private static realpath(filePath: string): string | undefined {
+    const missing: string[] = [];
+    let current = filePath;
+    try {
+      while (!fs.lstatSync(current, { throwIfNoEntry: false })) {
+        const parent = path.dirname(current);
+        if (parent === current) {
+          break;
+        }
+        missing.unshift(path.basename(current));
+        current = parent;
+      }
+      return path.join(fs.realpathSync(current), ...missing);
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * 验证 diff 内容
    */
@@ -314,4 +390,380 @@ export class ValidationUtils {
 
     return true;
   }
+
+  /**
+   * 验证仓库配置（.bugment.yml）
+   * 返回形如 "ignore.patterns[2]: expected string" 的错误列表
+   */
+  static validateRepositoryConfig(raw: unknown): string[] {
+    const errors: string[] = [];
+
+    if (raw === undefined || raw === null) {
+      return errors;
+    }
+
+    if (typeof raw !== "object" || Array.isArray(raw)) {
+      return ["<root>: expected object"];
+    }
+
+    const config = raw as Record<string, any>;
+    const knownKeys = [
+      "language",
+      "severityThreshold",
+      "minConfidence",
+      "maxLineComments",
+      "snapDistance",
+      "incremental",
+      "ignore",
+      "policy",
+      "backend",
+      "chunking",
+      "onParseError",
+      "rules",
+      "prompt",
+      "sarifFile",
+      "publish",
+      "commands",
+      "feedback",
+    ];
+
+    for (const key of Object.keys(config)) {
+      if (!knownKeys.includes(key)) {
+        errors.push(
+          `${key}: unknown key (expected one of ${knownKeys.join(", ")})`
+        );
+      }
+    }
+
+    if (
+      config.language !== undefined &&
+      (typeof config.language !== "string" ||
+        !/^[a-z]{2,3}(-[A-Za-z]{2,4})?$/.test(config.language))
+    ) {
+      errors.push(`language: expected a language tag such as "en" or "zh-CN"`);
+    }
+
+    const validSeverities = ["low", "medium", "high", "critical"];
+    if (
+      config.severityThreshold !== undefined &&
+      !validSeverities.includes(config.severityThreshold)
+    ) {
+      errors.push(
+        `severityThreshold: expected one of ${validSeverities.join(", ")}`
+      );
+    }
+
+    if (
+      config.minConfidence !== undefined &&
+      (typeof config.minConfidence !== "number" ||
+        !Number.isFinite(config.minConfidence) ||
+        config.minConfidence < 0 ||
+        config.minConfidence > 1)
+    ) {
+      errors.push(`minConfidence: expected number in [0, 1]`);
+    }
+
+    if (
+      config.maxLineComments !== undefined &&
+      (!Number.isInteger(config.maxLineComments) || config.maxLineComments < 0)
+    ) {
+      errors.push(`maxLineComments: expected non-negative integer`);
+    }
+
+    if (
+      config.snapDistance !== undefined &&
+      (!Number.isInteger(config.snapDistance) || config.snapDistance < 0)
+    ) {
+      errors.push(`snapDistance: expected non-negative integer`);
+    }
+
+    if (
+      config.incremental !== undefined &&
+      typeof config.incremental !== "boolean"
+    ) {
+      errors.push(`incremental: expected boolean`);
+    }
+
+    if (config.ignore !== undefined) {
+      errors.push(...this.validateIgnoreConfig(config.ignore));
+    }
+
+    errors.push(...ReviewPolicy.validate(config.policy, "policy"));
+
+    if (config.backend !== undefined) {
+      errors.push(...this.validateBackendConfig(config.backend));
+    }
+
+    if (config.chunking !== undefined) {
+      errors.push(...this.validateChunkingConfig(config.chunking));
+    }
+
+    const parseErrorActions = ["fail", "warn"];
+    if (
+      config.onParseError !== undefined &&
+      !parseErrorActions.includes(config.onParseError)
+    ) {
+      errors.push(
+        `onParseError: expected one of ${parseErrorActions.join(", ")}`
+      );
+    }
+
+    if (
+      config.sarifFile !== undefined &&
+      (typeof config.sarifFile !== "string" || !config.sarifFile.trim())
+    ) {
+      errors.push(`sarifFile: expected non-empty string`);
+    }
+
+    const publishTargets = ["review", "check"];
+    if (config.publish !== undefined) {
+      if (!Array.isArray(config.publish) || config.publish.length === 0) {
+        errors.push(`publish: expected non-empty array`);
+      } else {
+        config.publish.forEach((target: any, index: number) => {
+          if (!publishTargets.includes(target)) {
+            errors.push(
+              `publish[${index}]: expected one of ${publishTargets.join(", ")}`
+            );
+          }
+        });
+      }
+    }
+
+    errors.push(...PathRules.validate(config.rules, "rules"));
+    errors.push(...PromptBuilder.validateConfig(config.prompt, "prompt"));
+    errors.push(...CommandRouter.validateConfig(config.commands, "commands"));
+    errors.push(
+      ...FeedbackAnalyzer.validateConfig(config.feedback, "feedback")
+    );
+
+    return errors;
+  }
+
+  /**
+   * 验证建议修改是否只改动了问题所在的行
+   * originalLines 为被替换的原始代码，before/after 为范围前后相邻的行
+   * 返回错误列表，为空表示可以作为 GitHub 建议修改发布
+   */
+  static validateSuggestion(
+    suggestion: string,
+    originalLines: string[],
+    context: { before?: string; after?: string } = {}
+  ): string[] {
+    const errors: string[] = [];
+    const suggestedLines = suggestion.split("\n");
+    const normalize = (line: string) => line.replace(/\s+/g, " ").trim();
+
+    if (
+      suggestedLines.length === originalLines.length &&
+      suggestedLines.every(
+        (line, index) => line.trimEnd() === originalLines[index]!.trimEnd()
+      )
+    ) {
+      errors.push("suggestion: does not change the code");
+      return errors;
+    }
+
+    // 模型常把范围外的相邻行一并写入建议，应用后这些行会重复
+    const firstLine = suggestedLines[0]!;
+    if (
+      context.before !== undefined &&
+      normalize(context.before) &&
+      normalize(firstLine) === normalize(context.before) &&
+      normalize(firstLine) !== normalize(originalLines[0] || "")
+    ) {
+      errors.push("suggestion: repeats the line before the range");
+    }
+
+    const lastLine = suggestedLines[suggestedLines.length - 1]!;
+    if (
+      context.after !== undefined &&
+      normalize(context.after) &&
+      normalize(lastLine) === normalize(context.after) &&
+      normalize(lastLine) !==
+        normalize(originalLines[originalLines.length - 1] || "")
+    ) {
+      errors.push("suggestion: repeats the line after the range");
+    }
+
+    // 内容相同但空白不同的行说明建议顺带重排了无关代码
+    const n = originalLines.length;
+    const m = suggestedLines.length;
+    const lcs: number[][] = Array.from({ length: n + 1 }, () =>
+      new Array<number>(m + 1).fill(0)
+    );
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i]![j] =
+          normalize(originalLines[i]!) === normalize(suggestedLines[j]!)
+            ? lcs[i + 1]![j + 1]! + 1
+            : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+      }
+    }
+    for (let i = 0, j = 0; i < n && j < m; ) {
+      const original = originalLines[i]!;
+      const suggested = suggestedLines[j]!;
+      if (normalize(original) === normalize(suggested)) {
+        if (normalize(original) && original.trimEnd() !== suggested.trimEnd()) {
+          errors.push(
+            `suggestion: changes only whitespace on line ${i + 1} of the range`
+          );
+        }
+        i++;
+        j++;
+      } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * 验证审查后端配置
+   */
+  private static validateBackendConfig(backend: any): string[] {
+    if (!backend || typeof backend !== "object" || Array.isArray(backend)) {
+      return ["backend: expected object"];
+    }
+
+    const errors: string[] = [];
+    const knownKeys = [
+      "type",
+      "baseUrl",
+      "model",
+      "timeoutSeconds",
+      "idleTimeoutSeconds",
+    ];
+
+    for (const key of Object.keys(backend)) {
+      if (!knownKeys.includes(key)) {
+        errors.push(`backend.${key}: unknown key`);
+      }
+    }
+
+    const types = ["augment", "openai"];
+    if (backend.type !== undefined && !types.includes(backend.type)) {
+      errors.push(`backend.type: expected one of ${types.join(", ")}`);
+    }
+
+    if (backend.baseUrl !== undefined) {
+      let valid = typeof backend.baseUrl === "string";
+      try {
+        valid = valid && /^https?:$/.test(new URL(backend.baseUrl).protocol);
+      } catch {
+        valid = false;
+      }
+      if (!valid) {
+        errors.push(`backend.baseUrl: expected http(s) URL`);
+      }
+    }
+
+    if (
+      backend.model !== undefined &&
+      (typeof backend.model !== "string" || !backend.model.trim())
+    ) {
+      errors.push(`backend.model: expected non-empty string`);
+    }
+
+    if (
+      backend.timeoutSeconds !== undefined &&
+      (typeof backend.timeoutSeconds !== "number" ||
+        !(backend.timeoutSeconds > 0))
+    ) {
+      errors.push(`backend.timeoutSeconds: expected positive number`);
+    }
+
+    if (
+      backend.idleTimeoutSeconds !== undefined &&
+      (typeof backend.idleTimeoutSeconds !== "number" ||
+        !(backend.idleTimeoutSeconds > 0))
+    ) {
+      errors.push(`backend.idleTimeoutSeconds: expected positive number`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * 验证分块审查配置
+   */
+  private static validateChunkingConfig(chunking: any): string[] {
+    if (!chunking || typeof chunking !== "object" || Array.isArray(chunking)) {
+      return ["chunking: expected object"];
+    }
+
+    const errors: string[] = [];
+    const knownKeys = ["maxTokens", "concurrency"];
+
+    for (const key of Object.keys(chunking)) {
+      if (!knownKeys.includes(key)) {
+        errors.push(`chunking.${key}: unknown key`);
+      }
+    }
+
+    if (
+      chunking.maxTokens !== undefined &&
+      (!Number.isInteger(chunking.maxTokens) || chunking.maxTokens < 0)
+    ) {
+      errors.push(`chunking.maxTokens: expected non-negative integer`);
+    }
+
+    if (
+      chunking.concurrency !== undefined &&
+      (!Number.isInteger(chunking.concurrency) || chunking.concurrency < 1)
+    ) {
+      errors.push(`chunking.concurrency: expected positive integer`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * 验证忽略配置
+   */
+  private static validateIgnoreConfig(ignore: any): string[] {
+    if (!ignore || typeof ignore !== "object" || Array.isArray(ignore)) {
+      return ["ignore: expected object"];
+    }
+
+    const errors: string[] = [];
+    const knownKeys = ["useDefaults", "patterns", "gitattributes"];
+
+    for (const key of Object.keys(ignore)) {
+      if (!knownKeys.includes(key)) {
+        errors.push(`ignore.${key}: unknown key`);
+      }
+    }
+
+    if (
+      ignore.useDefaults !== undefined &&
+      typeof ignore.useDefaults !== "boolean"
+    ) {
+      errors.push(`ignore.useDefaults: expected boolean`);
+    }
+
+    if (
+      ignore.gitattributes !== undefined &&
+      typeof ignore.gitattributes !== "boolean"
+    ) {
+      errors.push(`ignore.gitattributes: expected boolean`);
+    }
+
+    if (ignore.patterns !== undefined) {
+      if (!Array.isArray(ignore.patterns)) {
+        errors.push(`ignore.patterns: expected array`);
+      } else {
+        ignore.patterns.forEach((pattern: any, index: number) => {
+          if (typeof pattern !== "string" || !pattern.trim()) {
+            errors.push(`ignore.patterns[${index}]: expected non-empty string`);
+          }
+        });
+      }
+    }
+
+    return errors;
+  }
 }
@@ -8,3 +8,9 @@ export * from "./FormatUtils";
 export * from "./IgnoreManager";
 export * from "./IssueUtils";
 export * from "./LocationUtils";
+export * from "./ConfigLoader";
+export * from "./ReviewMetadata";
+export * from "./IssueFingerprint";
+export * from "./LineMapper";
+export * from "./JsonRepair";
+export * from "./GitignorePattern";
@@ -0,0 +1,167 @@
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+jest.mock("@actions/core", () => ({
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn(),
+}));
+jest.mock("../../src/services/AugmentClient", () => ({
+  AugmentIPCClient: jest.fn(),
+}));
+
+import { parseCliArgs } from "../../src/cli";
+import { GitService } from "../../src/services/GitService";
+
+describe("parseCliArgs", () => {
+  it("applies defaults for the review command", () => {
+    const options = parseCliArgs(["review"]);
+
+    expect(options).toEqual({
+      base: "main",
+      head: "HEAD",
+      cwd: process.cwd(),
+      format: "text",
+      output: undefined,
+      configFile: undefined,
+      overrides: {},
+      keepDiff: false,
+      updateBaseline: false,
+      quiet: false,
+    });
+  });
+
+  it("maps flags to options and config overrides", () => {
+    const options = parseCliArgs([
+      "review",
+      "--base",
+      "develop",
+      "--head",
+      "feature",
+      "--format",
+      "json",
+      "--output",
+      "review.json",
+      "--backend",
+      "openai",
+      "--language",
+      "en",
+      "--fail-on",
+      "any_issue",
+      "--update-baseline",
+      "--quiet",
+    ]);
+
+    expect(options).toMatchObject({
+      base: "develop",
+      head: "feature",
+      format: "json",
+      output: "review.json",
+      updateBaseline: true,
+      quiet: true,
+      overrides: {
+        language: "en",
+        backend: { type: "openai" },
+        policy: { failOn: "any_issue" },
+      },
+    });
+  });
+
+  it("returns usage for --help or a missing command", () => {
+    expect(parseCliArgs(["--help"])).toHaveProperty("usage");
+    expect(parseCliArgs([])).toHaveProperty("usage");
+  });
+
+  it("accepts the sarif format", () => {
+    expect(parseCliArgs(["review", "--format", "sarif"])).toMatchObject({
+      format: "sarif",
+    });
+  });
+
+  it("rejects unknown formats and invalid overrides", () => {
+    expect(() => parseCliArgs(["review", "--format", "html"])).toThrow(
+      "Unknown output format: html"
+    );
+    expect(() => parseCliArgs(["review", "--fail-on", "always"])).toThrow(
+      /Invalid options/
+    );
+    expect(() => parseCliArgs(["review", "--backend", "claude"])).toThrow(
+      /backend\.type: expected one of augment, openai/
+    );
+    expect(() => parseCliArgs(["review", "--unknown"])).toThrow();
+  });
+});
+
+describe("GitService.resolveLocalPullRequestInfo", () => {
+  let repoDir: string;
+
+  const git = (...args: string[]) =>
+    execFileSync("git", args, { cwd: repoDir, encoding: "utf-8" }).trim();
+
+  const commit = (file: string, message: string) => {
+    fs.writeFileSync(path.join(repoDir, file), `${message}\n`);
+    git("add", file);
+    git("commit", "-q", "-m", message);
+  };
+
+  beforeEach(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), "bugment-cli-"));
+    git("init", "-q", "-b", "main");
+    git("config", "user.email", "test@example.com");
+    git("config", "user.name", "Test");
+    commit("a.txt", "Initial commit");
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it("builds PR info from the commits between base and head", async () => {
+    const baseSha = git("rev-parse", "HEAD");
+    git("checkout", "-q", "-b", "feature");
+    commit("b.txt", "Add b");
+    commit("c.txt", "Add c");
+    git("remote", "add", "origin", "git@github.com:octo/widgets.git");
+
+    const prInfo = await GitService.resolveLocalPullRequestInfo(
+      repoDir,
+      "main",
+      "HEAD"
+    );
+
+    expect(prInfo).toEqual({
+      number: 0,
+      title: "feature (2 commits)",
+      body: "- Add b\n- Add c",
+      baseSha,
+      headSha: git("rev-parse", "HEAD"),
+      owner: "octo",
+      repo: "widgets",
+      baseBranch: "main",
+      author: "Test",
+    });
+  });
+
+  it("uses the commit subject and directory name for a single local commit", async () => {
+    git("checkout", "-q", "-b", "feature");
+    commit("b.txt", "Fix parser");
+
+    const prInfo = await GitService.resolveLocalPullRequestInfo(
+      repoDir,
+      "main",
+      "feature"
+    );
+
+    expect(prInfo.title).toBe("Fix parser");
+    expect(prInfo.owner).toBe("local");
+    expect(prInfo.repo).toBe(path.basename(repoDir));
+  });
+
+  it("fails when head has no commits beyond base", async () => {
+    await expect(
+      GitService.resolveLocalPullRequestInfo(repoDir, "main", "HEAD")
+    ).rejects.toThrow("No commits between main and HEAD");
+  });
+});
@@ -0,0 +1,146 @@
+import { CommandRouter } from "../../../src/core/CommandRouter";
+import { CommandComment } from "../../../src/core/types";
+
+jest.mock("@actions/core", () => ({
+  info: jest.fn(),
+  warning: jest.fn(),
+}));
+
+describe("CommandRouter", () => {
+  const createComment = (
+    overrides: Partial<CommandComment> = {}
+  ): CommandComment => ({
+    id: 1,
+    kind: "issue",
+    body: "/bugment review",
+    author: "octocat",
+    authorAssociation: "MEMBER",
+    pullNumber: 42,
+    ...overrides,
+  });
+
+  const createHandlers = () => ({
+    review: jest.fn().mockResolvedValue(undefined),
+    explain: jest.fn().mockResolvedValue(undefined),
+    ignore: jest.fn().mockResolvedValue(undefined),
+    help: jest.fn().mockResolvedValue(undefined),
+  });
+
+  describe("parse", () => {
+    test("should parse the command name and arguments", () => {
+      expect(CommandRouter.parse("/bugment review src/foo lib/")).toEqual({
+        name: "review",
+        args: ["src/foo", "lib/"],
+      });
+      expect(CommandRouter.parse("/Bugment EXPLAIN why?")).toEqual({
+        name: "explain",
+        args: ["why?"],
+      });
+    });
+
+    test("should use the first command line in the comment", () => {
+      expect(
+        CommandRouter.parse(
+          "Looks intentional.\n  /bugment ignore\n/bugment review"
+        )
+      ).toEqual({ name: "ignore", args: [] });
+    });
+
+    test("should skip quoted lines and code blocks", () => {
+      expect(
+        CommandRouter.parse("> /bugment review\n```\n/bugment ignore\n```")
+      ).toBeUndefined();
+    });
+
+    test("should map unknown or missing commands to help", () => {
+      expect(CommandRouter.parse("/bugment deploy now")).toEqual({
+        name: "help",
+        args: [],
+      });
+      expect(CommandRouter.parse("/bugment")).toEqual({
+        name: "help",
+        args: [],
+      });
+    });
+
+    test("should not treat other prefixes as commands", () => {
+      expect(CommandRouter.parse("/bugmentreview")).toBeUndefined();
+      expect(CommandRouter.parse("see /bugment review")).toBeUndefined();
+    });
+  });
+
+  describe("route", () => {
+    test("should run the handler for an authorized author", async () => {
+      const handlers = createHandlers();
+      const comment = createComment({ body: "/bugment review src/foo" });
+
+      await expect(
+        new CommandRouter({}, handlers).route(comment)
+      ).resolves.toBe("handled");
+      expect(handlers.review).toHaveBeenCalledWith(
+        { name: "review", args: ["src/foo"] },
+        comment
+      );
+    });
+
+    test("should refuse authors outside the allowed associations", async () => {
+      const handlers = createHandlers();
+
+      await expect(
+        new CommandRouter({}, handlers).route(
+          createComment({ authorAssociation: "CONTRIBUTOR" })
+        )
+      ).resolves.toBe("unauthorized");
+      expect(handlers.review).not.toHaveBeenCalled();
+    });
+
+    test("should use the configured associations", async () => {
+      const router = new CommandRouter(
+        { allowedAssociations: ["OWNER", "CONTRIBUTOR"] },
+        createHandlers()
+      );
+
+      expect(router.isAuthorized("CONTRIBUTOR")).toBe(true);
+      expect(router.isAuthorized("MEMBER")).toBe(false);
+    });
+
+    test("should ignore comments without a command", async () => {
+      const handlers = createHandlers();
+
+      await expect(
+        new CommandRouter({}, handlers).route(
+          createComment({ body: "LGTM", authorAssociation: "NONE" })
+        )
+      ).resolves.toBe("none");
+      expect(handlers.help).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("validateConfig", () => {
+    test("should accept valid associations", () => {
+      expect(
+        CommandRouter.validateConfig(
+          { allowedAssociations: ["OWNER", "FIRST_TIME_CONTRIBUTOR"] },
+          "commands"
+        )
+      ).toEqual([]);
+    });
+
+    test("should report unknown keys and associations", () => {
+      expect(
+        CommandRouter.validateConfig(
+          { allowedAssociations: ["owner"], review: true },
+          "commands"
+        )
+      ).toEqual([
+        "commands.review: unknown key",
+        expect.stringMatching(
+          /^commands\.allowedAssociations\[0\]: expected one of/
+        ),
+      ]);
+      expect(CommandRouter.validateConfig([], "commands")).toEqual([
+        "commands: expected object",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import { FeedbackAnalyzer } from "../../../src/core/FeedbackAnalyzer";
+import {
+  IssueFeedback,
+  LineCommentFeedback,
+  ReviewIssue,
+  ReviewResult,
+} from "../../../src/core/types";
+
+jest.mock("@actions/core", () => ({
+  info: jest.fn(),
+  warning: jest.fn(),
+}));
+
+describe("FeedbackAnalyzer", () => {
+  const createComment = (
+    overrides: Partial<LineCommentFeedback> = {}
+  ): LineCommentFeedback => ({
+    pullNumber: 7,
+    commentId: 1,
+    issueKey: "0123456789abcdef",
+    path: "src/app.ts",
+    positive: 0,
+    negative: 0,
+    replies: 0,
+    ignored: false,
+    ...overrides,
+  });
+
+  const createFeedback = (
+    overrides: Partial<IssueFeedback> = {}
+  ): IssueFeedback => ({
+    ...createComment(),
+    verdict: "unrated",
+    ...overrides,
+  });
+
+  const issue: ReviewIssue = {
+    id: "issue-1",
+    type: "security",
+    severity: "high",
+    confidence: 0.85,
+    title: "SQL injection",
+    description: "Query built from input",
+    location: "src/app.ts#L3",
+    filePath: "src/app.ts",
+    lineNumber: 3,
+    fingerprint: "0123456789abcdef",
+  };
+
+  const reviewResult: ReviewResult = {
+    reviewId: "review-1",
+    timestamp: "2024-01-01T00:00:00Z",
+    commitSha: "abc123",
+    summary: "",
+    issues: [issue],
+    totalIssues: 1,
+  };
+
+  describe("getVerdict", () => {
+    test("should compare 👍 and 👎 reactions", () => {
+      expect(FeedbackAnalyzer.getVerdict(createComment({ positive: 2 }))).toBe(
+        "useful"
+      );
+      expect(
+        FeedbackAnalyzer.getVerdict(createComment({ positive: 1, negative: 2 }))
+      ).toBe("not_useful");
+      expect(
+        FeedbackAnalyzer.getVerdict(createComment({ positive: 1, negative: 1 }))
+      ).toBe("unrated");
+    });
+
+    test("should treat /bugment ignore as not useful", () => {
+      expect(
+        FeedbackAnalyzer.getVerdict(
+          createComment({ positive: 3, ignored: true })
+        )
+      ).toBe("not_useful");
+    });
+  });
+
+  describe("linkIssues", () => {
+    test("should attach the issue type, severity and confidence", () => {
+      const [linked, unknown] = FeedbackAnalyzer.linkIssues(
+        [
+          createComment({ positive: 1 }),
+          createComment({ commentId: 2, issueKey: "fedcba9876543210" }),
+        ],
+        [reviewResult]
+      );
+
+      expect(linked).toMatchObject({
+        verdict: "useful",
+        type: "security",
+        severity: "high",
+        confidence: 0.85,
+      });
+      expect(unknown).toMatchObject({ verdict: "unrated", type: undefined });
+    });
+  });
+
+  describe("createReport", () => {
+    test("should compute precision per group", () => {
+      const report = FeedbackAnalyzer.createReport(
+        [
+          createFeedback({
+            verdict: "useful",
+            type: "security",
+            severity: "high",
+            confidence: 0.95,
+            replies: 1,
+          }),
+          createFeedback({
+            verdict: "not_useful",
+            type: "code_smell",
+            severity: "low",
+            confidence: 0.55,
+            path: "docs/README",
+          }),
+          createFeedback({
+            verdict: "useful",
+            type: "bug",
+            severity: "high",
+            confidence: 1,
+          }),
+          createFeedback({ verdict: "unrated", path: "lib/util.ts" }),
+        ],
+        "octo/repo",
+        [7, 8]
+      );
+
+      expect(report.repository).toBe("octo/repo");
+      expect(report.pullRequests).toEqual([7, 8]);
+      expect(report.total).toEqual({
+        comments: 4,
+        useful: 2,
+        notUseful: 1,
+        unrated: 1,
+        replies: 1,
+        precision: 0.667,
+      });
+      expect(Object.keys(report.byType)).toEqual([
+        "bug",
+        "security",
+        "code_smell",
+        "unknown",
+      ]);
+      expect(report.bySeverity.high?.precision).toBe(1);
+      expect(report.bySeverity.low?.precision).toBe(0);
+      expect(Object.keys(report.byConfidence)).toEqual([
+        "0.9-1.0",
+        "0.5-0.6",
+        "unknown",
+      ]);
+      expect(report.byConfidence["0.9-1.0"]?.comments).toBe(2);
+      expect(report.byConfidence.unknown?.precision).toBeNull();
+      expect(Object.keys(report.byFilePattern)).toEqual(["*.ts", "README"]);
+      expect(report.byFilePattern["*.ts"]?.comments).toBe(3);
+      expect(report.comments).toHaveLength(4);
+    });
+  });
+
+  describe("getConfidenceBucket", () => {
+    test("should use 0.1 wide buckets", () => {
+      expect(FeedbackAnalyzer.getConfidenceBucket(0.7)).toBe("0.7-0.8");
+      expect(FeedbackAnalyzer.getConfidenceBucket(0.69)).toBe("0.6-0.7");
+      expect(FeedbackAnalyzer.getConfidenceBucket(0)).toBe("0.0-0.1");
+      expect(FeedbackAnalyzer.getConfidenceBucket(1)).toBe("0.9-1.0");
+      expect(FeedbackAnalyzer.getConfidenceBucket(undefined)).toBeUndefined();
+    });
+  });
+
+  describe("getFilePattern", () => {
+    test("should use the extension or the file name", () => {
+      expect(FeedbackAnalyzer.getFilePattern("src/a/b.test.ts")).toBe("*.ts");
+      expect(FeedbackAnalyzer.getFilePattern("Dockerfile")).toBe("Dockerfile");
+      expect(FeedbackAnalyzer.getFilePattern("config/.env")).toBe(".env");
+    });
+  });
+
+  describe("validateConfig", () => {
+    test("should report unknown keys and invalid values", () => {
+      expect(
+        FeedbackAnalyzer.validateConfig(
+          { file: "feedback.json", pullRequests: 0, days: 7 },
+          "feedback"
+        )
+      ).toEqual([
+        "feedback.days: unknown key",
+        "feedback.pullRequests: expected integer from 1 to 100",
+      ]);
+      expect(FeedbackAnalyzer.validateConfig("yes", "feedback")).toEqual([
+        "feedback: expected object",
+      ]);
+    });
+  });
+});
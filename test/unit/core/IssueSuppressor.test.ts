@@ -0,0 +1,263 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { IssueSuppressor } from "../../../src/core/IssueSuppressor";
+import { ReviewIssue, ReviewResult } from "../../../src/core/types";
+import { IssueFingerprint } from "../../../src/utils/IssueFingerprint";
+
+jest.mock("@actions/core", () => ({
+  info: jest.fn(),
+  warning: jest.fn(),
+}));
+
+describe("IssueSuppressor", () => {
+  const files: Record<string, string[]> = {
+    "src/db.ts": [
+      "const query = build(input);",
+      "// bugment-ignore-next-line security -- input is validated upstream",
+      "db.run(`SELECT * FROM t WHERE id = ${id}`);",
+      "const total = items.reduce(sum); // bugment-ignore-line",
+      "return total;",
+    ],
+    "src/legacy.ts": [
+      "/* bugment-disable-file performance, code_smell */",
+      "for (const a of list) for (const b of list) compare(a, b);",
+    ],
+  };
+  const readFileLines = (filePath: string) => files[filePath];
+
+  const createIssue = (overrides: Partial<ReviewIssue>): ReviewIssue => ({
+    id: "issue-1",
+    type: "security",
+    severity: "high",
+    title: "Issue",
+    description: "Description",
+    location: "",
+    filePath: "src/db.ts",
+    lineNumber: 3,
+    ...overrides,
+  });
+
+  const createResult = (issues: ReviewIssue[]): ReviewResult => ({
+    reviewId: "review-1",
+    timestamp: "2024-01-01T00:00:00Z",
+    commitSha: "abc123",
+    summary: "",
+    issues,
+    totalIssues: issues.length,
+  });
+
+  describe("parseDirectives", () => {
+    test("should parse directives with optional issue types", () => {
+      expect(IssueSuppressor.parseDirectives(files["src/db.ts"]!)).toEqual([
+        { kind: "ignore-next-line", line: 2, types: ["security"] },
+        { kind: "ignore-line", line: 4, types: [] },
+      ]);
+      expect(IssueSuppressor.parseDirectives(files["src/legacy.ts"]!)).toEqual([
+        { kind: "disable-file", line: 1, types: ["performance", "code_smell"] },
+      ]);
+    });
+
+    test("should stop reading types at the first other token", () => {
+      expect(
+        IssueSuppressor.parseDirectives(["# bugment-ignore-line bug because"])
+      ).toEqual([{ kind: "ignore-line", line: 1, types: ["bug"] }]);
+      expect(
+        IssueSuppressor.parseDirectives(["# bugment-ignore-line reason: bug"])
+      ).toEqual([{ kind: "ignore-line", line: 1, types: [] }]);
+    });
+  });
+
+  describe("apply", () => {
+    test("should remove issues covered by inline directives", () => {
+      const result = new IssueSuppressor(readFileLines).apply(
+        createResult([
+          createIssue({ id: "next-line" }),
+          createIssue({ id: "other-type", type: "bug" }),
+          createIssue({ id: "same-line", type: "bug", lineNumber: 4 }),
+          createIssue({ id: "uncovered", lineNumber: 5 }),
+          createIssue({
+            id: "file",
+            type: "performance",
+            filePath: "src/legacy.ts",
+            lineNumber: 2,
+          }),
+          createIssue({
+            id: "file-other-type",
+            type: "bug",
+            filePath: "src/legacy.ts",
+            lineNumber: 2,
+          }),
+        ])
+      );
+
+      expect(result.issues.map((issue) => issue.id)).toEqual([
+        "other-type",
+        "uncovered",
+        "file-other-type",
+      ]);
+      expect(result.totalIssues).toBe(3);
+      expect(result.suppressedCount).toBe(3);
+    });
+
+    test("should only apply file directives to deleted lines", () => {
+      const result = new IssueSuppressor(readFileLines).apply(
+        createResult([
+          createIssue({ id: "left", side: "LEFT" }),
+          createIssue({
+            id: "left-file",
+            type: "code_smell",
+            side: "LEFT",
+            filePath: "src/legacy.ts",
+          }),
+        ])
+      );
+
+      expect(result.issues.map((issue) => issue.id)).toEqual(["left"]);
+    });
+
+    test("should fall back to diff lines when the file cannot be read", () => {
+      const suppressor = new IssueSuppressor(() => undefined);
+      suppressor.addDiff({
+        files: new Map([
+          [
+            "src/gone.ts",
+            [
+              {
+                filePath: "src/gone.ts",
+                oldStart: 10,
+                oldLines: 2,
+                newStart: 10,
+                newLines: 2,
+                lines: [
+                  " keep();",
+                  "-removed();",
+                  "+// bugment-ignore-next-line",
+                  "+risky();",
+                ],
+              },
+            ],
+          ],
+        ]),
+      });
+
+      const result = suppressor.apply(
+        createResult([createIssue({ filePath: "src/gone.ts", lineNumber: 12 })])
+      );
+
+      expect(result.issues).toEqual([]);
+      expect(result.suppressedCount).toBe(1);
+    });
+
+    test("should remove baseline issues and annotate the rest with fingerprints", () => {
+      const accepted = createIssue({ id: "accepted", lineNumber: 5 });
+      const fingerprint = IssueFingerprint.compute(
+        accepted,
+        files["src/db.ts"]
+      )!;
+
+      const result = new IssueSuppressor(readFileLines, [fingerprint]).apply({
+        ...createResult([
+          accepted,
+          createIssue({ id: "kept", type: "bug", lineNumber: 1 }),
+        ]),
+        suppressedCount: 2,
+      });
+
+      expect(result.issues).toEqual([
+        expect.objectContaining({
+          id: "kept",
+          fingerprint: expect.stringMatching(/^[0-9a-f]{16}$/),
+        }),
+      ]);
+      expect(result.suppressedCount).toBe(3);
+    });
+
+    test("should keep the result when nothing is suppressed", () => {
+      const result = new IssueSuppressor(readFileLines).apply(
+        createResult([createIssue({ lineNumber: 5 })])
+      );
+
+      expect(result.totalIssues).toBe(1);
+      expect(result.suppressedCount).toBeUndefined();
+    });
+  });
+
+  describe("baseline", () => {
+    let workspaceDir: string;
+
+    beforeEach(() => {
+      workspaceDir = fs.mkdtempSync(
+        path.join(os.tmpdir(), "bugment-baseline-")
+      );
+    });
+
+    afterEach(() => {
+      fs.rmSync(workspaceDir, { recursive: true, force: true });
+    });
+
+    test("should return an empty baseline when the file does not exist", () => {
+      expect(IssueSuppressor.loadBaseline(workspaceDir)).toEqual({
+        version: 1,
+        issues: [],
+      });
+    });
+
+    test("should load the committed baseline", () => {
+      fs.mkdirSync(path.join(workspaceDir, ".bugment"));
+      fs.writeFileSync(
+        path.join(workspaceDir, IssueSuppressor.BASELINE_FILE),
+        JSON.stringify({
+          version: 1,
+          issues: [{ fingerprint: "0123456789abcdef", title: "Accepted" }],
+        })
+      );
+
+      expect(
+        IssueSuppressor.loadBaseline(workspaceDir).issues.map(
+          (entry) => entry.fingerprint
+        )
+      ).toEqual(["0123456789abcdef"]);
+    });
+
+    test("should reject invalid baselines", () => {
+      expect(() => IssueSuppressor.parseBaseline("{")).toThrow(
+        /^Failed to parse \.bugment\/baseline\.json/
+      );
+      expect(() =>
+        IssueSuppressor.parseBaseline(
+          JSON.stringify({
+            version: 2,
+            issues: [{ fingerprint: "" }, { fingerprint: "a", type: "style" }],
+          })
+        )
+      ).toThrow(
+        "Invalid baseline in .bugment/baseline.json:\n- version: expected 1\n- issues[0].fingerprint: expected non-empty string\n- issues[1].type: expected one of bug, code_smell, security, performance"
+      );
+    });
+
+    test("should add new fingerprinted issues to the baseline", () => {
+      const baseline = IssueSuppressor.updateBaseline(
+        { version: 1, issues: [{ fingerprint: "aaaa" }] },
+        [
+          createIssue({ fingerprint: "aaaa" }),
+          createIssue({ fingerprint: "bbbb", title: "New" }),
+          createIssue({ id: "no-fingerprint" }),
+        ]
+      );
+
+      expect(baseline).toEqual({
+        version: 1,
+        issues: [
+          { fingerprint: "aaaa" },
+          {
+            fingerprint: "bbbb",
+            type: "security",
+            title: "New",
+            filePath: "src/db.ts",
+          },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { PathRules } from "../../../src/core/PathRules";
+import { PathRule, ReviewIssue, ReviewResult } from "../../../src/core/types";
+
+jest.mock("@actions/core", () => ({
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn(),
+}));
+
+describe("PathRules", () => {
+  const rules: PathRule[] = [
+    {
+      name: "payments",
+      paths: ["src/payments/**"],
+      mode: "strict",
+      focus: ["security"],
+    },
+    {
+      paths: ["**/*.test.ts", "!src/payments/critical.test.ts"],
+      maxSeverity: "medium",
+      mode: "lenient",
+    },
+    {
+      paths: ["migrations/"],
+      checklist: ["迁移必须可以回滚", "大表变更需要分批执行"],
+    },
+    {
+      paths: ["migrations/legacy/**"],
+      checklist: ["不要修改已发布的迁移"],
+    },
+  ];
+
+  const createIssue = (overrides: Partial<ReviewIssue>): ReviewIssue => ({
+    id: "issue-1",
+    type: "bug",
+    severity: "high",
+    title: "Issue",
+    description: "Description",
+    location: "",
+    filePath: "src/index.ts",
+    lineNumber: 1,
+    ...overrides,
+  });
+
+  const createResult = (issues: ReviewIssue[]): ReviewResult => ({
+    reviewId: "review-1",
+    timestamp: "2024-01-01T00:00:00Z",
+    commitSha: "abc123",
+    summary: "",
+    issues,
+    totalIssues: issues.length,
+  });
+
+  describe("resolve", () => {
+    test("should return undefined when no rule matches", () => {
+      expect(new PathRules(rules).resolve("src/index.ts")).toBeUndefined();
+    });
+
+    test("should merge matching rules with later rules taking precedence", () => {
+      const resolved = new PathRules(rules).resolve(
+        "src/payments/card.test.ts"
+      );
+
+      expect(resolved).toEqual({
+        names: ["payments", "**/*.test.ts, !src/payments/critical.test.ts"],
+        mode: "lenient",
+        focus: ["security"],
+        maxSeverity: "medium",
+        checklist: [],
+      });
+    });
+
+    test("should honor negated patterns within a rule", () => {
+      const resolved = new PathRules(rules).resolve(
+        "src/payments/critical.test.ts"
+      );
+
+      expect(resolved?.names).toEqual(["payments"]);
+      expect(resolved?.maxSeverity).toBeUndefined();
+    });
+
+    test("should match files inside matched directories and concatenate checklists", () => {
+      const pathRules = new PathRules(rules);
+
+      expect(pathRules.resolve("migrations/001_init.sql")?.checklist).toEqual([
+        "迁移必须可以回滚",
+        "大表变更需要分批执行",
+      ]);
+      expect(
+        pathRules.resolve("./migrations/legacy/000_seed.sql")?.checklist
+      ).toEqual([
+        "迁移必须可以回滚",
+        "大表变更需要分批执行",
+        "不要修改已发布的迁移",
+      ]);
+    });
+  });
+
+  describe("apply", () => {
+    test("should drop issues outside the focus and clamp severities", () => {
+      const result = new PathRules(rules).apply(
+        createResult([
+          createIssue({ id: "a", filePath: "src/payments/charge.ts" }),
+          createIssue({
+            id: "b",
+            type: "security",
+            severity: "critical",
+            filePath: "src/payments/charge.ts",
+          }),
+          createIssue({ id: "c", filePath: "src/utils.test.ts" }),
+          createIssue({ id: "d", severity: "low", filePath: "src/a.test.ts" }),
+          createIssue({ id: "e", filePath: "src/index.ts" }),
+          createIssue({ id: "f", filePath: undefined }),
+        ])
+      );
+
+      expect(result.issues.map((issue) => [issue.id, issue.severity])).toEqual([
+        ["b", "critical"],
+        ["c", "medium"],
+        ["d", "low"],
+        ["e", "high"],
+        ["f", "high"],
+      ]);
+      expect(result.totalIssues).toBe(5);
+    });
+
+    test("should return the result unchanged without rules", () => {
+      const reviewResult = createResult([createIssue({})]);
+
+      expect(new PathRules().apply(reviewResult)).toBe(reviewResult);
+    });
+  });
+
+  describe("formatPromptSection", () => {
+    test("should describe every rule", () => {
+      const section = new PathRules(rules).formatPromptSection();
+
+      expect(section).toContain("## 路径规则");
+      expect(section).toContain("### payments：`src/payments/**`");
+      expect(section).toContain("- 审查模式：严格审查（权重1.0）");
+      expect(section).toContain("- 仅报告以下类型的问题：security");
+      expect(section).toContain(
+        "### 规则 2：`**/*.test.ts`, `!src/payments/critical.test.ts`"
+      );
+      expect(section).toContain("- 严重程度最高为 medium");
+      expect(section).toContain("  - 迁移必须可以回滚");
+    });
+
+    test("should only include rules matching the given files", () => {
+      const section = new PathRules(rules).formatPromptSection([
+        "migrations/002_users.sql",
+      ]);
+
+      expect(section).toContain("迁移必须可以回滚");
+      expect(section).not.toContain("payments");
+      expect(section).not.toContain("*.test.ts");
+    });
+
+    test("should return an empty string without matching rules", () => {
+      expect(new PathRules().formatPromptSection()).toBe("");
+      expect(new PathRules(rules).formatPromptSection(["src/index.ts"])).toBe(
+        ""
+      );
+    });
+  });
+
+  describe("validate", () => {
+    test("should accept valid rules", () => {
+      expect(PathRules.validate(rules, "rules")).toEqual([]);
+      expect(PathRules.validate(undefined, "rules")).toEqual([]);
+    });
+
+    test("should report invalid rules with their paths", () => {
+      expect(
+        PathRules.validate(
+          [
+            "src/**",
+            {
+              paths: ["src/**", "# comment", 1],
+              focus: ["style"],
+              maxSeverity: "urgent",
+              checklist: "check this",
+              weight: 0.5,
+            },
+          ],
+          "rules"
+        )
+      ).toEqual([
+        "rules[0]: expected object",
+        "rules[1].weight: unknown key",
+        "rules[1].paths[1]: expected path pattern",
+        "rules[1].paths[2]: expected path pattern",
+        "rules[1].focus[0]: expected one of bug, code_smell, security, performance",
+        "rules[1].maxSeverity: expected one of low, medium, high, critical",
+        "rules[1].checklist: expected array",
+      ]);
+      expect(PathRules.validate({}, "rules")).toEqual([
+        "rules: expected array",
+      ]);
+    });
+  });
+});
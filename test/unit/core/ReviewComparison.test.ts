@@ -364,4 +364,60 @@ describe("Bugment Review System", () => {
       expect(comparison.fixedIssues[1]?.title).toBe("Code Smell");
     });
   });
+  describe("Fingerprint Based Comparison", () => {
+    const previousIssue: ReviewIssue = {
+      id: "bug_1",
+      type: "bug",
+      severity: "high",
+      title: "Null pointer risk",
+      description: "Potential null pointer exception",
+      location: "src/utils.ts#L45",
+      filePath: "src/utils.ts",
+      lineNumber: 45,
+      fingerprint: "0123456789abcdef",
+    };
+
+    const createReview = (issues: ReviewIssue[]): ReviewResult => ({
+      reviewId: "review",
+      timestamp: "2023-01-01T00:00:00Z",
+      commitSha: "sha",
+      summary: "",
+      issues,
+      totalIssues: issues.length,
+    });
+
+    it("should keep shifted and reworded issues persistent", () => {
+      const currentIssue: ReviewIssue = {
+        ...previousIssue,
+        title: "Possible null dereference",
+        location: "src/utils.ts#L52",
+        lineNumber: 52,
+      };
+
+      const comparison = compareReviews(createReview([currentIssue]), [
+        createReview([previousIssue]),
+      ]);
+
+      expect(comparison.persistentCount).toBe(1);
+      expect(comparison.newCount).toBe(0);
+      expect(comparison.fixedCount).toBe(0);
+    });
+
+    it("should report changed descriptions as modified", () => {
+      const currentIssue: ReviewIssue = {
+        ...previousIssue,
+        description: "Potential null pointer exception when cache is empty",
+      };
+
+      const comparison = compareReviews(createReview([currentIssue]), [
+        createReview([previousIssue]),
+      ]);
+
+      expect(comparison.modifiedIssues).toEqual([
+        { previous: previousIssue, current: currentIssue },
+      ]);
+      expect(comparison.newCount).toBe(0);
+      expect(comparison.fixedCount).toBe(0);
+    });
+  });
 });
@@ -0,0 +1,182 @@
+import { ReviewPolicy } from "../../../src/core/ReviewPolicy";
+import {
+  ReviewComparison,
+  ReviewIssue,
+  ReviewResult,
+} from "../../../src/core/types";
+
+describe("ReviewPolicy", () => {
+  const securityIssue: ReviewIssue = {
+    id: "security_1",
+    type: "security",
+    severity: "medium",
+    confidence: 0.8,
+    title: "SQL injection",
+    description: "User input is concatenated into SQL",
+    location: "db.ts#L10",
+    filePath: "db.ts",
+    lineNumber: 10,
+  };
+
+  const smellIssue: ReviewIssue = {
+    id: "code_smell_1",
+    type: "code_smell",
+    severity: "high",
+    confidence: 0.9,
+    title: "Huge function",
+    description: "Function is too long",
+    location: "util.ts#L1",
+    filePath: "util.ts",
+    lineNumber: 1,
+  };
+
+  const createResult = (issues: ReviewIssue[]): ReviewResult => ({
+    reviewId: "review-1",
+    timestamp: "2024-01-01T00:00:00Z",
+    commitSha: "abc",
+    summary: "",
+    issues,
+    totalIssues: issues.length,
+  });
+
+  describe("default policy", () => {
+    test("should request changes for high severity issues", () => {
+      const decision = new ReviewPolicy().evaluate(createResult([smellIssue]));
+
+      expect(decision.event).toBe("REQUEST_CHANGES");
+      expect(decision.blockingIssues).toEqual([smellIssue]);
+      expect(decision.shouldFail).toBe(false);
+    });
+
+    test("should comment when there are no issues", () => {
+      const decision = new ReviewPolicy().evaluate(createResult([]));
+
+      expect(decision.event).toBe("COMMENT");
+    });
+  });
+
+  describe("rules", () => {
+    const policy = ReviewPolicy.fromObject({
+      approveWhenClean: true,
+      failOn: "request_changes",
+      rules: [
+        {
+          name: "security",
+          match: { types: ["security"], minConfidence: 0.7 },
+          action: "block",
+        },
+        { match: { types: ["code_smell"] }, action: "allow" },
+      ],
+    });
+
+    test("should not approve a review whose result could not be parsed", () => {
+      const decision = policy.evaluate({
+        ...createResult([]),
+        parseError: "Unexpected end of JSON input",
+      });
+
+      expect(decision.event).toBe("COMMENT");
+      expect(decision.reasons).toContain(
+        "review result could not be parsed completely"
+      );
+    });
+
+    test("should block security issues above the confidence threshold", () => {
+      const decision = policy.evaluate(createResult([securityIssue]));
+
+      expect(decision.event).toBe("REQUEST_CHANGES");
+      expect(decision.shouldFail).toBe(true);
+      expect(decision.reasons[0]).toContain('rule "security"');
+    });
+
+    test("should not block security issues below the confidence threshold", () => {
+      const decision = policy.evaluate(
+        createResult([{ ...securityIssue, confidence: 0.5 }])
+      );
+
+      expect(decision.event).toBe("COMMENT");
+      expect(decision.shouldFail).toBe(false);
+    });
+
+    test("should never block code smells even when severity is high", () => {
+      const decision = policy.evaluate(createResult([smellIssue]));
+
+      expect(decision.event).toBe("COMMENT");
+      expect(decision.blockingIssues).toHaveLength(0);
+    });
+
+    test("should approve when there are no issues", () => {
+      const decision = policy.evaluate(createResult([]));
+
+      expect(decision.event).toBe("APPROVE");
+    });
+  });
+
+  describe("comparison aware rules", () => {
+    test("should only block new issues when onlyNew is set", () => {
+      const policy = ReviewPolicy.fromObject({
+        blockOnSeverity: "none",
+        rules: [
+          { match: { onlyNew: true, minSeverity: "high" }, action: "block" },
+        ],
+      });
+      const result = createResult([smellIssue]);
+      const comparison: ReviewComparison = {
+        newIssues: [],
+        fixedIssues: [],
+        persistentIssues: [smellIssue],
+        modifiedIssues: [],
+        fixedCount: 0,
+        newCount: 0,
+        persistentCount: 1,
+      };
+
+      expect(policy.evaluate(result, comparison).event).toBe("COMMENT");
+      expect(policy.evaluate(result).event).toBe("REQUEST_CHANGES");
+    });
+  });
+
+  describe("failOn", () => {
+    test("should fail on any issue when failOn is any_issue", () => {
+      const policy = new ReviewPolicy({
+        failOn: "any_issue",
+        blockOnSeverity: "none",
+      });
+
+      const decision = policy.evaluate(createResult([securityIssue]));
+      expect(decision.event).toBe("COMMENT");
+      expect(decision.shouldFail).toBe(true);
+    });
+  });
+
+  describe("validation", () => {
+    test("should report precise errors for invalid rules", () => {
+      const errors = ReviewPolicy.validate(
+        {
+          failOn: "sometimes",
+          rules: [
+            { match: { types: ["typo"], minConfidence: 2 }, action: "deny" },
+          ],
+          extra: true,
+        },
+        "policy"
+      );
+
+      expect(errors).toEqual(
+        expect.arrayContaining([
+          "policy.extra: unknown key",
+          "policy.failOn: expected one of never, request_changes, any_issue",
+          "policy.rules[0].action: expected one of block, allow",
+          "policy.rules[0].match.types[0]: expected one of bug, code_smell, security, performance",
+          "policy.rules[0].match.minConfidence: expected number in [0, 1]",
+        ])
+      );
+    });
+
+    test("should throw when creating a policy from invalid config", () => {
+      expect(() =>
+        ReviewPolicy.fromObject({ approveWhenClean: "yes" })
+      ).toThrow("policy.approveWhenClean: expected boolean");
+    });
+  });
+});
@@ -102,6 +102,257 @@ describe("ReviewWorkflow", () => {
     });
   });
 
+  describe("assignCommentKeys", () => {
+    test("should reuse the previous key for matched issues", () => {
+      const previousIssue: ReviewIssue = {
+        ...mockIssue1,
+        commentKey: "previouskey",
+      };
+      const currentIssue: ReviewIssue = { ...mockIssue1 };
+      const newIssue: ReviewIssue = { ...mockIssue2, fingerprint: "feedbeef" };
+      const review: ReviewResult = {
+        ...mockCurrentReview,
+        issues: [currentIssue, newIssue],
+      };
+      const comparison: ReviewComparison = {
+        newIssues: [newIssue],
+        fixedIssues: [],
+        persistentIssues: [currentIssue],
+        modifiedIssues: [],
+        matchedIssues: [{ previous: previousIssue, current: currentIssue }],
+        fixedCount: 0,
+        newCount: 1,
+        persistentCount: 1,
+      };
+
+      ReviewWorkflow.assignCommentKeys(review, comparison);
+
+      expect(currentIssue.commentKey).toBe("previouskey");
+      expect(newIssue.commentKey).toBe("feedbeef");
+    });
+
+    test("should generate distinct keys for issues without fingerprints", () => {
+      const review: ReviewResult = {
+        ...mockCurrentReview,
+        issues: [{ ...mockIssue1 }, { ...mockIssue2 }],
+      };
+
+      ReviewWorkflow.assignCommentKeys(
+        review,
+        ReviewWorkflow.compareReviews(review, [])
+      );
+
+      const [first, second] = review.issues;
+      expect(first?.commentKey).toMatch(/^[0-9a-f]{16}$/);
+      expect(first?.commentKey).not.toBe(second?.commentKey);
+    });
+  });
+
+  describe("carryOverIssues", () => {
+    test("should carry over previous issues from files that were not reviewed", () => {
+      const currentReview: ReviewResult = {
+        ...mockCurrentReview,
+        issues: [mockIssue1],
+        totalIssues: 1,
+      };
+      const previousReview: ReviewResult = {
+        ...mockCurrentReview,
+        reviewId: "review-122",
+      };
+
+      const result = ReviewWorkflow.carryOverIssues(
+        currentReview,
+        previousReview,
+        ["test.ts"]
+      );
+
+      expect(result.issues).toEqual([mockIssue1, mockIssue2]);
+      expect(result.totalIssues).toBe(2);
+    });
+
+    test("should return the current review when there is no previous review", () => {
+      expect(
+        ReviewWorkflow.carryOverIssues(mockCurrentReview, undefined, [])
+      ).toBe(mockCurrentReview);
+    });
+  });
+
+  describe("suppressIssues", () => {
+    test("should drop issues whose fingerprint is ignored", () => {
+      const result = ReviewWorkflow.suppressIssues(
+        {
+          ...mockCurrentReview,
+          issues: [
+            { ...mockIssue1, fingerprint: "aaaa1111" },
+            { ...mockIssue2, fingerprint: "bbbb2222" },
+          ],
+        },
+        new Set(["aaaa1111"])
+      );
+
+      expect(result.issues.map((issue) => issue.id)).toEqual(["issue-2"]);
+      expect(result.totalIssues).toBe(1);
+      expect(result.suppressedCount).toBe(1);
+    });
+
+    test("should add to the issues already suppressed", () => {
+      const result = ReviewWorkflow.suppressIssues(
+        {
+          ...mockCurrentReview,
+          issues: [{ ...mockIssue1, fingerprint: "aaaa1111" }],
+          suppressedCount: 2,
+        },
+        new Set(["aaaa1111"])
+      );
+
+      expect(result.suppressedCount).toBe(3);
+    });
+
+    test("should keep issues without a fingerprint", () => {
+      const result = ReviewWorkflow.suppressIssues(
+        mockCurrentReview,
+        new Set(["aaaa1111"])
+      );
+
+      expect(result.issues).toEqual([mockIssue1, mockIssue2]);
+    });
+  });
+
+  describe("findIssueByKey", () => {
+    test("should find issues by comment key or fingerprint, newest review first", () => {
+      const latest: ReviewResult = {
+        ...mockCurrentReview,
+        issues: [{ ...mockIssue1, commentKey: "key1", fingerprint: "fp1" }],
+      };
+      const older: ReviewResult = {
+        ...mockCurrentReview,
+        reviewId: "review-122",
+        issues: [
+          { ...mockIssue1, id: "old", commentKey: "key1" },
+          { ...mockIssue2, fingerprint: "fp2" },
+        ],
+      };
+
+      expect(ReviewWorkflow.findIssueByKey([latest, older], "key1")?.id).toBe(
+        "issue-1"
+      );
+      expect(ReviewWorkflow.findIssueByKey([latest, older], "fp2")?.id).toBe(
+        "issue-2"
+      );
+      expect(
+        ReviewWorkflow.findIssueByKey([latest, older], "missing")
+      ).toBeUndefined();
+    });
+  });
+
+  describe("mergeResults", () => {
+    test("should merge chunk results, removing duplicates and renumbering summaries", () => {
+      const chunk1: ReviewResult = {
+        ...mockCurrentReview,
+        summary: "- 1️⃣ Auth changes look risky\n- 2️⃣ Tests are missing",
+        issues: [mockIssue1],
+        totalIssues: 1,
+      };
+      const chunk2: ReviewResult = {
+        ...mockCurrentReview,
+        reviewId: "review-124",
+        summary: "- 1️⃣ Tests are missing\n- 2️⃣ Parser is fine",
+        issues: [
+          { ...mockIssue1, id: "issue-1", severity: "critical" },
+          { ...mockIssue2, id: "issue-1" },
+        ],
+        totalIssues: 2,
+      };
+
+      const result = ReviewWorkflow.mergeResults([chunk1, chunk2]);
+
+      expect(result.reviewId).toBe("review-123");
+      expect(result.summary).toBe(
+        "- 1️⃣ Auth changes look risky\n- 2️⃣ Tests are missing\n- 3️⃣ Parser is fine"
+      );
+      expect(result.totalIssues).toBe(2);
+      expect(result.issues[0]).toMatchObject({
+        title: "Test Bug",
+        severity: "critical",
+      });
+      expect(result.issues[1]).toMatchObject({
+        id: "issue-1_2",
+        title: "Security Issue",
+      });
+    });
+
+    test("should merge parsing stats from every chunk", () => {
+      const stats = {
+        isValidJson: true,
+        hasIssues: true,
+        hasSummary: true,
+        estimatedIssueCount: 2,
+        schemaErrors: [],
+        droppedIssues: [],
+      };
+      const dropped = {
+        index: 1,
+        chunk: 2,
+        reasons: ["issues[1].title: missing required field"],
+      };
+
+      const result = ReviewWorkflow.mergeResults([
+        {
+          ...mockCurrentReview,
+          parsingStats: { ...stats, parseMethod: "strict" },
+        },
+        {
+          ...mockCurrentReview,
+          parsingStats: {
+            ...stats,
+            parseMethod: "lenient",
+            schemaErrors: [
+              "chunk 2/2: issues[1].title: missing required field",
+            ],
+            droppedIssues: [dropped],
+          },
+        },
+      ]);
+
+      expect(result.parsingStats).toEqual({
+        ...stats,
+        parseMethod: "lenient",
+        estimatedIssueCount: 4,
+        schemaErrors: ["chunk 2/2: issues[1].title: missing required field"],
+        droppedIssues: [dropped],
+      });
+    });
+
+    test("should sum the suppressed issues of every chunk", () => {
+      const result = ReviewWorkflow.mergeResults([
+        { ...mockCurrentReview, suppressedCount: 1 },
+        mockCurrentReview,
+        { ...mockCurrentReview, suppressedCount: 2 },
+      ]);
+
+      expect(result.suppressedCount).toBe(3);
+    });
+
+    test("should return a single result unchanged", () => {
+      expect(ReviewWorkflow.mergeResults([mockCurrentReview])).toBe(
+        mockCurrentReview
+      );
+    });
+  });
+
+  describe("filterIssues", () => {
+    test("should apply path rules before the severity threshold", () => {
+      const result = ReviewWorkflow.filterIssues(mockCurrentReview, {
+        severityThreshold: "high",
+        minConfidence: 0,
+        rules: [{ paths: ["test.ts"], maxSeverity: "medium" }],
+      });
+
+      expect(result.issues).toEqual([mockIssue2]);
+      expect(result.totalIssues).toBe(1);
+    });
+  });
+
   describe("determineReviewEvent", () => {
     test("should return REQUEST_CHANGES for critical issues", () => {
       const reviewWithCritical: ReviewResult = {
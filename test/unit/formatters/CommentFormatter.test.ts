@@ -4,6 +4,7 @@ import {
   ReviewComparison,
   ReviewIssue,
 } from "../../../src/core/types";
+import { ReviewMetadata } from "../../../src/utils/ReviewMetadata";
 
 describe("CommentFormatter", () => {
   let formatter: CommentFormatter;
@@ -67,6 +68,24 @@ describe("CommentFormatter", () => {
       expect(comment).toContain("未发现任何问题");
     });
 
+    test("should warn instead of praising when the result could not be parsed", () => {
+      const comment = formatter.formatMainReviewComment(
+        {
+          ...mockReviewResult,
+          issues: [],
+          totalIssues: 0,
+          parseError: "Unexpected token `}`",
+        },
+        { mode: "full", baseSha: "1111111aaaa", headSha: "2222222bbbb" }
+      );
+
+      expect(comment).toContain("审查结果解析失败");
+      expect(comment).toContain("错误：`Unexpected token '}'`");
+      expect(comment).not.toContain("优秀的工作");
+      expect(comment).not.toContain("bugment:reviewed-sha");
+      expect(ReviewMetadata.extractReviewResult(comment)).toBeUndefined();
+    });
+
     test("should not include status changes (feature removed)", () => {
       const comment = formatter.formatMainReviewComment(mockReviewResult);
 
@@ -74,6 +93,202 @@ describe("CommentFormatter", () => {
       expect(comment).not.toContain("个问题已修复");
       expect(comment).not.toContain("个问题仍需关注");
     });
+
+    test("should include the review scope and reviewed SHA marker", () => {
+      const comment = formatter.formatMainReviewComment(mockReviewResult, {
+        mode: "incremental",
+        baseSha: "1111111aaaa",
+        headSha: "2222222bbbb",
+      });
+
+      expect(comment).toContain("增量审查 `1111111..2222222`");
+      expect(comment).toContain("<!-- bugment:reviewed-sha=2222222bbbb -->");
+    });
+
+    test("should list fixed, new, persistent and modified issues", () => {
+      const fixedIssue: ReviewIssue = {
+        ...mockIssue,
+        id: "issue-0",
+        title: "Old Bug",
+        location: "old.ts:1",
+      };
+      const comment = formatter.formatMainReviewComment(
+        mockReviewResult,
+        undefined,
+        {
+          ...mockComparison,
+          fixedIssues: [fixedIssue],
+          fixedCount: 1,
+          modifiedIssues: [{ previous: mockIssue, current: mockIssue }],
+        }
+      );
+
+      expect(comment).toContain("与上次审查对比");
+      expect(comment).toContain("✅ 已修复 (1 个)");
+      expect(comment).toContain("Old Bug - `old.ts:1`");
+      expect(comment).toContain("🆕 新问题 (1 个)");
+      expect(comment).toContain("✏️ 描述已更新 (1 个)");
+      expect(comment).not.toContain("♻️ 仍存在");
+    });
+
+    test("should persist the review result in a hidden block", () => {
+      const comment = formatter.formatMainReviewComment(mockReviewResult);
+
+      expect(ReviewMetadata.extractReviewResult(comment)).toEqual(
+        mockReviewResult
+      );
+    });
+
+    test("should show how many issues were suppressed", () => {
+      const comment = formatter.formatMainReviewComment({
+        ...mockReviewResult,
+        suppressedCount: 2,
+      });
+
+      expect(comment).toContain("🔕 已抑制 2 个问题");
+      expect(formatter.formatMainReviewComment(mockReviewResult)).not.toContain(
+        "🔕"
+      );
+    });
+
+    test("should describe path-scoped reviews without a reviewed SHA marker", () => {
+      const comment = formatter.formatMainReviewComment(mockReviewResult, {
+        mode: "full",
+        baseSha: "1111111aaaa",
+        headSha: "2222222bbbb",
+        paths: ["src/foo", "*.ts"],
+      });
+
+      expect(comment).toContain("**审查路径:** `src/foo`, `*.ts`");
+      expect(ReviewMetadata.isPathScoped(comment)).toBe(true);
+      expect(ReviewMetadata.extractReviewedSha(comment)).toBeUndefined();
+    });
+
+    test("should describe full reviews", () => {
+      const comment = formatter.formatMainReviewComment(mockReviewResult, {
+        mode: "full",
+        baseSha: "1111111aaaa",
+        headSha: "2222222bbbb",
+      });
+
+      expect(comment).toContain("完整审查 `1111111..2222222`");
+    });
+
+    test("should list issues outside the diff", () => {
+      const outsideIssue: ReviewIssue = {
+        ...mockIssue,
+        id: "issue-2",
+        title: "Unlocated Bug",
+        location: "",
+        filePath: undefined,
+        lineNumber: undefined,
+      };
+
+      const comment = formatter.formatMainReviewComment(
+        mockReviewResult,
+        undefined,
+        undefined,
+        [outsideIssue]
+      );
+
+      expect(comment).toContain("### 📍 Diff 范围外的问题");
+      expect(comment).toContain("以下 1 个问题");
+      expect(comment).toContain("#### 1. Unlocated Bug");
+      expect(comment).toContain("Fix this by doing X");
+    });
+
+    test("should omit the outside diff section when every issue is inline", () => {
+      const comment = formatter.formatMainReviewComment(mockReviewResult);
+
+      expect(comment).not.toContain("Diff 范围外的问题");
+    });
+
+    test("should list skipped files with the matching rule", () => {
+      const comment = formatter.formatMainReviewComment(
+        mockReviewResult,
+        undefined,
+        undefined,
+        [],
+        [
+          {
+            filePath: "package-lock.json",
+            pattern: "package-lock.json",
+            source: "default",
+          },
+          {
+            filePath: "web/schema.gen.ts",
+            pattern: "*.gen.ts",
+            source: "web/.bugmentignore",
+            line: 3,
+          },
+        ]
+      );
+
+      expect(comment).toContain("<summary>🚫 已跳过 2 个文件</summary>");
+      expect(comment).toContain(
+        "| `package-lock.json` | `package-lock.json` | 默认规则 |"
+      );
+      expect(comment).toContain(
+        "| `web/schema.gen.ts` | `*.gen.ts` | `web/.bugmentignore:3` |"
+      );
+    });
+
+    test("should cap the skipped files table", () => {
+      const skippedFiles = Array.from(
+        { length: CommentFormatter.MAX_SKIPPED_FILES + 5 },
+        (_, index) => ({
+          filePath: `dist/file-${index}.js`,
+          pattern: "dist/",
+          source: "default",
+        })
+      );
+
+      const comment = formatter.formatMainReviewComment(
+        mockReviewResult,
+        undefined,
+        undefined,
+        [],
+        skippedFiles
+      );
+
+      expect(comment).toContain("<summary>🚫 已跳过 105 个文件</summary>");
+      expect(comment).toContain("| `dist/file-99.js` |");
+      expect(comment).not.toContain("| `dist/file-100.js` |");
+      expect(comment).toContain("……以及另外 5 个文件");
+    });
+
+    test("should keep the comment body within GitHub's size limit", () => {
+      const longIssues: ReviewIssue[] = Array.from(
+        { length: 2000 },
+        (_, index) => ({
+          ...mockIssue,
+          id: `issue-${index}`,
+          filePath: `src/${"nested/".repeat(20)}file-${index}.ts`,
+        })
+      );
+
+      const comment = formatter.formatMainReviewComment(
+        { ...mockReviewResult, issues: longIssues, totalIssues: 2000 },
+        { mode: "full", baseSha: "base123", headSha: "head123" },
+        undefined,
+        longIssues
+      );
+
+      expect(comment.length).toBeLessThanOrEqual(
+        ReviewMetadata.MAX_BODY_LENGTH
+      );
+      expect(comment).toContain("已被截断");
+      expect(comment).toContain("Powered by [Bugment AI Code Review]");
+      expect(comment).toContain(
+        ReviewMetadata.createReviewedShaMarker("head123")
+      );
+    });
+
+    test("should omit the skipped files section when nothing was ignored", () => {
+      const comment = formatter.formatMainReviewComment(mockReviewResult);
+
+      expect(comment).not.toContain("已跳过");
+    });
   });
 
   describe("formatLineComment", () => {
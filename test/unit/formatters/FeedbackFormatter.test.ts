@@ -0,0 +1,76 @@
+import { FeedbackFormatter } from "../../../src/formatters/FeedbackFormatter";
+import { FeedbackAnalyzer } from "../../../src/core/FeedbackAnalyzer";
+import { IssueFeedback } from "../../../src/core/types";
+
+describe("FeedbackFormatter", () => {
+  const createFeedback = (
+    overrides: Partial<IssueFeedback> = {}
+  ): IssueFeedback => ({
+    pullNumber: 7,
+    commentId: 1,
+    issueKey: "0123456789abcdef",
+    path: "src/app.ts",
+    positive: 0,
+    negative: 0,
+    replies: 0,
+    ignored: false,
+    verdict: "unrated",
+    ...overrides,
+  });
+
+  const report = FeedbackAnalyzer.createReport(
+    [
+      createFeedback({
+        verdict: "useful",
+        type: "security",
+        severity: "high",
+        confidence: 0.9,
+        replies: 2,
+      }),
+      createFeedback({
+        verdict: "not_useful",
+        type: "code_smell",
+        severity: "low",
+        confidence: 0.6,
+      }),
+      createFeedback({ path: "Makefile" }),
+    ],
+    "octo/repo",
+    [7]
+  );
+
+  it("summarizes precision with a table per dimension", () => {
+    const output = new FeedbackFormatter("en").format(report);
+
+    expect(output).toContain("## Bugment feedback report");
+    expect(output).toContain("Covers 1 pull request.");
+    expect(output).toContain("Precision **50%** (2 of 3 line comments rated)");
+    expect(output).toContain("### By issue type");
+    expect(output).toContain(
+      "| 🔒 Security issue | 1 | 1 | 0 | 0 | 2 | 100% |"
+    );
+    expect(output).toContain("| 🟢 Low | 1 | 0 | 1 | 0 | 0 | 0% |");
+    expect(output).toContain("| 0.9-1.0 | 1 | 1 | 0 | 0 | 2 | 100% |");
+    expect(output).toContain("| Unknown | 1 | 0 | 0 | 1 | 0 | - |");
+    expect(output).toContain("| `*.ts` | 2 | 1 | 1 | 0 | 2 | 50% |");
+    expect(output).toContain("| `Makefile` | 1 | 0 | 0 | 1 | 0 | - |");
+  });
+
+  it("uses the configured language", () => {
+    const output = new FeedbackFormatter().format(report);
+
+    expect(output).toContain("## Bugment 反馈报告");
+    expect(output).toContain("| 未知 |");
+  });
+
+  it("explains when no comment has been rated", () => {
+    const output = new FeedbackFormatter("en").format(
+      FeedbackAnalyzer.createReport([createFeedback()], "octo/repo", [7])
+    );
+
+    expect(output).toContain(
+      "No line comment has received a 👍/👎 reaction yet."
+    );
+    expect(output).not.toContain("###");
+  });
+});
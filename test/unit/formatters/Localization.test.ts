@@ -0,0 +1,206 @@
+import { CommentFormatter } from "../../../src/formatters/CommentFormatter";
+import { ReviewFormatter } from "../../../src/formatters/ReviewFormatter";
+import { TerminalFormatter } from "../../../src/formatters/TerminalFormatter";
+import { DiffPositionIndex } from "../../../src/parsers/DiffPositionIndex";
+import {
+  IgnoreMatch,
+  ParsedDiff,
+  ReviewComparison,
+  ReviewIssue,
+  ReviewResult,
+  ReviewScope,
+} from "../../../src/core/types";
+import { ComparisonUtils } from "../../../src/utils/ComparisonUtils";
+
+jest.mock("@actions/core", () => ({
+  info: jest.fn(),
+  warning: jest.fn(),
+  debug: jest.fn(),
+}));
+
+const bug: ReviewIssue = {
+  id: "bug_1",
+  type: "bug",
+  severity: "high",
+  title: "Null dereference",
+  description: "user may be undefined here",
+  location: "src/user.ts:3",
+  filePath: "src/user.ts",
+  lineNumber: 3,
+  confidence: 0.9,
+  fixPrompt: "Check user before use",
+  suggestion: "  return user?.name;",
+  startLine: 3,
+  endLine: 3,
+};
+
+const security: ReviewIssue = {
+  id: "security_1",
+  type: "security",
+  severity: "critical",
+  title: "Hard-coded secret",
+  description: "The token is committed to the repository",
+  location: "src/user.ts:1",
+  filePath: "src/user.ts",
+  lineNumber: 1,
+};
+
+const outside: ReviewIssue = {
+  id: "code_smell_1",
+  type: "code_smell",
+  severity: "low",
+  title: "Long function",
+  description: "Consider splitting this function",
+  location: "src/legacy.ts:120-140",
+  filePath: "src/legacy.ts",
+  lineNumber: 120,
+  startLine: 120,
+  endLine: 140,
+};
+
+const result: ReviewResult = {
+  reviewId: "review-1",
+  timestamp: "2024-01-01T00:00:00Z",
+  commitSha: "head",
+  summary: "",
+  issues: [bug, security],
+  totalIssues: 2,
+};
+
+const emptyResult: ReviewResult = { ...result, issues: [], totalIssues: 0 };
+
+const scope: ReviewScope = {
+  mode: "incremental",
+  baseSha: "1111111aaaaaaa",
+  headSha: "2222222bbbbbbb",
+};
+
+const comparison: ReviewComparison = {
+  newIssues: [security],
+  fixedIssues: [outside],
+  persistentIssues: [bug],
+  modifiedIssues: [],
+  fixedCount: 1,
+  newCount: 1,
+  persistentCount: 1,
+};
+
+const skippedFiles: IgnoreMatch[] = [
+  {
+    filePath: "package-lock.json",
+    pattern: "package-lock.json",
+    source: "default",
+  },
+  {
+    filePath: "dist/index.js",
+    pattern: "dist/",
+    source: ".bugmentignore",
+    line: 2,
+  },
+];
+
+const diff: ParsedDiff = {
+  files: new Map([
+    [
+      "src/user.ts",
+      [
+        {
+          filePath: "src/user.ts",
+          oldStart: 1,
+          oldLines: 3,
+          newStart: 1,
+          newLines: 4,
+          lines: [
+            " const token = 'x';",
+            " function name(user) {",
+            "-  return user.name;",
+            "+  return user.name;",
+            "+}",
+          ],
+        },
+      ],
+    ],
+  ]),
+};
+
+describe.each(["zh-CN", "en", "ja"])("Localization (%s)", (language) => {
+  it("formats the main review comment", () => {
+    const formatter = new CommentFormatter(language);
+    expect(
+      formatter.formatMainReviewComment(
+        result,
+        scope,
+        comparison,
+        [outside],
+        skippedFiles
+      )
+    ).toMatchSnapshot();
+  });
+
+  it("formats the clean and parse error comments", () => {
+    const formatter = new CommentFormatter(language);
+    expect(formatter.formatMainReviewComment(emptyResult)).toMatchSnapshot();
+    expect(
+      formatter.formatMainReviewComment({
+        ...emptyResult,
+        parseError: "Unexpected token",
+      })
+    ).toMatchSnapshot();
+  });
+
+  it("formats the issue statistics", () => {
+    expect(
+      new CommentFormatter(language).formatOriginalReviewContent(result)
+    ).toMatchSnapshot();
+  });
+
+  it("formats line comments", () => {
+    const formatter = new ReviewFormatter(language);
+    const { valid } = formatter.createLineComments(
+      { ...result, issues: [bug, { ...security, lineNumber: 6 }] },
+      new DiffPositionIndex(diff),
+      0,
+      5
+    );
+    expect(valid.map((comment) => comment.body)).toMatchSnapshot();
+  });
+
+  it("formats the review and comparison summaries", () => {
+    const formatter = new ReviewFormatter(language);
+    expect({
+      review: formatter.formatReviewSummary(result),
+      clean: formatter.formatReviewSummary(emptyResult),
+      comparison: formatter.formatComparisonSummary(comparison),
+      unchanged: formatter.formatComparisonSummary({
+        ...comparison,
+        fixedCount: 0,
+        newCount: 0,
+        persistentCount: 0,
+      }),
+      comparisonUtils: ComparisonUtils.getComparisonSummary(
+        comparison,
+        language
+      ),
+    }).toMatchSnapshot();
+  });
+
+  it("formats terminal output", () => {
+    const formatter = new TerminalFormatter(false, language);
+    expect(
+      formatter.format(
+        {
+          ...result,
+          issues: [
+            bug,
+            security,
+            { ...outside, filePath: undefined, location: "" },
+          ],
+        },
+        scope
+      )
+    ).toMatchSnapshot();
+    expect(
+      formatter.format({ ...emptyResult, parseError: "Unexpected token" })
+    ).toMatchSnapshot();
+  });
+});
@@ -0,0 +1,205 @@
+import { ReviewFormatter } from "../../../src/formatters/ReviewFormatter";
+import { DiffParser } from "../../../src/parsers/DiffParser";
+import { DiffPositionIndex } from "../../../src/parsers/DiffPositionIndex";
+import { ReviewIssue, ReviewResult } from "../../../src/core/types";
+
+jest.mock("@actions/core", () => ({
+  info: jest.fn(),
+  warning: jest.fn(),
+}));
+
+const sampleDiff = `diff --git a/src/test.ts b/src/test.ts
+index 1234567..abcdefg 100644
+--- a/src/test.ts
++++ b/src/test.ts
+@@ -1,5 +1,6 @@
+ function test() {
+-  console.log('old');
++  console.log('new');
++  console.log('added line');
+ }
+ 
+ function another() {
+@@ -20,3 +21,4 @@ function another() {
+ }
+ 
+ export { test };
++// New comment
+`;
+
+describe("ReviewFormatter", () => {
+  const formatter = new ReviewFormatter();
+  const positionIndex = DiffPositionIndex.forDiff(
+    new DiffParser().parseDiffContent(sampleDiff)
+  );
+
+  const createIssue = (overrides: Partial<ReviewIssue>): ReviewIssue => ({
+    id: "bug_1",
+    type: "bug",
+    severity: "high",
+    title: "Test Bug",
+    description: "Test description",
+    location: "src/test.ts#L2",
+    filePath: "src/test.ts",
+    lineNumber: 2,
+    ...overrides,
+  });
+
+  const createResult = (issues: ReviewIssue[]): ReviewResult => ({
+    reviewId: "review-1",
+    timestamp: "2024-01-01T00:00:00Z",
+    commitSha: "abc123",
+    summary: "",
+    issues,
+    totalIssues: issues.length,
+  });
+
+  describe("createLineComments", () => {
+    it("should create a multi-line comment for a range inside one hunk", () => {
+      const { valid } = formatter.createLineComments(
+        createResult([createIssue({ startLine: 2, endLine: 4 })]),
+        positionIndex
+      );
+
+      expect(valid).toHaveLength(1);
+      expect(valid[0]).toMatchObject({
+        path: "src/test.ts",
+        start_line: 2,
+        start_side: "RIGHT",
+        line: 4,
+        side: "RIGHT",
+      });
+    });
+
+    it("should fall back to a single-line comment for a range spanning hunks", () => {
+      const { valid } = formatter.createLineComments(
+        createResult([
+          createIssue({ lineNumber: 3, startLine: 3, endLine: 22 }),
+        ]),
+        positionIndex
+      );
+
+      expect(valid).toHaveLength(1);
+      expect(valid[0]?.line).toBe(3);
+      expect(valid[0]?.start_line).toBeUndefined();
+    });
+
+    it("should comment on deleted lines on the LEFT side", () => {
+      const { valid, invalid } = formatter.createLineComments(
+        createResult([
+          createIssue({ side: "LEFT" }),
+          createIssue({ id: "bug_2", side: "LEFT", lineNumber: 24 }),
+        ]),
+        positionIndex
+      );
+
+      expect(valid).toHaveLength(1);
+      expect(valid[0]).toMatchObject({ line: 2, side: "LEFT" });
+      expect(invalid).toBe(1);
+    });
+
+    it("should resolve issue paths to the diff file path", () => {
+      const { valid } = formatter.createLineComments(
+        createResult([createIssue({ filePath: "./src/test.ts" })]),
+        positionIndex
+      );
+
+      expect(valid[0]?.path).toBe("src/test.ts");
+    });
+
+    it("should relocate issues near a hunk to the nearest changed line", () => {
+      const { valid, outsideDiff } = formatter.createLineComments(
+        createResult([createIssue({ lineNumber: 7 })]),
+        positionIndex,
+        0,
+        5
+      );
+
+      expect(outsideDiff).toHaveLength(0);
+      expect(valid[0]).toMatchObject({ line: 3, side: "RIGHT" });
+      expect(valid[0]?.body).toContain("原始位置为第 7 行");
+    });
+
+    it("should return issues that cannot be placed in the diff", () => {
+      const farIssue = createIssue({ lineNumber: 14 });
+      const unlocatedIssue = createIssue({
+        id: "bug_2",
+        filePath: undefined,
+        lineNumber: undefined,
+        location: "",
+      });
+
+      const { valid, invalid, outsideDiff } = formatter.createLineComments(
+        createResult([farIssue, unlocatedIssue]),
+        positionIndex,
+        0,
+        3
+      );
+
+      expect(valid).toHaveLength(0);
+      expect(invalid).toBe(2);
+      expect(outsideDiff).toEqual([farIssue, unlocatedIssue]);
+    });
+
+    it("should list issues beyond the line comment limit in the main comment", () => {
+      const cappedIssue = createIssue({ id: "bug_2", lineNumber: 3 });
+      const farIssue = createIssue({ id: "bug_3", lineNumber: 14 });
+
+      const { valid, invalid, outsideDiff } = formatter.createLineComments(
+        createResult([createIssue({}), cappedIssue, farIssue]),
+        positionIndex,
+        1
+      );
+
+      expect(valid).toHaveLength(1);
+      expect(valid[0]?.line).toBe(2);
+      expect(outsideDiff).toEqual([farIssue, cappedIssue]);
+      expect(invalid).toBe(2);
+    });
+
+    it("should render suggestions for ranges inside one hunk", () => {
+      const { valid } = formatter.createLineComments(
+        createResult([
+          createIssue({
+            startLine: 2,
+            endLine: 3,
+            suggestion: "  console.info('new');\n  console.info('added line');",
+          }),
+        ]),
+        positionIndex
+      );
+
+      expect(valid[0]?.body).toContain(
+        "```suggestion\n  console.info('new');\n  console.info('added line');\n```"
+      );
+    });
+
+    it("should drop suggestions that do not match the commented range", () => {
+      const { valid } = formatter.createLineComments(
+        createResult([
+          createIssue({
+            lineNumber: 3,
+            startLine: 3,
+            endLine: 22,
+            suggestion: "  console.info('added line');",
+          }),
+          createIssue({
+            id: "bug_2",
+            side: "LEFT",
+            suggestion: "  console.info('old');",
+          }),
+          createIssue({
+            id: "bug_3",
+            suggestion: "function test() {\n  console.info('new');",
+          }),
+        ]),
+        positionIndex
+      );
+
+      expect(valid).toHaveLength(3);
+      valid.forEach((comment) =>
+        expect(comment.body).not.toContain("```suggestion")
+      );
+    });
+  });
+});
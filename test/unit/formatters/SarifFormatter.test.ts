@@ -0,0 +1,188 @@
+import { SarifFormatter } from "../../../src/formatters/SarifFormatter";
+import {
+  PullRequestInfo,
+  ReviewIssue,
+  ReviewResult,
+} from "../../../src/core/types";
+
+describe("SarifFormatter", () => {
+  const prInfo: PullRequestInfo = {
+    number: 7,
+    title: "Add refunds",
+    body: "",
+    baseSha: "base",
+    headSha: "head",
+    owner: "octo",
+    repo: "shop",
+  };
+
+  const issue: ReviewIssue = {
+    id: "bug_1",
+    type: "bug",
+    severity: "high",
+    confidence: 0.82,
+    title: "Null dereference",
+    description: "user may be undefined",
+    location: "src/user.ts:10-12",
+    filePath: "./src/user.ts",
+    lineNumber: 10,
+    startLine: 10,
+    endLine: 12,
+    fixPrompt: "Check user before use",
+    suggestion: "if (!user) {\n  return;\n}",
+    fingerprint: "abc123",
+  };
+
+  const createResult = (
+    issues: ReviewIssue[],
+    extra: Partial<ReviewResult> = {}
+  ): ReviewResult => ({
+    reviewId: "review-1",
+    timestamp: "2024-01-01T00:00:00Z",
+    commitSha: "head",
+    summary: "",
+    issues,
+    totalIssues: issues.length,
+    ...extra,
+  });
+
+  const formatter = new SarifFormatter("en");
+
+  it("should describe the tool, rules and revision", () => {
+    const log = formatter.format(createResult([]), prInfo);
+    const run = log.runs[0]!;
+
+    expect(log.version).toBe("2.1.0");
+    expect(log.$schema).toBe(SarifFormatter.SCHEMA);
+    expect(run.tool.driver.name).toBe("Bugment");
+    expect(run.tool.driver.rules.map((rule) => rule.id)).toEqual([
+      "bug",
+      "security",
+      "performance",
+      "code_smell",
+    ]);
+    expect(run.tool.driver.rules[1]).toMatchObject({
+      name: "SecurityIssue",
+      shortDescription: { text: "Security issue" },
+      properties: { tags: ["bugment", "security"] },
+    });
+    expect(run.versionControlProvenance).toEqual([
+      { repositoryUri: "https://github.com/octo/shop", revisionId: "head" },
+    ]);
+    expect(run.invocations).toEqual([{ executionSuccessful: true }]);
+    expect(run.results).toEqual([]);
+  });
+
+  it("should map an issue to a result with location, rank and fix", () => {
+    const [result] = formatter.format(createResult([issue])).runs[0]!.results;
+
+    expect(result).toEqual({
+      ruleId: "bug",
+      ruleIndex: 0,
+      level: "error",
+      message: {
+        text: "Null dereference\n\nuser may be undefined",
+        markdown:
+          "**Null dereference**\n\nuser may be undefined\n\n**🔧 Suggested fix:**\n\n```\nCheck user before use\n```",
+      },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: "src/user.ts", uriBaseId: "%SRCROOT%" },
+            region: { startLine: 10, endLine: 12 },
+          },
+        },
+      ],
+      partialFingerprints: { "bugmentFingerprint/v1": "abc123" },
+      rank: 82,
+      fixes: [
+        {
+          description: { text: "Check user before use" },
+          artifactChanges: [
+            {
+              artifactLocation: { uri: "src/user.ts", uriBaseId: "%SRCROOT%" },
+              replacements: [
+                {
+                  deletedRegion: { startLine: 10, endLine: 12 },
+                  insertedContent: { text: "if (!user) {\n  return;\n}" },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+      properties: {
+        severity: "high",
+        confidence: 0.82,
+        fixPrompt: "Check user before use",
+      },
+    });
+  });
+
+  it.each([
+    ["critical", "error"],
+    ["high", "error"],
+    ["medium", "warning"],
+    ["low", "note"],
+  ] as const)("should map %s severity to level %s", (severity, level) => {
+    const [result] = formatter.format(createResult([{ ...issue, severity }]))
+      .runs[0]!.results;
+    expect(result!.level).toBe(level);
+  });
+
+  it("should skip issues without a file and drop regions on deleted lines", () => {
+    const results = formatter.format(
+      createResult([
+        { ...issue, filePath: undefined },
+        { ...issue, id: "bug_2", side: "LEFT" },
+        {
+          ...issue,
+          id: "bug_3",
+          type: "code_smell",
+          startLine: undefined,
+          endLine: undefined,
+          lineNumber: 4,
+          suggestion: undefined,
+          confidence: undefined,
+          fingerprint: undefined,
+        },
+      ])
+    ).runs[0]!.results;
+
+    expect(results).toHaveLength(2);
+    expect(results[0]!.locations[0]!.physicalLocation.region).toBeUndefined();
+    expect(results[0]!.fixes).toBeUndefined();
+    expect(results[1]).toMatchObject({
+      ruleId: "code_smell",
+      ruleIndex: 3,
+      locations: [{ physicalLocation: { region: { startLine: 4 } } }],
+    });
+    expect(results[1]).not.toHaveProperty("rank");
+    expect(results[1]).not.toHaveProperty("fixes");
+    expect(results[1]).not.toHaveProperty("partialFingerprints");
+  });
+
+  it("should mark the run as unsuccessful when the review is incomplete", () => {
+    const run = formatter.format(
+      createResult([], { parseError: "Unexpected token" })
+    ).runs[0]!;
+
+    expect(run.invocations[0]).toEqual({
+      executionSuccessful: false,
+      toolExecutionNotifications: [
+        {
+          level: "error",
+          message: {
+            text: "⚠️ Failed to parse the review result: Unexpected token",
+          },
+        },
+      ],
+    });
+  });
+
+  it("should localize rule descriptions", () => {
+    const rules = new SarifFormatter().format(createResult([])).runs[0]!.tool
+      .driver.rules;
+    expect(rules[0]!.shortDescription.text).toBe("潜在 Bug");
+  });
+});
@@ -0,0 +1,103 @@
+import { TerminalFormatter } from "../../../src/formatters/TerminalFormatter";
+import { ReviewIssue, ReviewResult } from "../../../src/core/types";
+
+function createIssue(overrides: Partial<ReviewIssue>): ReviewIssue {
+  return {
+    id: "issue_1",
+    type: "bug",
+    severity: "high",
+    title: "Null dereference",
+    description: "user may be undefined",
+    location: "src/a.ts#L10",
+    filePath: "src/a.ts",
+    lineNumber: 10,
+    ...overrides,
+  };
+}
+
+function createResult(issues: ReviewIssue[]): ReviewResult {
+  return {
+    reviewId: "pr0_abc12345_000000",
+    timestamp: "2024-01-01T00:00:00.000Z",
+    commitSha: "abc12345",
+    summary: "- 1️⃣ Looks mostly fine",
+    issues,
+    totalIssues: issues.length,
+  };
+}
+
+describe("TerminalFormatter", () => {
+  it("groups issues by file with line ranges and a total", () => {
+    const output = new TerminalFormatter().format(
+      createResult([
+        createIssue({}),
+        createIssue({
+          id: "issue_2",
+          severity: "low",
+          type: "code_smell",
+          title: "Long function",
+          startLine: 20,
+          endLine: 40,
+        }),
+        createIssue({
+          id: "issue_3",
+          filePath: "src/b.ts",
+          lineNumber: 3,
+          fixPrompt: "Check for null first",
+        }),
+      ]),
+      { mode: "full", baseSha: "1111111aaaa", headSha: "2222222bbbb" }
+    );
+
+    expect(output).toContain("审查范围: 1111111..2222222");
+    expect(output).toContain("- 1️⃣ Looks mostly fine");
+    expect(output.indexOf("src/a.ts")).toBeLessThan(output.indexOf("src/b.ts"));
+    expect(output).toContain("L10");
+    expect(output).toContain("L20-40");
+    expect(output).toContain("Null dereference");
+    expect(output).toContain("      user may be undefined");
+    expect(output).toContain("修复建议: Check for null first");
+    expect(output).toMatch(/共 3 个问题/);
+    expect(output).not.toContain("\x1b[");
+  });
+
+  it("prints suggestions instead of the fix prompt", () => {
+    const output = new TerminalFormatter().format(
+      createResult([
+        createIssue({
+          suggestion: "if (!user) return;\nuse(user);",
+          fixPrompt: "Check for null first",
+        }),
+      ])
+    );
+
+    expect(output).toContain("建议修改:");
+    expect(output).toContain("        if (!user) return;\n        use(user);");
+    expect(output).not.toContain("修复建议");
+  });
+
+  it("reports a clean review", () => {
+    const output = new TerminalFormatter().format(createResult([]));
+
+    expect(output).toContain("🎉 未发现任何问题！");
+    expect(output).not.toContain("共 0 个问题");
+  });
+
+  it("reports suppressed issues", () => {
+    const output = new TerminalFormatter().format({
+      ...createResult([]),
+      suppressedCount: 2,
+    });
+
+    expect(output).toContain("🎉 未发现任何问题！\n🔕 已抑制 2 个问题\n");
+  });
+
+  it("adds ANSI colors when enabled", () => {
+    const output = new TerminalFormatter(true).format(
+      createResult([createIssue({ severity: "critical" })])
+    );
+
+    expect(output).toContain("\x1b[31m");
+    expect(output).toContain("\x1b[0m");
+  });
+});
@@ -0,0 +1,55 @@
+import { I18n } from "../../../src/i18n/I18n";
+import { FormatUtils } from "../../../src/utils/FormatUtils";
+
+describe("I18n", () => {
+  describe("resolveLocale", () => {
+    it.each([
+      ["zh-CN", "zh-CN"],
+      ["zh", "zh-CN"],
+      ["zh-TW", "zh-CN"],
+      ["en", "en"],
+      ["en-US", "en"],
+      ["EN-gb", "en"],
+      ["ja", "ja"],
+      ["ja-JP", "ja"],
+    ])("should resolve %s to %s", (language, locale) => {
+      expect(I18n.resolveLocale(language)).toBe(locale);
+    });
+
+    it("should fall back to English for languages without messages", () => {
+      expect(I18n.resolveLocale("fr")).toBe("en");
+      expect(I18n.isSupported("fr")).toBe(false);
+      expect(I18n.getMessages("fr")).toBe(I18n.MESSAGES.en);
+    });
+
+    it("should default to Chinese", () => {
+      expect(I18n.resolveLocale()).toBe("zh-CN");
+      expect(I18n.getMessages().locale).toBe("zh-CN");
+    });
+  });
+
+  describe("messages", () => {
+    it("should define the same keys for every locale", () => {
+      const keys = (value: object): string[] =>
+        Object.entries(value).flatMap(([key, child]) =>
+          child && typeof child === "object"
+            ? keys(child).map((nested) => `${key}.${nested}`)
+            : [key]
+        );
+      const expected = keys(I18n.MESSAGES["zh-CN"]).sort();
+
+      Object.values(I18n.MESSAGES).forEach((messages) => {
+        expect(keys(messages).sort()).toEqual(expected);
+      });
+    });
+
+    it("should localize type and severity names", () => {
+      expect(FormatUtils.getTypeName("bug")).toBe("潜在 Bug");
+      expect(FormatUtils.getTypeName("bug", "en")).toBe("Potential bug");
+      expect(FormatUtils.getSeverityText("critical", "ja")).toBe("重大");
+      expect(FormatUtils.getTypeName("unknown" as any, "en")).toBe(
+        "Other issue"
+      );
+    });
+  });
+});
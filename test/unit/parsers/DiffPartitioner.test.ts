@@ -0,0 +1,98 @@
+import { DiffPartitioner } from "../../../src/parsers/DiffPartitioner";
+
+jest.mock("@actions/core", () => ({
+  info: jest.fn(),
+  warning: jest.fn(),
+}));
+
+/**
+ * 生成单个文件的 diff，每个 hunk 新增 linesPerHunk 行
+ */
+function fileDiff(
+  filePath: string,
+  hunks: number = 1,
+  linesPerHunk: number = 5
+): string {
+  let diff = `diff --git a/${filePath} b/${filePath}\nindex 1234567..abcdefg 100644\n--- a/${filePath}\n+++ b/${filePath}\n`;
+  for (let hunk = 0; hunk < hunks; hunk++) {
+    const start = hunk * 100 + 1;
+    diff += `@@ -${start},1 +${start},${linesPerHunk + 1} @@\n context\n`;
+    for (let line = 0; line < linesPerHunk; line++) {
+      diff += `+const value${hunk}_${line} = ${line}; // padding padding padding\n`;
+    }
+  }
+  return diff;
+}
+
+describe("DiffPartitioner", () => {
+  it("keeps a diff within budget in a single chunk", () => {
+    const diff = fileDiff("src/a.ts") + fileDiff("src/b.ts");
+
+    const chunks = new DiffPartitioner(100000).partition(diff);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]!.files).toEqual(["src/a.ts", "src/b.ts"]);
+    expect(chunks[0]!.content).toBe(diff);
+  });
+
+  it("does not split when maxTokens is 0", () => {
+    const diff = fileDiff("src/a.ts", 1, 200) + fileDiff("lib/b.ts", 1, 200);
+
+    expect(new DiffPartitioner(0).partition(diff)).toHaveLength(1);
+  });
+
+  it("splits files into chunks within the token budget", () => {
+    const diff = ["a", "b", "c", "d"]
+      .map((name) => fileDiff(`${name}/file.ts`, 1, 20))
+      .join("");
+    const fileTokens = DiffPartitioner.estimateTokens(
+      fileDiff("a/file.ts", 1, 20)
+    );
+
+    const chunks = new DiffPartitioner(fileTokens * 2 + 10).partition(diff);
+
+    expect(chunks.map((chunk) => chunk.files)).toEqual([
+      ["a/file.ts", "b/file.ts"],
+      ["c/file.ts", "d/file.ts"],
+    ]);
+    expect(chunks.map((chunk) => chunk.index)).toEqual([1, 2]);
+    chunks.forEach((chunk) =>
+      expect(chunk.estimatedTokens).toBeLessThanOrEqual(fileTokens * 2 + 10)
+    );
+    expect(chunks.map((chunk) => chunk.content).join("")).toBe(diff);
+  });
+
+  it("keeps related files together", () => {
+    const diff =
+      fileDiff("src/parser.ts", 1, 20) +
+      fileDiff("lib/other.ts", 1, 20) +
+      fileDiff("test/parser.test.ts", 1, 20) +
+      fileDiff("src/parser-utils.ts", 1, 20);
+    const fileTokens = DiffPartitioner.estimateTokens(
+      fileDiff("src/parser.ts", 1, 20)
+    );
+
+    const chunks = new DiffPartitioner(fileTokens * 3 + 20).partition(diff);
+
+    expect(chunks.map((chunk) => chunk.files)).toEqual([
+      ["lib/other.ts"],
+      ["src/parser-utils.ts", "src/parser.ts", "test/parser.test.ts"],
+    ]);
+  });
+
+  it("splits a file larger than the budget by hunk and repeats its header", () => {
+    const diff = fileDiff("src/big.ts", 4, 20);
+    const hunkTokens = DiffPartitioner.estimateTokens(
+      fileDiff("src/big.ts", 1, 20)
+    );
+
+    const chunks = new DiffPartitioner(hunkTokens * 2).partition(diff);
+
+    expect(chunks).toHaveLength(2);
+    chunks.forEach((chunk) => {
+      expect(chunk.files).toEqual(["src/big.ts"]);
+      expect(chunk.content).toMatch(/^diff --git a\/src\/big\.ts/);
+      expect(chunk.content.match(/^@@/gm)).toHaveLength(2);
+    });
+  });
+});
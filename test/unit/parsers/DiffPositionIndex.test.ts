@@ -0,0 +1,74 @@
+import { DiffParser } from "../../../src/parsers/DiffParser";
+import { DiffPositionIndex } from "../../../src/parsers/DiffPositionIndex";
+
+jest.mock("@actions/core", () => ({
+  info: jest.fn(),
+  warning: jest.fn(),
+}));
+
+const sampleDiff = `diff --git a/src/test.ts b/src/test.ts
+index 1234567..abcdefg 100644
+--- a/src/test.ts
++++ b/src/test.ts
+@@ -1,5 +1,6 @@
+ function test() {
+-  console.log('old');
++  console.log('new');
++  console.log('added line');
+ }
+ 
+ function another() {
+@@ -20,3 +21,4 @@ function another() {
+ }
+ 
+ export { test };
++// New comment
+`;
+
+describe("DiffPositionIndex", () => {
+  const parsedDiff = new DiffParser().parseDiffContent(sampleDiff);
+  const index = DiffPositionIndex.forDiff(parsedDiff);
+
+  it("should reuse the index for the same parsed diff", () => {
+    expect(DiffPositionIndex.forDiff(parsedDiff)).toBe(index);
+  });
+
+  it("should resolve relative and suffix file paths", () => {
+    expect(index.resolveFilePath("src/test.ts")).toBe("src/test.ts");
+    expect(index.resolveFilePath("./src/test.ts")).toBe("src/test.ts");
+    expect(index.resolveFilePath("test.ts")).toBe("src/test.ts");
+    expect(index.resolveFilePath("other.ts")).toBeUndefined();
+  });
+
+  it("should check right-side lines against added and context lines", () => {
+    expect(index.isLineInDiff("src/test.ts", 2)).toBe(true);
+    expect(index.isLineInDiff("src/test.ts", 6)).toBe(true);
+    expect(index.isLineInDiff("src/test.ts", 24)).toBe(true);
+    expect(index.isLineInDiff("src/test.ts", 10)).toBe(false);
+  });
+
+  it("should check left-side lines against deleted and context lines", () => {
+    expect(index.isLineInDiff("src/test.ts", 2, "LEFT")).toBe(true);
+    expect(index.isLineInDiff("src/test.ts", 22, "LEFT")).toBe(true);
+    expect(index.isLineInDiff("src/test.ts", 24, "LEFT")).toBe(false);
+  });
+
+  it("should accept ranges inside a single hunk", () => {
+    expect(index.isRangeInSingleHunk("src/test.ts", 2, 4)).toBe(true);
+    expect(index.isRangeInSingleHunk("src/test.ts", 1, 3, "LEFT")).toBe(true);
+  });
+
+  it("should reject ranges spanning hunks or leaving the diff", () => {
+    expect(index.isRangeInSingleHunk("src/test.ts", 5, 22)).toBe(false);
+    expect(index.isRangeInSingleHunk("src/test.ts", 6, 8)).toBe(false);
+    expect(index.isRangeInSingleHunk("src/test.ts", 4, 2)).toBe(false);
+  });
+
+  it("should find the nearest changed line within the distance", () => {
+    expect(index.findNearestChangedLine("src/test.ts", 8, 5)).toBe(3);
+    expect(index.findNearestChangedLine("src/test.ts", 20, 5)).toBe(24);
+    expect(index.findNearestChangedLine("src/test.ts", 5, 3, "LEFT")).toBe(2);
+    expect(index.findNearestChangedLine("src/test.ts", 12, 3)).toBeUndefined();
+    expect(index.findNearestChangedLine("src/test.ts", 8, 0)).toBeUndefined();
+  });
+});
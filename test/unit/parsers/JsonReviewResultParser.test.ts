@@ -4,6 +4,7 @@
  */
 
 import { JsonReviewResultParser } from "../../../src/parsers/JsonReviewResultParser";
+import { IssueSuppressor } from "../../../src/core/IssueSuppressor";
 import { PullRequestInfo } from "../../../src/core/types";
 
 // 模拟 PR 信息
@@ -87,6 +88,25 @@ describe("JsonReviewResultParser", () => {
       expect(result.summary).toContain("代码整体结构清晰");
     });
 
+    it("should remove issues suppressed in the source after parsing", () => {
+      const suppressor = new IssueSuppressor((filePath) =>
+        filePath === "src/database/query.js"
+          ? Array(41).fill("").concat("db.query(sql); // bugment-ignore-line")
+          : undefined
+      );
+      const result = new JsonReviewResultParser(
+        mockPrInfo,
+        suppressor
+      ).parseReviewResult(JSON.stringify(testJsonData));
+
+      expect(result.issues.map((issue) => issue.id)).toEqual([
+        "bug_1",
+        "code_smell_1",
+      ]);
+      expect(result.totalIssues).toBe(2);
+      expect(result.suppressedCount).toBe(1);
+    });
+
     it("should handle Markdown-wrapped JSON", () => {
       const wrappedJson = `\`\`\`json\n${JSON.stringify(testJsonData, null, 2)}\n\`\`\``;
       const result = parser.parseReviewResult(wrappedJson);
@@ -101,7 +121,65 @@ describe("JsonReviewResultParser", () => {
 
       expect(result.totalIssues).toBe(0);
       expect(result.issues).toHaveLength(0);
-      expect(result.summary).toBe("解析审查结果时发生错误");
+      expect(result.summary).toBe("");
+    });
+
+    it("should record the parse error when JSON cannot be recovered", () => {
+      const result = parser.parseReviewResult("{ invalid json }");
+
+      expect(result.parseError).toBeDefined();
+    });
+
+    it("should not set parseError for valid JSON", () => {
+      const result = parser.parseReviewResult(JSON.stringify(testJsonData));
+
+      expect(result.parseError).toBeUndefined();
+    });
+
+    it("should recover JSON with trailing commas and raw newlines", () => {
+      const malformed = `{
+        "summary": { "overallComments": ["第一行
+第二行",], },
+        "issues": [
+          { "id": "bug_1", "type": "bug", "severity": "high", "title": "问题", "description": "描述", "location": "src/a.ts#L1", "filePath": "src/a.ts", "lineNumber": 1 },
+        ],
+      }`;
+      const result = parser.parseReviewResult(malformed);
+
+      expect(result.parseError).toBeUndefined();
+      expect(result.issues).toHaveLength(1);
+      expect(result.summary).toContain("第一行\n第二行");
+    });
+
+    it("should keep complete issues from truncated output", () => {
+      const json = JSON.stringify(testJsonData);
+      const truncated = json.substring(
+        0,
+        json.indexOf('"id":"security_1"') + 20
+      );
+      const result = parser.parseReviewResult(truncated);
+
+      expect(result.parseError).toBeUndefined();
+      expect(result.issues.map((issue) => issue.id)).toEqual([
+        "bug_1",
+        "code_smell_1",
+      ]);
+    });
+
+    it("should extract the review object from surrounding prose", () => {
+      const text = `审查完成 {注意} 结果如下：${JSON.stringify(testJsonData)} 以上 {完}`;
+      const result = parser.parseReviewResult(text);
+
+      expect(result.parseError).toBeUndefined();
+      expect(result.totalIssues).toBe(3);
+    });
+
+    it("should not treat a recovered object without issues as a clean review", () => {
+      const result = parser.parseReviewResult(
+        '{"summary": {"overallComments": ["看起来'
+      );
+
+      expect(result.parseError).toBeDefined();
     });
 
     it("should handle empty string", () => {
@@ -134,6 +212,173 @@ describe("JsonReviewResultParser", () => {
       expect(result.issues[0]?.type).toBe("code_smell"); // 默认值
       expect(result.issues[0]?.severity).toBe("medium"); // 默认值
     });
+
+    it("should drop issues without a title and report why", () => {
+      const data = {
+        summary: { overallComments: ["test"] },
+        issues: [
+          testJsonData.issues[0],
+          { id: "bug_2", type: "bug", severity: "high", filePath: "a.ts" },
+          { ...testJsonData.issues[1], lineNumber: "25" },
+        ],
+      };
+
+      const result = parser.parseReviewResult(JSON.stringify(data));
+
+      expect(result.issues.map((issue) => issue.id)).toEqual([
+        "bug_1",
+        "code_smell_1",
+      ]);
+      expect(result.issues[1]?.lineNumber).toBe(25);
+      expect(result.parsingStats?.droppedIssues).toEqual([
+        {
+          index: 1,
+          id: "bug_2",
+          title: undefined,
+          reasons: ["issues[1].title: missing required field"],
+        },
+      ]);
+      expect(result.parsingStats?.schemaErrors).toEqual(
+        expect.arrayContaining([
+          "issues[1].description: missing required field",
+          "issues[2].lineNumber: expected integer",
+        ])
+      );
+    });
+
+    it("should keep issues without a description or file path", () => {
+      const data = {
+        summary: { overallComments: ["test"] },
+        issues: [
+          {
+            id: "bug_1",
+            type: "bug",
+            severity: "high",
+            title: "Missing migration",
+          },
+        ],
+      };
+
+      const result = parser.parseReviewResult(JSON.stringify(data));
+
+      expect(result.issues).toHaveLength(1);
+      expect(result.issues[0]).toMatchObject({
+        title: "Missing migration",
+        description: "",
+        filePath: "",
+      });
+      expect(result.parsingStats?.droppedIssues).toEqual([]);
+      expect(result.parsingStats?.schemaErrors).toEqual([
+        "issues[0].description: missing required field",
+        "issues[0].filePath: missing required field",
+      ]);
+    });
+
+    it("should fail when the output has no issues array", () => {
+      const result = parser.parseReviewResult(
+        JSON.stringify({ summary: { overallComments: ["看起来不错"] } })
+      );
+
+      expect(result.parseError).toContain("issues must be an array");
+      expect(result.parsingStats?.schemaErrors).toEqual([
+        "issues: missing required field",
+      ]);
+    });
+
+    it("should parse diff side and ignore invalid values", () => {
+      const data = {
+        summary: { overallComments: ["test"] },
+        issues: [
+          {
+            id: "bug_1",
+            type: "bug",
+            severity: "high",
+            title: "Removed validation",
+            description: "Validation was deleted",
+            location: "test.js#L5",
+            filePath: "test.js",
+            lineNumber: 5,
+            side: "left",
+          },
+          {
+            id: "bug_2",
+            type: "bug",
+            severity: "high",
+            title: "Test",
+            description: "Test description",
+            location: "test.js#L8",
+            filePath: "test.js",
+            lineNumber: 8,
+            side: "middle",
+          },
+        ],
+      };
+
+      const result = parser.parseReviewResult(JSON.stringify(data));
+
+      expect(result.issues[0]?.side).toBe("LEFT");
+      expect(result.issues[1]?.side).toBeUndefined();
+    });
+
+    it("should parse suggestions and strip code fences", () => {
+      const data = {
+        summary: { overallComments: ["test"] },
+        issues: [
+          {
+            id: "bug_1",
+            type: "bug",
+            severity: "high",
+            title: "Test",
+            description: "Test description",
+            location: "test.js#L5",
+            filePath: "test.js",
+            lineNumber: 5,
+            suggestion: "```js\n  return a + b;\n```",
+          },
+          {
+            id: "bug_2",
+            type: "bug",
+            severity: "high",
+            title: "Test",
+            description: "Test description",
+            location: "test.js#L8",
+            filePath: "test.js",
+            lineNumber: 8,
+            suggestion: 42,
+          },
+        ],
+      };
+
+      const result = parser.parseReviewResult(JSON.stringify(data));
+
+      expect(result.issues[0]?.suggestion).toBe("  return a + b;");
+      expect(result.issues[1]?.suggestion).toBeUndefined();
+    });
+
+    it("should keep unbalanced braces inside suggestion strings", () => {
+      const data = {
+        summary: { overallComments: ["test"] },
+        issues: [
+          {
+            id: "bug_1",
+            type: "bug",
+            severity: "high",
+            title: "Test",
+            description: "Test description",
+            location: "test.js#L5",
+            filePath: "test.js",
+            lineNumber: 5,
+            suggestion: "  if (ready) {",
+          },
+        ],
+      };
+
+      const result = parser.parseReviewResult(
+        `\`\`\`json\n${JSON.stringify(data)}\n\`\`\``
+      );
+
+      expect(result.issues[0]?.suggestion).toBe("  if (ready) {");
+    });
   });
 
   describe("getParsingStats", () => {
@@ -145,6 +390,19 @@ describe("JsonReviewResultParser", () => {
       expect(stats.hasIssues).toBe(true);
       expect(stats.hasSummary).toBe(true);
       expect(stats.estimatedIssueCount).toBe(3);
+      expect(stats.schemaErrors).toEqual([]);
+      expect(stats.droppedIssues).toEqual([]);
+    });
+
+    it("should report how the JSON was parsed", () => {
+      expect(
+        parser.getParsingStats(JSON.stringify(testJsonData)).parseMethod
+      ).toBe("strict");
+      expect(
+        parser.getParsingStats(
+          JSON.stringify(testJsonData).replace(/\}\]\}$/, "},]}")
+        ).parseMethod
+      ).toBe("lenient");
     });
 
     it("should return correct stats for invalid JSON", () => {
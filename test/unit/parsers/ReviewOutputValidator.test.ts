@@ -0,0 +1,112 @@
+import { ReviewOutputValidator } from "../../../src/parsers/ReviewOutputValidator";
+
+describe("ReviewOutputValidator", () => {
+  const validIssue = {
+    id: "bug_1",
+    type: "bug",
+    severity: "high",
+    confidence: 0.9,
+    title: "Null dereference",
+    description: "The value may be null",
+    location: "src/a.ts#L3",
+    filePath: "src/a.ts",
+    lineNumber: 3,
+    side: "RIGHT",
+  };
+
+  describe("validate", () => {
+    it("should accept valid output", () => {
+      expect(
+        ReviewOutputValidator.validate({
+          summary: { overallComments: ["ok"] },
+          issues: [validIssue],
+        })
+      ).toEqual([]);
+    });
+
+    it("should report every error with its path", () => {
+      const errors = ReviewOutputValidator.validate({
+        summary: { overallComments: "ok" },
+        issues: [
+          validIssue,
+          { ...validIssue, type: "typo", confidence: 2 },
+          { ...validIssue, lineNumber: "15", title: "" },
+          { id: "bug_4", filePath: "src/b.ts" },
+        ],
+      });
+
+      expect(errors.map((error) => `${error.path}: ${error.message}`)).toEqual([
+        "summary.overallComments: expected array",
+        "issues[1].type: expected one of bug, code_smell, security, performance",
+        "issues[1].confidence: expected number <= 1",
+        "issues[2].title: expected non-empty string",
+        "issues[2].lineNumber: expected integer",
+        "issues[3].title: missing required field",
+        "issues[3].description: missing required field",
+      ]);
+    });
+
+    it("should require the issues array", () => {
+      expect(ReviewOutputValidator.validate({ summary: {} })).toEqual([
+        { path: "issues", message: "missing required field" },
+      ]);
+      expect(ReviewOutputValidator.validate([])).toEqual([
+        { path: "<root>", message: "expected object" },
+      ]);
+    });
+  });
+
+  describe("groupByIssue", () => {
+    it("should group errors by issue index", () => {
+      const groups = ReviewOutputValidator.groupByIssue([
+        { path: "summary", message: "expected object" },
+        { path: "issues[2].title", message: "missing required field" },
+        { path: "issues[2].side", message: "expected one of LEFT, RIGHT" },
+      ]);
+
+      expect(groups.get(-1)).toHaveLength(1);
+      expect(groups.get(2)).toHaveLength(2);
+    });
+  });
+
+  describe("isFatalIssueError", () => {
+    it("should treat invalid issues and a missing title as fatal", () => {
+      expect(
+        ReviewOutputValidator.isFatalIssueError({
+          path: "issues[0]",
+          message: "expected object",
+        })
+      ).toBe(true);
+      expect(
+        ReviewOutputValidator.isFatalIssueError({
+          path: "issues[0].title",
+          message: "missing required field",
+        })
+      ).toBe(true);
+      expect(
+        ReviewOutputValidator.isFatalIssueError({
+          path: "issues[0].filePath",
+          message: "missing required field",
+        })
+      ).toBe(false);
+      expect(
+        ReviewOutputValidator.isFatalIssueError({
+          path: "issues[0].description",
+          message: "expected non-empty string",
+        })
+      ).toBe(false);
+      expect(
+        ReviewOutputValidator.isFatalIssueError({
+          path: "issues[0].lineNumber",
+          message: "expected integer",
+        })
+      ).toBe(false);
+      expect(
+        ReviewOutputValidator.isFatalIssueError({
+          path: "summary",
+          message: "expected object",
+        })
+      ).toBe(false);
+    });
+  });
+});
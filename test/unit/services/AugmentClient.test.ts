@@ -0,0 +1,228 @@
+import {
+  AugmentIPCClient,
+  ChatStreamError,
+} from "../../../src/services/AugmentClient";
+import { AugmentBackend } from "../../../src/services/AugmentBackend";
+
+jest.mock("@actions/core", () => ({
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn(),
+}));
+
+// p-retry 和 p-timeout 是 ESM 包，测试中不需要重试和超时逻辑
+jest.mock("p-retry", () => ({
+  __esModule: true,
+  default: (fn: () => Promise<unknown>) => fn(),
+}));
+jest.mock("p-timeout", () => ({
+  __esModule: true,
+  default: (promise: Promise<unknown>) => promise,
+}));
+
+/**
+ * 创建已初始化的客户端，用假的服务器进程记录发送的请求
+ */
+function createClient() {
+  const client = new AugmentIPCClient();
+  const sent: any[] = [];
+  Object.assign(client, {
+    isInitialized: true,
+    serverProcess: {
+      killed: false,
+      kill: jest.fn(),
+      send: (message: any, callback: (error: Error | null) => void) => {
+        sent.push(message);
+        callback(null);
+      },
+    },
+  });
+
+  const receive = (message: any) => (client as any)._handleMessage(message);
+  const chunk = (text: string) =>
+    receive({ jsonrpc: "2.0", method: "augment/chatChunk", params: { text } });
+  const respond = (result: any) =>
+    receive({ jsonrpc: "2.0", id: sent[0].id, result });
+
+  return { client, sent, chunk, respond };
+}
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("AugmentIPCClient streaming", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("yields chat chunks and returns the full text", async () => {
+    const { client, sent, chunk, respond } = createClient();
+    const stream = client.sendMessage("review", "/tmp/pr_diff.patch", {
+      stream: true,
+    });
+
+    const first = stream.next();
+    await tick();
+    expect(sent[0]).toMatchObject({
+      method: "augment/chat",
+      params: { message: "review" },
+    });
+
+    chunk('{"issues"');
+    expect(await first).toEqual({ value: '{"issues"', done: false });
+
+    chunk(": []}");
+    respond({ text: '{"issues": []}' });
+    expect(await stream.next()).toEqual({ value: ": []}", done: false });
+    expect(await stream.next()).toEqual({
+      value: '{"issues": []}',
+      done: true,
+    });
+    expect(client.listenerCount("chatChunk")).toBe(0);
+  });
+
+  it("yields text from the final result that was not streamed", async () => {
+    const { client, chunk, respond } = createClient();
+    const stream = client.sendMessage("review", "/tmp/pr_diff.patch", {
+      stream: true,
+    });
+
+    const first = stream.next();
+    await tick();
+    chunk("Hello");
+    await first;
+    respond({ text: "Hello, world" });
+
+    expect(await stream.next()).toEqual({ value: ", world", done: false });
+    expect(await stream.next()).toEqual({ value: "Hello, world", done: true });
+  });
+
+  it("fails after the idle timeout and keeps the partial text", async () => {
+    jest.useFakeTimers();
+    const { client, chunk } = createClient();
+    const stream = client.sendMessage("review", "/tmp/pr_diff.patch", {
+      stream: true,
+      idleTimeout: 5000,
+    });
+
+    const first = stream.next();
+    await Promise.resolve();
+    chunk('{"issues": [');
+    await first;
+
+    // 每收到一个分块都会重新计时
+    const second = stream.next();
+    jest.advanceTimersByTime(4000);
+    chunk("{");
+    await second;
+
+    const third = stream.next();
+    jest.advanceTimersByTime(4999);
+    await Promise.resolve();
+    jest.advanceTimersByTime(1);
+
+    const error = await third.catch((e) => e);
+    expect(error).toBeInstanceOf(ChatStreamError);
+    expect(error.message).toBe("Chat stream idle for 5s");
+    expect(error.partialText).toBe('{"issues": [{');
+  });
+
+  it("keeps the partial text when the server connection closes", async () => {
+    // stopServer 会设置强制终止进程的定时器
+    jest.useFakeTimers();
+    const { client, chunk } = createClient();
+    const stream = client.sendMessage("review", "/tmp/pr_diff.patch", {
+      stream: true,
+    });
+
+    const first = stream.next();
+    await Promise.resolve();
+    chunk("partial");
+    await first;
+    client.stopServer();
+
+    await expect(stream.next()).rejects.toMatchObject({
+      name: "ChatStreamError",
+      message: "Chat stream failed: Server connection closed",
+      partialText: "partial",
+    });
+  });
+});
+
+describe("AugmentBackend", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function mockClient(stream: () => AsyncGenerator<string, string>) {
+    jest
+      .spyOn(AugmentIPCClient.prototype, "startServer")
+      .mockResolvedValue(undefined);
+    jest
+      .spyOn(AugmentIPCClient.prototype, "getStatus")
+      .mockResolvedValue({ loggedIn: true, syncPercentage: 100 });
+    jest.spyOn(AugmentIPCClient.prototype, "stopServer").mockReturnValue();
+    return jest
+      .spyOn(AugmentIPCClient.prototype, "sendMessage")
+      .mockImplementation(stream as any);
+  }
+
+  const context = { projectPath: "/workspace", diffPath: "/workspace/a.patch" };
+
+  it("streams the reply with the configured idle timeout", async () => {
+    const sendMessage = mockClient(async function* () {
+      yield '{"issues": ';
+      yield "[]}";
+      return '{"issues": []}';
+    });
+
+    const text = await new AugmentBackend("server.js", 30).review(
+      "prompt",
+      context
+    );
+
+    expect(text).toBe('{"issues": []}');
+    expect(sendMessage).toHaveBeenCalledWith("prompt", "/workspace/a.patch", {
+      stream: true,
+      idleTimeout: 30000,
+    });
+  });
+
+  it("starts the language server with the given environment", async () => {
+    mockClient(async function* () {
+      return "{}";
+    });
+    let serverEnv: NodeJS.ProcessEnv | undefined;
+    jest
+      .spyOn(AugmentIPCClient.prototype, "startServer")
+      .mockImplementation(async function (this: any) {
+        serverEnv = this.env;
+      });
+
+    await new AugmentBackend("server.js", 30, {
+      HOME: "/tmp/bugment-augment-home",
+    }).review("prompt", context);
+
+    expect(serverEnv).toEqual({ HOME: "/tmp/bugment-augment-home" });
+  });
+
+  it("returns the partial reply when the stream dies", async () => {
+    mockClient(async function* () {
+      yield '{"issues": [';
+      throw new ChatStreamError("Chat stream idle for 30s", '{"issues": [');
+    });
+
+    await expect(
+      new AugmentBackend("server.js", 30).review("prompt", context)
+    ).resolves.toBe('{"issues": [');
+  });
+
+  it("fails when the stream dies before any text arrives", async () => {
+    mockClient(async function* () {
+      throw new ChatStreamError("Chat stream idle for 30s", "");
+    });
+
+    await expect(
+      new AugmentBackend("server.js", 30).review("prompt", context)
+    ).rejects.toThrow("Chat stream idle for 30s");
+  });
+});
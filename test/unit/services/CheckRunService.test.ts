@@ -0,0 +1,265 @@
+import * as github from "@actions/github";
+import { CheckRunService } from "../../../src/services/CheckRunService";
+import {
+  PolicyDecision,
+  PullRequestInfo,
+  ReviewIssue,
+  ReviewResult,
+} from "../../../src/core/types";
+
+jest.mock("@actions/core", () => ({
+  info: jest.fn(),
+  warning: jest.fn(),
+}));
+
+jest.mock("@actions/github", () => ({
+  getOctokit: jest.fn(),
+}));
+
+describe("CheckRunService", () => {
+  const prInfo: PullRequestInfo = {
+    number: 7,
+    title: "Add refunds",
+    body: "",
+    baseSha: "base",
+    headSha: "head",
+    owner: "octo",
+    repo: "shop",
+  };
+
+  const issue: ReviewIssue = {
+    id: "bug_1",
+    type: "bug",
+    severity: "high",
+    title: "Null dereference",
+    description: "user may be undefined",
+    location: "src/user.ts:10-12",
+    filePath: "src/user.ts",
+    lineNumber: 10,
+    startLine: 10,
+    endLine: 12,
+    fixPrompt: "Check user before use",
+  };
+
+  const createResult = (
+    issues: ReviewIssue[],
+    extra: Partial<ReviewResult> = {}
+  ): ReviewResult => ({
+    reviewId: "review-1",
+    timestamp: "2024-01-01T00:00:00Z",
+    commitSha: "head",
+    summary: "",
+    issues,
+    totalIssues: issues.length,
+    ...extra,
+  });
+
+  const decision = (
+    event: PolicyDecision["event"],
+    shouldFail = false
+  ): PolicyDecision => ({
+    event,
+    shouldFail,
+    blockingIssues: [],
+    reasons: [`policy chose ${event}`],
+  });
+
+  let create: jest.Mock;
+  let update: jest.Mock;
+
+  beforeEach(() => {
+    create = jest.fn().mockResolvedValue({ data: { id: 42 } });
+    update = jest.fn().mockResolvedValue({ data: {} });
+    (github.getOctokit as jest.Mock).mockReturnValue({
+      rest: { checks: { create, update } },
+    });
+  });
+
+  describe("createAnnotations", () => {
+    it("should annotate issues with a line, including ones outside the diff", () => {
+      const annotations = CheckRunService.createAnnotations(
+        [
+          issue,
+          {
+            ...issue,
+            id: "low",
+            severity: "low",
+            startLine: undefined,
+            endLine: undefined,
+            lineNumber: 200,
+            suggestion: "fixed();",
+          },
+          { ...issue, id: "medium", severity: "medium", filePath: undefined },
+          { ...issue, id: "left", side: "LEFT" },
+        ],
+        "en"
+      );
+
+      expect(annotations).toEqual([
+        {
+          path: "src/user.ts",
+          start_line: 10,
+          end_line: 12,
+          annotation_level: "failure",
+          title: "Potential bug: Null dereference",
+          message:
+            "user may be undefined\n\nSuggested fix: Check user before use",
+        },
+        {
+          path: "src/user.ts",
+          start_line: 200,
+          end_line: 200,
+          annotation_level: "notice",
+          title: "Potential bug: Null dereference",
+          message:
+            "user may be undefined\n\nSuggested fix: Check user before use",
+          raw_details: "fixed();",
+        },
+      ]);
+    });
+  });
+
+  describe("getConclusion", () => {
+    it.each([
+      [createResult([issue]), decision("REQUEST_CHANGES"), "failure"],
+      [createResult([issue]), decision("COMMENT", true), "failure"],
+      [createResult([issue]), decision("COMMENT"), "neutral"],
+      [createResult([], { parseError: "bad" }), decision("COMMENT"), "neutral"],
+      [createResult([]), decision("APPROVE"), "success"],
+    ])("should conclude %#", (result, policyDecision, conclusion) => {
+      expect(CheckRunService.getConclusion(result, policyDecision)).toBe(
+        conclusion
+      );
+    });
+  });
+
+  it("should start in progress and complete with annotations and a summary", async () => {
+    const service = new CheckRunService("token", prInfo, "en");
+    await service.start();
+
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        owner: "octo",
+        repo: "shop",
+        name: "Bugment",
+        head_sha: "head",
+        status: "in_progress",
+        output: {
+          title: "Review in progress",
+          summary: "Bugment is reviewing the changes in this pull request.",
+        },
+      })
+    );
+
+    await service.complete(
+      createResult([
+        issue,
+        { ...issue, id: "bug_2", severity: "low", filePath: undefined },
+      ]),
+      decision("REQUEST_CHANGES")
+    );
+
+    expect(update).toHaveBeenCalledTimes(1);
+    const params = update.mock.calls[0]![0];
+    expect(params).toMatchObject({
+      check_run_id: 42,
+      status: "completed",
+      conclusion: "failure",
+      output: { title: "2 issues found" },
+    });
+    expect(params.output.annotations).toHaveLength(1);
+    expect(params.output.summary).toBe(
+      [
+        "### Severity distribution",
+        "",
+        "| Severity | Count |",
+        "| ---- | ---- |",
+        "| 🟠 High | 1 |",
+        "| 🟢 Low | 1 |",
+        "",
+        "### Review decision",
+        "",
+        "**REQUEST_CHANGES**",
+        "",
+        "- policy chose REQUEST_CHANGES",
+        "",
+        "This issue has no line that can be annotated:",
+        "",
+        "- 🟢 Null dereference - `src/user.ts:10-12`",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should upload annotations in batches of 50", async () => {
+    const service = new CheckRunService("token", prInfo);
+    await service.start();
+
+    const issues = Array.from({ length: 120 }, (_, index) => ({
+      ...issue,
+      id: `bug_${index}`,
+      lineNumber: index + 1,
+      startLine: undefined,
+      endLine: undefined,
+    }));
+    await service.complete(createResult(issues), decision("COMMENT"));
+
+    expect(
+      update.mock.calls.map(([params]) => params.output.annotations.length)
+    ).toEqual([50, 50, 20]);
+    expect(update.mock.calls.map(([params]) => params.conclusion)).toEqual([
+      undefined,
+      undefined,
+      "neutral",
+    ]);
+  });
+
+  it("should create a completed check run when starting failed", async () => {
+    create
+      .mockRejectedValueOnce(new Error("Resource not accessible"))
+      .mockResolvedValueOnce({ data: { id: 7 } });
+    const service = new CheckRunService("token", prInfo);
+
+    await service.start();
+    await service.complete(createResult([]), decision("APPROVE"));
+
+    expect(update).not.toHaveBeenCalled();
+    expect(create).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        status: "completed",
+        conclusion: "success",
+        output: expect.objectContaining({ title: "未发现问题" }),
+      })
+    );
+  });
+
+  it("should fail the running check run when the review errors", async () => {
+    const service = new CheckRunService("token", prInfo, "en");
+    await service.fail("not started");
+    expect(update).not.toHaveBeenCalled();
+
+    await service.start();
+    await service.fail("Augment timed out");
+
+    expect(update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        check_run_id: 42,
+        conclusion: "failure",
+        output: {
+          title: "Review failed",
+          summary: "```\nAugment timed out\n```",
+        },
+      })
+    );
+  });
+
+  it("should not throw when the Checks API rejects the update", async () => {
+    update.mockRejectedValue(new Error("Resource not accessible"));
+    const service = new CheckRunService("token", prInfo);
+    await service.start();
+
+    await expect(
+      service.complete(createResult([issue]), decision("COMMENT"))
+    ).resolves.toBeUndefined();
+  });
+});
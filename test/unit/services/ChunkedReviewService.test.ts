@@ -0,0 +1,208 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ChunkedReviewService } from "../../../src/services/ChunkedReviewService";
+import { ReviewService } from "../../../src/services/ReviewService";
+import { JsonReviewResultParser } from "../../../src/parsers/JsonReviewResultParser";
+import { PullRequestInfo, ReviewBackend } from "../../../src/core/types";
+
+jest.mock("@actions/core", () => ({
+  info: jest.fn(),
+  debug: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn(),
+}));
+
+jest.mock("../../../src/services/AugmentClient", () => ({
+  AugmentIPCClient: jest.fn(),
+}));
+
+const prInfo: PullRequestInfo = {
+  number: 123,
+  title: "Test PR",
+  body: "Test description",
+  baseSha: "base123",
+  headSha: "head456",
+  owner: "test-owner",
+  repo: "test-repo",
+};
+
+function fileDiff(filePath: string): string {
+  return `diff --git a/${filePath} b/${filePath}\n--- a/${filePath}\n+++ b/${filePath}\n@@ -1,1 +1,2 @@\n context\n+${"x".repeat(200)}\n`;
+}
+
+function reviewJson(filePath: string): string {
+  return JSON.stringify({
+    summary: { overallComments: [`Reviewed ${filePath}`] },
+    issues: [
+      {
+        id: "issue_1",
+        type: "bug",
+        severity: "high",
+        title: `Bug in ${filePath}`,
+        description: "Something is wrong",
+        location: `${filePath}#L2`,
+        filePath,
+        lineNumber: 2,
+      },
+    ],
+  });
+}
+
+describe("ChunkedReviewService", () => {
+  let tempDir: string;
+  let diffPath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "bugment-chunked-"));
+    diffPath = path.join(tempDir, "pr_diff.patch");
+    fs.writeFileSync(
+      diffPath,
+      fileDiff("a/one.ts") + fileDiff("b/two.ts") + fileDiff("c/three.ts")
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function createService(
+    review: ReviewBackend["review"],
+    maxTokens: number,
+    concurrency: number = 2
+  ) {
+    const backend: ReviewBackend = { name: "openai", review };
+    return new ChunkedReviewService(
+      new ReviewService(prInfo, tempDir, {}, backend),
+      new JsonReviewResultParser(prInfo),
+      { maxTokens, concurrency }
+    );
+  }
+
+  it("reviews a small diff in a single request", async () => {
+    const review = jest.fn(async (_prompt: string, _context: any) =>
+      reviewJson("a/one.ts")
+    );
+
+    const result = await createService(review, 100000).review(diffPath);
+
+    expect(review).toHaveBeenCalledTimes(1);
+    expect(review.mock.calls[0]![1]).toMatchObject({ diffPath });
+    expect(result.totalIssues).toBe(1);
+  });
+
+  it("reviews each chunk with bounded concurrency and merges the results", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const prompts: string[] = [];
+    const review = jest.fn(
+      async (prompt: string, context: { diffPath: string }) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        prompts.push(prompt);
+        const content = fs.readFileSync(context.diffPath, "utf-8");
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        running--;
+        const filePath = content.match(/^diff --git a\/(\S+)/)![1]!;
+        return reviewJson(filePath);
+      }
+    );
+
+    const result = await createService(review, 80).review(diffPath);
+
+    expect(review).toHaveBeenCalledTimes(3);
+    expect(maxRunning).toBe(2);
+    expect(prompts.every((prompt) => prompt.includes("## 分块审查"))).toBe(
+      true
+    );
+    expect(result.issues.map((issue) => issue.filePath)).toEqual([
+      "a/one.ts",
+      "b/two.ts",
+      "c/three.ts",
+    ]);
+    expect(new Set(result.issues.map((issue) => issue.id)).size).toBe(3);
+    expect(result.summary).toBe(
+      "- 1️⃣ Reviewed a/one.ts\n- 2️⃣ Reviewed b/two.ts\n- 3️⃣ Reviewed c/three.ts"
+    );
+    expect(fs.readdirSync(tempDir)).toEqual(["pr_diff.patch"]);
+  });
+
+  it("fails when a chunk fails and removes the chunk files", async () => {
+    const review = jest.fn(async (_prompt: string, context: any) => {
+      if (context.diffPath.endsWith(".chunk-2.patch")) {
+        throw new Error("Request timeout");
+      }
+      return reviewJson("a/one.ts");
+    });
+
+    await expect(createService(review, 80, 1).review(diffPath)).rejects.toThrow(
+      "Review of chunk 2/3 failed: Request timeout"
+    );
+    expect(review).toHaveBeenCalledTimes(2);
+    expect(fs.readdirSync(tempDir)).toEqual(["pr_diff.patch"]);
+  });
+});
+
+describe("ChunkedReviewService JSON repair", () => {
+  let tempDir: string;
+  let diffPath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "bugment-repair-"));
+    diffPath = path.join(tempDir, "pr_diff.patch");
+    fs.writeFileSync(diffPath, fileDiff("a/one.ts"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function createService(review: ReviewBackend["review"]) {
+    const backend: ReviewBackend = { name: "openai", review };
+    return new ChunkedReviewService(
+      new ReviewService(prInfo, tempDir, {}, backend),
+      new JsonReviewResultParser(prInfo),
+      { maxTokens: 100000, concurrency: 1 }
+    );
+  }
+
+  it("asks the model once to repair unparseable output", async () => {
+    const review = jest
+      .fn(async (_prompt: string, _context: any) => "")
+      .mockResolvedValueOnce("审查完成，但没有 JSON")
+      .mockResolvedValueOnce(reviewJson("a/one.ts"));
+
+    const result = await createService(review).review(diffPath);
+
+    expect(review).toHaveBeenCalledTimes(2);
+    const repairPrompt = review.mock.calls[1]![0];
+    expect(repairPrompt).toContain("# 修复 JSON 输出");
+    expect(repairPrompt).toContain("## 【输出格式要求】");
+    expect(repairPrompt).toContain("审查完成，但没有 JSON");
+    expect(result.parseError).toBeUndefined();
+    expect(result.totalIssues).toBe(1);
+  });
+
+  it("keeps the parse error when the repaired output is still invalid", async () => {
+    const review = jest.fn(
+      async (_prompt: string, _context: any) => "不是 JSON"
+    );
+
+    const result = await createService(review).review(diffPath);
+
+    expect(review).toHaveBeenCalledTimes(2);
+    expect(result.parseError).toBeDefined();
+    expect(result.issues).toHaveLength(0);
+  });
+
+  it("does not request a repair when local recovery succeeds", async () => {
+    const review = jest.fn(async (_prompt: string, _context: any) =>
+      reviewJson("a/one.ts").replace(/\}\]\}$/, "},]}")
+    );
+
+    const result = await createService(review).review(diffPath);
+
+    expect(review).toHaveBeenCalledTimes(1);
+    expect(result.parseError).toBeUndefined();
+  });
+});
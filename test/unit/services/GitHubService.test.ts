@@ -0,0 +1,68 @@
+import * as core from "@actions/core";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { GitHubService } from "../../../src/services/GitHubService";
+
+jest.mock("@actions/core", () => ({
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+  getInput: jest.fn(),
+}));
+
+jest.mock("@actions/github", () => ({
+  getOctokit: jest.fn(),
+  context: { repo: { owner: "octo", repo: "shop" }, payload: {} },
+}));
+
+describe("GitHubService", () => {
+  describe("parseInputs", () => {
+    let tempDir: string;
+    let inputs: Record<string, string>;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "bugment-inputs-"));
+      inputs = {
+        augment_access_token: "token",
+        augment_tenant_url: "https://tenant.augmentcode.com",
+        github_token: "github-token",
+      };
+      (core.getInput as jest.Mock).mockImplementation(
+        (name: string) => inputs[name] ?? ""
+      );
+      (core.warning as jest.Mock).mockClear();
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test("should ignore commands in the repository config", () => {
+      fs.writeFileSync(
+        path.join(tempDir, ".bugment.yml"),
+        "commands:\n  allowedAssociations: [NONE, CONTRIBUTOR]\n"
+      );
+
+      const config = GitHubService.parseInputs(tempDir);
+
+      expect(config.commands.allowedAssociations).toEqual([
+        "OWNER",
+        "MEMBER",
+        "COLLABORATOR",
+      ]);
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining(".bugment.yml is ignored")
+      );
+    });
+
+    test("should take allowed associations from the action input", () => {
+      inputs.command_allowed_associations = "owner, member";
+
+      const config = GitHubService.parseInputs(tempDir);
+
+      expect(config.commands.allowedAssociations).toEqual(["OWNER", "MEMBER"]);
+    });
+  });
+});
@@ -199,6 +199,34 @@ index 1111111..2222222 100644
       expect(filteredContent).toContain("package-lock.json");
     });
 
+    test("should record why each file was ignored", () => {
+      const diffContent = `diff --git a/package-lock.json b/package-lock.json
+index 7890abc..def1234 100644
+--- a/package-lock.json
++++ b/package-lock.json
+@@ -1,1 +1,1 @@
+-{}
++{ }
+diff --git a/src/index.ts b/src/index.ts
+index abc1234..def5678 100644
+--- a/src/index.ts
++++ b/src/index.ts
+@@ -1,1 +1,2 @@
++import express from 'express';
+ console.log('Hello World');`;
+      const ignoredFiles: any[] = [];
+
+      (gitService as any).filterDiffContent(diffContent, ignoredFiles);
+
+      expect(ignoredFiles).toEqual([
+        {
+          filePath: "package-lock.json",
+          pattern: "package-lock.json",
+          source: "default",
+        },
+      ]);
+    });
+
     test("should handle malformed diff headers gracefully", () => {
       const diffContent = `diff --git invalid header
 some content
@@ -0,0 +1,143 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { GitService } from "../../../src/services/GitService";
+import { PullRequestInfo } from "../../../src/core/types";
+
+jest.mock("@actions/core", () => ({
+  info: jest.fn(),
+  warning: jest.fn(),
+}));
+
+describe("GitService - Incremental Diff", () => {
+  const prInfo: PullRequestInfo = {
+    number: 123,
+    title: "Test PR",
+    body: "Test description",
+    baseSha: "base123",
+    headSha: "head456",
+    owner: "test-owner",
+    repo: "test-repo",
+  };
+
+  const fullDiff = `diff --git a/src/a.ts b/src/a.ts
+index 1111111..2222222 100644
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -1,1 +1,2 @@
+ const a = 1;
++const b = 2;
+diff --git a/src/b.ts b/src/b.ts
+index 3333333..4444444 100644
+--- a/src/b.ts
++++ b/src/b.ts
+@@ -1,1 +1,1 @@
+-old
++new`;
+
+  const incrementalDiff = `diff --git a/src/a.ts b/src/a.ts
+index 1111111..2222222 100644
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -1,1 +1,2 @@
+ const a = 1;
++const b = 2;
+diff --git a/src/merged-from-base.ts b/src/merged-from-base.ts
+index 5555555..6666666 100644
+--- a/src/merged-from-base.ts
++++ b/src/merged-from-base.ts
+@@ -1,1 +1,1 @@
+-x
++y`;
+
+  let workspaceDir: string;
+  let fullDiffPath: string;
+  let gitService: GitService;
+  let gitCommand: jest.SpyInstance;
+
+  beforeEach(() => {
+    workspaceDir = fs.mkdtempSync(path.join(os.tmpdir(), "bugment-"));
+    fullDiffPath = path.join(workspaceDir, "pr_diff.patch");
+    fs.writeFileSync(fullDiffPath, fullDiff);
+
+    gitService = new GitService(prInfo, workspaceDir);
+    gitCommand = jest
+      .spyOn(gitService, "executeGitCommand")
+      .mockImplementation(async (args: string[]) => {
+        if (args[0] === "merge-base") return "";
+        if (args[0] === "diff") return incrementalDiff;
+        throw new Error(`unexpected git command: ${args.join(" ")}`);
+      });
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspaceDir, { recursive: true, force: true });
+  });
+
+  test("should write only PR files changed since the given commit", async () => {
+    const diffPath = await gitService.generateIncrementalDiffFile(
+      "reviewed1",
+      fullDiffPath
+    );
+
+    expect(diffPath).toBe(path.join(workspaceDir, "pr_incremental_diff.patch"));
+    const content = fs.readFileSync(diffPath!, "utf-8");
+    expect(content).toContain("src/a.ts");
+    expect(content).not.toContain("src/b.ts");
+    expect(content).not.toContain("merged-from-base.ts");
+    expect(gitCommand).toHaveBeenCalledWith(["diff", "reviewed1", "head456"]);
+  });
+
+  test("should fall back when the commit is not an ancestor of head", async () => {
+    gitCommand.mockImplementation(async (args: string[]) => {
+      if (args[0] === "merge-base") throw new Error("exit code 1");
+      return incrementalDiff;
+    });
+
+    await expect(
+      gitService.generateIncrementalDiffFile("rebased1", fullDiffPath)
+    ).resolves.toBeNull();
+  });
+
+  test("should fall back when head was already reviewed", async () => {
+    await expect(
+      gitService.generateIncrementalDiffFile("head456", fullDiffPath)
+    ).resolves.toBeNull();
+    expect(gitCommand).not.toHaveBeenCalled();
+  });
+
+  test("should fall back when no PR files changed since the commit", async () => {
+    gitCommand.mockImplementation(async (args: string[]) =>
+      args[0] === "diff" ? incrementalDiff.split("\n").slice(7).join("\n") : ""
+    );
+
+    await expect(
+      gitService.generateIncrementalDiffFile("reviewed1", fullDiffPath)
+    ).resolves.toBeNull();
+  });
+
+  test("should limit the diff to files matching the review paths", async () => {
+    const diffPath = await gitService.generatePathScopedDiffFile(
+      ["b.ts"],
+      fullDiffPath
+    );
+
+    expect(diffPath).toBe(path.join(workspaceDir, "pr_scoped_diff.patch"));
+    const content = fs.readFileSync(diffPath!, "utf-8");
+    expect(content).toContain("src/b.ts");
+    expect(content).not.toContain("src/a.ts");
+  });
+
+  test("should return null when no file matches the review paths", async () => {
+    await expect(
+      gitService.generatePathScopedDiffFile(["docs/"], fullDiffPath)
+    ).resolves.toBeNull();
+  });
+
+  test("should extract file paths from diff headers", () => {
+    expect(gitService.extractDiffFilePaths(fullDiff)).toEqual([
+      "src/a.ts",
+      "src/b.ts",
+    ]);
+  });
+});
@@ -0,0 +1,376 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { PromptBuilder } from "../../../src/services/PromptBuilder";
+import { getReviewPromptTemplate } from "../../../src/templates";
+
+jest.mock("@actions/core", () => ({
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn(),
+}));
+
+describe("PromptBuilder", () => {
+  let tempDir: string;
+
+  const writeFile = (filePath: string, content: string) => {
+    const fullPath = path.join(tempDir, filePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "bugment-prompt-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe("loadTemplate", () => {
+    test("should load the bundled template by default", () => {
+      expect(new PromptBuilder(tempDir).loadTemplate()).toBe(
+        getReviewPromptTemplate()
+      );
+    });
+
+    test("should replace the bundled template and append sections", () => {
+      writeFile(".github/bugment/prompt.md", "Review @{DIFF_FILE_PATH}\n");
+      writeFile(".github/bugment/extra.md", "\n## Extra\n- Check {AUTHOR}\n");
+
+      const template = new PromptBuilder(tempDir, {
+        template: ".github/bugment/prompt.md",
+        append: [".github/bugment/extra.md"],
+      }).loadTemplate();
+
+      expect(template).toBe(
+        "Review @{DIFF_FILE_PATH}\n\n\n## Extra\n- Check {AUTHOR}\n"
+      );
+    });
+
+    test("should append sections to the bundled template", () => {
+      writeFile("extra.md", "## Team conventions\n");
+
+      const template = new PromptBuilder(tempDir, {
+        append: ["extra.md"],
+      }).loadTemplate();
+
+      expect(template.startsWith(getReviewPromptTemplate())).toBe(true);
+      expect(template).toContain("## Team conventions");
+    });
+
+    test("should reject unknown and missing placeholders", () => {
+      writeFile("prompt.md", "Review {PR_TITLE} by {REVIEWER}\n");
+      writeFile("extra.md", "Ticket: {JIRA_TICKET}\n");
+
+      expect(() =>
+        new PromptBuilder(tempDir, {
+          template: "prompt.md",
+          append: ["extra.md"],
+        }).loadTemplate()
+      ).toThrow(
+        /prompt\.md: unknown placeholder \{REVIEWER\}[\s\S]*prompt\.md: missing required placeholder \{DIFF_FILE_PATH\}[\s\S]*extra\.md: unknown placeholder \{JIRA_TICKET\}/
+      );
+    });
+
+    test("should fail when the template file does not exist", () => {
+      expect(() =>
+        new PromptBuilder(tempDir, { template: "missing.md" }).loadTemplate()
+      ).toThrow("Prompt template not found: missing.md");
+    });
+
+    test("should reject sections that link outside the workspace", () => {
+      const outsideDir = fs.mkdtempSync(
+        path.join(os.tmpdir(), "bugment-outside-")
+      );
+      try {
+        fs.writeFileSync(path.join(outsideDir, "secret.txt"), "TOKEN=abc\n");
+        fs.symlinkSync(
+          path.join(outsideDir, "secret.txt"),
+          path.join(tempDir, "env-link")
+        );
+
+        expect(() =>
+          new PromptBuilder(tempDir, { append: ["env-link"] }).loadTemplate()
+        ).toThrow(
+          "Prompt section must be a regular file inside the workspace: env-link"
+        );
+      } finally {
+        fs.rmSync(outsideDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("validateTemplate", () => {
+    test("should accept the bundled template", () => {
+      expect(
+        PromptBuilder.validateTemplate(getReviewPromptTemplate(), "prompt.md")
+      ).toEqual([]);
+    });
+
+    test("should not require placeholders in appended sections", () => {
+      expect(
+        PromptBuilder.validateTemplate("## Extra", "extra.md", false)
+      ).toEqual([]);
+    });
+  });
+
+  describe("formatPrompt", () => {
+    const options = {
+      prTitle: "Add refunds",
+      prDescription: "Implements refunds.\n\nFixes #12, closes octo/api#3",
+      diffPath: "/tmp/pr.patch",
+      baseBranch: "main",
+      author: "octocat",
+      changedFiles: [
+        { path: "src/refund.ts", additions: 10, deletions: 2 },
+        { path: "src/index.ts", additions: 1, deletions: 0 },
+      ],
+    };
+
+    test("should fill every template variable", () => {
+      writeFile("docs/rules.md", "Use integer cents for money.\n");
+      const template = [
+        "{PR_TITLE} by {AUTHOR} into {BASE_BRANCH}",
+        "Issues: {LINKED_ISSUES}",
+        "Stats: {DIFF_STATS}",
+        "{CHANGED_FILES}",
+        "Diff: {DIFF_FILE_PATH}",
+        "{GUIDELINES}",
+      ].join("\n");
+
+      const prompt = new PromptBuilder(tempDir, {
+        guidelines: ["docs/rules.md"],
+      }).formatPrompt(template, options);
+
+      expect(prompt).toBe(
+        [
+          "Add refunds by octocat into main",
+          "Issues: #12, octo/api#3",
+          "Stats: 2 files changed, +11/-2 lines",
+          "  - src/refund.ts (+10/-2)",
+          "  - src/index.ts (+1/-0)",
+          "Diff: /tmp/pr.patch",
+          "### docs/rules.md\n\nUse integer cents for money.",
+        ].join("\n")
+      );
+    });
+
+    test("should use defaults for missing values", () => {
+      const prompt = new PromptBuilder(tempDir).formatPrompt(
+        "{AUTHOR} {BASE_BRANCH} {LINKED_ISSUES} {DIFF_STATS} {CHANGED_FILES} {GUIDELINES}",
+        { prTitle: "", prDescription: "" }
+      );
+
+      expect(prompt).toBe(
+        "Unknown Unknown None 0 files changed, +0/-0 lines No changed files None"
+      );
+    });
+
+    test("should not substitute placeholders inside the PR description", () => {
+      const prompt = new PromptBuilder(tempDir).formatPrompt(
+        "{PR_DESCRIPTION} {AUTHOR}",
+        { prTitle: "", prDescription: "Literal {AUTHOR}", author: "octocat" }
+      );
+
+      expect(prompt).toBe("Literal {AUTHOR} octocat");
+    });
+
+    test("should append guideline files when the template does not reference them", () => {
+      writeFile(".bugment/rules/api.md", "Every endpoint needs auth.\n");
+      writeFile(".bugment/rules/db.md", "No raw SQL.\n");
+      writeFile(".bugment/rules/notes.txt", "Not a rule file.\n");
+
+      const prompt = new PromptBuilder(tempDir, {
+        guidelines: [".bugment/rules/*.md", "CONTRIBUTING.md"],
+      }).formatPrompt("Diff: {DIFF_FILE_PATH}", options);
+
+      expect(prompt).toContain("## 项目规则文件");
+      expect(prompt).toContain(
+        "### .bugment/rules/api.md\n\nEvery endpoint needs auth.\n\n### .bugment/rules/db.md\n\nNo raw SQL."
+      );
+      expect(prompt).not.toContain("Not a rule file");
+    });
+
+    test("should repeat the output language instruction in supported languages", () => {
+      const builder = new PromptBuilder(tempDir);
+
+      expect(
+        builder.formatPrompt("{DIFF_FILE_PATH}", { ...options, language: "ja" })
+      ).toContain(
+        "- summary.overallComments、title、description、fixPrompt フィールドは日本語で記述してください。"
+      );
+      expect(
+        builder.formatPrompt("{DIFF_FILE_PATH}", { ...options, language: "fr" })
+      ).not.toContain("Write the summary.overallComments");
+    });
+
+    test("should truncate long guideline files", () => {
+      writeFile(
+        "CONTRIBUTING.md",
+        "x".repeat(PromptBuilder.MAX_GUIDELINE_LENGTH + 10)
+      );
+
+      const guidelines = new PromptBuilder(tempDir, {
+        guidelines: ["CONTRIBUTING.md"],
+      }).loadGuidelines();
+
+      expect(guidelines).toHaveLength(1);
+      expect(guidelines[0]!.truncated).toBe(true);
+      expect(guidelines[0]!.content).toHaveLength(
+        PromptBuilder.MAX_GUIDELINE_LENGTH
+      );
+    });
+
+    test("should skip guideline files and directories that link outside the workspace", () => {
+      const outsideDir = fs.mkdtempSync(
+        path.join(os.tmpdir(), "bugment-outside-")
+      );
+      try {
+        fs.writeFileSync(path.join(outsideDir, "secret.md"), "TOKEN=abc\n");
+        fs.symlinkSync(
+          path.join(outsideDir, "secret.md"),
+          path.join(tempDir, "rules.md")
+        );
+        fs.symlinkSync(outsideDir, path.join(tempDir, "linked"));
+        writeFile("CONTRIBUTING.md", "Use tabs\n");
+
+        const guidelines = new PromptBuilder(tempDir, {
+          guidelines: ["rules.md", "linked/*.md", "CONTRIBUTING.md"],
+        }).loadGuidelines();
+
+        expect(guidelines.map((guideline) => guideline.path)).toEqual([
+          "CONTRIBUTING.md",
+        ]);
+      } finally {
+        fs.rmSync(outsideDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("formatRepairPrompt", () => {
+    test("should fall back to the bundled output format", () => {
+      const prompt = new PromptBuilder(tempDir).formatRepairPrompt(
+        "Review @{DIFF_FILE_PATH}",
+        "{ broken",
+        "Unexpected end of JSON input"
+      );
+
+      expect(prompt).toContain("## 【输出格式要求】");
+      expect(prompt).toContain("<output>\n{ broken\n</output>");
+    });
+  });
+
+  describe("formatExplainPrompt", () => {
+    test("should describe the issue and the commenter's question", () => {
+      const prompt = new PromptBuilder(tempDir).formatExplainPrompt(
+        {
+          id: "bug_1",
+          type: "bug",
+          severity: "high",
+          title: "Null dereference",
+          description: "user may be null",
+          location: "src/a.ts#L10",
+          fixPrompt: "Check user before use",
+        },
+        "Can this happen in production?",
+        "en"
+      );
+
+      expect(prompt).toContain("- 标题：Null dereference");
+      expect(prompt).toContain("- 位置：src/a.ts#L10");
+      expect(prompt).toContain("- 修复建议：Check user before use");
+      expect(prompt).toContain(
+        "## 评论者的问题\n\nCan this happen in production?"
+      );
+      expect(prompt).toContain("请使用 en 语言回答。");
+    });
+
+    test("should omit the question section when no question was asked", () => {
+      const prompt = new PromptBuilder(tempDir).formatExplainPrompt(
+        {
+          id: "bug_1",
+          type: "bug",
+          severity: "low",
+          title: "Typo",
+          description: "Misspelled name",
+          location: "",
+        },
+        ""
+      );
+
+      expect(prompt).not.toContain("评论者的问题");
+      expect(prompt).not.toContain("- 位置");
+    });
+  });
+
+  describe("validateConfig", () => {
+    test("should accept a valid config", () => {
+      expect(
+        PromptBuilder.validateConfig(
+          {
+            template: ".github/bugment/prompt.md",
+            append: ["docs/review.md"],
+            guidelines: ["CONTRIBUTING.md", ".bugment/rules/*.md"],
+          },
+          "prompt"
+        )
+      ).toEqual([]);
+    });
+
+    test("should report invalid keys and paths", () => {
+      expect(
+        PromptBuilder.validateConfig(
+          {
+            template: "/etc/prompt.md",
+            append: "extra.md",
+            guidelines: ["../rules.md", "docs/*/rules.md"],
+            variables: {},
+          },
+          "prompt"
+        )
+      ).toEqual([
+        "prompt.variables: unknown key",
+        "prompt.template: expected relative path in repository",
+        "prompt.append: expected array",
+        "prompt.guidelines[0]: expected relative path in repository",
+        "prompt.guidelines[1]: wildcards are only supported in the file name",
+      ]);
+    });
+  });
+
+  describe("extractLinkedIssues", () => {
+    test("should find issues referenced with closing keywords", () => {
+      expect(
+        PromptBuilder.extractLinkedIssues(
+          "Resolves #1\nfixes: #2\nSee #3\nCloses octo/api#4 and fixes #1"
+        )
+      ).toEqual(["#1", "#2", "octo/api#4"]);
+    });
+  });
+
+  describe("summarizeDiff", () => {
+    test("should count added and deleted lines per file", () => {
+      const diff = [
+        "diff --git a/src/a.ts b/src/a.ts",
+        "index 123..456 100644",
+        "--- a/src/a.ts",
+        "+++ b/src/a.ts",
+        "@@ -1,3 +1,3 @@",
+        " const a = 1;",
+        "-const b = 2;",
+        "+const b = 3;",
+        "+const c = 4;",
+        "diff --git a/old.ts b/new.ts",
+        "similarity index 100%",
+        "rename from old.ts",
+        "rename to new.ts",
+      ].join("\n");
+
+      expect(PromptBuilder.summarizeDiff(diff)).toEqual([
+        { path: "src/a.ts", additions: 2, deletions: 1 },
+        { path: "new.ts", additions: 0, deletions: 0 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ReviewService } from "../../../src/services/ReviewService";
+import { ReviewBackendFactory } from "../../../src/services/ReviewBackendFactory";
+import { AugmentBackend } from "../../../src/services/AugmentBackend";
+import { OpenAICompatibleBackend } from "../../../src/services/OpenAICompatibleBackend";
+import {
+  PullRequestInfo,
+  ReviewBackend,
+  ReviewBackendContext,
+} from "../../../src/core/types";
+
+jest.mock("@actions/core", () => ({
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn(),
+}));
+
+// Augment 客户端会启动语言服务器进程，这里只验证后端的选择
+jest.mock("../../../src/services/AugmentClient", () => ({
+  AugmentIPCClient: jest.fn(),
+}));
+
+describe("Review backends", () => {
+  const prInfo: PullRequestInfo = {
+    number: 123,
+    title: "Test PR",
+    body: "Test description",
+    baseSha: "base123",
+    headSha: "head456",
+    owner: "test-owner",
+    repo: "test-repo",
+  };
+
+  let tempDir: string;
+  let diffPath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "bugment-backend-"));
+    diffPath = path.join(tempDir, "pr_diff.patch");
+    fs.writeFileSync(diffPath, "diff --git a/a.ts b/a.ts\n+const a = 1;");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe("ReviewService", () => {
+    test("should send the formatted prompt to the configured backend", async () => {
+      const calls: Array<{ prompt: string; context: ReviewBackendContext }> =
+        [];
+      const backend: ReviewBackend = {
+        name: "openai",
+        review: async (prompt, context) => {
+          calls.push({ prompt, context });
+          return "{}";
+        },
+      };
+      const service = new ReviewService(
+        prInfo,
+        tempDir,
+        { language: "en" },
+        backend
+      );
+
+      const result = await service.performReview(
+        diffPath,
+        { mode: "incremental", baseSha: "abc1234", headSha: "head456" },
+        "/tmp/full.patch"
+      );
+
+      expect(result).toBe("{}");
+      expect(calls).toHaveLength(1);
+      expect(calls[0]?.prompt).toContain("Test PR");
+      expect(calls[0]?.prompt).toContain("请使用 en 语言");
+      expect(calls[0]?.prompt).toContain("## 增量审查");
+      expect(calls[0]?.prompt).not.toContain("## 路径规则");
+      expect(calls[0]?.context).toEqual({
+        projectPath: tempDir,
+        diffPath,
+        fullDiffPath: "/tmp/full.patch",
+        attachDiff: true,
+      });
+    });
+  });
+
+  describe("ReviewService path rules", () => {
+    test("should include the path rules in the prompt", async () => {
+      const prompts: string[] = [];
+      const backend: ReviewBackend = {
+        name: "openai",
+        review: async (prompt) => {
+          prompts.push(prompt);
+          return "{}";
+        },
+      };
+      const service = new ReviewService(
+        prInfo,
+        tempDir,
+        {
+          rules: [
+            {
+              name: "payments",
+              paths: ["src/payments/**"],
+              mode: "strict",
+              focus: ["security"],
+            },
+          ],
+        },
+        backend
+      );
+
+      await service.performReview(diffPath);
+
+      expect(prompts[0]).toContain("## 路径规则");
+      expect(prompts[0]).toContain("### payments：`src/payments/**`");
+      expect(prompts[0]).toContain("- 审查模式：严格审查（权重1.0）");
+    });
+  });
+
+  describe("ReviewBackendFactory", () => {
+    test("should create the backend selected by config", () => {
+      expect(
+        ReviewBackendFactory.create({
+          backend: {
+            type: "augment",
+            timeoutSeconds: 600,
+            idleTimeoutSeconds: 120,
+          },
+        })
+      ).toBeInstanceOf(AugmentBackend);
+      expect(
+        ReviewBackendFactory.create({
+          backend: {
+            type: "openai",
+            baseUrl: "http://localhost:8080/v1",
+            model: "qwen",
+            timeoutSeconds: 600,
+            idleTimeoutSeconds: 120,
+          },
+        })
+      ).toBeInstanceOf(OpenAICompatibleBackend);
+    });
+
+    test("should require baseUrl and model for the openai backend", () => {
+      expect(() =>
+        ReviewBackendFactory.create({
+          backend: {
+            type: "openai",
+            timeoutSeconds: 600,
+            idleTimeoutSeconds: 120,
+          },
+        })
+      ).toThrow("requires backend.baseUrl and backend.model");
+    });
+  });
+
+  describe("OpenAICompatibleBackend", () => {
+    const createBackend = () =>
+      new OpenAICompatibleBackend({
+        baseUrl: "http://localhost:8080/v1/",
+        model: "qwen",
+        apiKey: "secret",
+        timeoutSeconds: 30,
+      });
+
+    test("should post a chat completion with the diff inlined", async () => {
+      const fetchMock = jest.spyOn(global, "fetch").mockResolvedValue(
+        new Response(
+          JSON.stringify({
+            choices: [{ message: { content: '{"issues":[]}' } }],
+          }),
+          { status: 200 }
+        )
+      );
+
+      const result = await createBackend().review("Review this PR", {
+        projectPath: tempDir,
+        diffPath,
+        attachDiff: true,
+      });
+
+      expect(result).toBe('{"issues":[]}');
+      const [url, init] = fetchMock.mock.calls[0]!;
+      expect(url).toBe("http://localhost:8080/v1/chat/completions");
+      expect((init!.headers as Record<string, string>).Authorization).toBe(
+        "Bearer secret"
+      );
+      const body = JSON.parse(init!.body as string);
+      expect(body.model).toBe("qwen");
+      expect(body.messages[0].content).toContain("Review this PR");
+      expect(body.messages[0].content).toContain("+const a = 1;");
+    });
+
+    test("should send repair and explain prompts without the diff", async () => {
+      const fetchMock = jest
+        .spyOn(global, "fetch")
+        .mockResolvedValue(
+          new Response(
+            JSON.stringify({ choices: [{ message: { content: "Because" } }] }),
+            { status: 200 }
+          )
+        );
+
+      await createBackend().review("Explain this issue", {
+        projectPath: tempDir,
+        diffPath,
+      });
+
+      const body = JSON.parse(fetchMock.mock.calls[0]![1]!.body as string);
+      expect(body.messages[0].content).toBe("Explain this issue");
+    });
+
+    test("should surface HTTP errors", async () => {
+      jest.spyOn(global, "fetch").mockResolvedValue(
+        new Response("model not loaded", {
+          status: 503,
+          statusText: "Service Unavailable",
+        })
+      );
+
+      await expect(
+        createBackend().review("Review", { projectPath: tempDir, diffPath })
+      ).rejects.toThrow("503 Service Unavailable model not loaded");
+    });
+
+    test("should reject responses without content", async () => {
+      jest
+        .spyOn(global, "fetch")
+        .mockResolvedValue(
+          new Response(JSON.stringify({ choices: [] }), { status: 200 })
+        );
+
+      await expect(
+        createBackend().review("Review", { projectPath: tempDir, diffPath })
+      ).rejects.toThrow("no message content");
+    });
+  });
+});
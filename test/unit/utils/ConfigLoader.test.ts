@@ -0,0 +1,159 @@
+import * as fs from "fs";
+import { ConfigLoader } from "../../../src/utils/ConfigLoader";
+import { ActionInputs } from "../../../src/core/types";
+
+jest.mock("fs", () => ({
+  existsSync: jest.fn(),
+  readFileSync: jest.fn(),
+}));
+
+jest.mock("@actions/core", () => ({
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+const mockFs = fs as jest.Mocked<typeof fs>;
+
+describe("ConfigLoader", () => {
+  const inputs: ActionInputs = {
+    augmentAccessToken: "token",
+    augmentTenantUrl: "https://test.augment.com",
+    githubToken: "github-token",
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("loadRepositoryConfig", () => {
+    test("should return an empty config when no config file exists", () => {
+      mockFs.existsSync.mockReturnValue(false);
+
+      const { config, filePath } = ConfigLoader.loadRepositoryConfig("/repo");
+      expect(config).toEqual({});
+      expect(filePath).toBeUndefined();
+    });
+
+    test("should load .bugment.yml from the project root", () => {
+      mockFs.existsSync.mockImplementation(
+        (filePath) => String(filePath) === "/repo/.bugment.yml"
+      );
+      mockFs.readFileSync.mockReturnValue(
+        "language: en\nmaxLineComments: 10\npolicy:\n  failOn: any_issue\n"
+      );
+
+      const { config, filePath } = ConfigLoader.loadRepositoryConfig("/repo");
+      expect(filePath).toBe("/repo/.bugment.yml");
+      expect(config.language).toBe("en");
+      expect(config.maxLineComments).toBe(10);
+      expect(config.policy?.failOn).toBe("any_issue");
+    });
+
+    test("should fail when an explicit config file is missing", () => {
+      mockFs.existsSync.mockReturnValue(false);
+
+      expect(() =>
+        ConfigLoader.loadRepositoryConfig("/repo", "config/bugment.yml")
+      ).toThrow("Config file not found: config/bugment.yml");
+    });
+  });
+
+  describe("parseRepositoryConfig", () => {
+    test("should report every invalid key with its path", () => {
+      const parse = () =>
+        ConfigLoader.parseRepositoryConfig(
+          "severityThreshold: urgent\nignore:\n  patterns: [ok, 3]\nfoo: bar\n"
+        );
+
+      expect(parse).toThrow("Invalid configuration in .bugment.yml");
+      expect(parse).toThrow("foo: unknown key");
+      expect(parse).toThrow("severityThreshold: expected one of");
+      expect(parse).toThrow("ignore.patterns[1]: expected non-empty string");
+    });
+
+    test("should report YAML syntax errors", () => {
+      expect(() =>
+        ConfigLoader.parseRepositoryConfig("language: [en", ".bugment.yml")
+      ).toThrow("Failed to parse .bugment.yml");
+    });
+
+    test("should accept an empty file", () => {
+      expect(ConfigLoader.parseRepositoryConfig("")).toEqual({});
+    });
+  });
+
+  describe("mergeConfig", () => {
+    test("should use defaults when nothing is configured", () => {
+      const config = ConfigLoader.mergeConfig(inputs, {});
+
+      expect(config.githubToken).toBe("github-token");
+      expect(config.language).toBe("zh-CN");
+      expect(config.severityThreshold).toBe("low");
+      expect(config.maxLineComments).toBe(0);
+      expect(config.snapDistance).toBe(3);
+      expect(config.backend).toEqual({
+        type: "augment",
+        timeoutSeconds: 600,
+        idleTimeoutSeconds: 120,
+      });
+      expect(config.chunking).toEqual({ maxTokens: 30000, concurrency: 3 });
+      expect(config.incremental).toBe(false);
+      expect(config.onParseError).toBe("fail");
+      expect(config.rules).toEqual([]);
+      expect(config.prompt).toEqual({
+        append: [],
+        guidelines: [".bugment/rules/*.md"],
+      });
+      expect(config.sarifFile).toBeUndefined();
+      expect(config.publish).toEqual(["review"]);
+      expect(config.commands).toEqual({
+        allowedAssociations: ["OWNER", "MEMBER", "COLLABORATOR"],
+      });
+      expect(config.feedback).toEqual({ pullRequests: 30 });
+      expect(config.ignore).toEqual({
+        useDefaults: true,
+        patterns: [],
+        gitattributes: false,
+      });
+      expect(config.policy.blockOnSeverity).toBe("high");
+    });
+
+    test("should let action inputs override the config file per key", () => {
+      const config = ConfigLoader.mergeConfig(
+        inputs,
+        {
+          language: "en",
+          severityThreshold: "medium",
+          ignore: {
+            useDefaults: false,
+            patterns: ["docs/**"],
+            gitattributes: true,
+          },
+          policy: { approveWhenClean: true, failOn: "never" },
+          sarifFile: "bugment.sarif",
+        },
+        {
+          severityThreshold: "high",
+          sarifFile: "results/bugment.sarif",
+          ignore: { patterns: ["*.snap"] },
+          policy: { failOn: "request_changes" },
+        },
+        "/repo/.bugment.yml"
+      );
+
+      expect(config.configFile).toBe("/repo/.bugment.yml");
+      expect(config.language).toBe("en");
+      expect(config.severityThreshold).toBe("high");
+      expect(config.ignore).toEqual({
+        useDefaults: false,
+        patterns: ["docs/**", "*.snap"],
+        gitattributes: true,
+      });
+      expect(config.policy.approveWhenClean).toBe(true);
+      expect(config.policy.failOn).toBe("request_changes");
+      expect(config.sarifFile).toBe("results/bugment.sarif");
+    });
+  });
+});
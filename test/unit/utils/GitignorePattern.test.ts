@@ -0,0 +1,180 @@
+import { GitignorePattern } from "../../../src/utils/GitignorePattern";
+
+/**
+ * 按路径模式（WM_PATHNAME）完整匹配 glob
+ */
+function wildmatch(text: string, glob: string): boolean {
+  return new RegExp(`^${GitignorePattern.globToRegex(glob)}$`).test(text);
+}
+
+describe("GitignorePattern", () => {
+  describe("globToRegex", () => {
+    // 移植自 git 的 t/t3070-wildmatch.sh（wildmatch 列）
+    const cases: Array<[boolean, string, string]> = [
+      // 基本匹配
+      [true, "foo", "foo"],
+      [false, "bar", "foo"],
+      [true, "foo", "???"],
+      [false, "foo", "??"],
+      [true, "foo", "*"],
+      [true, "foo", "f*"],
+      [false, "foo", "*f"],
+      [true, "foo", "*foo*"],
+      [true, "foobar", "*ob*a*r*"],
+      [true, "aaaaaaabababab", "*ab"],
+      [true, "foo*", "foo\\*"],
+      [false, "foobar", "foo\\*bar"],
+      [true, "f\\oo", "f\\\\oo"],
+      [true, "ball", "*[al]?"],
+      [false, "ten", "[ten]"],
+      [true, "ten", "**[!te]"],
+      [false, "ten", "**[!ten]"],
+      [true, "ten", "t[a-g]n"],
+      [false, "ten", "t[!a-g]n"],
+      [true, "ton", "t[!a-g]n"],
+      [true, "ton", "t[^a-g]n"],
+      [true, "a]b", "a[]]b"],
+      [true, "a-b", "a[]-]b"],
+      [true, "a]b", "a[]-]b"],
+      [false, "aab", "a[]-]b"],
+      [true, "aab", "a[]a-]b"],
+      [true, "]", "]"],
+      // 路径分隔符
+      [false, "foo/baz/bar", "foo*bar"],
+      [false, "foo/baz/bar", "foo**bar"],
+      [true, "foo/baz/bar", "foo/**/bar"],
+      [true, "foo/baz/bar", "foo/**/**/bar"],
+      [true, "foo/b/a/z/bar", "foo/**/bar"],
+      [true, "foo/bar", "foo/**/bar"],
+      [true, "foo/bar", "foo/**/**/bar"],
+      [false, "foo/bar", "foo?bar"],
+      [false, "foo/bar", "foo[/]bar"],
+      [false, "foo/bar", "foo[^a-z]bar"],
+      [false, "foo/bar", "f[^eiu][^eiu][^eiu][^eiu][^eiu]r"],
+      [true, "foo-bar", "f[^eiu][^eiu][^eiu][^eiu][^eiu]r"],
+      [true, "foo", "**/foo"],
+      [true, "XXX/foo", "**/foo"],
+      [true, "bar/baz/foo", "**/foo"],
+      [false, "bar/baz/foo", "*/foo"],
+      [false, "foo/bar/baz", "**/bar*"],
+      [true, "deep/foo/bar/baz", "**/bar/*"],
+      [false, "deep/foo/bar/baz/", "**/bar/*"],
+      [true, "deep/foo/bar/baz/", "**/bar/**"],
+      [false, "deep/foo/bar", "**/bar/*"],
+      [true, "deep/foo/bar/", "**/bar/**"],
+      [false, "foo/bar/baz", "**/bar**"],
+      [true, "foo/bar/baz/x", "*/bar/**"],
+      [false, "deep/foo/bar/baz/x", "*/bar/**"],
+      [true, "deep/foo/bar/baz/x", "**/bar/*/*"],
+      // 字符类
+      [false, "acrt", "a[c-c]st"],
+      [true, "acrt", "a[c-c]rt"],
+      [false, "]", "[!]-]"],
+      [true, "a", "[!]-]"],
+      [true, "[ab]", "\\[ab]"],
+      [true, "[ab]", "[[]ab]"],
+      [true, "[ab]", "[[:]ab]"],
+      [true, "[ab]", "[\\[:]ab]"],
+      [true, "?a?b", "\\??\\?b"],
+      [true, "abc", "\\a\\b\\c"],
+      [true, "a1B", "[[:alpha:]][[:digit:]][[:upper:]]"],
+      [false, "a", "[[:digit:][:upper:][:space:]]"],
+      [true, "A", "[[:digit:][:upper:][:space:]]"],
+      [true, "1", "[[:digit:][:upper:][:space:]]"],
+      [true, " ", "[[:digit:][:upper:][:space:]]"],
+      [true, "5", "[[:xdigit:]]"],
+      [true, "f", "[[:xdigit:]]"],
+      [true, "D", "[[:xdigit:]]"],
+      [true, ".", "[[:punct:]]"],
+      [false, "a", "[[:punct:]]"],
+    ];
+
+    test.each(cases)(
+      "should return %s for %j matched by %j",
+      (expected, text, glob) => {
+        expect(wildmatch(text, glob)).toBe(expected);
+      }
+    );
+  });
+
+  describe("compile", () => {
+    test("should skip blank lines and comments", () => {
+      expect(GitignorePattern.compile("", "test")).toBeUndefined();
+      expect(GitignorePattern.compile("   ", "test")).toBeUndefined();
+      expect(GitignorePattern.compile("# comment", "test")).toBeUndefined();
+    });
+
+    test("should parse negation, escapes and directory-only rules", () => {
+      expect(GitignorePattern.compile("!keep.log", "test")).toMatchObject({
+        negated: true,
+        directoryOnly: false,
+      });
+      expect(GitignorePattern.compile("\\!important", "test")).toMatchObject({
+        negated: false,
+      });
+      expect(GitignorePattern.compile("build/", "test")).toMatchObject({
+        directoryOnly: true,
+      });
+    });
+
+    test("should match unanchored patterns at any depth", () => {
+      const rule = GitignorePattern.compile("*.log", "test")!;
+
+      expect(GitignorePattern.matches(rule, "app.log", false)).toBe(true);
+      expect(GitignorePattern.matches(rule, "logs/deep/app.log", false)).toBe(
+        true
+      );
+    });
+
+    test("should anchor patterns with a leading or middle slash", () => {
+      const leading = GitignorePattern.compile("/todo.txt", "test")!;
+      const middle = GitignorePattern.compile("doc/frotz", "test")!;
+
+      expect(GitignorePattern.matches(leading, "todo.txt", false)).toBe(true);
+      expect(GitignorePattern.matches(leading, "sub/todo.txt", false)).toBe(
+        false
+      );
+      expect(GitignorePattern.matches(middle, "doc/frotz", false)).toBe(true);
+      expect(GitignorePattern.matches(middle, "a/doc/frotz", false)).toBe(
+        false
+      );
+    });
+
+    test("should match directory-only rules against directories", () => {
+      const rule = GitignorePattern.compile("frotz/", "test")!;
+
+      expect(GitignorePattern.matches(rule, "a/frotz", true)).toBe(true);
+      expect(GitignorePattern.matches(rule, "a/frotz", false)).toBe(false);
+    });
+
+    test("should keep escaped trailing spaces", () => {
+      const rule = GitignorePattern.compile("name\\ ", "test")!;
+
+      expect(GitignorePattern.matches(rule, "name ", false)).toBe(true);
+      expect(GitignorePattern.matches(rule, "name", false)).toBe(false);
+    });
+
+    test("should match files inside matching directories, last rule wins", () => {
+      const rules = ["src/foo", "!src/foo/legacy"].map(
+        (pattern) => GitignorePattern.compile(pattern, "test")!
+      );
+
+      expect(GitignorePattern.matchesPath(rules, "src/foo/a.ts")).toBe(true);
+      expect(GitignorePattern.matchesPath(rules, "src/foo")).toBe(true);
+      expect(GitignorePattern.matchesPath(rules, "src/foo/legacy/b.ts")).toBe(
+        false
+      );
+      expect(GitignorePattern.matchesPath(rules, "src/foobar.ts")).toBe(false);
+    });
+
+    test("should match relative to the directory of the ignore file", () => {
+      const rule = GitignorePattern.compile("/generated", "test", "src")!;
+
+      expect(GitignorePattern.matches(rule, "src/generated", false)).toBe(true);
+      expect(GitignorePattern.matches(rule, "generated", false)).toBe(false);
+      expect(GitignorePattern.matches(rule, "src/a/generated", false)).toBe(
+        false
+      );
+    });
+  });
+});
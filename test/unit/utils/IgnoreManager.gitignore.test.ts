@@ -0,0 +1,209 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { IgnoreManager } from "../../../src/utils/IgnoreManager";
+
+jest.mock("@actions/core", () => ({
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+describe("IgnoreManager gitignore semantics", () => {
+  let tempDir: string;
+
+  const writeFile = (filePath: string, content: string) => {
+    const fullPath = path.join(tempDir, filePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "bugment-ignore-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  // 移植自 git 的 t/t0008-ignores.sh 中的嵌套忽略文件用例
+  describe("nested .bugmentignore files", () => {
+    beforeEach(() => {
+      writeFile(".bugmentignore", "one\nignored-*\ntop-level-dir/\n");
+      writeFile("a/.bugmentignore", "two*\n*three\n");
+      writeFile(
+        "a/b/.bugmentignore",
+        "four\nfive\n# this comment should affect the line numbers\nsix\nignored-dir/\n# and so should this blank line:\n\n!on*\n!two\n"
+      );
+    });
+
+    test.each([
+      ["one", true],
+      ["a/one", true],
+      ["not-ignored", false],
+      ["a/not-ignored", false],
+      ["ignored-and-untracked", true],
+      ["a/ignored-and-untracked", true],
+      ["a/3-three", true],
+      ["3-three", false],
+      ["a/b/one", false],
+      ["a/b/on", false],
+      ["a/b/two", false],
+      ["a/b/twooo", true],
+      ["a/b/four", true],
+      ["a/four", false],
+      ["a/b/ignored-dir/foo", true],
+      ["top-level-dir/file", true],
+      ["a/top-level-dir/file", true],
+    ])("%s should be ignored: %s", (filePath, expected) => {
+      const ignoreManager = new IgnoreManager(tempDir, false);
+
+      expect(ignoreManager.shouldIgnore(filePath)).toBe(expected);
+    });
+  });
+
+  describe("ignored directories", () => {
+    test("should not read ignore files inside ignored directories", () => {
+      writeFile(".bugmentignore", "build/\n");
+      writeFile("build/.bugmentignore", "!*\n");
+
+      const ignoreManager = new IgnoreManager(tempDir, false);
+
+      expect(ignoreManager.getPatterns()).toEqual(["build/"]);
+      expect(ignoreManager.shouldIgnore("build/app.js")).toBe(true);
+    });
+  });
+
+  describe("negation", () => {
+    test("should re-include files matched by a later negated pattern", () => {
+      writeFile(".bugmentignore", "*.log\n!important.log\n");
+
+      const ignoreManager = new IgnoreManager(tempDir, false);
+
+      expect(ignoreManager.shouldIgnore("debug.log")).toBe(true);
+      expect(ignoreManager.shouldIgnore("logs/important.log")).toBe(false);
+    });
+
+    test("should not re-include files inside an ignored directory", () => {
+      writeFile(".bugmentignore", "dist/\n!dist/keep.js\n");
+
+      const ignoreManager = new IgnoreManager(tempDir, false);
+
+      expect(ignoreManager.shouldIgnore("dist/keep.js")).toBe(true);
+    });
+
+    test("should re-include files when only the directory contents are ignored", () => {
+      writeFile(".bugmentignore", "/dist/*\n!/dist/keep.js\n");
+
+      const ignoreManager = new IgnoreManager(tempDir, false);
+
+      expect(ignoreManager.shouldIgnore("dist/app.js")).toBe(true);
+      expect(ignoreManager.shouldIgnore("dist/keep.js")).toBe(false);
+    });
+
+    test("should let configured patterns re-include default patterns", () => {
+      const ignoreManager = new IgnoreManager(tempDir);
+      ignoreManager.addPattern("!yarn.lock");
+
+      expect(ignoreManager.shouldIgnore("yarn.lock")).toBe(false);
+      expect(ignoreManager.shouldIgnore("package-lock.json")).toBe(true);
+    });
+  });
+
+  describe("anchoring and directories", () => {
+    test("should anchor patterns with a leading slash to the ignore file directory", () => {
+      writeFile("src/.bugmentignore", "/generated.ts\n");
+
+      const ignoreManager = new IgnoreManager(tempDir, false);
+
+      expect(ignoreManager.shouldIgnore("src/generated.ts")).toBe(true);
+      expect(ignoreManager.shouldIgnore("src/lib/generated.ts")).toBe(false);
+      expect(ignoreManager.shouldIgnore("generated.ts")).toBe(false);
+    });
+
+    test("should ignore files inside directories matched by name", () => {
+      writeFile(".bugmentignore", "fixtures\n");
+
+      const ignoreManager = new IgnoreManager(tempDir, false);
+
+      expect(ignoreManager.shouldIgnore("test/fixtures/data.json")).toBe(true);
+      expect(ignoreManager.shouldIgnore("test/fixtures.ts")).toBe(false);
+    });
+  });
+
+  describe("explain", () => {
+    test("should report the matching pattern with its file and line", () => {
+      writeFile(".bugmentignore", "# generated\n*.gen.ts\n");
+      writeFile("web/.bugmentignore", "\n!keep.gen.ts\nfixtures/\n");
+
+      const ignoreManager = new IgnoreManager(tempDir);
+
+      expect(ignoreManager.explain("web/schema.gen.ts")).toEqual({
+        filePath: "web/schema.gen.ts",
+        pattern: "*.gen.ts",
+        source: ".bugmentignore",
+        line: 2,
+      });
+      expect(ignoreManager.explain("web/fixtures/data.json")).toEqual({
+        filePath: "web/fixtures/data.json",
+        pattern: "fixtures/",
+        source: "web/.bugmentignore",
+        line: 3,
+      });
+      expect(ignoreManager.explain("web/keep.gen.ts")).toBeUndefined();
+    });
+
+    test("should report default and configured rules without a line", () => {
+      const ignoreManager = new IgnoreManager(tempDir);
+      ignoreManager.addPattern("docs/**");
+
+      expect(ignoreManager.explain("package-lock.json")).toEqual({
+        filePath: "package-lock.json",
+        pattern: "package-lock.json",
+        source: "default",
+      });
+      expect(ignoreManager.explain("docs/guide.md")).toEqual({
+        filePath: "docs/guide.md",
+        pattern: "docs/**",
+        source: "config",
+      });
+      expect(ignoreManager.explain("src/index.ts")).toBeUndefined();
+    });
+  });
+
+  describe(".gitattributes", () => {
+    beforeEach(() => {
+      writeFile(
+        ".gitattributes",
+        [
+          "# generated code",
+          "*.pb.go linguist-generated=true",
+          "api/legacy.pb.go -linguist-generated",
+          "third_party/** linguist-vendored",
+          "third_party/ours/** linguist-vendored=false",
+          "*.ts text eol=lf",
+        ].join("\n")
+      );
+      writeFile("web/.gitattributes", "schema.ts linguist-generated\n");
+    });
+
+    test("should ignore generated and vendored files when enabled", () => {
+      const ignoreManager = new IgnoreManager(tempDir, false, true);
+
+      expect(ignoreManager.shouldIgnore("api/service.pb.go")).toBe(true);
+      expect(ignoreManager.shouldIgnore("api/legacy.pb.go")).toBe(false);
+      expect(ignoreManager.shouldIgnore("third_party/lib/a.c")).toBe(true);
+      expect(ignoreManager.shouldIgnore("third_party/ours/a.c")).toBe(false);
+      expect(ignoreManager.shouldIgnore("web/schema.ts")).toBe(true);
+      expect(ignoreManager.shouldIgnore("web/app.ts")).toBe(false);
+      expect(ignoreManager.shouldIgnore("schema.ts")).toBe(false);
+    });
+
+    test("should not read .gitattributes by default", () => {
+      const ignoreManager = new IgnoreManager(tempDir, false);
+
+      expect(ignoreManager.shouldIgnore("api/service.pb.go")).toBe(false);
+    });
+  });
+});
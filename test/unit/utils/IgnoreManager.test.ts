@@ -6,6 +6,7 @@ import * as path from "path";
 jest.mock("fs", () => ({
   existsSync: jest.fn(),
   readFileSync: jest.fn(),
+  readdirSync: jest.fn(() => []),
   promises: {
     access: jest.fn(),
     readFile: jest.fn(),
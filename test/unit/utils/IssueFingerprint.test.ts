@@ -0,0 +1,160 @@
+import { IssueFingerprint } from "../../../src/utils/IssueFingerprint";
+import { LineMapper } from "../../../src/utils/LineMapper";
+import { ReviewIssue } from "../../../src/core/types";
+
+describe("IssueFingerprint", () => {
+  const baseIssue: ReviewIssue = {
+    id: "bug_1",
+    type: "bug",
+    severity: "high",
+    title: "Possible null dereference",
+    description: "user may be null when the session expired",
+    location: "src/auth.ts#L10",
+    filePath: "src/auth.ts",
+    lineNumber: 10,
+  };
+
+  const fileLines = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`);
+
+  describe("compute", () => {
+    test("should hash the same code identically regardless of position and whitespace", () => {
+      const shiftedLines = ["// new header", "", ...fileLines].map((line) =>
+        line.replace(" ", "   ")
+      );
+
+      const original = IssueFingerprint.compute(baseIssue, fileLines);
+      const shifted = IssueFingerprint.compute(
+        { ...baseIssue, lineNumber: 12, title: "Reworded title" },
+        shiftedLines
+      );
+
+      expect(original).toBeDefined();
+      expect(shifted).toBe(original);
+    });
+
+    test("should fall back to the diff hunk", () => {
+      const issue = { ...baseIssue, diffHunk: "+const user = getUser();" };
+
+      expect(IssueFingerprint.compute(issue)).toBe(
+        IssueFingerprint.compute({
+          ...issue,
+          diffHunk: "const  user = getUser();",
+        })
+      );
+    });
+
+    test("should return undefined without a snippet", () => {
+      expect(IssueFingerprint.compute(baseIssue)).toBeUndefined();
+    });
+  });
+
+  describe("textSimilarity", () => {
+    test("should score reworded descriptions as similar", () => {
+      expect(
+        IssueFingerprint.textSimilarity(
+          "user may be null when the session expired",
+          "user may be null after the session expired"
+        )
+      ).toBeGreaterThan(IssueFingerprint.TEXT_SIMILARITY_THRESHOLD);
+    });
+
+    test("should score unrelated text as dissimilar", () => {
+      expect(
+        IssueFingerprint.textSimilarity("SQL injection", "Unused variable")
+      ).toBeLessThan(IssueFingerprint.TEXT_SIMILARITY_THRESHOLD);
+    });
+  });
+
+  describe("matchScore", () => {
+    test("should match issues with the same fingerprint despite rewording", () => {
+      const previous = { ...baseIssue, fingerprint: "abc" };
+      const current = {
+        ...baseIssue,
+        lineNumber: 40,
+        title: "Completely different wording",
+        description: "Another explanation",
+        fingerprint: "abc",
+      };
+
+      expect(IssueFingerprint.isSameIssue(previous, current)).toBe(true);
+    });
+
+    test("should follow line shifts through the line mapper", () => {
+      const mapper = LineMapper.fromDiff(`diff --git a/src/auth.ts b/src/auth.ts
+--- a/src/auth.ts
++++ b/src/auth.ts
+@@ -1,0 +1,5 @@
++a
++b
++c
++d
++e`);
+      const current = {
+        ...baseIssue,
+        lineNumber: 15,
+        title: "Unchecked value",
+        description: "Completely different explanation",
+      };
+
+      expect(IssueFingerprint.isSameIssue(baseIssue, current)).toBe(false);
+      expect(IssueFingerprint.isSameIssue(baseIssue, current, mapper)).toBe(
+        true
+      );
+    });
+
+    test("should match nearby issues with similar text", () => {
+      const current = {
+        ...baseIssue,
+        lineNumber: 13,
+        description: "user may be null after the session expired",
+      };
+
+      expect(IssueFingerprint.isSameIssue(baseIssue, current)).toBe(true);
+    });
+
+    test("should not match issues of different types or files", () => {
+      expect(
+        IssueFingerprint.isSameIssue(baseIssue, {
+          ...baseIssue,
+          type: "security",
+        })
+      ).toBe(false);
+      expect(
+        IssueFingerprint.isSameIssue(baseIssue, {
+          ...baseIssue,
+          filePath: "src/other.ts",
+        })
+      ).toBe(false);
+    });
+
+    test("should parse file and line from location when fields are missing", () => {
+      const previous: ReviewIssue = {
+        ...baseIssue,
+        filePath: undefined,
+        lineNumber: undefined,
+        location: "src/auth.ts:10",
+      };
+
+      expect(IssueFingerprint.getFilePath(previous)).toBe("src/auth.ts");
+      expect(IssueFingerprint.getLineNumber(previous)).toBe(10);
+      expect(IssueFingerprint.isSameIssue(previous, baseIssue)).toBe(true);
+    });
+  });
+
+  describe("matchIssues", () => {
+    test("should pair each issue at most once, preferring the best match", () => {
+      const previous = [baseIssue];
+      const exact = { ...baseIssue, id: "bug_2" };
+      const nearby = {
+        ...baseIssue,
+        id: "bug_3",
+        lineNumber: 11,
+      };
+
+      const matches = IssueFingerprint.matchIssues(previous, [nearby, exact]);
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0]?.current).toBe(exact);
+    });
+  });
+});
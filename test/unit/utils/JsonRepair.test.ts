@@ -0,0 +1,67 @@
+import { JsonRepair } from "../../../src/utils/JsonRepair";
+
+describe("JsonRepair", () => {
+  describe("repair", () => {
+    it("should leave valid JSON unchanged", () => {
+      const json = '{"a": [1, 2], "b": "x"}';
+
+      expect(JsonRepair.repair(json)).toBe(json);
+    });
+
+    it("should remove trailing commas", () => {
+      expect(JSON.parse(JsonRepair.repair('{"a": [1, 2,], "b": 3,}'))).toEqual({
+        a: [1, 2],
+        b: 3,
+      });
+    });
+
+    it("should escape raw control characters inside strings", () => {
+      expect(
+        JSON.parse(JsonRepair.repair('{"a": "line1\nline2\tend"}'))
+      ).toEqual({ a: "line1\nline2\tend" });
+    });
+
+    it("should keep brackets and escaped quotes inside strings", () => {
+      expect(
+        JSON.parse(JsonRepair.repair('{"a": "x = [1, {\\"y\\": 2}],",}'))
+      ).toEqual({ a: 'x = [1, {"y": 2}],' });
+    });
+
+    it("should drop the incomplete last element of a truncated array", () => {
+      const truncated =
+        '{"summary": {"overallComments": ["ok"]}, "issues": [{"id": "a", "tags": ["x"]}, {"id": "b", "tags": ["y", "z';
+
+      expect(JSON.parse(JsonRepair.repair(truncated))).toEqual({
+        summary: { overallComments: ["ok"] },
+        issues: [{ id: "a", tags: ["x"] }],
+      });
+    });
+
+    it("should close a truncated string outside of arrays", () => {
+      expect(JSON.parse(JsonRepair.repair('{"a": 1, "b": "trunc'))).toEqual({
+        a: 1,
+        b: "trunc",
+      });
+    });
+
+    it("should strip a dangling key", () => {
+      expect(JSON.parse(JsonRepair.repair('{"a": 1, "b":'))).toEqual({ a: 1 });
+      expect(JSON.parse(JsonRepair.repair('{"a": 1, "b'))).toEqual({ a: 1 });
+    });
+  });
+
+  describe("extractLargestObject", () => {
+    it("should return the largest parseable object", () => {
+      const text =
+        'Note {not json} first {"a": 1} then {"issues": [{"id": 1}], "b": "}"} done';
+
+      expect(JsonRepair.extractLargestObject(text)).toBe(
+        '{"issues": [{"id": 1}], "b": "}"}'
+      );
+    });
+
+    it("should return undefined when no object can be parsed", () => {
+      expect(JsonRepair.extractLargestObject("no json {here")).toBeUndefined();
+    });
+  });
+});
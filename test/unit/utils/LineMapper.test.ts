@@ -0,0 +1,57 @@
+import { LineMapper } from "../../../src/utils/LineMapper";
+
+describe("LineMapper", () => {
+  const diff = `diff --git a/src/app.ts b/src/app.ts
+index 1111111..2222222 100644
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1,4 +1,6 @@
++import a from "a";
++import b from "b";
+ const x = 1;
+-const y = 2;
++const y = 3;
+ const z = 4;
+ export { x };
+@@ -10,0 +13,2 @@ function run() {
++  log();
++  log();
+diff --git a/src/old-name.ts b/src/new-name.ts
+similarity index 90%
+rename from src/old-name.ts
+rename to src/new-name.ts
+index 3333333..4444444 100644
+--- a/src/old-name.ts
++++ b/src/new-name.ts
+@@ -5,2 +5,1 @@
+-removed();
+ kept();`;
+
+  const mapper = LineMapper.fromDiff(diff);
+
+  test("should shift lines after insertions", () => {
+    expect(mapper.mapLine("src/app.ts", 1)).toBe(3);
+    expect(mapper.mapLine("src/app.ts", 3)).toBe(5);
+    expect(mapper.mapLine("src/app.ts", 8)).toBe(10);
+  });
+
+  test("should return undefined for deleted lines", () => {
+    expect(mapper.mapLine("src/app.ts", 2)).toBeUndefined();
+  });
+
+  test("should account for pure insertion hunks", () => {
+    expect(mapper.mapLine("src/app.ts", 10)).toBe(12);
+    expect(mapper.mapLine("src/app.ts", 11)).toBe(15);
+  });
+
+  test("should map renamed files and their lines", () => {
+    expect(mapper.mapPath("src/old-name.ts")).toBe("src/new-name.ts");
+    expect(mapper.mapLine("src/old-name.ts", 6)).toBe(5);
+    expect(mapper.mapLine("src/old-name.ts", 5)).toBeUndefined();
+  });
+
+  test("should leave unchanged files untouched", () => {
+    expect(mapper.mapPath("src/other.ts")).toBe("src/other.ts");
+    expect(mapper.mapLine("src/other.ts", 42)).toBe(42);
+  });
+});
@@ -0,0 +1,138 @@
+import { ReviewMetadata } from "../../../src/utils/ReviewMetadata";
+import { ReviewResult } from "../../../src/core/types";
+
+jest.mock("@actions/core", () => ({
+  info: jest.fn(),
+  warning: jest.fn(),
+}));
+
+describe("ReviewMetadata", () => {
+  test("should round-trip the reviewed SHA marker", () => {
+    const sha = "0123456789abcdef0123456789abcdef01234567";
+    const body = `## Bugment Code Review\n\n${ReviewMetadata.createReviewedShaMarker(sha)}\n`;
+
+    expect(ReviewMetadata.extractReviewedSha(body)).toBe(sha);
+  });
+
+  test("should return undefined when no marker is present", () => {
+    expect(
+      ReviewMetadata.extractReviewedSha("## Bugment Code Review")
+    ).toBeUndefined();
+  });
+
+  test("should ignore markers with invalid SHAs", () => {
+    expect(
+      ReviewMetadata.extractReviewedSha(
+        "<!-- bugment:reviewed-sha=not-a-sha -->"
+      )
+    ).toBeUndefined();
+  });
+
+  test("should round-trip the issue marker", () => {
+    const body = `Some comment\n\n${ReviewMetadata.createIssueMarker("0123abcd")}`;
+
+    expect(ReviewMetadata.extractIssueKey(body)).toBe("0123abcd");
+    expect(ReviewMetadata.extractIssueKey("Some comment")).toBeUndefined();
+  });
+
+  test("should extract every suppression marker", () => {
+    const body = `Ignored\n\n${ReviewMetadata.createSuppressionMarker("aaaa1111")}\n${ReviewMetadata.createSuppressionMarker("bbbb2222")}`;
+
+    expect(ReviewMetadata.extractSuppressedFingerprints(body)).toEqual([
+      "aaaa1111",
+      "bbbb2222",
+    ]);
+    expect(ReviewMetadata.extractSuppressedFingerprints("Ignored")).toEqual([]);
+  });
+
+  test("should detect path-scoped reviews", () => {
+    expect(
+      ReviewMetadata.isPathScoped(
+        `## Bugment Code Review\n${ReviewMetadata.createPathScopeMarker()}`
+      )
+    ).toBe(true);
+    expect(ReviewMetadata.isPathScoped("## Bugment Code Review")).toBe(false);
+  });
+
+  describe("review result block", () => {
+    const reviewResult: ReviewResult = {
+      reviewId: "review-1",
+      timestamp: "2024-01-01T00:00:00Z",
+      commitSha: "abc1234",
+      summary: "Summary",
+      issues: [
+        {
+          id: "bug_1",
+          type: "bug",
+          severity: "high",
+          title: "Null dereference",
+          description: "value may be null",
+          location: "src/a.ts#L10",
+          filePath: "src/a.ts",
+          lineNumber: 10,
+          fixPrompt: "Check for null ".repeat(200),
+        },
+      ],
+      totalIssues: 1,
+    };
+
+    test("should round-trip the review result", () => {
+      const block = ReviewMetadata.createReviewResultBlock(
+        reviewResult,
+        ReviewMetadata.MAX_BODY_LENGTH
+      );
+
+      expect(block).toMatch(/^<!-- bugment:review-result=/);
+      expect(
+        ReviewMetadata.extractReviewResult(`## Bugment Code Review\n${block}`)
+      ).toEqual(reviewResult);
+    });
+
+    test("should not persist parsing stats", () => {
+      const block = ReviewMetadata.createReviewResultBlock(
+        {
+          ...reviewResult,
+          parsingStats: {
+            isValidJson: true,
+            parseMethod: "strict",
+            hasIssues: true,
+            hasSummary: true,
+            estimatedIssueCount: 1,
+            schemaErrors: [],
+            droppedIssues: [],
+          },
+        },
+        ReviewMetadata.MAX_BODY_LENGTH
+      );
+
+      expect(ReviewMetadata.extractReviewResult(block)).toEqual(reviewResult);
+    });
+
+    test("should drop large fields when the block does not fit", () => {
+      const fullLength = ReviewMetadata.createReviewResultBlock(
+        reviewResult,
+        ReviewMetadata.MAX_BODY_LENGTH
+      ).length;
+      const block = ReviewMetadata.createReviewResultBlock(
+        reviewResult,
+        fullLength - 1
+      );
+
+      const decoded = ReviewMetadata.extractReviewResult(block);
+      expect(decoded?.issues[0]?.title).toBe("Null dereference");
+      expect(decoded?.issues[0]?.fixPrompt).toBeUndefined();
+    });
+
+    test("should return an empty block when the result cannot fit", () => {
+      expect(ReviewMetadata.createReviewResultBlock(reviewResult, 10)).toBe("");
+    });
+
+    test("should ignore corrupted blocks", () => {
+      expect(
+        ReviewMetadata.extractReviewResult(
+          "<!-- bugment:review-result=bm90LWRlZmxhdGU= -->"
+        )
+      ).toBeUndefined();
+    });
+  });
+});
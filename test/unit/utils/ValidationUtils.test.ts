@@ -1,3 +1,6 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 import { ValidationUtils } from "../../../src/utils/ValidationUtils";
 import {
   ActionInputs,
@@ -42,6 +45,16 @@ describe("ValidationUtils", () => {
       const isValid = ValidationUtils.validateActionInputs(invalidInputs);
       expect(isValid).toBe(false);
     });
+
+    test("should not require Augment credentials for the openai backend", () => {
+      const inputs = {
+        ...validInputs,
+        augmentAccessToken: "",
+        augmentTenantUrl: "",
+      };
+      expect(ValidationUtils.validateActionInputs(inputs, "openai")).toBe(true);
+      expect(ValidationUtils.validateActionInputs(inputs)).toBe(false);
+    });
   });
 
   describe("validatePullRequestInfo", () => {
@@ -225,6 +238,69 @@ describe("ValidationUtils", () => {
     });
   });
 
+  describe("resolveWorkspacePath", () => {
+    test("should resolve paths inside the workspace", () => {
+      expect(
+        ValidationUtils.resolveWorkspacePath("/work/repo", "src/a.ts")
+      ).toBe("/work/repo/src/a.ts");
+      expect(
+        ValidationUtils.resolveWorkspacePath("/work/repo", "/work/repo/a.ts")
+      ).toBe("/work/repo/a.ts");
+    });
+
+    test("should reject paths that escape the workspace", () => {
+      expect(
+        ValidationUtils.resolveWorkspacePath("/work/repo", "../repo-other/a.ts")
+      ).toBeUndefined();
+      expect(
+        ValidationUtils.resolveWorkspacePath(
+          "/work/repo",
+          "/work/repo-other/a.ts"
+        )
+      ).toBeUndefined();
+      expect(
+        ValidationUtils.resolveWorkspacePath("/work/repo", "/etc/passwd")
+      ).toBeUndefined();
+    });
+
+    test("should reject symlinks that point outside the workspace", () => {
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "bugment-paths-"));
+      try {
+        const workspaceDir = path.join(tempDir, "repo");
+        fs.mkdirSync(path.join(workspaceDir, "src"), { recursive: true });
+        fs.writeFileSync(path.join(workspaceDir, "src", "a.ts"), "");
+        fs.symlinkSync("/etc/passwd", path.join(workspaceDir, "passwd"));
+        fs.symlinkSync(tempDir, path.join(workspaceDir, "parent"));
+        fs.symlinkSync(
+          path.join(tempDir, "missing"),
+          path.join(workspaceDir, "dangling")
+        );
+        fs.symlinkSync("src", path.join(workspaceDir, "source"));
+
+        expect(
+          ValidationUtils.resolveWorkspacePath(workspaceDir, "passwd")
+        ).toBeUndefined();
+        expect(
+          ValidationUtils.resolveWorkspacePath(workspaceDir, "parent/out.sarif")
+        ).toBeUndefined();
+        expect(
+          ValidationUtils.resolveWorkspacePath(workspaceDir, "dangling")
+        ).toBeUndefined();
+        expect(
+          ValidationUtils.resolveWorkspacePath(workspaceDir, "source/a.ts")
+        ).toBe(path.join(workspaceDir, "source", "a.ts"));
+        expect(
+          ValidationUtils.resolveWorkspacePath(
+            workspaceDir,
+            "reports/new.sarif"
+          )
+        ).toBe(path.join(workspaceDir, "reports", "new.sarif"));
+      } finally {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+  });
+
   describe("validateDiffContent", () => {
     test("should validate correct diff content", () => {
       const validDiff = `diff --git a/test.ts b/test.ts
@@ -249,4 +325,153 @@ describe("ValidationUtils", () => {
       expect(isValid).toBe(false);
     });
   });
+
+  describe("validateRepositoryConfig", () => {
+    test("should accept a valid config", () => {
+      const errors = ValidationUtils.validateRepositoryConfig({
+        language: "en",
+        severityThreshold: "medium",
+        minConfidence: 0.5,
+        maxLineComments: 20,
+        snapDistance: 5,
+        incremental: true,
+        ignore: {
+          useDefaults: false,
+          patterns: ["docs/**"],
+          gitattributes: true,
+        },
+        policy: { failOn: "any_issue" },
+        backend: {
+          type: "openai",
+          baseUrl: "http://localhost:8080/v1",
+          model: "qwen2.5-coder",
+          timeoutSeconds: 300,
+          idleTimeoutSeconds: 60,
+        },
+        chunking: { maxTokens: 20000, concurrency: 2 },
+        onParseError: "warn",
+        rules: [
+          { paths: ["src/payments/**"], mode: "strict", focus: ["security"] },
+          { paths: ["**/*.test.ts"], maxSeverity: "medium" },
+          { name: "migrations", paths: ["migrations/"], checklist: ["..."] },
+        ],
+        prompt: {
+          template: ".github/bugment/prompt.md",
+          guidelines: ["CONTRIBUTING.md", ".bugment/rules/*.md"],
+        },
+        sarifFile: "results/bugment.sarif",
+        publish: ["review", "check"],
+        commands: { allowedAssociations: ["OWNER", "CONTRIBUTOR"] },
+        feedback: { file: "reports/feedback.json", pullRequests: 50 },
+      });
+      expect(errors).toEqual([]);
+    });
+
+    test("should accept an empty config", () => {
+      expect(ValidationUtils.validateRepositoryConfig(undefined)).toEqual([]);
+    });
+
+    test("should report unknown and invalid keys with their paths", () => {
+      const errors = ValidationUtils.validateRepositoryConfig({
+        langauge: "en",
+        minConfidence: 1.5,
+        maxLineComments: -1,
+        snapDistance: 1.5,
+        incremental: "yes",
+        ignore: { patterns: "docs/**", gitattributes: "yes" },
+        policy: { rules: [{ match: {}, action: "deny" }] },
+        backend: {
+          type: "gpt",
+          baseUrl: "localhost:8080",
+          idleTimeoutSeconds: 0,
+        },
+        chunking: { maxTokens: -1, concurrency: 0 },
+        onParseError: "ignore",
+        rules: [{ paths: [], mode: "paranoid" }],
+        prompt: { append: "extra.md" },
+        sarifFile: "",
+        publish: ["review", "status"],
+        commands: { allowedAssociations: ["ADMIN"], enabled: true },
+        feedback: { file: "", pullRequests: 500 },
+      });
+
+      expect(errors).toEqual([
+        expect.stringMatching(/^langauge: unknown key/),
+        "minConfidence: expected number in [0, 1]",
+        "maxLineComments: expected non-negative integer",
+        "snapDistance: expected non-negative integer",
+        "incremental: expected boolean",
+        "ignore.gitattributes: expected boolean",
+        "ignore.patterns: expected array",
+        "policy.rules[0].action: expected one of block, allow",
+        "backend.type: expected one of augment, openai",
+        "backend.baseUrl: expected http(s) URL",
+        "backend.idleTimeoutSeconds: expected positive number",
+        "chunking.maxTokens: expected non-negative integer",
+        "chunking.concurrency: expected positive integer",
+        "onParseError: expected one of fail, warn",
+        "sarifFile: expected non-empty string",
+        "publish[1]: expected one of review, check",
+        "rules[0].paths: expected non-empty array",
+        "rules[0].mode: expected one of strict, standard, lenient, minimal",
+        "prompt.append: expected array",
+        "commands.enabled: unknown key",
+        expect.stringMatching(
+          /^commands\.allowedAssociations\[0\]: expected one of OWNER, MEMBER/
+        ),
+        "feedback.file: expected non-empty string",
+        "feedback.pullRequests: expected integer from 1 to 100",
+      ]);
+    });
+
+    test("should reject a non-object root", () => {
+      expect(ValidationUtils.validateRepositoryConfig(["en"])).toEqual([
+        "<root>: expected object",
+      ]);
+    });
+  });
+
+  describe("validateSuggestion", () => {
+    const original = ["  if (a) {", "    run(a);", "  }"];
+
+    test("should accept a change limited to the range", () => {
+      expect(
+        ValidationUtils.validateSuggestion(
+          "  if (a && b) {\n    run(a);\n  }",
+          original,
+          { before: "function f() {", after: "}" }
+        )
+      ).toEqual([]);
+    });
+
+    test("should reject suggestions that do not change the code", () => {
+      expect(
+        ValidationUtils.validateSuggestion(original.join("\n"), original)
+      ).toEqual(["suggestion: does not change the code"]);
+    });
+
+    test("should reject suggestions that repeat lines around the range", () => {
+      const errors = ValidationUtils.validateSuggestion(
+        "function f() {\n  if (a && b) {\n    run(a);\n  }\n  return;",
+        original,
+        { before: "function f() {", after: "  return;" }
+      );
+
+      expect(errors).toEqual([
+        "suggestion: repeats the line before the range",
+        "suggestion: repeats the line after the range",
+      ]);
+    });
+
+    test("should reject whitespace changes on unrelated lines", () => {
+      const errors = ValidationUtils.validateSuggestion(
+        "  if (a && b) {\n      run(a);\n  }",
+        original
+      );
+
+      expect(errors).toEqual([
+        "suggestion: changes only whitespace on line 2 of the range",
+      ]);
+    });
+  });
 });